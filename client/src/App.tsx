@@ -21,6 +21,10 @@ import ContactUpload from "@/pages/contact-upload";
 import WhatsAppConnect from "@/pages/whatsapp-connect";
 import EmailConfigure from "@/pages/email-configure";
 import Integrations from "@/pages/integrations";
+import Inbox from "@/pages/inbox";
+import Costs from "@/pages/costs";
+import MediaLibrary from "@/pages/media-library";
+import CampaignApprovals from "@/pages/campaign-approvals";
 import NotFound from "@/pages/not-found";
 import Sidebar from "@/components/layout/sidebar";
 
@@ -56,8 +60,12 @@ function Router() {
                 <Route path="/onboarding" component={Onboarding} />
                 <Route path="/campaigns" component={Campaigns} />
                 <Route path="/campaigns/configure" component={CampaignConfiguration} />
+                <Route path="/campaigns/approvals" component={CampaignApprovals} />
                 <Route path="/campaigns/monitor/:campaignId" component={CampaignMonitoring} />
                 <Route path="/campaigns/upload/:id" component={ContactUpload} />
+                <Route path="/inbox" component={Inbox} />
+                <Route path="/costs" component={Costs} />
+                <Route path="/media" component={MediaLibrary} />
                 <Route path="/integrations" component={Integrations} />
                 <Route path="/whatsapp/connect" component={WhatsAppConnect} />
                 <Route path="/email/configure" component={EmailConfigure} />
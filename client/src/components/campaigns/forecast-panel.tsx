@@ -0,0 +1,202 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { FORECAST_SKIP_LABELS, type CampaignForecast, type ForecastSkipReason } from "@shared/forecast";
+import { STRATEGY_CHANNELS } from "@shared/channelStrategy";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, CalendarClock, FlaskConical } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+const formatMoney = (value: number, currency = "BRL") =>
+  value.toLocaleString("pt-BR", { style: "currency", currency, minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDateTime = (iso: string, timeZone: string) =>
+  new Date(iso).toLocaleString("pt-BR", { timeZone, dateStyle: "short", timeStyle: "short" });
+
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}min`;
+  return `${minutes}min`;
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+export function CampaignForecastPanel({ campaignId }: { campaignId: string }) {
+  const { toast } = useToast();
+
+  const forecastMutation = useMutation({
+    mutationFn: async (): Promise<CampaignForecast> => {
+      const response = await apiRequest("POST", `/api/mass-campaigns/${campaignId}/forecast`);
+      return response.json();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro na simulação",
+        description: error.message || "Não foi possível simular a campanha",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const forecast = forecastMutation.data;
+  const skippedTotal = forecast
+    ? Object.values(forecast.contacts.skipped).reduce((sum, count) => sum + count, 0)
+    : 0;
+  const overBudget = !!forecast && forecast.cost.affordableSends !== null && forecast.cost.affordableSends < forecast.cost.initialSends;
+
+  return (
+    <Card data-testid="card-forecast">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Simulação de Envio
+          </CardTitle>
+          <CardDescription>
+            Passa a lista pelas mesmas regras do envio (blacklist, validação, template, horário e rate limiting) sem enviar nada
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => forecastMutation.mutate()}
+          disabled={forecastMutation.isPending}
+          data-testid="button-run-forecast"
+        >
+          {forecastMutation.isPending ? "Simulando..." : forecast ? "Simular novamente" : "Simular"}
+        </Button>
+      </CardHeader>
+
+      {forecast && (
+        <CardContent className="space-y-6">
+          {forecast.messages.templateErrors.length > 0 && (
+            <Alert variant="destructive" data-testid="alert-forecast-template-errors">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Template com erros - a campanha não poderá ser iniciada</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {forecast.messages.templateErrors.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {overBudget && (
+            <Alert data-testid="alert-forecast-budget">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Orçamento insuficiente</AlertTitle>
+              <AlertDescription>
+                O orçamento restante de {formatMoney(forecast.cost.budgetRemaining!, forecast.cost.currency)} cobre
+                {" "}{forecast.cost.affordableSends!.toLocaleString()} de {forecast.cost.initialSends.toLocaleString()} envios;
+                a campanha será pausada ao atingi-lo.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4" data-testid="forecast-summary">
+            <Stat
+              label="Envios previstos"
+              value={forecast.contacts.toSend.toLocaleString()}
+              hint={Object.keys(forecast.cost.channels).length > 1
+                ? STRATEGY_CHANNELS
+                    .filter(({ value }) => forecast.cost.channels[value])
+                    .map(({ value, label }) => `${label}: ${forecast.cost.channels[value]!.toLocaleString()}`)
+                    .join(" · ")
+                : `${forecast.contacts.total.toLocaleString()} contatos na lista`}
+            />
+            <Stat
+              label="Pulados"
+              value={skippedTotal.toLocaleString()}
+              hint={(Object.keys(forecast.contacts.skipped) as ForecastSkipReason[])
+                .map((reason) => `${FORECAST_SKIP_LABELS[reason]}: ${forecast.contacts.skipped[reason]}`)
+                .join(" · ")}
+            />
+            <Stat
+              label="Duração estimada"
+              value={forecast.estimatedEndAt ? formatDuration(forecast.durationMs) : "—"}
+              hint={`1 envio a cada ${Math.round(forecast.sendIntervalMs / 1000)}s em média`}
+            />
+            <Stat
+              label="Custo previsto"
+              value={formatMoney(forecast.cost.initialCost, forecast.cost.currency)}
+              hint={forecast.cost.followUpSteps > 0
+                ? `+ até ${formatMoney(forecast.cost.maxFollowUpCost, forecast.cost.currency)} em follow-ups`
+                : forecast.cost.unitsPerMessage > 1
+                  ? `${formatMoney(forecast.cost.perMessage, forecast.cost.currency)} por segmento, ${forecast.cost.unitsPerMessage.toFixed(1)} segmentos por SMS em média`
+                  : `${formatMoney(forecast.cost.perMessage, forecast.cost.currency)} por mensagem`}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <CalendarClock className="h-4 w-4" />
+            <span>
+              Início {formatDateTime(forecast.startAt, forecast.timezone)}
+              {forecast.estimatedEndAt && <> · término previsto {formatDateTime(forecast.estimatedEndAt, forecast.timezone)}</>}
+              {" "}({forecast.timezone})
+            </span>
+            {forecast.abTestHoldMinutes > 0 && (
+              <Badge variant="outline">Inclui {forecast.abTestHoldMinutes} min aguardando a variante vencedora</Badge>
+            )}
+            {forecast.contacts.outsideWindow > 0 && (
+              <Badge className="bg-yellow-100 text-yellow-800">
+                {forecast.contacts.outsideWindow.toLocaleString()} sem horário de envio nos próximos 14 dias
+              </Badge>
+            )}
+            {forecast.contacts.alreadyProcessed > 0 && (
+              <Badge variant="outline">{forecast.contacts.alreadyProcessed.toLocaleString()} já processados</Badge>
+            )}
+          </div>
+
+          {forecast.timeline.length > 0 && (
+            <div data-testid="forecast-timeline">
+              <p className="text-sm font-medium mb-2">Envios por dia</p>
+              <ResponsiveContainer width="100%" height={220}>
+                <BarChart data={forecast.timeline}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="sends" name="Envios" fill="#3b82f6" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {forecast.messages.samples.length > 0 && (
+            <div className="space-y-2" data-testid="forecast-samples">
+              <p className="text-sm font-medium">
+                Amostra das mensagens ({forecast.messages.distinct.toLocaleString()} textos distintos em
+                {" "}{forecast.messages.rendered.toLocaleString()} mensagens)
+              </p>
+              {forecast.messages.samples.map((sample) => (
+                <div key={sample.contactId} className="rounded-lg border p-3 space-y-1" data-testid={`forecast-sample-${sample.contactId}`}>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">{sample.name || sample.phone}</span>
+                    {sample.name && <span>{sample.phone}</span>}
+                    {sample.variantKey && <Badge variant="outline">Variante {sample.variantKey}</Badge>}
+                    <span>{formatDateTime(sample.sendAt, forecast.timezone)}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{sample.message}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Gauge } from "lucide-react";
+
+interface FrequencyCapSettings {
+  enabled: boolean;
+  maxMessages: number;
+  windowDays: number;
+}
+
+export function FrequencyCapSettingsCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<FrequencyCapSettings>({ enabled: true, maxMessages: 3, windowDays: 30 });
+
+  const { data: settings, isLoading } = useQuery<FrequencyCapSettings>({
+    queryKey: ["/api/settings/frequency-cap"],
+  });
+
+  useEffect(() => {
+    if (settings) setForm(settings);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FrequencyCapSettings) => {
+      const response = await apiRequest("PUT", "/api/settings/frequency-cap", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/frequency-cap"] });
+      toast({
+        title: "Configurações salvas",
+        description: "O limite de frequência foi atualizado",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao salvar",
+        description: error.message || "Não foi possível salvar as configurações",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-frequency-cap-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-orange-600" />
+          Limite de Frequência por Número
+        </CardTitle>
+        <CardDescription>
+          Somando todas as campanhas e canais, um número que já recebeu o máximo de mensagens na janela
+          fica de fora no upload da lista e no momento do envio.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="frequency-cap-enabled">Aplicar limite</Label>
+          <Switch
+            id="frequency-cap-enabled"
+            checked={form.enabled}
+            disabled={isLoading}
+            onCheckedChange={(checked) => setForm({ ...form, enabled: checked })}
+            data-testid="switch-frequency-cap"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="frequency-cap-max">Máximo de mensagens</Label>
+            <Input
+              id="frequency-cap-max"
+              type="number"
+              min={1}
+              max={100}
+              value={form.maxMessages}
+              disabled={isLoading || !form.enabled}
+              onChange={(e) => setForm({ ...form, maxMessages: Number(e.target.value) })}
+              data-testid="input-frequency-cap-max"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="frequency-cap-window">Janela (dias)</Label>
+            <Input
+              id="frequency-cap-window"
+              type="number"
+              min={1}
+              max={365}
+              value={form.windowDays}
+              disabled={isLoading || !form.enabled}
+              onChange={(e) => setForm({ ...form, windowDays: Number(e.target.value) })}
+              data-testid="input-frequency-cap-window"
+            />
+          </div>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate(form)}
+          disabled={isLoading || saveMutation.isPending}
+          data-testid="button-save-frequency-cap"
+        >
+          Salvar
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { Team, User } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PiggyBank } from "lucide-react";
+
+type BudgetScope = "USER" | "TEAM";
+
+export function BudgetEditorCard() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const currentUser = user as User | undefined;
+  const [scope, setScope] = useState<BudgetScope>("USER");
+  const [targetId, setTargetId] = useState("");
+  const [monthlyLimit, setMonthlyLimit] = useState("");
+
+  const { data: members = [] } = useQuery<User[]>({
+    queryKey: ["/api/team/members"],
+  });
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  // O próprio gestor também pode ter orçamento
+  const users = currentUser && !members.some((member) => member.id === currentUser.id)
+    ? [currentUser, ...members]
+    : members;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/budgets", {
+        scope,
+        targetId,
+        monthlyLimit: Number(monthlyLimit.replace(",", ".")),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/costs/dashboard"] });
+      setMonthlyLimit("");
+      toast({
+        title: "Orçamento salvo",
+        description: "O limite mensal já vale para os próximos envios",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao salvar",
+        description: error.message || "Não foi possível salvar o orçamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const limitValue = Number(monthlyLimit.replace(",", "."));
+  const canSave = !!targetId && limitValue > 0 && !saveMutation.isPending;
+
+  return (
+    <Card data-testid="card-budget-editor">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PiggyBank className="h-5 w-5 text-blue-600" />
+          Orçamento Mensal
+        </CardTitle>
+        <CardDescription>
+          Limite de gasto no mês (validações e envios) por vendedor ou equipe. Ao atingir o limite as campanhas
+          do vendedor ou da equipe são pausadas; aos 80% um alerta é registrado no log da campanha.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Aplicar a</Label>
+            <Select
+              value={scope}
+              onValueChange={(value) => {
+                setScope(value as BudgetScope);
+                setTargetId("");
+              }}
+            >
+              <SelectTrigger data-testid="select-budget-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="USER">Vendedor</SelectItem>
+                <SelectItem value="TEAM">Equipe</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{scope === "USER" ? "Vendedor" : "Equipe"}</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger data-testid="select-budget-target">
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {scope === "USER"
+                  ? users.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {`${member.firstName || ""} ${member.lastName || ""}`.trim() || member.email}
+                      </SelectItem>
+                    ))
+                  : teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                    ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="budget-monthly-limit">Limite mensal (R$)</Label>
+            <Input
+              id="budget-monthly-limit"
+              inputMode="decimal"
+              value={monthlyLimit}
+              onChange={(e) => setMonthlyLimit(e.target.value)}
+              data-testid="input-budget-monthly-limit"
+            />
+          </div>
+        </div>
+        <Button onClick={() => saveMutation.mutate()} disabled={!canSave} data-testid="button-save-budget">
+          Salvar orçamento
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
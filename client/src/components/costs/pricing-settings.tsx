@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_PRICE_TABLE, type CostChannel, type PriceTable } from "@shared/budget";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tag } from "lucide-react";
+
+const CHANNEL_LABELS: Record<CostChannel, string> = {
+  WHATSAPP: "WhatsApp",
+  SMS: "SMS",
+  EMAIL: "E-mail",
+};
+
+export function PricingSettingsCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PriceTable>(DEFAULT_PRICE_TABLE);
+
+  const { data: pricing, isLoading } = useQuery<PriceTable>({
+    queryKey: ["/api/settings/pricing"],
+  });
+
+  useEffect(() => {
+    if (pricing) setForm(pricing);
+  }, [pricing]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PriceTable) => {
+      const response = await apiRequest("PUT", "/api/settings/pricing", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/pricing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/costs/dashboard"] });
+      toast({
+        title: "Tabela de preços salva",
+        description: "Os próximos envios serão custeados com os novos valores",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao salvar",
+        description: error.message || "Não foi possível salvar a tabela de preços",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-pricing-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5 text-emerald-600" />
+          Tabela de Preços
+        </CardTitle>
+        <CardDescription>
+          Custo de cada mensagem enviada por canal, incluindo follow-ups. Envios já feitos mantêm o valor da época.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(Object.keys(CHANNEL_LABELS) as CostChannel[]).map((channel) => (
+            <div key={channel} className="space-y-2">
+              <Label htmlFor={`price-${channel}`}>{CHANNEL_LABELS[channel]} ({form.currency})</Label>
+              <Input
+                id={`price-${channel}`}
+                type="number"
+                min="0"
+                step="0.001"
+                value={form.perMessage[channel]}
+                disabled={isLoading}
+                onChange={(e) => setForm({
+                  ...form,
+                  perMessage: { ...form.perMessage, [channel]: Number(e.target.value) },
+                })}
+                data-testid={`input-price-${channel.toLowerCase()}`}
+              />
+            </div>
+          ))}
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate(form)}
+          disabled={isLoading || saveMutation.isPending}
+          data-testid="button-save-pricing"
+        >
+          Salvar
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
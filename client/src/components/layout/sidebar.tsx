@@ -1,3 +1,4 @@
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import type { User } from "@shared/schema";
 import { cn } from "@/lib/utils";
@@ -20,6 +21,10 @@ import {
   Send,
   MessageCircle,
   Mail,
+  Inbox,
+  Wallet,
+  Image,
+  ClipboardCheck,
 } from "lucide-react";
 
 const navigation = [
@@ -27,6 +32,9 @@ const navigation = [
   { name: "Gerar Leads", href: "/leads", icon: Search },
   { name: "Pipeline", href: "/kanban", icon: Columns },
   { name: "Campanhas", href: "/campaigns", icon: Send },
+  { name: "Mídia", href: "/media", icon: Image },
+  { name: "Inbox", href: "/inbox", icon: Inbox },
+  { name: "Custos", href: "/costs", icon: Wallet },
   { name: "Integrações", href: "/integrations", icon: Settings },
   { name: "Vendas", href: "/sales", icon: DollarSign },
   { name: "Ranking", href: "/ranking", icon: Trophy },
@@ -36,6 +44,7 @@ const managerNavigation = [
   { name: "Dashboard Gerencial", href: "/manager-dashboard", icon: BarChart3 },
   { name: "Equipe", href: "/team", icon: Users },
   { name: "Aprovações", href: "/approvals", icon: CheckCircle, badge: 3 },
+  { name: "Aprovar Campanhas", href: "/campaigns/approvals", icon: ClipboardCheck },
   { name: "Configuração Inicial", href: "/onboarding", icon: Settings },
 ];
 
@@ -44,6 +53,19 @@ export default function Sidebar() {
   const typedUser = user as User | undefined;
   const [location] = useLocation();
 
+  // Conversas com mensagens não lidas no inbox compartilhado
+  const { data: inboxUnread } = useQuery<{ unread: number }>({
+    queryKey: ['inbox-unread'],
+    queryFn: async () => {
+      const response = await fetch('/api/inbox/unread-count', { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Failed to fetch unread count');
+      }
+      return response.json();
+    },
+    refetchInterval: 30000,
+  });
+
   const handleLogout = () => {
     window.location.href = "/api/logout";
   };
@@ -55,6 +77,13 @@ export default function Sidebar() {
 
   const isManager = typedUser?.role === "GESTOR" || typedUser?.role === "ADMIN";
 
+  // Campanhas de vendedores aguardando a revisão do gestor
+  const { data: pendingApprovals } = useQuery<unknown[]>({
+    queryKey: ["/api/campaign-approvals"],
+    enabled: isManager,
+    refetchInterval: 60000,
+  });
+
   return (
     <div className="fixed inset-y-0 left-0 w-64 bg-white shadow-lg z-40">
       <div className="flex flex-col h-full">
@@ -114,6 +143,11 @@ export default function Sidebar() {
                 >
                   <item.icon className="mr-3 h-5 w-5" />
                   {item.name}
+                  {item.href === "/inbox" && !!inboxUnread?.unread && (
+                    <Badge variant="destructive" className="ml-auto">
+                      {inboxUnread.unread}
+                    </Badge>
+                  )}
                 </Button>
               </Link>
             );
@@ -137,6 +171,11 @@ export default function Sidebar() {
                     >
                       <item.icon className="mr-3 h-5 w-5" />
                       {item.name}
+                      {item.href === "/campaigns/approvals" && !!pendingApprovals?.length && (
+                        <Badge variant="destructive" className="ml-auto">
+                          {pendingApprovals.length}
+                        </Badge>
+                      )}
                       {item.badge && (
                         <Badge variant="destructive" className="ml-auto">
                           {item.badge}
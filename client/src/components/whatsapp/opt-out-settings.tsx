@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ShieldOff } from "lucide-react";
+
+interface OptOutSettings {
+  confirmationEnabled: boolean;
+  confirmationMessage: string;
+}
+
+// Palavras-chave reconhecidas pelo servidor (sem diferenciar acentos)
+const OPT_OUT_KEYWORDS = ["SAIR", "PARAR", "NÃO QUERO", "REMOVER"];
+
+export function OptOutSettingsCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<OptOutSettings>({ confirmationEnabled: false, confirmationMessage: "" });
+
+  const { data: settings, isLoading } = useQuery<OptOutSettings>({
+    queryKey: ["/api/settings/opt-out"],
+  });
+
+  useEffect(() => {
+    if (settings) setForm(settings);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: OptOutSettings) => {
+      const response = await apiRequest("PUT", "/api/settings/opt-out", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/opt-out"] });
+      toast({
+        title: "Configurações salvas",
+        description: "As configurações de descadastro foram atualizadas",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao salvar",
+        description: error.message || "Não foi possível salvar as configurações",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-opt-out-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldOff className="h-5 w-5 text-red-600" />
+          Descadastro Automático (LGPD)
+        </CardTitle>
+        <CardDescription>
+          Respostas contendo {OPT_OUT_KEYWORDS.map((keyword) => `"${keyword}"`).join(", ")} adicionam o número à blacklist
+          e cancelam os envios pendentes em campanhas ativas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="opt-out-confirmation">Enviar mensagem de confirmação</Label>
+          <Switch
+            id="opt-out-confirmation"
+            checked={form.confirmationEnabled}
+            disabled={isLoading}
+            onCheckedChange={(checked) => setForm({ ...form, confirmationEnabled: checked })}
+            data-testid="switch-opt-out-confirmation"
+          />
+        </div>
+        <Textarea
+          value={form.confirmationMessage}
+          disabled={isLoading || !form.confirmationEnabled}
+          onChange={(e) => setForm({ ...form, confirmationMessage: e.target.value })}
+          rows={3}
+          data-testid="input-opt-out-message"
+        />
+        <Button
+          onClick={() => saveMutation.mutate(form)}
+          disabled={isLoading || saveMutation.isPending}
+          data-testid="button-save-opt-out"
+        >
+          Salvar
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
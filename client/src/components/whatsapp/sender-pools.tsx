@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Layers, Plus, QrCode, Trash2, WifiOff } from "lucide-react";
+import type { SenderPool, WhatsappSender } from "@shared/schema";
+
+type SenderPoolWithSenders = SenderPool & { canManage: boolean; senders: WhatsappSender[] };
+
+const SENDER_STATUS_LABELS: Record<string, string> = {
+  CONNECTED: "Conectado",
+  WAITING_QR: "Aguardando QR",
+  GENERATING_QR: "Gerando QR",
+  DISCONNECTED: "Desconectado",
+  ERROR: "Erro",
+};
+
+// Envios de hoje; o contador do servidor só zera no primeiro envio do dia
+function sentToday(sender: WhatsappSender) {
+  const today = new Date().toISOString().slice(0, 10);
+  return sender.sentTodayDate === today ? sender.sentToday || 0 : 0;
+}
+
+export function SenderPoolsCard() {
+  const { toast } = useToast();
+  const [poolName, setPoolName] = useState("");
+  const [shareWithTeam, setShareWithTeam] = useState(false);
+  const [newSenderLabels, setNewSenderLabels] = useState<Record<string, string>>({});
+  const [qrDialog, setQrDialog] = useState<{ senderId: string; qrCode: string } | null>(null);
+
+  const { data: pools = [], isLoading } = useQuery<SenderPoolWithSenders[]>({
+    queryKey: ["/api/sender-pools"],
+    // Acompanha a leitura do QR e a retirada automática de números
+    refetchInterval: qrDialog ? 3000 : 30000,
+  });
+
+  const invalidatePools = () => queryClient.invalidateQueries({ queryKey: ["/api/sender-pools"] });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createPoolMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/sender-pools", { name: poolName, shareWithTeam });
+      return response.json();
+    },
+    onSuccess: () => {
+      setPoolName("");
+      setShareWithTeam(false);
+      invalidatePools();
+      toast({ title: "Pool criado", description: "Adicione números ao pool para usá-lo nas campanhas" });
+    },
+    onError: onError("Erro ao criar pool"),
+  });
+
+  const deletePoolMutation = useMutation({
+    mutationFn: async (poolId: string) => apiRequest("DELETE", `/api/sender-pools/${poolId}`),
+    onSuccess: invalidatePools,
+    onError: onError("Erro ao excluir pool"),
+  });
+
+  const addSenderMutation = useMutation({
+    mutationFn: async (poolId: string) => {
+      const response = await apiRequest("POST", `/api/sender-pools/${poolId}/senders`, { label: newSenderLabels[poolId] });
+      return response.json();
+    },
+    onSuccess: (_sender, poolId) => {
+      setNewSenderLabels({ ...newSenderLabels, [poolId]: "" });
+      invalidatePools();
+    },
+    onError: onError("Erro ao adicionar número"),
+  });
+
+  const updateSenderMutation = useMutation({
+    mutationFn: async ({ senderId, updates }: { senderId: string; updates: Partial<Pick<WhatsappSender, "weight" | "dailyCap" | "active">> }) => {
+      const response = await apiRequest("PATCH", `/api/senders/${senderId}`, updates);
+      return response.json();
+    },
+    onSuccess: invalidatePools,
+    onError: onError("Erro ao atualizar número"),
+  });
+
+  const deleteSenderMutation = useMutation({
+    mutationFn: async (senderId: string) => apiRequest("DELETE", `/api/senders/${senderId}`),
+    onSuccess: invalidatePools,
+    onError: onError("Erro ao remover número"),
+  });
+
+  const connectSenderMutation = useMutation({
+    mutationFn: async (senderId: string) => {
+      const response = await apiRequest("POST", `/api/senders/${senderId}/connect`);
+      return response.json();
+    },
+    onSuccess: (data: { qrCode: string }, senderId) => {
+      setQrDialog({ senderId, qrCode: data.qrCode });
+      invalidatePools();
+    },
+    onError: onError("Erro ao gerar QR Code"),
+  });
+
+  const disconnectSenderMutation = useMutation({
+    mutationFn: async (senderId: string) => apiRequest("POST", `/api/senders/${senderId}/disconnect`),
+    onSuccess: invalidatePools,
+    onError: onError("Erro ao desconectar número"),
+  });
+
+  const qrSender = qrDialog
+    ? pools.flatMap((pool) => pool.senders).find((sender) => sender.id === qrDialog.senderId)
+    : undefined;
+  const qrConnected = qrSender?.status === "CONNECTED";
+
+  return (
+    <Card data-testid="card-sender-pools">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-green-600" />
+          Pools de Remetentes
+        </CardTitle>
+        <CardDescription>
+          Conecte vários números e escolha um pool na campanha: os envios são distribuídos em rodízio
+          ponderado, respeitando o limite diário de cada número. Números desconectados ou com erro saem do rodízio automaticamente.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1 flex-1 min-w-[200px]">
+            <Label htmlFor="sender-pool-name">Novo pool</Label>
+            <Input
+              id="sender-pool-name"
+              placeholder="Ex: Números comerciais"
+              value={poolName}
+              onChange={(e) => setPoolName(e.target.value)}
+              data-testid="input-sender-pool-name"
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="sender-pool-share"
+              checked={shareWithTeam}
+              onCheckedChange={setShareWithTeam}
+              data-testid="switch-sender-pool-share"
+            />
+            <Label htmlFor="sender-pool-share">Compartilhar com a equipe</Label>
+          </div>
+          <Button
+            onClick={() => createPoolMutation.mutate()}
+            disabled={!poolName.trim() || createPoolMutation.isPending}
+            data-testid="button-create-sender-pool"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Criar pool
+          </Button>
+        </div>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Carregando pools...</p>}
+        {!isLoading && pools.length === 0 && (
+          <p className="text-sm text-muted-foreground">Nenhum pool criado. Sem pool, as campanhas usam o seu número principal.</p>
+        )}
+
+        {pools.map((pool) => (
+          <div key={pool.id} className="border rounded-lg p-4 space-y-3" data-testid={`sender-pool-${pool.id}`}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{pool.name}</span>
+                {pool.teamId && <Badge variant="secondary">Equipe</Badge>}
+              </div>
+              {pool.canManage && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deletePoolMutation.mutate(pool.id)}
+                  data-testid={`button-delete-sender-pool-${pool.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+
+            {pool.senders.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Número</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Peso</TableHead>
+                    <TableHead>Hoje / Limite</TableHead>
+                    <TableHead>No rodízio</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pool.senders.map((sender) => (
+                    <TableRow key={sender.id} data-testid={`row-sender-${sender.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{sender.label}</div>
+                        <div className="text-xs text-muted-foreground">{sender.connectedPhone || "—"}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={sender.status === "CONNECTED" ? "default" : "outline"}>
+                          {SENDER_STATUS_LABELS[sender.status || "DISCONNECTED"]}
+                        </Badge>
+                        {!sender.active && sender.removedReason && (
+                          <div className="text-xs text-red-600 mt-1" title={sender.removedReason}>
+                            Retirado: {sender.removedReason}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          className="w-20"
+                          defaultValue={sender.weight ?? 1}
+                          disabled={!pool.canManage}
+                          onBlur={(e) => {
+                            const weight = Number(e.target.value);
+                            if (weight >= 1 && weight !== sender.weight) {
+                              updateSenderMutation.mutate({ senderId: sender.id, updates: { weight } });
+                            }
+                          }}
+                          data-testid={`input-sender-weight-${sender.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm">{sentToday(sender)} /</span>
+                          <Input
+                            type="number"
+                            min={1}
+                            className="w-24"
+                            defaultValue={sender.dailyCap ?? 200}
+                            disabled={!pool.canManage}
+                            onBlur={(e) => {
+                              const dailyCap = Number(e.target.value);
+                              if (dailyCap >= 1 && dailyCap !== sender.dailyCap) {
+                                updateSenderMutation.mutate({ senderId: sender.id, updates: { dailyCap } });
+                              }
+                            }}
+                            data-testid={`input-sender-cap-${sender.id}`}
+                          />
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={!!sender.active}
+                          disabled={!pool.canManage}
+                          onCheckedChange={(active) => updateSenderMutation.mutate({ senderId: sender.id, updates: { active } })}
+                          data-testid={`switch-sender-active-${sender.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {pool.canManage && (
+                          <div className="flex gap-1">
+                            {sender.status === "CONNECTED" ? (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => disconnectSenderMutation.mutate(sender.id)}
+                                data-testid={`button-disconnect-sender-${sender.id}`}
+                              >
+                                <WifiOff className="h-4 w-4" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => connectSenderMutation.mutate(sender.id)}
+                                disabled={connectSenderMutation.isPending}
+                                data-testid={`button-connect-sender-${sender.id}`}
+                              >
+                                <QrCode className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteSenderMutation.mutate(sender.id)}
+                              data-testid={`button-delete-sender-${sender.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {pool.canManage && (
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Nome do número (ex: Comercial 2)"
+                  value={newSenderLabels[pool.id] || ""}
+                  onChange={(e) => setNewSenderLabels({ ...newSenderLabels, [pool.id]: e.target.value })}
+                  data-testid={`input-new-sender-${pool.id}`}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => addSenderMutation.mutate(pool.id)}
+                  disabled={!newSenderLabels[pool.id]?.trim() || addSenderMutation.isPending}
+                  data-testid={`button-add-sender-${pool.id}`}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Adicionar número
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!qrDialog} onOpenChange={(open) => !open && setQrDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Conectar {qrSender?.label}</DialogTitle>
+            <DialogDescription>
+              {qrConnected
+                ? `Número ${qrSender?.connectedPhone} conectado e incluído no rodízio.`
+                : "Escaneie o QR Code com o WhatsApp do número que será adicionado ao pool."}
+            </DialogDescription>
+          </DialogHeader>
+          {qrDialog && !qrConnected && (
+            <div className="flex justify-center">
+              <img src={qrDialog.qrCode} alt="QR Code do remetente" className="w-64 h-64" data-testid="img-sender-qr" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
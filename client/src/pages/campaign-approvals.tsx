@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CAMPAIGN_REVIEW_LABELS, type CampaignReviewAction, type CampaignReviewSnapshot } from "@shared/campaignApproval";
+import { MEDIA_KIND_LABELS, type MediaKind } from "@shared/media";
+import type { CampaignReview, CampaignStep, CampaignVariant, MassCampaign } from "@shared/schema";
+import { CampaignForecastPanel } from "@/components/campaigns/forecast-panel";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, Check, ChevronDown, ChevronUp, ClipboardCheck, Paperclip, X } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+// Item da fila de aprovação (GET /api/campaign-approvals)
+interface PendingApproval {
+  campaign: MassCampaign;
+  owner: { id: string; name: string | null };
+  submittedAt: string | null;
+  submissionComment: string | null;
+  snapshot: CampaignReviewSnapshot | null;
+}
+
+// Detalhes para a revisão (GET /api/mass-campaigns/:id/review)
+interface CampaignReviewDetails {
+  campaign: MassCampaign;
+  owner: { id: string; name: string | null };
+  variants: CampaignVariant[];
+  steps: CampaignStep[];
+  media: { id: string; name: string; kind: MediaKind } | null;
+  reviews: (CampaignReview & { actorName: string | null })[];
+}
+
+const formatMoney = (value: number, currency = "BRL") =>
+  value.toLocaleString("pt-BR", { style: "currency", currency, minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDateTime = (value: string | Date) =>
+  format(new Date(value), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+
+function ReviewDetails({ campaignId }: { campaignId: string }) {
+  const { data: details, isLoading } = useQuery<CampaignReviewDetails>({
+    queryKey: [`/api/mass-campaigns/${campaignId}/review`],
+  });
+
+  if (isLoading || !details) {
+    return <p className="text-sm text-muted-foreground">Carregando detalhes...</p>;
+  }
+
+  const { campaign } = details;
+  return (
+    <div className="space-y-4">
+      {details.variants.length > 0 ? (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Variantes do teste A/B</p>
+          {details.variants.map((variant) => (
+            <div key={variant.id} className="rounded-lg border p-3 text-sm">
+              <p className="font-medium">Variante {variant.key}{variant.name ? ` - ${variant.name}` : ""} ({variant.weight}%)</p>
+              <p className="whitespace-pre-wrap text-muted-foreground">{variant.messageTemplate}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Mensagem</p>
+          <p className="rounded-lg border p-3 text-sm whitespace-pre-wrap" data-testid={`text-review-template-${campaign.id}`}>
+            {campaign.messageTemplate}
+          </p>
+        </div>
+      )}
+
+      {details.media && (
+        <p className="flex items-center gap-2 text-sm" data-testid={`text-review-media-${campaign.id}`}>
+          <Paperclip className="h-4 w-4" />
+          <a href={`/api/media/${details.media.id}/file`} target="_blank" rel="noreferrer" className="underline">
+            {details.media.name}
+          </a>
+          <Badge variant="outline">{MEDIA_KIND_LABELS[details.media.kind]}</Badge>
+        </p>
+      )}
+
+      {details.steps.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Sequência de follow-up</p>
+          {details.steps.map((step) => (
+            <div key={step.id} className="rounded-lg border p-3 text-sm">
+              <p className="font-medium">Etapa {step.stepNumber} · após {step.delayDays} dia(s) sem resposta</p>
+              <p className="whitespace-pre-wrap text-muted-foreground">{step.messageTemplate}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {details.reviews.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Histórico</p>
+          {details.reviews.map((review) => (
+            <p key={review.id} className="text-xs text-muted-foreground" data-testid={`text-review-history-${review.id}`}>
+              {review.createdAt ? formatDateTime(review.createdAt) : ""} · {CAMPAIGN_REVIEW_LABELS[review.action as CampaignReviewAction]}
+              {review.actorName ? ` por ${review.actorName}` : ""}
+              {review.comment ? `: ${review.comment}` : ""}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PendingApprovalCard({ item }: { item: PendingApproval }) {
+  const { toast } = useToast();
+  const [comment, setComment] = useState("");
+  const [expanded, setExpanded] = useState(false);
+  const { campaign, snapshot } = item;
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      const response = await apiRequest("POST", `/api/mass-campaigns/${campaign.id}/${decision}`, {
+        comment: comment.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/campaign-approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["mass-campaigns"] });
+      toast({
+        title: decision === "approve" ? "Campanha aprovada" : "Campanha rejeitada",
+        description: decision === "approve"
+          ? "O vendedor já pode iniciar a campanha"
+          : "A campanha voltou para rascunho com o seu comentário",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro na revisão",
+        description: error.message || "Não foi possível registrar a decisão",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid={`card-approval-${campaign.id}`}>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-xl">{campaign.name}</CardTitle>
+            <CardDescription>
+              {item.owner.name || "Vendedor"}
+              {item.submittedAt && ` · enviada em ${formatDateTime(item.submittedAt)}`}
+              {campaign.startTime && ` · início previsto ${formatDateTime(campaign.startTime)}`}
+            </CardDescription>
+          </div>
+          <Badge variant="outline">{campaign.channel}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {item.submissionComment && (
+          <p className="text-sm italic text-muted-foreground">"{item.submissionComment}"</p>
+        )}
+
+        {snapshot && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm" data-testid={`snapshot-${campaign.id}`}>
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Contatos</p>
+              <p className="font-semibold">{snapshot.contacts.toLocaleString()}</p>
+            </div>
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Serão enviados</p>
+              <p className="font-semibold">{snapshot.toSend.toLocaleString()}</p>
+            </div>
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Na blacklist</p>
+              <p className="font-semibold">{snapshot.blacklisted.toLocaleString()}</p>
+            </div>
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Custo estimado</p>
+              <p className="font-semibold">{formatMoney(snapshot.estimatedCost, snapshot.currency)}</p>
+            </div>
+          </div>
+        )}
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setExpanded(!expanded)}
+          data-testid={`button-toggle-details-${campaign.id}`}
+        >
+          {expanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+          {expanded ? "Ocultar detalhes" : "Ver mensagem, mídia, blacklist e custo"}
+        </Button>
+
+        {expanded && (
+          <div className="space-y-4">
+            <ReviewDetails campaignId={campaign.id} />
+            <CampaignForecastPanel campaignId={campaign.id} />
+          </div>
+        )}
+
+        <Textarea
+          placeholder="Comentário para o vendedor (obrigatório para rejeitar)"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          maxLength={1000}
+          data-testid={`textarea-review-comment-${campaign.id}`}
+        />
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="destructive"
+            onClick={() => decisionMutation.mutate("reject")}
+            disabled={!comment.trim() || decisionMutation.isPending}
+            data-testid={`button-reject-${campaign.id}`}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Rejeitar
+          </Button>
+          <Button
+            onClick={() => decisionMutation.mutate("approve")}
+            disabled={decisionMutation.isPending}
+            data-testid={`button-approve-${campaign.id}`}
+          >
+            <Check className="h-4 w-4 mr-1" />
+            Aprovar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CampaignApprovals() {
+  const { data: pending, isLoading, error } = useQuery<PendingApproval[]>({
+    queryKey: ["/api/campaign-approvals"],
+  });
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold" data-testid="text-campaign-approvals-title">Aprovação de Campanhas</h1>
+        <p className="text-muted-foreground">
+          Campanhas de vendedores aguardando revisão antes do envio
+        </p>
+      </div>
+
+      {error && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Erro ao carregar aprovações</AlertTitle>
+          <AlertDescription>{(error as Error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : !pending?.length ? (
+        !error && (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <ClipboardCheck className="h-8 w-8 mx-auto mb-2" />
+              Nenhuma campanha aguardando aprovação
+            </CardContent>
+          </Card>
+        )
+      ) : (
+        <div className="grid gap-6">
+          {pending.map((item) => (
+            <PendingApprovalCard key={item.campaign.id} item={item} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
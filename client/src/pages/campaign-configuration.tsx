@@ -1,6 +1,7 @@
-import { useForm } from "react-hook-form";
+import { Link } from "wouter";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { z } from "zod";
 import { useState } from "react";
@@ -16,11 +17,30 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar, Clock, MessageSquare, Settings, Target, Send, Eye, Zap } from "lucide-react";
+import { Calendar, Clock, MessageSquare, Settings, Target, Send, Eye, Zap, Shuffle, FlaskConical, Plus, Trash2, ListOrdered, ArrowUp, Layers } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { WhatsAppStatus, useWhatsAppStatus } from "@/components/whatsapp/whatsapp-status";
 import { AlertTriangle } from "lucide-react";
+import { BRAZIL_STATES, BRAZIL_TIMEZONES, DEFAULT_TIMEZONE, WEEKDAY_LABELS } from "@shared/workingHours";
+import { TEMPLATE_VARIABLES, renderMessageTemplate, validateMessageTemplate, type TemplateContact } from "@shared/messageTemplate";
+import type { EmailConfiguration, MediaAsset, SenderPool, WhatsappSender } from "@shared/schema";
+import { AB_TEST_METRICS, variantKey } from "@shared/abTest";
+import { splitSmsSegments } from "@shared/smsSegments";
+import { MAX_NO_REPLY_DAYS, STRATEGY_CHANNELS, type StrategyChannel } from "@shared/channelStrategy";
+import { MAX_CAPTION_LENGTH, MEDIA_KIND_LABELS, formatMediaSize } from "@shared/media";
+import { DEFAULT_RETRY_ATTEMPTS, MAX_RETRY_ATTEMPTS } from "@shared/retry";
+
+// Valor do Select para "sem pool" (o Radix não aceita item com valor vazio)
+const PRIMARY_SENDER = "PRIMARY";
+const NO_MEDIA = "NONE";
+
+const templateField = (requiredMessage: string) =>
+  z.string().min(1, requiredMessage).superRefine((template, ctx) => {
+    validateMessageTemplate(template).errors.forEach((error) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+    });
+  });
 
 // Schema de validação baseado no esquema massCampaigns existente
 const campaignConfigSchema = z.object({
@@ -31,22 +51,69 @@ const campaignConfigSchema = z.object({
   
   // Seleção de Canal
   channel: z.enum(["WHATSAPP", "EMAIL", "SMS"]).default("WHATSAPP"),
+  senderPoolId: z.string().default(PRIMARY_SENDER),
+  smsFallback: z.boolean().default(false),
+  emailConfigId: z.string().default(""),
+  emailSubject: z.string().max(200).default(""),
+  mediaAssetId: z.string().default(NO_MEDIA),
+
+  // Campanha híbrida: o canal acima é a primeira opção; os fallbacks marcados seguem a ordem da lista
+  hybridEnabled: z.boolean().default(false),
+  fallbackOrder: z.array(z.enum(["WHATSAPP", "EMAIL", "SMS"])).default(["WHATSAPP", "SMS", "EMAIL"]),
+  fallbackChannels: z.array(z.enum(["WHATSAPP", "EMAIL", "SMS"])).default(["WHATSAPP", "SMS", "EMAIL"]),
+  fallbackOnFailure: z.boolean().default(true),
+  noReplyDays: z.coerce.number().int().min(0).max(MAX_NO_REPLY_DAYS).default(3), // 0 = não reenvia por falta de resposta
   
   // Configuração de Timing
   sendType: z.enum(["IMMEDIATE", "SCHEDULED"]).default("IMMEDIATE"),
   scheduledDate: z.string().optional(),
   scheduledTime: z.string().optional(),
   sendRate: z.coerce.number().min(1).max(1000).default(50), // msgs por hora
+  batchSize: z.coerce.number().int().min(1).max(50).default(1), // envios por ciclo
   workingHoursEnabled: z.boolean().default(false),
-  workingHoursStart: z.string().default("08:00"),
-  workingHoursEnd: z.string().default("18:00"),
+  workingHoursTimezone: z.string().default(DEFAULT_TIMEZONE),
+  workingDays: z.array(z.object({
+    enabled: z.boolean(),
+    start: z.string(),
+    end: z.string(),
+  })).length(7),
+  skipHolidays: z.boolean().default(true),
+  holidayState: z.string().optional(),
+  holidayCity: z.string().optional(),
+  recipientLocalTime: z.boolean().default(true),
   
   // Template de Mensagem
-  messageTemplate: z.string().min(1, "Template da mensagem é obrigatório"),
+  messageTemplate: templateField("Template da mensagem é obrigatório"),
+
+  // Teste A/B: o template acima é a variante A; as demais ficam em abTestVariants
+  abTestEnabled: z.boolean().default(false),
+  abTestWeightA: z.coerce.number().min(1).max(100).default(50),
+  abTestVariants: z.array(z.object({
+    messageTemplate: templateField("Template da variante é obrigatório"),
+    weight: z.coerce.number().min(1).max(100),
+  })).max(4).default([]),
+  abTestMode: z.enum(["SPLIT", "WINNER"]).default("SPLIT"),
+  abTestSlicePercent: z.coerce.number().min(1).max(99).default(20),
+  abTestMetric: z.enum(["DELIVERY", "READ", "REPLY"]).default("REPLY"),
+  abTestDecisionHours: z.coerce.number().min(0).max(168).default(2),
+
+  // Sequência: follow-ups enviados apenas a quem ainda não respondeu
+  followUpSteps: z.array(z.object({
+    messageTemplate: templateField("Template do follow-up é obrigatório"),
+    delayDays: z.coerce.number().min(1).max(60),
+    ownWindow: z.boolean(),
+    windowStart: z.string(),
+    windowEnd: z.string(),
+    weekdaysOnly: z.boolean(),
+  })).max(4).default([]),
   
   // Configurações Avançadas
   retryEnabled: z.boolean().default(false),
-  retryAttempts: z.coerce.number().min(1).max(5).default(3),
+  retryAttempts: z.coerce.number().int().min(1).max(MAX_RETRY_ATTEMPTS).default(DEFAULT_RETRY_ATTEMPTS),
+  budget: z.string().default("").refine(
+    (value) => value.trim() === "" || Number(value.replace(",", ".")) > 0,
+    "Informe um valor maior que zero ou deixe em branco"
+  ), // R$; vazio = sem limite
   customBlacklist: z.string().optional(),
   reportSettings: z.object({
     enableDeliveryReport: z.boolean().default(true),
@@ -61,14 +128,18 @@ const campaignConfigSchema = z.object({
 
 type CampaignConfigData = z.infer<typeof campaignConfigSchema>;
 
-// Variáveis dinâmicas disponíveis
-const TEMPLATE_VARIABLES = [
-  { key: "{{nome}}", description: "Nome da empresa" },
-  { key: "{{empresa}}", description: "Razão social" },
-  { key: "{{telefone}}", description: "Telefone" },
-  { key: "{{cidade}}", description: "Cidade" },
-  { key: "{{setor}}", description: "Setor da empresa" },
-];
+// Canais da campanha em ordem: o principal e, na híbrida, os fallbacks marcados
+const campaignChannels = (data: Pick<CampaignConfigData, "channel" | "hybridEnabled" | "fallbackOrder" | "fallbackChannels">): StrategyChannel[] =>
+  data.hybridEnabled
+    ? [data.channel, ...data.fallbackOrder.filter((channel) => channel !== data.channel && data.fallbackChannels.includes(channel))]
+    : [data.channel];
+
+// Janelas padrão: segunda a sexta, 08:00-18:00 (índice 0 = domingo)
+const DEFAULT_WORKING_DAYS = WEEKDAY_LABELS.map((_, day) => ({
+  enabled: day >= 1 && day <= 5,
+  start: "08:00",
+  end: day === 6 ? "12:00" : "18:00",
+}));
 
 // Exemplo de dados para preview
 const PREVIEW_DATA = {
@@ -79,11 +150,36 @@ const PREVIEW_DATA = {
   setor: "Comércio",
 };
 
+const PREVIEW_CONTACT: TemplateContact = {
+  nomeFantasia: PREVIEW_DATA.nome,
+  razaoSocial: PREVIEW_DATA.empresa,
+  phone: PREVIEW_DATA.telefone,
+  cidade: PREVIEW_DATA.cidade,
+  setor: PREVIEW_DATA.setor,
+};
+
 export default function CampaignConfiguration() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("basic");
+  const [previewVariation, setPreviewVariation] = useState(0);
   const { isConnected: isWhatsAppConnected, isLoading: whatsAppLoading } = useWhatsAppStatus();
 
+  const { data: senderPools = [] } = useQuery<(SenderPool & { senders: WhatsappSender[] })[]>({
+    queryKey: ["/api/sender-pools"],
+  });
+
+  const { data: smsStatus } = useQuery<{ configured: boolean; provider: string | null }>({
+    queryKey: ["/api/sms/status"],
+  });
+
+  const { data: emailConfigs = [] } = useQuery<EmailConfiguration[]>({
+    queryKey: ["/api/email-configs"],
+  });
+
+  const { data: mediaAssets = [] } = useQuery<MediaAsset[]>({
+    queryKey: ["/api/media"],
+  });
+
   const form = useForm<CampaignConfigData>({
     resolver: zodResolver(campaignConfigSchema),
     defaultValues: {
@@ -91,14 +187,38 @@ export default function CampaignConfiguration() {
       description: "",
       objective: "VENDAS",
       channel: "WHATSAPP",
+      senderPoolId: PRIMARY_SENDER,
+      smsFallback: false,
+      emailConfigId: "",
+      emailSubject: "",
+      mediaAssetId: NO_MEDIA,
+      hybridEnabled: false,
+      fallbackOrder: ["WHATSAPP", "SMS", "EMAIL"],
+      fallbackChannels: ["WHATSAPP", "SMS", "EMAIL"],
+      fallbackOnFailure: true,
+      noReplyDays: 3,
       sendType: "IMMEDIATE",
       sendRate: 50,
+      batchSize: 1,
       workingHoursEnabled: false,
-      workingHoursStart: "08:00",
-      workingHoursEnd: "18:00",
+      workingHoursTimezone: DEFAULT_TIMEZONE,
+      workingDays: DEFAULT_WORKING_DAYS,
+      skipHolidays: true,
+      holidayState: "",
+      holidayCity: "",
+      recipientLocalTime: true,
       messageTemplate: "",
+      abTestEnabled: false,
+      abTestWeightA: 50,
+      abTestVariants: [],
+      abTestMode: "SPLIT",
+      abTestSlicePercent: 20,
+      abTestMetric: "REPLY",
+      abTestDecisionHours: 2,
+      followUpSteps: [],
       retryEnabled: false,
-      retryAttempts: 3,
+      retryAttempts: DEFAULT_RETRY_ATTEMPTS,
+      budget: "",
       reportSettings: {
         enableDeliveryReport: true,
         enableReadReport: true,
@@ -108,32 +228,92 @@ export default function CampaignConfiguration() {
   });
 
   const watchedValues = form.watch();
+  const abTestVariants = useFieldArray({ control: form.control, name: "abTestVariants" });
+  const followUpSteps = useFieldArray({ control: form.control, name: "followUpSteps" });
   
   const createCampaignMutation = useMutation({
     mutationFn: async (data: CampaignConfigData) => {
-      // Check WhatsApp connection for WhatsApp campaigns
-      if (data.channel === "WHATSAPP" && !isWhatsAppConnected) {
+      const channels = campaignChannels(data);
+      const senderPoolId = channels.includes("WHATSAPP") && data.senderPoolId !== PRIMARY_SENDER
+        ? data.senderPoolId
+        : null;
+
+      if (data.hybridEnabled && channels.length < 2) {
+        throw new Error("Campanhas híbridas precisam de ao menos um canal de fallback.");
+      }
+      // Check WhatsApp connection for WhatsApp campaigns (a sender pool uses its own numbers)
+      if (channels.includes("WHATSAPP") && !senderPoolId && !isWhatsAppConnected) {
         throw new Error("WhatsApp deve estar conectado para criar campanhas de WhatsApp. Conecte sua conta na página de WhatsApp.");
       }
+      if (channels.includes("EMAIL") && (!data.emailConfigId || !data.emailSubject.trim())) {
+        throw new Error("Campanhas de email precisam de uma configuração SMTP e de um assunto.");
+      }
 
       // Preparar os dados para o backend
       const campaignData = {
         name: data.name,
         description: data.description,
         channel: data.channel,
+        senderPoolId,
+        smsFallback: !data.hybridEnabled && data.channel === "WHATSAPP" && data.smsFallback,
+        channelStrategy: channels.length > 1 ? {
+          channels,
+          fallbackOnFailure: data.fallbackOnFailure,
+          noReplyDays: data.noReplyDays > 0 ? data.noReplyDays : null,
+        } : null,
+        emailConfigId: channels.includes("EMAIL") ? data.emailConfigId : null,
+        emailSubject: channels.includes("EMAIL") ? data.emailSubject.trim() : null,
+        mediaAssetId: data.mediaAssetId !== NO_MEDIA ? data.mediaAssetId : null,
         messageTemplate: data.messageTemplate,
         sendRate: data.sendRate,
+        batchSize: data.batchSize,
         workingHours: data.workingHoursEnabled ? {
           enabled: true,
-          start: data.workingHoursStart,
-          end: data.workingHoursEnd,
+          timezone: data.workingHoursTimezone,
+          days: Object.fromEntries(data.workingDays.map((window, day) => [
+            String(day),
+            window.enabled ? { start: window.start, end: window.end } : null,
+          ])),
+          skipHolidays: data.skipHolidays,
+          state: data.holidayState || null,
+          city: data.holidayCity || null,
+          recipientLocalTime: data.recipientLocalTime,
+        } : null,
+        abTest: data.abTestEnabled && data.abTestVariants.length > 0 ? {
+          metric: data.abTestMetric,
+          testSlicePercent: data.abTestMode === "WINNER" ? data.abTestSlicePercent : null,
+          decisionDelayMinutes: Math.round(data.abTestDecisionHours * 60),
+          variants: [
+            { messageTemplate: data.messageTemplate, weight: data.abTestWeightA },
+            ...data.abTestVariants,
+          ],
         } : null,
+        // Janela própria do passo herda fuso, feriados e horário local da campanha
+        steps: data.followUpSteps.map((step) => ({
+          messageTemplate: step.messageTemplate,
+          delayDays: step.delayDays,
+          workingHours: step.ownWindow ? {
+            enabled: true,
+            timezone: data.workingHoursTimezone,
+            days: Object.fromEntries(WEEKDAY_LABELS.map((_, day) => [
+              String(day),
+              step.weekdaysOnly && (day === 0 || day === 6) ? null : { start: step.windowStart, end: step.windowEnd },
+            ])),
+            skipHolidays: data.skipHolidays,
+            state: data.holidayState || null,
+            city: data.holidayCity || null,
+            recipientLocalTime: data.recipientLocalTime,
+          } : null,
+        })),
+        retryEnabled: data.retryEnabled,
+        retryAttempts: data.retryAttempts,
+        budget: data.budget.trim() ? Number(data.budget.replace(",", ".")) : null,
         startTime: data.sendType === "SCHEDULED" && data.scheduledDate && data.scheduledTime 
           ? new Date(`${data.scheduledDate}T${data.scheduledTime}`).toISOString() 
           : null,
       };
 
-      return await apiRequest("POST", "/api/campaigns/mass", campaignData);
+      return await apiRequest("POST", "/api/mass-campaigns", campaignData);
     },
     onSuccess: () => {
       toast({
@@ -157,26 +337,33 @@ export default function CampaignConfiguration() {
     createCampaignMutation.mutate(data);
   };
 
-  // Função para escapar caracteres especiais de regex
-  const escapeRegExp = (string: string) => {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  };
-
-  // Função para substituir variáveis no preview
-  const renderPreview = (template: string) => {
-    let preview = template;
-    TEMPLATE_VARIABLES.forEach(variable => {
-      const value = PREVIEW_DATA[variable.key.replace(/[{}]/g, "") as keyof typeof PREVIEW_DATA];
-      // Escapar corretamente o padrão para criar o regex
-      const escapedPattern = escapeRegExp(variable.key);
-      preview = preview.replace(new RegExp(escapedPattern, "g"), value || variable.key);
-    });
-    return preview;
-  };
+  // Avisos do template (variáveis lidas dos dados personalizados dos contatos) e total de variações
+  const templateCheck = watchedValues.messageTemplate
+    ? validateMessageTemplate(watchedValues.messageTemplate)
+    : null;
+  const templateWarnings = templateCheck?.warnings || [];
 
   // Contador de caracteres
   const characterCount = watchedValues.messageTemplate?.length || 0;
-  const maxChars = watchedValues.channel === "SMS" ? 160 : 4096;
+  // SMS longo vira SMS concatenado: o limite é por segmento e cada segmento é cobrado
+  const smsSegments = watchedValues.channel === "SMS" ? splitSmsSegments(watchedValues.messageTemplate || "") : null;
+  const maxChars = watchedValues.channel === "SMS" ? 1530 : 4096;
+  const channels = campaignChannels(watchedValues);
+  // Fallbacks possíveis na ordem escolhida, sem o canal principal
+  const fallbackOptions = watchedValues.fallbackOrder.filter((channel) => channel !== watchedValues.channel);
+
+  const moveFallbackUp = (channel: StrategyChannel) => {
+    const order = [...watchedValues.fallbackOrder].filter((item) => item !== watchedValues.channel);
+    const index = order.indexOf(channel);
+    if (index <= 0) return;
+    [order[index - 1], order[index]] = [order[index], order[index - 1]];
+    form.setValue("fallbackOrder", [watchedValues.channel, ...order]);
+  };
+
+  const toggleFallback = (channel: StrategyChannel, included: boolean) => {
+    const current = watchedValues.fallbackChannels.filter((item) => item !== channel);
+    form.setValue("fallbackChannels", included ? [...current, channel] : current);
+  };
 
   return (
     <div className="container mx-auto py-6 space-y-6">
@@ -189,7 +376,7 @@ export default function CampaignConfiguration() {
       </div>
 
       {/* WhatsApp Status - Show warning for WhatsApp campaigns */}
-      {watchedValues.channel === "WHATSAPP" && (
+      {channels.includes("WHATSAPP") && (
         <WhatsAppStatus 
           variant={isWhatsAppConnected ? "inline" : "inline"} 
           showActions={true} 
@@ -372,14 +559,183 @@ export default function CampaignConfiguration() {
                     </div>
                   )}
 
+                  <FormField
+                    control={form.control}
+                    name="hybridEnabled"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel className="text-base flex items-center gap-2">
+                            <Layers className="h-4 w-4" />
+                            Campanha híbrida
+                          </FormLabel>
+                          <FormDescription>
+                            Cada contato recebe pelo primeiro canal que o alcança; sem WhatsApp, com falha no envio ou
+                            sem resposta, a mensagem segue pelos próximos canais
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-hybrid" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  {watchedValues.hybridEnabled && (
+                    <div className="rounded-lg border p-4 space-y-4" data-testid="hybrid-strategy">
+                      <div className="space-y-2">
+                        <Label>Ordem dos canais</Label>
+                        <div className="flex items-center gap-2 text-sm">
+                          <Badge>1</Badge>
+                          <span className="font-medium">{STRATEGY_CHANNELS.find(({ value }) => value === watchedValues.channel)?.label}</span>
+                          <span className="text-muted-foreground">(canal principal)</span>
+                        </div>
+                        {fallbackOptions.map((channel, index) => {
+                          const included = watchedValues.fallbackChannels.includes(channel);
+                          return (
+                            <div key={channel} className="flex items-center gap-2 text-sm" data-testid={`fallback-channel-${channel}`}>
+                              <Badge variant={included ? "default" : "outline"}>{included ? channels.indexOf(channel) + 1 : "–"}</Badge>
+                              <Switch
+                                checked={included}
+                                onCheckedChange={(checked) => toggleFallback(channel, checked)}
+                                data-testid={`switch-fallback-${channel}`}
+                              />
+                              <span className={included ? "font-medium" : "text-muted-foreground"}>
+                                {STRATEGY_CHANNELS.find(({ value }) => value === channel)?.label}
+                              </span>
+                              {channel === "SMS" && !smsStatus?.configured && (
+                                <span className="text-xs text-red-600">provedor de SMS não configurado</span>
+                              )}
+                              {index > 0 && (
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => moveFallbackUp(channel)}
+                                  data-testid={`button-fallback-up-${channel}`}
+                                >
+                                  <ArrowUp className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+
+                      <FormField
+                        control={form.control}
+                        name="fallbackOnFailure"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-center justify-between">
+                            <div className="space-y-0.5">
+                              <FormLabel>Fallback em falhas</FormLabel>
+                              <FormDescription>
+                                Envio recusado (após as retentativas) ou falha de entrega passa para o próximo canal
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-fallback-on-failure" />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="noReplyDays"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Reenviar sem resposta após (dias)</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={0} max={MAX_NO_REPLY_DAYS} data-testid="input-no-reply-days" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              0 desativa. Cada canal tentado é cobrado pela tabela de preços; respostas chegam pelo WhatsApp.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  )}
+
+                  {watchedValues.channel === "WHATSAPP" && !watchedValues.hybridEnabled && (
+                    <FormField
+                      control={form.control}
+                      name="smsFallback"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Fallback por SMS</FormLabel>
+                            <FormDescription>
+                              {smsStatus?.configured
+                                ? "Contatos sem WhatsApp na validação recebem a mensagem por SMS, cobrada por segmento"
+                                : "Nenhum provedor de SMS configurado no servidor"}
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              disabled={!smsStatus?.configured}
+                              data-testid="switch-sms-fallback"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {channels.includes("SMS") && smsStatus && !smsStatus.configured && (
+                    <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-700" data-testid="alert-sms-not-configured">
+                      <AlertTriangle className="h-4 w-4" />
+                      Nenhum provedor de SMS configurado no servidor (SMS_PROVIDER_URL): a campanha não poderá ser iniciada.
+                    </div>
+                  )}
+
+                  {channels.includes("WHATSAPP") && (
+                    <FormField
+                      control={form.control}
+                      name="senderPoolId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Números Remetentes</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-sender-pool">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={PRIMARY_SENDER}>Meu número principal</SelectItem>
+                              {senderPools.map((pool) => {
+                                const connected = pool.senders.filter((sender) => sender.active && sender.status === "CONNECTED").length;
+                                return (
+                                  <SelectItem key={pool.id} value={pool.id}>
+                                    {pool.name} ({connected}/{pool.senders.length} conectados)
+                                  </SelectItem>
+                                );
+                              })}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Com um pool, os envios alternam entre os números conectados conforme o peso e o limite diário
+                            de cada um. Gerencie os pools na página de WhatsApp.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   {watchedValues.channel === "SMS" && (
                     <div className="p-4 bg-blue-50 rounded-lg">
                       <h4 className="font-medium text-blue-800 mb-2">Configurações SMS</h4>
                       <ul className="text-sm text-blue-700 space-y-1">
-                        <li>• Limite de 160 caracteres por mensagem</li>
-                        <li>• Não suporta emojis ou formatação</li>
-                        <li>• Entrega mais rápida</li>
-                        <li>• Cobrança por SMS enviado</li>
+                        <li>• 160 caracteres por segmento (70 com acentos como "ã" e "ç" ou emojis)</li>
+                        <li>• Mensagens longas são enviadas em vários segmentos</li>
+                        <li>• Cobrança por segmento enviado</li>
+                        <li>• Confirmação de entrega enviada pelo provedor</li>
                       </ul>
                     </div>
                   )}
@@ -395,6 +751,56 @@ export default function CampaignConfiguration() {
                       </ul>
                     </div>
                   )}
+
+                  {channels.includes("EMAIL") && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="emailConfigId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Configuração SMTP</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-email-config">
+                                  <SelectValue placeholder="Selecione a conta de envio" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {emailConfigs.filter((config) => config.isActive).map((config) => (
+                                  <SelectItem key={config.id} value={config.id}>
+                                    {config.name} ({config.senderEmail}, {config.rateLimitPerHour}/hora)
+                                    {config.status === "ERROR" ? " - com erro" : config.status === "UNTESTED" ? " - não testada" : ""}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Os envios respeitam o limite por hora da configuração. Cadastre contas na página de configuração de email.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="emailSubject"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Assunto</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Ex: {{nome}}, uma proposta para {{cidade}}" data-testid="input-email-subject" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              Aceita as mesmas variáveis da mensagem. O template da mensagem pode ser texto ou HTML.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -512,6 +918,31 @@ export default function CampaignConfiguration() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="batchSize"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Envios por ciclo</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            max="50"
+                            placeholder="1"
+                            data-testid="input-batch-size"
+                            value={field.value}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Mensagens enviadas em sequência a cada ciclo do envio. O total por hora continua respeitando o rate limiting
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="workingHoursEnabled"
@@ -535,42 +966,165 @@ export default function CampaignConfiguration() {
                   />
 
                   {watchedValues.workingHoursEnabled && (
-                    <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-4">
                       <FormField
                         control={form.control}
-                        name="workingHoursStart"
+                        name="workingHoursTimezone"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Início</FormLabel>
+                            <FormLabel>Fuso Horário da Campanha</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-working-hours-timezone">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {BRAZIL_TIMEZONES.map((timezone) => (
+                                  <SelectItem key={timezone.value} value={timezone.value}>
+                                    {timezone.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <div className="space-y-2">
+                        <Label>Janelas de Envio</Label>
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <div key={label} className="grid grid-cols-[auto_6rem_1fr_1fr] items-center gap-3">
+                            <FormField
+                              control={form.control}
+                              name={`workingDays.${day}.enabled`}
+                              render={({ field }) => (
+                                <Switch
+                                  data-testid={`switch-working-day-${day}`}
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
+                              )}
+                            />
+                            <span className="text-sm">{label}</span>
+                            <FormField
+                              control={form.control}
+                              name={`workingDays.${day}.start`}
+                              render={({ field }) => (
+                                <Input
+                                  type="time"
+                                  disabled={!watchedValues.workingDays?.[day]?.enabled}
+                                  data-testid={`input-working-day-start-${day}`}
+                                  {...field}
+                                />
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`workingDays.${day}.end`}
+                              render={({ field }) => (
+                                <Input
+                                  type="time"
+                                  disabled={!watchedValues.workingDays?.[day]?.enabled}
+                                  data-testid={`input-working-day-end-${day}`}
+                                  {...field}
+                                />
+                              )}
+                            />
+                          </div>
+                        ))}
+                      </div>
+
+                      <FormField
+                        control={form.control}
+                        name="recipientLocalTime"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                            <div className="space-y-0.5">
+                              <FormLabel>Horário Local do Destinatário</FormLabel>
+                              <FormDescription>
+                                Usa o fuso e os feriados do estado de cada contato, pelo DDD (ex.: Acre e Amazonas)
+                              </FormDescription>
+                            </div>
                             <FormControl>
-                              <Input 
-                                type="time" 
-                                data-testid="input-working-hours-start"
-                                {...field} 
+                              <Switch
+                                data-testid="switch-recipient-local-time"
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
                               />
                             </FormControl>
-                            <FormMessage />
                           </FormItem>
                         )}
                       />
 
                       <FormField
                         control={form.control}
-                        name="workingHoursEnd"
+                        name="skipHolidays"
                         render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Fim</FormLabel>
+                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                            <div className="space-y-0.5">
+                              <FormLabel>Não Enviar em Feriados</FormLabel>
+                              <FormDescription>
+                                Feriados nacionais, estaduais e municipais cadastrados
+                              </FormDescription>
+                            </div>
                             <FormControl>
-                              <Input 
-                                type="time" 
-                                data-testid="input-working-hours-end"
-                                {...field} 
+                              <Switch
+                                data-testid="switch-skip-holidays"
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
                               />
                             </FormControl>
-                            <FormMessage />
                           </FormItem>
                         )}
                       />
+
+                      {watchedValues.skipHolidays && !watchedValues.recipientLocalTime && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="holidayState"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Estado (feriados estaduais)</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger data-testid="select-holiday-state">
+                                      <SelectValue placeholder="Somente nacionais" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {BRAZIL_STATES.map((state) => (
+                                      <SelectItem key={state} value={state}>{state}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name="holidayCity"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Município (feriados municipais)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="Ex.: São Paulo"
+                                    disabled={!watchedValues.holidayState}
+                                    data-testid="input-holiday-city"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      )}
                     </div>
                   )}
                 </CardContent>
@@ -603,13 +1157,55 @@ export default function CampaignConfiguration() {
                           </FormControl>
                           <div className="flex justify-between items-center text-sm">
                             <span data-testid="text-character-count" className={characterCount > maxChars ? "text-red-600" : "text-muted-foreground"}>
-                              {characterCount} / {maxChars} caracteres
+                              {smsSegments
+                                ? `${smsSegments.characters} caracteres · ${smsSegments.segments} ${smsSegments.segments === 1 ? "segmento" : "segmentos"} (${smsSegments.encoding === "GSM_7" ? "GSM-7" : "UCS-2"}, ${smsSegments.remaining} restantes)`
+                                : `${characterCount} / ${maxChars} caracteres`}
                             </span>
                             {characterCount > maxChars && (
                               <Badge variant="destructive">Limite excedido</Badge>
                             )}
                           </div>
                           <FormMessage />
+                          {templateWarnings.map((warning) => (
+                            <p key={warning.index} className="text-sm text-amber-600" data-testid="text-template-warning">
+                              {warning.message}
+                            </p>
+                          ))}
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="mediaAssetId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Mídia Anexada</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-media-asset">
+                                <SelectValue placeholder="Sem mídia" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={NO_MEDIA}>Sem mídia</SelectItem>
+                              {mediaAssets.map((asset) => (
+                                <SelectItem key={asset.id} value={asset.id}>
+                                  {asset.name} ({MEDIA_KIND_LABELS[asset.kind]}, {formatMediaSize(asset.sizeBytes)})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Com mídia, a mensagem vira a legenda no WhatsApp; no email o arquivo vai anexado e o SMS envia só o texto.
+                            Envie arquivos na <Link href="/media" className="underline">biblioteca de mídia</Link>.
+                          </FormDescription>
+                          {field.value !== NO_MEDIA && characterCount > MAX_CAPTION_LENGTH && (
+                            <p className="text-sm text-amber-600" data-testid="text-caption-warning">
+                              Legendas acima de {MAX_CAPTION_LENGTH} caracteres podem ser cortadas no WhatsApp.
+                            </p>
+                          )}
+                          <FormMessage />
                         </FormItem>
                       )}
                     />
@@ -619,19 +1215,28 @@ export default function CampaignConfiguration() {
                       <div className="grid grid-cols-2 gap-2">
                         {TEMPLATE_VARIABLES.map((variable) => (
                           <div 
-                            key={variable.key}
+                            key={variable.name}
                             className="p-2 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
-                            data-testid={`variable-${variable.key.replace(/[{}]/g, "")}`}
+                            data-testid={`variable-${variable.name}`}
                             onClick={() => {
                               const current = form.getValues("messageTemplate");
-                              form.setValue("messageTemplate", current + " " + variable.key);
+                              form.setValue("messageTemplate", current + " " + `{{${variable.name}}}`);
                             }}
                           >
-                            <div className="font-mono text-sm text-blue-600">{variable.key}</div>
+                            <div className="font-mono text-sm text-blue-600">{`{{${variable.name}}}`}</div>
                             <div className="text-xs text-muted-foreground">{variable.description}</div>
                           </div>
                         ))}
                       </div>
+                      <p className="text-xs text-muted-foreground" data-testid="text-template-syntax">
+                        Use <code>{"{{nome|cliente}}"}</code> para um valor padrão,{" "}
+                        <code>{"{{#if cidade}}...{{else}}...{{/if}}"}</code> para trechos condicionais e{" "}
+                        <code>{"\\{{"}</code> para escrever chaves literais. Colunas extras da planilha também viram variáveis.
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Varie o texto para reduzir o risco de bloqueio: <code>{"{Olá|Oi|Bom dia}"}</code> sorteia uma opção por
+                        contato e <code>{"{~oferta}"}</code> usa sinônimos prontos.
+                      </p>
                     </div>
                   </CardContent>
                 </Card>
@@ -647,20 +1252,48 @@ export default function CampaignConfiguration() {
                   <CardContent>
                     <div className="space-y-4">
                       <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
-                        <div className="text-xs text-green-600 font-medium mb-2">
-                          PREVIEW - {watchedValues.channel}
+                        <div className="flex items-center justify-between text-xs text-green-600 font-medium mb-2">
+                          <span>PREVIEW - {watchedValues.channel}</span>
+                          {templateCheck && templateCheck.variants > 1 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 text-xs"
+                              onClick={() => setPreviewVariation(previewVariation + 1)}
+                              data-testid="button-next-variation"
+                            >
+                              <Shuffle className="h-3 w-3 mr-1" />
+                              Outra variação
+                            </Button>
+                          )}
                         </div>
                         <div 
                           className="whitespace-pre-wrap text-sm"
                           data-testid="text-message-preview"
                         >
                           {watchedValues.messageTemplate 
-                            ? renderPreview(watchedValues.messageTemplate)
+                            ? renderMessageTemplate(watchedValues.messageTemplate, PREVIEW_CONTACT, {
+                                variationSeed: previewVariation > 0 ? `preview-${previewVariation}` : undefined,
+                              })
                             : "Digite uma mensagem para ver o preview..."
                           }
                         </div>
                       </div>
 
+                      {templateCheck && (
+                        <div className="text-sm" data-testid="text-template-variants">
+                          <Badge variant={templateCheck.variants > 1 ? "secondary" : "outline"}>
+                            {templateCheck.variants.toLocaleString("pt-BR")} {templateCheck.variants === 1 ? "variação" : "variações"}
+                          </Badge>
+                          {templateCheck.variants === 1 && (
+                            <span className="ml-2 text-xs text-amber-600">
+                              Todos os contatos receberão o mesmo texto
+                            </span>
+                          )}
+                        </div>
+                      )}
+
                       <div className="text-xs text-muted-foreground">
                         <strong>Dados de exemplo:</strong>
                         <ul className="mt-1 space-y-1">
@@ -675,6 +1308,334 @@ export default function CampaignConfiguration() {
                   </CardContent>
                 </Card>
               </div>
+
+              {/* Teste A/B */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FlaskConical className="h-5 w-5" />
+                    Teste A/B
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="abTestEnabled"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel>Testar variantes do template</FormLabel>
+                          <FormDescription>
+                            O template acima é a variante A. Os contatos são divididos entre as variantes conforme o peso de cada uma.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            data-testid="switch-ab-test"
+                            checked={field.value}
+                            onCheckedChange={(checked) => {
+                              field.onChange(checked);
+                              if (checked && abTestVariants.fields.length === 0) {
+                                abTestVariants.append({ messageTemplate: "", weight: 50 });
+                              }
+                              if (!checked) abTestVariants.remove();
+                            }}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  {watchedValues.abTestEnabled && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="abTestWeightA"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-3 space-y-0">
+                            <FormLabel className="w-32">Peso da variante A</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="1" max="100" className="w-24" data-testid="input-ab-weight-A" {...field} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+
+                      {abTestVariants.fields.map((variant, index) => (
+                        <div key={variant.id} className="rounded-lg border p-4 space-y-3">
+                          <div className="flex items-center justify-between">
+                            <Badge variant="secondary">Variante {variantKey(index + 1)}</Badge>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              disabled={abTestVariants.fields.length === 1}
+                              onClick={() => abTestVariants.remove(index)}
+                              data-testid={`button-remove-variant-${variantKey(index + 1)}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          <FormField
+                            control={form.control}
+                            name={`abTestVariants.${index}.messageTemplate`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Textarea
+                                    rows={4}
+                                    className="resize-none"
+                                    placeholder="Texto alternativo da mensagem..."
+                                    data-testid={`textarea-variant-${variantKey(index + 1)}`}
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`abTestVariants.${index}.weight`}
+                            render={({ field }) => (
+                              <FormItem className="flex items-center gap-3 space-y-0">
+                                <FormLabel className="w-32">Peso</FormLabel>
+                                <FormControl>
+                                  <Input type="number" min="1" max="100" className="w-24" data-testid={`input-ab-weight-${variantKey(index + 1)}`} {...field} />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      ))}
+
+                      {abTestVariants.fields.length < 4 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => abTestVariants.append({ messageTemplate: "", weight: 50 })}
+                          data-testid="button-add-variant"
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Adicionar variante
+                        </Button>
+                      )}
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="abTestMetric"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Métrica de sucesso</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-ab-metric">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {AB_TEST_METRICS.map((metric) => (
+                                    <SelectItem key={metric.value} value={metric.value}>{metric.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="abTestMode"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Modo</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-ab-mode">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="SPLIT">Dividir toda a lista</SelectItem>
+                                  <SelectItem value="WINNER">Testar em uma amostra e enviar a vencedora</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      {watchedValues.abTestMode === "WINNER" && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="abTestSlicePercent"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Amostra de teste (%)</FormLabel>
+                                <FormControl>
+                                  <Input type="number" min="1" max="99" data-testid="input-ab-slice" {...field} />
+                                </FormControl>
+                                <FormDescription>Percentual da lista que recebe as variantes</FormDescription>
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="abTestDecisionHours"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Aguardar antes de decidir (horas)</FormLabel>
+                                <FormControl>
+                                  <Input type="number" min="0" max="168" step="0.5" data-testid="input-ab-decision-hours" {...field} />
+                                </FormControl>
+                                <FormDescription>
+                                  Tempo após o último envio da amostra para contar leituras e respostas; depois a variante líder vai para o restante da lista
+                                </FormDescription>
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Sequência de follow-ups */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ListOrdered className="h-5 w-5" />
+                    Sequência de Follow-ups
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    O template acima é o passo 1. Cada follow-up é enviado alguns dias após o passo anterior, apenas para quem
+                    ainda não respondeu. Quem responde ou pede descadastro sai da sequência.
+                  </p>
+
+                  {followUpSteps.fields.map((step, index) => (
+                    <div key={step.id} className="rounded-lg border p-4 space-y-3" data-testid={`follow-up-step-${index + 2}`}>
+                      <div className="flex items-center justify-between">
+                        <Badge variant="secondary">Passo {index + 2}</Badge>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => followUpSteps.remove(index)}
+                          data-testid={`button-remove-step-${index + 2}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <FormField
+                        control={form.control}
+                        name={`followUpSteps.${index}.delayDays`}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-3 space-y-0">
+                            <FormLabel>Enviar</FormLabel>
+                            <FormControl>
+                              <Input type="number" min="1" max="60" className="w-20" data-testid={`input-step-delay-${index + 2}`} {...field} />
+                            </FormControl>
+                            <span className="text-sm text-muted-foreground">dias após o passo {index + 1}, se não houver resposta</span>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`followUpSteps.${index}.messageTemplate`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Textarea
+                                rows={4}
+                                className="resize-none"
+                                placeholder="Oi {{nome}}, conseguiu ver minha mensagem anterior?"
+                                data-testid={`textarea-step-${index + 2}`}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`followUpSteps.${index}.ownWindow`}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-3 space-y-0">
+                            <FormControl>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} data-testid={`switch-step-window-${index + 2}`} />
+                            </FormControl>
+                            <FormLabel>Janela de envio própria</FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                      {watchedValues.followUpSteps?.[index]?.ownWindow && (
+                        <div className="flex flex-wrap items-center gap-3">
+                          <FormField
+                            control={form.control}
+                            name={`followUpSteps.${index}.windowStart`}
+                            render={({ field }) => (
+                              <FormItem className="flex items-center gap-2 space-y-0">
+                                <FormLabel>Das</FormLabel>
+                                <FormControl>
+                                  <Input type="time" className="w-28" data-testid={`input-step-start-${index + 2}`} {...field} />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`followUpSteps.${index}.windowEnd`}
+                            render={({ field }) => (
+                              <FormItem className="flex items-center gap-2 space-y-0">
+                                <FormLabel>às</FormLabel>
+                                <FormControl>
+                                  <Input type="time" className="w-28" data-testid={`input-step-end-${index + 2}`} {...field} />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`followUpSteps.${index}.weekdaysOnly`}
+                            render={({ field }) => (
+                              <FormItem className="flex items-center gap-2 space-y-0">
+                                <FormControl>
+                                  <Switch checked={field.value} onCheckedChange={field.onChange} data-testid={`switch-step-weekdays-${index + 2}`} />
+                                </FormControl>
+                                <FormLabel>Somente dias úteis</FormLabel>
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  ))}
+
+                  {followUpSteps.fields.length < 4 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => followUpSteps.append({
+                        messageTemplate: "",
+                        delayDays: 3,
+                        ownWindow: false,
+                        windowStart: "09:00",
+                        windowEnd: "18:00",
+                        weekdaysOnly: true,
+                      })}
+                      data-testid="button-add-follow-up"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Adicionar follow-up
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
             </TabsContent>
 
             {/* Seção 5: Configurações Avançadas */}
@@ -717,14 +1678,15 @@ export default function CampaignConfiguration() {
                             <Input 
                               type="number" 
                               min="1" 
-                              max="5"
+                              max={MAX_RETRY_ATTEMPTS}
                               data-testid="input-retry-attempts"
                               value={field.value}
                               onChange={(e) => field.onChange(Number(e.target.value))}
                             />
                           </FormControl>
                           <FormDescription>
-                            Máximo de 5 tentativas
+                            Máximo de {MAX_RETRY_ATTEMPTS} tentativas. Falhas temporárias (limite de envio, sessão desconectada)
+                            são reenviadas com intervalo crescente; números inválidos falham na hora.
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -732,6 +1694,29 @@ export default function CampaignConfiguration() {
                     />
                   )}
 
+                  <FormField
+                    control={form.control}
+                    name="budget"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Orçamento da Campanha (R$)</FormLabel>
+                        <FormControl>
+                          <Input
+                            inputMode="decimal"
+                            placeholder="Sem limite"
+                            data-testid="input-campaign-budget"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Validação e envios (pela tabela de preços) somados. A campanha é pausada automaticamente
+                          ao atingir o orçamento, com um alerta aos 80%.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="customBlacklist"
@@ -1,7 +1,15 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRoute, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { io } from "socket.io-client";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { AB_TEST_METRICS, type AbTestConfig, type VariantResult } from "@shared/abTest";
+import { STRATEGY_CHANNELS, type StrategyChannel } from "@shared/channelStrategy";
+import { MEDIA_KIND_LABELS, type MediaKind } from "@shared/media";
+import { CAMPAIGN_APPROVER_ROLES } from "@shared/campaignApproval";
+import { CampaignForecastPanel } from "@/components/campaigns/forecast-panel";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -11,6 +19,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import {
   AlertCircle,
   Play,
@@ -31,6 +40,15 @@ import {
   Timer,
   HelpCircle,
   UserPlus,
+  Reply,
+  History,
+  Shuffle,
+  CalendarX,
+  Trophy,
+  ListOrdered,
+  Wallet,
+  Gauge,
+  Paperclip,
 } from "lucide-react";
 import {
   LineChart,
@@ -58,6 +76,7 @@ interface CampaignStats {
   sentCount: number;
   deliveredCount: number;
   readCount: number;
+  repliedCount: number;
   errorCount: number;
   currentRate: number;
   startedAt: string;
@@ -65,18 +84,108 @@ interface CampaignStats {
   totalCost: number;
   validationCost: number;
   sendingCost: number;
+  budget: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Evento da sala da campanha no Socket.IO (server/campaignEvents.ts)
+interface CampaignLiveEvent {
+  campaignId: string;
+  type: 'SENT' | 'FAILED' | 'DELIVERED' | 'READ' | 'REPLIED' | 'STATUS';
+  contactId?: string;
+  phone?: string | null;
+  step?: number;
+  status?: string;
+  counters?: Pick<CampaignStats, 'totalRecords' | 'sentCount' | 'deliveredCount' | 'readCount' | 'repliedCount' | 'errorCount'>;
+  timestamp: string;
+}
+
 interface CampaignLog {
   id: string;
+  contactId: string | null;
   timestamp: string;
   phone: string;
   razaoSocial: string;
   status: string;
   eventType: string;
   errorMessage: string | null;
+  channel: StrategyChannel | null; // canal que alcançou o contato
+  media: { id: string; name: string; kind: MediaKind } | null; // anexo enviado ao contato
+  attemptCosts: { channel: StrategyChannel | null; status: "SENT" | "FAILED"; cost: number }[];
+  totalCost: number;
+}
+
+interface ContactAttempt {
+  id: string;
+  attemptNumber: number;
+  channel: StrategyChannel | null;
+  cost: string | null;
+  status: "SENT" | "FAILED";
+  errorCode: string | null;
+  errorMessage: string | null;
+  retryable: boolean | null;
+  nextAttemptAt: string | null;
+  attemptedAt: string;
+}
+
+interface ContactAttemptsResponse {
+  contactId: string;
+  phone: string | null;
+  sendStatus: string | null;
+  channel: StrategyChannel | null;
+  nextAttemptAt: string | null;
+  fallbackAt: string | null;
+  attempts: ContactAttempt[];
+}
+
+const channelLabel = (channel: StrategyChannel | null) =>
+  STRATEGY_CHANNELS.find(({ value }) => value === channel)?.label ?? "—";
+
+// Custos por tentativa são frações de centavo no email
+const formatAttemptCost = (cost: number) => `R$ ${cost.toFixed(3)}`;
+
+interface VariationReport {
+  variants: number;
+  totalContacts: number;
+  distinctMessages: number;
+  maxRepetitions: number;
+}
+
+interface AbTestReport {
+  enabled: boolean;
+  config?: AbTestConfig;
+  winnerVariantId?: string | null;
+  winnerSelectedAt?: string | null;
+  variants?: (VariantResult & { weight?: number; messageTemplate?: string })[];
+}
+
+interface SequenceStepReport {
+  stepNumber: number;
+  delayDays: number;
+  messageTemplate: string | null;
+  sent: number;
+  failed: number;
+  repliedAfter: number;
+}
+
+interface SequenceReport {
+  steps: SequenceStepReport[];
+  awaiting: number;
+  exits: Record<'REPLIED' | 'OPTED_OUT' | 'COMPLETED' | 'FAILED', number>;
+}
+
+interface CampaignSenderCount {
+  senderId: string | null;
+  label: string | null;
+  connectedPhone: string | null;
+  sent: number;
+  failed: number;
+}
+
+interface SenderReport {
+  senderPoolId: string | null;
+  senders: CampaignSenderCount[];
 }
 
 interface LogsResponse {
@@ -91,8 +200,16 @@ const statusIcons = {
   SENT: { icon: CheckCircle, color: "text-green-600", label: "✅ Enviado" },
   DELIVERED: { icon: MessageSquare, color: "text-blue-600", label: "📋 Entregue" },
   READ: { icon: Eye, color: "text-purple-600", label: "👁 Lido" },
+  REPLIED: { icon: Reply, color: "text-emerald-600", label: "💬 Respondido" },
   FAILED: { icon: XCircle, color: "text-red-600", label: "❌ Erro" },
+  RETRYING: { icon: RotateCcw, color: "text-orange-600", label: "🔁 Nova tentativa" },
+  CANCELLED: { icon: Square, color: "text-gray-600", label: "🚫 Cancelado" },
   PENDING: { icon: Clock, color: "text-yellow-600", label: "⏳ Processando" },
+  SCHEDULE_MISSED: { icon: CalendarX, color: "text-amber-600", label: "📅 Agendamento perdido" },
+  AB_WINNER: { icon: Trophy, color: "text-indigo-600", label: "🏆 Vencedora A/B" },
+  PAUSED: { icon: Pause, color: "text-yellow-600", label: "⏸ Pausada" },
+  BUDGET_WARNING: { icon: Wallet, color: "text-amber-600", label: "💰 Alerta de orçamento" },
+  THROTTLED: { icon: Gauge, color: "text-orange-600", label: "🐢 Ritmo ajustado" },
 };
 
 // Fallback para status não mapeados
@@ -111,10 +228,15 @@ export default function CampaignMonitoring() {
   const [statusFilter, setStatusFilter] = useState("ALL");
   const [currentPage, setCurrentPage] = useState(1);
   const [showStopConfirmation, setShowStopConfirmation] = useState(false);
+  const [attemptsContactId, setAttemptsContactId] = useState<string | null>(null);
   const itemsPerPage = 10;
   const campaignId = params?.campaignId;
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const userId = (user as { id?: string } | undefined)?.id;
+  const isManager = CAMPAIGN_APPROVER_ROLES.includes((user as { role?: string } | undefined)?.role || '');
 
-  // Campaign stats query with auto-refresh
+  // Campaign stats: pushed live over the socket, polling only as a fallback
   const {
     data: campaignStats,
     isLoading: isLoadingStats,
@@ -132,8 +254,8 @@ export default function CampaignMonitoring() {
       return response.json();
     },
     enabled: !!campaignId,
-    refetchInterval: 5000, // Auto-refresh every 5 seconds
-    staleTime: 0 // Always refetch to get fresh data
+    refetchInterval: 60000, // Fallback if the socket drops
+    staleTime: 0
   });
 
   // Campaign logs query
@@ -163,7 +285,153 @@ export default function CampaignMonitoring() {
     staleTime: 30000 // Cache for 30 seconds
   });
 
+  // Uniqueness report of the spintax variations
+  const { data: variationReport } = useQuery<VariationReport>({
+    queryKey: ['mass-campaign-variations', campaignId],
+    queryFn: async () => {
+      const response = await fetch(`/api/mass-campaigns/${campaignId}/variations`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch variation report');
+      }
+      return response.json();
+    },
+    enabled: !!campaignId,
+    staleTime: 60000
+  });
+
+  // A/B test results per variant
+  const { data: abTestReport } = useQuery<AbTestReport>({
+    queryKey: ['mass-campaign-ab-test', campaignId],
+    queryFn: async () => {
+      const response = await fetch(`/api/mass-campaigns/${campaignId}/ab-test`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch A/B test results');
+      }
+      return response.json();
+    },
+    enabled: !!campaignId,
+    refetchInterval: 15000
+  });
+
+  // Drip sequence progress per step
+  const { data: sequenceReport } = useQuery<SequenceReport>({
+    queryKey: ['mass-campaign-steps', campaignId],
+    queryFn: async () => {
+      const response = await fetch(`/api/mass-campaigns/${campaignId}/steps`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch campaign steps');
+      }
+      return response.json();
+    },
+    enabled: !!campaignId,
+    refetchInterval: 30000
+  });
+
+  // Sends per sender pool number
+  const { data: senderReport } = useQuery<SenderReport>({
+    queryKey: ['mass-campaign-senders', campaignId],
+    queryFn: async () => {
+      const response = await fetch(`/api/mass-campaigns/${campaignId}/senders`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch sender counts');
+      }
+      return response.json();
+    },
+    enabled: !!campaignId,
+    refetchInterval: 15000
+  });
+
+  // Attempt history of the contact selected in the logs table
+  const { data: attemptsData, isLoading: isLoadingAttempts } = useQuery<ContactAttemptsResponse>({
+    queryKey: ['mass-campaign-contact-attempts', campaignId, attemptsContactId],
+    queryFn: async () => {
+      const response = await fetch(`/api/mass-campaigns/${campaignId}/contacts/${attemptsContactId}/attempts`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch contact attempts');
+      }
+      return response.json();
+    },
+    enabled: !!campaignId && !!attemptsContactId,
+    staleTime: 0
+  });
+
+  // Live updates from the campaign room: counters come with each event, logs are refreshed in bursts
+  useEffect(() => {
+    if (!campaignId || !userId) return;
+
+    let logsRefresh: ReturnType<typeof setTimeout> | undefined;
+    const refreshLogs = () => {
+      if (logsRefresh) return;
+      logsRefresh = setTimeout(() => {
+        logsRefresh = undefined;
+        queryClient.invalidateQueries({ queryKey: ['mass-campaign-logs', campaignId] });
+      }, 2000);
+    };
+
+    const socket = io({ path: "/socket.io" });
+    socket.on("connect", () => {
+      socket.emit("authenticate", { userId });
+      socket.emit("campaign:subscribe", { campaignId });
+    });
+    socket.on("campaign-event", (event: CampaignLiveEvent) => {
+      if (event.campaignId !== campaignId) return;
+      if (event.type === "STATUS" || !event.counters) {
+        queryClient.invalidateQueries({ queryKey: ['mass-campaign-stats', campaignId] });
+      } else {
+        queryClient.setQueryData<CampaignStats>(['mass-campaign-stats', campaignId], (current) =>
+          current ? { ...current, ...event.counters } : current
+        );
+      }
+      refreshLogs();
+    });
+    // Pausa automática do circuit breaker (falhas ou desconexões em excesso)
+    socket.on("campaign-alert", (data: { campaignId: string; campaignName: string; reason: string }) => {
+      if (data.campaignId !== campaignId) return;
+      queryClient.invalidateQueries({ queryKey: ['mass-campaign-stats', campaignId] });
+      queryClient.invalidateQueries({ queryKey: ['mass-campaign-logs', campaignId] });
+      toast({
+        title: "Campanha pausada automaticamente",
+        description: data.reason,
+        variant: "destructive",
+      });
+    });
+
+    return () => {
+      if (logsRefresh) clearTimeout(logsRefresh);
+      socket.emit("campaign:unsubscribe", { campaignId });
+      socket.close();
+    };
+  }, [campaignId, userId]);
+
   // Control mutations
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/mass-campaigns/${campaignId}/start`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mass-campaign-stats', campaignId] });
+    },
+    // Ex.: campanha de vendedor ainda sem aprovação do gestor
+    onError: (error: any) => {
+      toast({
+        title: "Não foi possível iniciar",
+        description: error.message || "Erro ao iniciar a campanha",
+        variant: "destructive",
+      });
+    },
+  });
+
   const pauseMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest('POST', `/api/mass-campaigns/${campaignId}/pause`);
@@ -182,6 +450,14 @@ export default function CampaignMonitoring() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['mass-campaign-stats', campaignId] });
     },
+    // Ex.: orçamento esgotado - é preciso aumentar o limite antes de retomar
+    onError: (error: any) => {
+      toast({
+        title: "Não foi possível retomar",
+        description: error.message || "Erro ao retomar a campanha",
+        variant: "destructive",
+      });
+    },
   });
 
   const stopMutation = useMutation({
@@ -204,6 +480,10 @@ export default function CampaignMonitoring() {
         return <Badge className="bg-red-100 text-red-800" data-testid="badge-status-stopped">⏹ Parada</Badge>;
       case "COMPLETED":
         return <Badge className="bg-blue-100 text-blue-800" data-testid="badge-status-completed">✅ Concluída</Badge>;
+      case "PENDING_APPROVAL":
+        return <Badge className="bg-purple-100 text-purple-800" data-testid="badge-status-pending-approval">⏳ Aguardando aprovação</Badge>;
+      case "APPROVED":
+        return <Badge className="bg-teal-100 text-teal-800" data-testid="badge-status-approved">✔ Aprovada</Badge>;
       default:
         return <Badge variant="secondary" data-testid="badge-status-default">{status}</Badge>;
     }
@@ -223,6 +503,9 @@ export default function CampaignMonitoring() {
 
   const handleControlAction = (action: string) => {
     switch (action) {
+      case 'start':
+        startMutation.mutate();
+        break;
       case 'pause':
         pauseMutation.mutate();
         break;
@@ -245,6 +528,7 @@ export default function CampaignMonitoring() {
       { name: "Enviado", value: campaignStats.sentCount, color: "#22c55e" },
       { name: "Entregue", value: campaignStats.deliveredCount, color: "#3b82f6" },
       { name: "Lido", value: campaignStats.readCount, color: "#8b5cf6" },
+      { name: "Respondido", value: campaignStats.repliedCount, color: "#10b981" },
       { name: "Erro", value: campaignStats.errorCount, color: "#ef4444" },
     ];
   };
@@ -388,6 +672,21 @@ export default function CampaignMonitoring() {
           </CardContent>
         </Card>
 
+        <Card data-testid="card-replied-messages">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Respostas</CardTitle>
+            <Reply className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-emerald-600" data-testid="text-replied-messages">
+              {campaignStats.repliedCount.toLocaleString()}
+            </div>
+            <p className="text-xs text-muted-foreground" data-testid="text-replied-percentage">
+              {campaignStats.sentCount > 0 ? Math.round((campaignStats.repliedCount / campaignStats.sentCount) * 100) : 0}% dos enviados
+            </p>
+          </CardContent>
+        </Card>
+
         <Card data-testid="card-error-messages">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Erros/Falhas</CardTitle>
@@ -443,10 +742,35 @@ export default function CampaignMonitoring() {
               R$ {campaignStats.totalCost.toFixed(2)}
             </div>
             <p className="text-xs text-muted-foreground" data-testid="text-cost-breakdown">
-              Validação: R$ {campaignStats.validationCost.toFixed(2)}
+              Validação: R$ {campaignStats.validationCost.toFixed(2)} · Envios: R$ {campaignStats.sendingCost.toFixed(2)}
             </p>
+            {campaignStats.budget !== null && (
+              <div className="mt-2 space-y-1" data-testid="campaign-budget">
+                <Progress value={Math.min(100, (campaignStats.totalCost / campaignStats.budget) * 100)} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  {((campaignStats.totalCost / campaignStats.budget) * 100).toFixed(0)}% do orçamento de R$ {campaignStats.budget.toFixed(2)}
+                </p>
+              </div>
+            )}
           </CardContent>
         </Card>
+
+        {variationReport && (
+          <Card data-testid="card-variations">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Variações de Texto</CardTitle>
+              <Shuffle className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold" data-testid="text-distinct-messages">
+                {variationReport.distinctMessages.toLocaleString()}
+              </div>
+              <p className="text-xs text-muted-foreground" data-testid="text-variation-breakdown">
+                Mensagens distintas de {variationReport.variants.toLocaleString()} possíveis · máx. {variationReport.maxRepetitions.toLocaleString()} repetições
+              </p>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Progress Bar */}
@@ -469,6 +793,158 @@ export default function CampaignMonitoring() {
         </CardContent>
       </Card>
 
+      {/* Drip sequence */}
+      {sequenceReport && sequenceReport.steps.length > 1 && (
+        <Card data-testid="card-sequence">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              Sequência de Follow-ups
+            </CardTitle>
+            <p className="text-sm text-muted-foreground" data-testid="text-sequence-summary">
+              {sequenceReport.awaiting.toLocaleString()} aguardando próximo passo ·{" "}
+              {sequenceReport.exits.REPLIED.toLocaleString()} responderam ·{" "}
+              {sequenceReport.exits.OPTED_OUT.toLocaleString()} descadastrados ·{" "}
+              {sequenceReport.exits.COMPLETED.toLocaleString()} concluíram ·{" "}
+              {sequenceReport.exits.FAILED.toLocaleString()} com falha
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Passo</TableHead>
+                  <TableHead>Quando</TableHead>
+                  <TableHead className="text-right">Enviadas</TableHead>
+                  <TableHead className="text-right">Falhas</TableHead>
+                  <TableHead className="text-right">Responderam após o passo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sequenceReport.steps.map((step) => (
+                  <TableRow key={step.stepNumber} data-testid={`row-step-${step.stepNumber}`}>
+                    <TableCell>
+                      <Badge variant="secondary">{step.stepNumber}</Badge>
+                      <div className="text-xs text-muted-foreground max-w-xs truncate" title={step.messageTemplate || ''}>
+                        {step.messageTemplate}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {step.stepNumber === 1 ? 'Envio inicial' : `${step.delayDays} dias após o passo ${step.stepNumber - 1}`}
+                    </TableCell>
+                    <TableCell className="text-right">{step.sent.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{step.failed.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{step.repliedAfter.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* A/B test */}
+      {abTestReport?.enabled && abTestReport.variants && abTestReport.config && (
+        <Card data-testid="card-ab-test">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5" />
+              Teste A/B
+            </CardTitle>
+            <p className="text-sm text-muted-foreground" data-testid="text-ab-test-mode">
+              Métrica: {AB_TEST_METRICS.find((metric) => metric.value === abTestReport.config!.metric)?.label}
+              {abTestReport.config.testSlicePercent !== null && (
+                abTestReport.winnerVariantId
+                  ? ` · Vencedora enviada ao restante da lista desde ${new Date(abTestReport.winnerSelectedAt!).toLocaleString('pt-BR')}`
+                  : ` · Amostra de ${abTestReport.config.testSlicePercent}% em teste; a vencedora vai para o restante da lista`
+              )}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variante</TableHead>
+                  <TableHead className="text-right">Contatos</TableHead>
+                  <TableHead className="text-right">Enviadas</TableHead>
+                  <TableHead className="text-right">Entrega</TableHead>
+                  <TableHead className="text-right">Leitura</TableHead>
+                  <TableHead className="text-right">Resposta</TableHead>
+                  <TableHead>Significância</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {abTestReport.variants.map((variant) => (
+                  <TableRow key={variant.variantId} data-testid={`row-variant-${variant.key}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{variant.key}</Badge>
+                        {variant.variantId === abTestReport.winnerVariantId && (
+                          <Badge className="bg-indigo-600">Vencedora</Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground max-w-xs truncate" title={variant.messageTemplate}>
+                        {variant.messageTemplate}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{variant.assigned.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{variant.sent.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{(variant.rates.DELIVERY * 100).toFixed(1)}%</TableCell>
+                    <TableCell className="text-right">{(variant.rates.READ * 100).toFixed(1)}%</TableCell>
+                    <TableCell className="text-right">{(variant.rates.REPLY * 100).toFixed(1)}%</TableCell>
+                    <TableCell data-testid={`text-variant-significance-${variant.key}`}>
+                      {variant.pValue === null ? (
+                        <span className="text-xs text-muted-foreground">Dados insuficientes</span>
+                      ) : variant.isLeader ? (
+                        <Badge variant={variant.significant ? "default" : "outline"}>
+                          {variant.significant ? "Líder significativa" : "Líder sem significância"} (p={variant.pValue.toFixed(3)})
+                        </Badge>
+                      ) : (
+                        <Badge variant={variant.significant ? "destructive" : "outline"}>
+                          {variant.significant ? "Pior que a líder" : "Sem diferença significativa"} (p={variant.pValue.toFixed(3)})
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sends per sender number */}
+      {senderReport && senderReport.senders.length > 0 && (
+        <Card data-testid="card-sender-counts">
+          <CardHeader>
+            <CardTitle>Envios por Número</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Número</TableHead>
+                  <TableHead className="text-right">Enviadas</TableHead>
+                  <TableHead className="text-right">Falhas</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {senderReport.senders.map((sender) => (
+                  <TableRow key={sender.senderId} data-testid={`row-sender-count-${sender.senderId}`}>
+                    <TableCell>
+                      <div className="font-medium">{sender.label || 'Número removido'}</div>
+                      <div className="text-xs text-muted-foreground">{sender.connectedPhone || '—'}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{sender.sent.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{sender.failed.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Hourly Sends Chart */}
@@ -516,6 +992,11 @@ export default function CampaignMonitoring() {
         </Card>
       </div>
 
+      {/* Dry-run forecast while there is still something to send */}
+      {campaignStats.status !== "COMPLETED" && campaignStats.status !== "STOPPED" && (
+        <CampaignForecastPanel campaignId={campaignId!} />
+      )}
+
       {/* Control Section */}
       <Card data-testid="card-controls">
         <CardHeader>
@@ -523,6 +1004,15 @@ export default function CampaignMonitoring() {
         </CardHeader>
         <CardContent>
           <div className="flex justify-center gap-4">
+            {/* Vendedores só iniciam depois da aprovação; gestores iniciam os próprios rascunhos */}
+            <Button
+              data-testid="button-start"
+              disabled={!(campaignStats.status === "APPROVED" || (campaignStats.status === "DRAFT" && isManager)) || startMutation.isPending}
+              onClick={() => handleControlAction("start")}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {startMutation.isPending ? 'Iniciando...' : 'Iniciar'}
+            </Button>
             <Button
               data-testid="button-pause"
               variant="outline"
@@ -632,7 +1122,10 @@ export default function CampaignMonitoring() {
                 <SelectItem value="SENT">Enviados</SelectItem>
                 <SelectItem value="DELIVERED">Entregues</SelectItem>
                 <SelectItem value="READ">Lidos</SelectItem>
+                <SelectItem value="REPLIED">Respondidos</SelectItem>
                 <SelectItem value="FAILED">Erros</SelectItem>
+                <SelectItem value="RETRYING">Novas tentativas</SelectItem>
+                <SelectItem value="CANCELLED">Cancelados</SelectItem>
                 <SelectItem value="PENDING">Processando</SelectItem>
               </SelectContent>
             </Select>
@@ -645,14 +1138,16 @@ export default function CampaignMonitoring() {
                 <TableHead>Timestamp</TableHead>
                 <TableHead>Telefone</TableHead>
                 <TableHead>Empresa</TableHead>
+                <TableHead>Canal / Custo</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Mensagem de Erro</TableHead>
+                <TableHead>Tentativas</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {isLoadingLogs ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center py-8">
+                  <TableCell colSpan={7} className="text-center py-8">
                     <div className="flex items-center justify-center">
                       <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mr-2"></div>
                       Carregando logs...
@@ -661,13 +1156,13 @@ export default function CampaignMonitoring() {
                 </TableRow>
               ) : logsError ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center py-8 text-red-600">
+                  <TableCell colSpan={7} className="text-center py-8 text-red-600">
                     Erro ao carregar logs: {logsError.message}
                   </TableCell>
                 </TableRow>
               ) : !logsData?.logs?.length ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                     Nenhum log encontrado
                   </TableCell>
                 </TableRow>
@@ -685,6 +1180,27 @@ export default function CampaignMonitoring() {
                       <TableCell data-testid={`cell-company-${log.id}`}>
                         {log.razaoSocial}
                       </TableCell>
+                      <TableCell data-testid={`cell-channel-${log.id}`}>
+                        {log.channel && <Badge variant="outline">{channelLabel(log.channel)}</Badge>}
+                        {log.media && (
+                          <div
+                            className="flex items-center gap-1 text-xs text-muted-foreground mt-1"
+                            title={MEDIA_KIND_LABELS[log.media.kind]}
+                            data-testid={`text-media-${log.id}`}
+                          >
+                            <Paperclip className="h-3 w-3" />
+                            <span className="truncate max-w-[160px]">{log.media.name}</span>
+                          </div>
+                        )}
+                        {log.attemptCosts.length > 0 && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {log.attemptCosts
+                              .map((attempt) => `${channelLabel(attempt.channel)} ${attempt.status === 'SENT' ? formatAttemptCost(attempt.cost) : 'falhou'}`)
+                              .join(" → ")}
+                            {log.attemptCosts.length > 1 && <> · total {formatAttemptCost(log.totalCost)}</>}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell data-testid={`cell-status-${log.id}`}>
                         <div className="flex items-center gap-2">
                           {StatusIcon ? (
@@ -705,6 +1221,18 @@ export default function CampaignMonitoring() {
                           <span className="text-red-600 text-sm">{log.errorMessage}</span>
                         )}
                       </TableCell>
+                      <TableCell>
+                        {log.contactId && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setAttemptsContactId(log.contactId)}
+                            data-testid={`button-attempts-${log.id}`}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
                     </TableRow>
                   );
                 })
@@ -740,6 +1268,68 @@ export default function CampaignMonitoring() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Contact attempt history */}
+      <Dialog open={!!attemptsContactId} onOpenChange={(open) => !open && setAttemptsContactId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Histórico de Tentativas</DialogTitle>
+            <DialogDescription>
+              {attemptsData?.phone}
+              {attemptsData?.channel && <> · {channelLabel(attemptsData.channel)}</>}
+              {attemptsData?.nextAttemptAt && attemptsData.sendStatus === 'PENDING' && (
+                <> · próxima tentativa às {new Date(attemptsData.nextAttemptAt).toLocaleTimeString()}</>
+              )}
+              {attemptsData?.fallbackAt && (
+                <> · próximo canal em {new Date(attemptsData.fallbackAt).toLocaleString()} se não houver resposta</>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingAttempts ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : !attemptsData?.attempts.length ? (
+            <p className="text-center py-8 text-muted-foreground">Nenhuma tentativa registrada</p>
+          ) : (
+            <Table data-testid="table-contact-attempts">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Horário</TableHead>
+                  <TableHead>Canal</TableHead>
+                  <TableHead>Resultado</TableHead>
+                  <TableHead className="text-right">Custo</TableHead>
+                  <TableHead>Erro</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attemptsData.attempts.map((attempt) => (
+                  <TableRow key={attempt.id} data-testid={`row-attempt-${attempt.id}`}>
+                    <TableCell>{attempt.attemptNumber}</TableCell>
+                    <TableCell>{new Date(attempt.attemptedAt).toLocaleString()}</TableCell>
+                    <TableCell>{channelLabel(attempt.channel)}</TableCell>
+                    <TableCell>
+                      {attempt.status === 'SENT' ? (
+                        <Badge className="bg-green-100 text-green-800">Enviado</Badge>
+                      ) : (
+                        <Badge className={attempt.retryable ? "bg-orange-100 text-orange-800" : "bg-red-100 text-red-800"}>
+                          {attempt.retryable ? "Falha temporária" : "Falha permanente"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{formatAttemptCost(Number(attempt.cost || 0))}</TableCell>
+                    <TableCell className="text-sm">
+                      {attempt.errorCode && <span className="font-mono mr-2">{attempt.errorCode}</span>}
+                      {attempt.errorMessage}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
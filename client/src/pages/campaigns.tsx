@@ -1,6 +1,9 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -8,6 +11,8 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { WhatsAppStatus } from "@/components/whatsapp/whatsapp-status";
 import {
   AlertCircle,
@@ -28,10 +33,14 @@ import {
   Pause,
   Square,
   BarChart,
+  CalendarX,
+  SendHorizontal,
+  ShieldCheck,
 } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import type { MassCampaign } from "@shared/schema";
+import type { MassCampaign, User } from "@shared/schema";
+import { CAMPAIGN_APPROVER_ROLES, canStartCampaign, requiresCampaignApproval } from "@shared/campaignApproval";
 
 // Função para obter informações do status
 const getStatusInfo = (status: string) => {
@@ -43,6 +52,20 @@ const getStatusInfo = (status: string) => {
         icon: Settings,
         description: "Campanha em configuração"
       };
+    case "PENDING_APPROVAL":
+      return {
+        label: "Aguardando aprovação",
+        color: "bg-purple-100 text-purple-800",
+        icon: Clock,
+        description: "Aguardando a revisão do gestor"
+      };
+    case "APPROVED":
+      return {
+        label: "Aprovada",
+        color: "bg-teal-100 text-teal-800",
+        icon: ShieldCheck,
+        description: "Aprovada pelo gestor, pronta para iniciar"
+      };
     case "VALIDATING":
       return {
         label: "Validando",
@@ -141,9 +164,18 @@ const calculateSuccessRate = (campaign: MassCampaign) => {
   return Math.round((successCount / sentCount) * 100);
 };
 
+// Valor para <input type="datetime-local"> no fuso do navegador
+const toDateTimeLocal = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
 export default function Campaigns() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const typedUser = user as User | undefined;
+  const isManager = CAMPAIGN_APPROVER_ROLES.includes(typedUser?.role || '');
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("ALL");
+  const [schedulingCampaign, setSchedulingCampaign] = useState<MassCampaign | null>(null);
+  const [scheduleValue, setScheduleValue] = useState("");
 
   // Query para buscar campanhas
   const {
@@ -165,6 +197,83 @@ export default function Campaigns() {
     staleTime: 30000, // Cache por 30 segundos
   });
 
+  // Agendar/reagendar e desagendar campanhas
+  const scheduleMutation = useMutation({
+    mutationFn: async ({ id, startTime }: { id: string; startTime: string }) => {
+      const response = await apiRequest("POST", `/api/mass-campaigns/${id}/schedule`, { startTime });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mass-campaigns'] });
+      setSchedulingCampaign(null);
+      toast({
+        title: "Campanha agendada",
+        description: "O envio começará automaticamente no horário definido",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao agendar",
+        description: error.message || "Não foi possível agendar a campanha",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unscheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/mass-campaigns/${id}/unschedule`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mass-campaigns'] });
+      toast({
+        title: "Agendamento cancelado",
+        description: "A campanha voltou para rascunho",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao cancelar agendamento",
+        description: error.message || "Não foi possível cancelar o agendamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitApprovalMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/mass-campaigns/${id}/submit-approval`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mass-campaigns'] });
+      toast({
+        title: "Campanha enviada para aprovação",
+        description: "Um gestor vai revisar a campanha antes do envio",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao enviar para aprovação",
+        description: error.message || "Não foi possível enviar a campanha para aprovação",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Campanhas de outros donos (visíveis ao gestor) só são liberadas depois de aprovadas
+  const canSchedule = (campaign: MassCampaign) =>
+    canStartCampaign(campaign, campaign.userId === typedUser?.id ? typedUser?.role : undefined);
+
+  const openScheduleDialog = (campaign: MassCampaign) => {
+    const current = campaign.status === "SCHEDULED" && campaign.startTime
+      ? new Date(campaign.startTime)
+      : new Date(Date.now() + 60 * 60 * 1000);
+    setScheduleValue(toDateTimeLocal(current));
+    setSchedulingCampaign(campaign);
+  };
+
   // Filtrar campanhas baseado na busca e filtro de status
   const filteredCampaigns = campaigns?.filter((campaign) => {
     const campaignName = campaign.name || '';
@@ -247,6 +356,8 @@ export default function Campaigns() {
                 <SelectContent>
                   <SelectItem value="ALL">Todos os status</SelectItem>
                   <SelectItem value="DRAFT">Rascunho</SelectItem>
+                  <SelectItem value="PENDING_APPROVAL">Aguardando aprovação</SelectItem>
+                  <SelectItem value="APPROVED">Aprovada</SelectItem>
                   <SelectItem value="VALIDATING">Validando</SelectItem>
                   <SelectItem value="SCHEDULED">Agendada</SelectItem>
                   <SelectItem value="RUNNING">Executando</SelectItem>
@@ -323,14 +434,71 @@ export default function Campaigns() {
                         <span data-testid={`text-campaign-created-${campaign.id}`}>
                           Criada em {campaign.createdAt ? format(new Date(campaign.createdAt), "dd/MM/yyyy", { locale: ptBR }) : 'Data não disponível'}
                         </span>
-                        {campaign.startTime && (
+                        {campaign.startTime && campaign.status === "SCHEDULED" && (
+                          <span className="text-blue-700" data-testid={`text-campaign-scheduled-${campaign.id}`}>
+                            Agendada para {format(new Date(campaign.startTime), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                          </span>
+                        )}
+                        {campaign.startTime && (campaign.status === "DRAFT" || campaign.status === "PENDING_APPROVAL" || campaign.status === "APPROVED") && (
+                          <span data-testid={`text-campaign-requested-start-${campaign.id}`}>
+                            Início previsto {format(new Date(campaign.startTime), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                          </span>
+                        )}
+                        {campaign.startTime && !["DRAFT", "PENDING_APPROVAL", "APPROVED", "SCHEDULED"].includes(campaign.status || "DRAFT") && (
                           <span data-testid={`text-campaign-started-${campaign.id}`}>
                             Iniciada em {format(new Date(campaign.startTime), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
                           </span>
                         )}
                       </div>
+                      {campaign.status === "DRAFT" && campaign.reviewComment && (
+                        <p className="text-xs text-red-700 mt-2" data-testid={`text-review-comment-${campaign.id}`}>
+                          Rejeitada pelo gestor: {campaign.reviewComment}
+                        </p>
+                      )}
                     </div>
                     <div className="flex gap-2">
+                      {campaign.status === "DRAFT" && requiresCampaignApproval(typedUser?.role) && (
+                        <Button
+                          size="sm"
+                          onClick={() => submitApprovalMutation.mutate(campaign.id)}
+                          disabled={submitApprovalMutation.isPending}
+                          data-testid={`button-submit-approval-${campaign.id}`}
+                        >
+                          <SendHorizontal className="h-4 w-4 mr-1" />
+                          Enviar para aprovação
+                        </Button>
+                      )}
+                      {campaign.status === "PENDING_APPROVAL" && isManager && (
+                        <Link href="/campaigns/approvals">
+                          <Button size="sm" data-testid={`button-review-${campaign.id}`}>
+                            <ShieldCheck className="h-4 w-4 mr-1" />
+                            Revisar
+                          </Button>
+                        </Link>
+                      )}
+                      {canSchedule(campaign) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openScheduleDialog(campaign)}
+                          data-testid={`button-schedule-${campaign.id}`}
+                        >
+                          <Calendar className="h-4 w-4 mr-1" />
+                          {campaign.status === "SCHEDULED" ? "Reagendar" : "Agendar"}
+                        </Button>
+                      )}
+                      {campaign.status === "SCHEDULED" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unscheduleMutation.mutate(campaign.id)}
+                          disabled={unscheduleMutation.isPending}
+                          data-testid={`button-unschedule-${campaign.id}`}
+                        >
+                          <CalendarX className="h-4 w-4 mr-1" />
+                          Desagendar
+                        </Button>
+                      )}
                       <Link href={`/campaigns/monitor/${campaign.id}`}>
                         <Button variant="outline" size="sm" data-testid={`button-monitor-${campaign.id}`}>
                           <Eye className="h-4 w-4 mr-1" />
@@ -480,6 +648,46 @@ export default function Campaigns() {
           </CardContent>
         </Card>
       )}
+
+      {/* Agendamento */}
+      <Dialog open={!!schedulingCampaign} onOpenChange={(open) => !open && setSchedulingCampaign(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {schedulingCampaign?.status === "SCHEDULED" ? "Reagendar campanha" : "Agendar campanha"}
+            </DialogTitle>
+            <DialogDescription>
+              {schedulingCampaign?.name} será iniciada automaticamente no horário escolhido.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="schedule-start-time">Data e hora de início</Label>
+            <Input
+              id="schedule-start-time"
+              type="datetime-local"
+              value={scheduleValue}
+              min={toDateTimeLocal(new Date())}
+              onChange={(e) => setScheduleValue(e.target.value)}
+              data-testid="input-schedule-start-time"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSchedulingCampaign(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => schedulingCampaign && scheduleMutation.mutate({
+                id: schedulingCampaign.id,
+                startTime: new Date(scheduleValue).toISOString(),
+              })}
+              disabled={!scheduleValue || scheduleMutation.isPending}
+              data-testid="button-confirm-schedule"
+            >
+              Salvar agendamento
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -34,6 +34,7 @@ interface UploadResult {
     invalidRecords: number;
     duplicateRecords: number;
     blacklistedRecords: number;
+    frequencyCappedRecords?: number;
     status: string;
   };
 }
@@ -457,6 +458,14 @@ export default function ContactUpload() {
                       {uploadResult.validation.blacklistedRecords}
                     </Badge>
                   </div>
+
+                  {/* Já receberam o máximo de mensagens de outras campanhas na janela */}
+                  <div className="flex justify-between items-center" data-testid="result-frequency-capped">
+                    <span className="text-sm">Limite de frequência:</span>
+                    <Badge variant="outline" className="text-orange-600">
+                      {uploadResult.validation.frequencyCappedRecords || 0}
+                    </Badge>
+                  </div>
                 </div>
 
                 <Alert data-testid="alert-success">
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { BUDGET_WARNING_RATIO, monthKey, type BudgetUsage, type CostDashboard } from "@shared/budget";
+import type { User } from "@shared/schema";
+import { PricingSettingsCard } from "@/components/costs/pricing-settings";
+import { BudgetEditorCard } from "@/components/costs/budget-editor";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, DollarSign, Send, ShieldCheck, Trash2, Wallet } from "lucide-react";
+
+const formatMoney = (value: number, currency = "BRL") =>
+  value.toLocaleString("pt-BR", { style: "currency", currency, minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+function UsageBar({ usage, currency }: { usage: BudgetUsage; currency: string }) {
+  if (usage.limit === null || usage.percent === null) {
+    return <span className="text-sm text-muted-foreground">Sem orçamento</span>;
+  }
+
+  const reached = usage.percent >= 100;
+  const warning = usage.percent >= BUDGET_WARNING_RATIO * 100;
+  return (
+    <div className="space-y-1 min-w-[180px]">
+      <Progress value={Math.min(100, usage.percent)} className="h-2" />
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">{usage.percent.toFixed(0)}% de {formatMoney(usage.limit, currency)}</span>
+        {reached ? (
+          <Badge variant="destructive">Atingido</Badge>
+        ) : warning ? (
+          <Badge className="bg-amber-100 text-amber-800">Alerta</Badge>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export default function Costs() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const typedUser = user as User | undefined;
+  const isManager = !!typedUser?.role && ["GESTOR", "ADMIN", "SUPER_ADMIN"].includes(typedUser.role);
+  const [month, setMonth] = useState(monthKey());
+
+  const { data: dashboard, isLoading, error } = useQuery<CostDashboard>({
+    queryKey: ["/api/costs/dashboard", month],
+    queryFn: async () => {
+      const response = await fetch(`/api/costs/dashboard?month=${month}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Falha ao carregar os custos");
+      return response.json();
+    },
+  });
+
+  const deleteBudgetMutation = useMutation({
+    mutationFn: async (budgetId: string) => {
+      await apiRequest("DELETE", `/api/budgets/${budgetId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/costs/dashboard"] });
+      toast({ title: "Orçamento removido" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao remover",
+        description: error.message || "Não foi possível remover o orçamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const currency = dashboard?.pricing.currency || "BRL";
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-costs-title">Custos</h1>
+          <p className="text-muted-foreground">
+            Gastos com validações e envios comparados aos orçamentos
+          </p>
+        </div>
+        <Input
+          type="month"
+          className="w-44"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          data-testid="input-costs-month"
+        />
+      </div>
+
+      {error && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Erro ao carregar custos</AlertTitle>
+          <AlertDescription>{(error as Error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          <span className="ml-2">Carregando custos...</span>
+        </div>
+      )}
+
+      {dashboard && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card data-testid="card-total-spend">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Gasto no Mês</CardTitle>
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(dashboard.totals.total, currency)}</div>
+                <p className="text-xs text-muted-foreground">{isManager ? "Todos os vendedores" : "Suas campanhas e validações"}</p>
+              </CardContent>
+            </Card>
+            <Card data-testid="card-sending-spend">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Envios</CardTitle>
+                <Send className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(dashboard.totals.sendingCost, currency)}</div>
+                <p className="text-xs text-muted-foreground">
+                  WhatsApp {formatMoney(dashboard.pricing.perMessage.WHATSAPP, currency)} por mensagem
+                </p>
+              </CardContent>
+            </Card>
+            <Card data-testid="card-validation-spend">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Validações</CardTitle>
+                <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMoney(dashboard.totals.validationCost, currency)}</div>
+                <p className="text-xs text-muted-foreground">Consultas de WhatsApp dos números</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card data-testid="card-monthly-budgets">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                Orçamentos Mensais
+              </CardTitle>
+              <CardDescription>Gasto de {dashboard.month} por vendedor e equipe</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vendedor / Equipe</TableHead>
+                    <TableHead className="text-right">Envios</TableHead>
+                    <TableHead className="text-right">Validações</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Orçamento</TableHead>
+                    {isManager && <TableHead />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dashboard.budgets.map((budget) => (
+                    <TableRow key={`${budget.scope}-${budget.targetId}`} data-testid={`row-budget-${budget.targetId}`}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {budget.targetName}
+                          <Badge variant="outline">{budget.scope === "USER" ? "Vendedor" : "Equipe"}</Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(budget.sendingCost, currency)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(budget.validationCost, currency)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(budget.spent, currency)}</TableCell>
+                      <TableCell><UsageBar usage={budget} currency={currency} /></TableCell>
+                      {isManager && (
+                        <TableCell className="text-right">
+                          {budget.budgetId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteBudgetMutation.mutate(budget.budgetId!)}
+                              disabled={deleteBudgetMutation.isPending}
+                              data-testid={`button-delete-budget-${budget.budgetId}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card data-testid="card-campaign-costs">
+            <CardHeader>
+              <CardTitle>Campanhas</CardTitle>
+              <CardDescription>Gasto acumulado de cada campanha comparado ao seu orçamento</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {dashboard.campaigns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma campanha com gasto ou orçamento.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Campanha</TableHead>
+                      <TableHead className="text-right">Envios</TableHead>
+                      <TableHead className="text-right">Validações</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead>Orçamento</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dashboard.campaigns.map((campaign) => (
+                      <TableRow key={campaign.campaignId} data-testid={`row-campaign-cost-${campaign.campaignId}`}>
+                        <TableCell>
+                          <Link href={`/campaigns/monitor/${campaign.campaignId}`} className="hover:underline">
+                            {campaign.name}
+                          </Link>
+                          {campaign.status === "PAUSED" && (
+                            <Badge className="ml-2 bg-yellow-100 text-yellow-800">Pausada</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(campaign.sendingCost, currency)}</TableCell>
+                        <TableCell className="text-right">{formatMoney(campaign.validationCost, currency)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatMoney(campaign.spent, currency)}</TableCell>
+                        <TableCell><UsageBar usage={campaign} currency={currency} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {isManager && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <BudgetEditorCard />
+          <PricingSettingsCard />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -40,6 +42,7 @@ import {
   Key
 } from "lucide-react";
 import { SiGmail, SiSendgrid } from "react-icons/si";
+import type { EmailConfiguration } from "@shared/schema";
 
 // Schema de validação para o formulário SMTP
 const smtpConfigSchema = z.object({
@@ -50,11 +53,12 @@ const smtpConfigSchema = z.object({
   host: z.string().min(1, "Host é obrigatório"),
   port: z.coerce.number().min(1, "Porta é obrigatória").max(65535, "Porta inválida"),
   username: z.string().min(1, "Usuário é obrigatório"),
-  password: z.string().min(1, "Senha é obrigatória"),
+  password: z.string(), // obrigatória só na criação; em branco na edição mantém a atual
   senderEmail: z.string().email("E-mail do remetente deve ser válido"),
   senderName: z.string().optional(),
   useSSL: z.boolean().default(true),
   useTLS: z.boolean().default(true),
+  rateLimitPerHour: z.coerce.number().int().min(1, "Mínimo de 1 email por hora").max(100000, "Limite muito alto"),
 });
 
 type SMTPConfig = z.infer<typeof smtpConfigSchema>;
@@ -107,83 +111,29 @@ const providerTemplates = {
   }
 };
 
-// Dados iniciais de configurações
-const initialConfigurations: ConfigurationWithId[] = [
-  {
-    id: "1",
-    name: "Gmail Principal",
-    provider: "gmail" as const,
-    host: "smtp.gmail.com",
-    port: 587,
-    username: "empresa@gmail.com",
-    password: "********",
-    senderEmail: "empresa@gmail.com",
-    senderName: "Empresa CRM",
-    useSSL: true,
-    useTLS: true,
-    isActive: true,
-    status: "connected",
-    lastUsed: "2024-09-28T10:30:00Z",
-    totalSent: 2543
-  },
-  {
-    id: "2", 
-    name: "SendGrid Marketing",
-    provider: "sendgrid" as const,
-    host: "smtp.sendgrid.net",
-    port: 587,
-    username: "apikey",
-    password: "********",
-    senderEmail: "marketing@empresa.com",
-    senderName: "Marketing Empresa",
-    useSSL: true,
-    useTLS: true,
-    isActive: false,
-    status: "disconnected",
-    lastUsed: "2024-09-25T15:45:00Z",
-    totalSent: 15642
-  },
-  {
-    id: "3",
-    name: "Outlook Suporte",
-    provider: "outlook" as const,
-    host: "smtp-mail.outlook.com", 
-    port: 587,
-    username: "suporte@empresa.com",
-    password: "********",
-    senderEmail: "suporte@empresa.com",
-    senderName: "Suporte Técnico",
-    useSSL: true,
-    useTLS: true,
-    isActive: true,
-    status: "error",
-    lastUsed: "2024-09-27T08:15:00Z",
-    totalSent: 891
-  }
-];
-
-type ConfigurationWithId = SMTPConfig & {
-  id: string;
-  isActive: boolean;
-  status: string;
-  lastUsed: string;
-  totalSent: number;
-};
+// Configuração como devolvida pela API (sem a senha)
+type EmailConfigurationView = Omit<EmailConfiguration, "passwordEncrypted"> & { hasPassword: boolean };
+
+type TestResult = { success: boolean; error?: string };
+
+const configsQueryKey = ["/api/email-configs"];
 
 export default function EmailConfigure() {
-  const [configurations, setConfigurations] = useState<ConfigurationWithId[]>(initialConfigurations);
   const [showPassword, setShowPassword] = useState(false);
   const [isCreatingNew, setIsCreatingNew] = useState(false);
   const [editingConfig, setEditingConfig] = useState<string | null>(null);
-  const [testingConnection, setTestingConnection] = useState(false);
   const { toast } = useToast();
 
+  const { data: configurations = [], isLoading } = useQuery<EmailConfigurationView[]>({
+    queryKey: configsQueryKey,
+  });
+
   const form = useForm<SMTPConfig>({
     resolver: zodResolver(smtpConfigSchema),
     defaultValues: {
       name: "",
       provider: "gmail",
-      host: "",
+      host: providerTemplates.gmail.host,
       port: 587,
       username: "",
       password: "",
@@ -191,11 +141,37 @@ export default function EmailConfigure() {
       senderName: "",
       useSSL: true,
       useTLS: true,
+      rateLimitPerHour: 100,
     },
   });
 
   const selectedProvider = form.watch("provider");
 
+  const closeForm = () => {
+    setIsCreatingNew(false);
+    setEditingConfig(null);
+    form.reset();
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const showTestResult = (result: TestResult) => {
+    if (result.success) {
+      toast({
+        title: "Conexão bem-sucedida! ✅",
+        description: "Configuração SMTP testada com sucesso.",
+      });
+    } else {
+      toast({
+        title: "Falha na conexão ❌",
+        description: result.error || "Verifique as credenciais e configurações.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Função para aplicar template do provider
   const applyProviderTemplate = (provider: keyof typeof providerTemplates) => {
     const template = providerTemplates[provider];
@@ -205,156 +181,147 @@ export default function EmailConfigure() {
     form.setValue("useTLS", template.useTLS);
   };
 
-  // Função para testar conexão específica
+  // Teste do formulário (antes de salvar) ou de uma configuração salva
+  const testFormMutation = useMutation({
+    mutationFn: async (data: SMTPConfig): Promise<TestResult> => {
+      const response = await apiRequest("POST", "/api/email-configs/test", data);
+      return response.json();
+    },
+    onSuccess: showTestResult,
+    onError: onError("Erro ao testar conexão"),
+  });
+
+  const testSavedMutation = useMutation({
+    mutationFn: async (configId: string): Promise<TestResult> => {
+      const response = await apiRequest("POST", `/api/email-configs/${configId}/test`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      showTestResult(result);
+      queryClient.invalidateQueries({ queryKey: configsQueryKey });
+    },
+    onError: onError("Erro ao testar conexão"),
+  });
+
+  const testingConnection = testFormMutation.isPending || testSavedMutation.isPending;
+
   const handleTestConnection = async (configId?: string) => {
-    setTestingConnection(true);
-    
-    // Simular teste de conexão
-    setTimeout(() => {
-      setTestingConnection(false);
-      const success = Math.random() > 0.3; // 70% chance de sucesso
-      
-      if (success) {
-        toast({
-          title: "Conexão bem-sucedida! ✅",
-          description: "Configuração SMTP testada com sucesso.",
-        });
-        
-        // Atualizar status da configuração se um ID for fornecido
-        if (configId) {
-          setConfigurations(prev => prev.map(config => 
-            config.id === configId 
-              ? { ...config, status: "connected", lastUsed: new Date().toISOString() }
-              : config
-          ));
-        }
-      } else {
-        toast({
-          title: "Falha na conexão ❌",
-          description: "Verifique as credenciais e configurações.",
-          variant: "destructive",
-        });
-        
-        // Atualizar status da configuração se um ID for fornecido
-        if (configId) {
-          setConfigurations(prev => prev.map(config => 
-            config.id === configId 
-              ? { ...config, status: "error" }
-              : config
-          ));
-        }
-      }
-    }, 2000);
+    if (configId) {
+      testSavedMutation.mutate(configId);
+      return;
+    }
+
+    // Editando sem informar a senha: testa a configuração salva
+    const data = form.getValues();
+    if (editingConfig && !data.password) {
+      testSavedMutation.mutate(editingConfig);
+      return;
+    }
+    if (await form.trigger()) {
+      testFormMutation.mutate(data);
+    }
   };
 
-  // Função para salvar configuração
-  const handleSaveConfiguration = async (data: SMTPConfig) => {
-    // Simular salvamento
-    setTimeout(() => {
-      // Criar nova configuração com ID único
-      const newConfig: ConfigurationWithId = {
-        ...data,
-        id: Date.now().toString(),
-        isActive: false,
-        status: "disconnected",
-        lastUsed: new Date().toISOString(),
-        totalSent: 0
-      };
-      
-      // Adicionar ao state
-      setConfigurations(prev => [...prev, newConfig]);
-      
-      toast({
-        title: "Configuração salva! 💾",
-        description: `${data.name} foi configurado com sucesso.`,
-      });
-      setIsCreatingNew(false);
-      form.reset();
-    }, 1000);
+  const saveMutation = useMutation({
+    mutationFn: async (data: SMTPConfig) => {
+      const response = editingConfig
+        ? await apiRequest("PATCH", `/api/email-configs/${editingConfig}`, data)
+        : await apiRequest("POST", "/api/email-configs", data);
+      return response.json();
+    },
+    onSuccess: (_config, data) => {
+      toast(editingConfig
+        ? { title: "Configuração atualizada! ✏️", description: `${data.name} foi atualizado com sucesso.` }
+        : { title: "Configuração salva! 💾", description: `${data.name} foi configurado com sucesso. Teste a conexão antes de usar em campanhas.` });
+      queryClient.invalidateQueries({ queryKey: configsQueryKey });
+      closeForm();
+    },
+    onError: onError("Erro ao salvar configuração"),
+  });
+
+  const handleSaveConfiguration = (data: SMTPConfig) => {
+    // Na edição a senha em branco mantém a atual
+    if (!editingConfig && !data.password) {
+      form.setError("password", { message: "Senha é obrigatória" });
+      return;
+    }
+    saveMutation.mutate(data);
   };
-  
+
   // Função para editar configuração
   const handleEditConfiguration = (configId: string) => {
     const config = configurations.find(c => c.id === configId);
     if (config) {
       form.reset({
         name: config.name,
-        provider: config.provider as any,
+        provider: (config.provider || "custom") as SMTPConfig["provider"],
         host: config.host,
         port: config.port,
         username: config.username,
         password: "", // Não mostrar senha por segurança
         senderEmail: config.senderEmail,
         senderName: config.senderName || "",
-        useSSL: config.useSSL || true,
-        useTLS: config.useTLS || true,
+        useSSL: config.useSSL ?? true,
+        useTLS: config.useTLS ?? true,
+        rateLimitPerHour: config.rateLimitPerHour ?? 100,
       });
       setEditingConfig(configId);
       setIsCreatingNew(true);
     }
   };
-  
-  // Função para atualizar configuração existente
-  const handleUpdateConfiguration = async (data: SMTPConfig) => {
-    if (!editingConfig) return;
-    
-    setTimeout(() => {
-      // Atualizar configuração existente
-      setConfigurations(prev => prev.map(config => 
-        config.id === editingConfig 
-          ? { 
-              ...config,
-              ...data,
-              lastUsed: new Date().toISOString()
-            }
-          : config
-      ));
-      
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (config: EmailConfigurationView) => {
+      const response = await apiRequest("PATCH", `/api/email-configs/${config.id}`, { isActive: !config.isActive });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: configsQueryKey }),
+    onError: onError("Erro ao atualizar configuração"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (config: EmailConfigurationView) => apiRequest("DELETE", `/api/email-configs/${config.id}`),
+    onSuccess: (_response, config) => {
       toast({
-        title: "Configuração atualizada! ✏️",
-        description: `${data.name} foi atualizado com sucesso.`,
+        title: "Configuração removida! 🗑️",
+        description: `${config.name} foi removido com sucesso.`,
       });
-      setIsCreatingNew(false);
-      setEditingConfig(null);
-      form.reset();
-    }, 1000);
-  };
-  
+      queryClient.invalidateQueries({ queryKey: configsQueryKey });
+    },
+    onError: onError("Erro ao remover configuração"),
+  });
+
   // Função para deletar configuração
   const handleDeleteConfiguration = (configId: string) => {
     const config = configurations.find(c => c.id === configId);
     if (config) {
-      setConfigurations(prev => prev.filter(c => c.id !== configId));
-      toast({
-        title: "Configuração removida! 🗑️",
-        description: `${config.name} foi removido com sucesso.`,
-      });
+      deleteMutation.mutate(config);
     }
   };
 
   // Função para obter status visual
-  const getStatusInfo = (status: string) => {
+  const getStatusInfo = (status: string | null) => {
     switch (status) {
-      case "connected":
+      case "CONNECTED":
         return {
           label: "Conectado",
           color: "bg-green-100 text-green-800",
           icon: CheckCircle,
           description: "Funcionando normalmente"
         };
-      case "disconnected":
+      case "UNTESTED":
         return {
-          label: "Desconectado",
+          label: "Não testado",
           color: "bg-gray-100 text-gray-800",
           icon: XCircle,
-          description: "Configuração inativa"
+          description: "Teste a conexão antes de usar em campanhas"
         };
-      case "error":
+      case "ERROR":
         return {
           label: "Erro",
           color: "bg-red-100 text-red-800",
           icon: AlertCircle,
-          description: "Erro de autenticação"
+          description: "Falha na conexão ou autenticação"
         };
       default:
         return {
@@ -393,12 +360,12 @@ export default function EmailConfigure() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Settings className="h-5 w-5" />
-              Nova Configuração SMTP
+              {editingConfig ? "Editar Configuração SMTP" : "Nova Configuração SMTP"}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <Form {...form}>
-              <form onSubmit={form.handleSubmit(editingConfig ? handleUpdateConfiguration : handleSaveConfiguration)} className="space-y-6">
+              <form onSubmit={form.handleSubmit(handleSaveConfiguration)} className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   {/* Nome da Configuração */}
                   <FormField
@@ -558,7 +525,7 @@ export default function EmailConfigure() {
                           <div className="relative">
                             <Input 
                               type={showPassword ? "text" : "password"}
-                              placeholder="••••••••" 
+                              placeholder={editingConfig ? "Deixe em branco para manter" : "••••••••"}
                               data-testid="input-smtp-password"
                               {...field} 
                             />
@@ -629,6 +596,30 @@ export default function EmailConfigure() {
                       </FormItem>
                     )}
                   />
+
+                  {/* Limite de Envio */}
+                  <FormField
+                    control={form.control}
+                    name="rateLimitPerHour"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Limite de Envios por Hora</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="number"
+                            min={1}
+                            placeholder="100" 
+                            data-testid="input-rate-limit"
+                            {...field} 
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Campanhas aguardam a próxima hora ao atingir o limite do provedor
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
 
                 {/* Configurações de Segurança */}
@@ -706,18 +697,14 @@ export default function EmailConfigure() {
                       </>
                     )}
                   </Button>
-                  <Button type="submit" data-testid="button-save-config">
+                  <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-config">
                     <Key className="h-4 w-4 mr-2" />
                     {editingConfig ? "Atualizar Configuração" : "Salvar Configuração"}
                   </Button>
                   <Button 
                     type="button"
                     variant="outline"
-                    onClick={() => {
-                      setIsCreatingNew(false);
-                      setEditingConfig(null);
-                      form.reset();
-                    }}
+                    onClick={closeForm}
                     data-testid="button-cancel-config"
                   >
                     Cancelar
@@ -738,7 +725,9 @@ export default function EmailConfigure() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          {configurations.length === 0 ? (
+          {isLoading ? (
+            <div className="text-center py-12 text-muted-foreground">Carregando configurações...</div>
+          ) : configurations.length === 0 ? (
             <div className="text-center py-12">
               <Mail className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">
@@ -756,7 +745,7 @@ export default function EmailConfigure() {
             <div className="space-y-4">
               {configurations.map((config) => {
                 const statusInfo = getStatusInfo(config.status);
-                const providerInfo = providerTemplates[config.provider as keyof typeof providerTemplates];
+                const providerInfo = providerTemplates[(config.provider || "custom") as keyof typeof providerTemplates];
                 const StatusIcon = statusInfo.icon;
                 const ProviderIcon = providerInfo.icon;
 
@@ -798,17 +787,27 @@ export default function EmailConfigure() {
                             <div className="flex items-center gap-1">
                               <Mail className="h-3 w-3" />
                               <span data-testid={`text-total-sent-${config.id}`}>
-                                {config.totalSent.toLocaleString()} emails enviados
+                                {(config.totalSent || 0).toLocaleString()} emails enviados
                               </span>
                             </div>
+                            <div>Limite: {config.rateLimitPerHour}/hora</div>
                             <div>
-                              Último uso: {new Date(config.lastUsed).toLocaleDateString('pt-BR')}
+                              Último uso: {config.lastUsedAt ? new Date(config.lastUsedAt).toLocaleDateString('pt-BR') : "nunca"}
+                            </div>
+                            <div data-testid={`text-status-description-${config.id}`}>
+                              {config.status === "ERROR" && config.lastError ? config.lastError : statusInfo.description}
                             </div>
-                            <div>{statusInfo.description}</div>
                           </div>
                         </div>
 
-                        <div className="flex gap-2 ml-4">
+                        <div className="flex items-center gap-2 ml-4">
+                          <Switch
+                            checked={!!config.isActive}
+                            onCheckedChange={() => toggleActiveMutation.mutate(config)}
+                            disabled={toggleActiveMutation.isPending}
+                            title={config.isActive ? "Desativar" : "Ativar"}
+                            data-testid={`switch-active-${config.id}`}
+                          />
                           <Button 
                             variant="outline" 
                             size="sm"
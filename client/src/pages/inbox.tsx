@@ -0,0 +1,471 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { io } from "socket.io-client";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, Inbox as InboxIcon, Search, Send, Building2, User, Paperclip, X } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { Conversation, ConversationMessage, MediaAsset, User as AppUser } from "@shared/schema";
+import { MEDIA_KIND_LABELS, type MediaKind } from "@shared/media";
+
+// Types
+type ConversationSummary = Conversation & {
+  companyName: string | null;
+  assigneeName: string | null;
+};
+
+type ThreadMessage = ConversationMessage & {
+  media: { id: string; name: string; kind: MediaKind } | null;
+};
+
+interface Assignee {
+  id: string;
+  name: string;
+}
+
+const conversationStatus = {
+  OPEN: { label: "Aberta", color: "bg-green-100 text-green-800" },
+  PENDING: { label: "Pendente", color: "bg-yellow-100 text-yellow-800" },
+  CLOSED: { label: "Fechada", color: "bg-gray-100 text-gray-800" },
+};
+
+const getConversationStatus = (status: string | null) => {
+  return conversationStatus[(status || "OPEN") as keyof typeof conversationStatus] || conversationStatus.OPEN;
+};
+
+const formatTime = (value: string | Date | null) => {
+  if (!value) return "";
+  return format(new Date(value), "dd/MM HH:mm", { locale: ptBR });
+};
+
+export default function Inbox() {
+  const { user } = useAuth();
+  const typedUser = user as AppUser | undefined;
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("OPEN");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [attachmentId, setAttachmentId] = useState<string | null>(null);
+
+  const isManager = ["GESTOR", "ADMIN", "SUPER_ADMIN"].includes(typedUser?.role || "");
+
+  const {
+    data: conversations,
+    isLoading,
+    error
+  } = useQuery<ConversationSummary[]>({
+    queryKey: ['inbox-conversations', statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams(statusFilter !== 'ALL' ? { status: statusFilter } : {});
+      const response = await fetch(`/api/inbox/conversations?${params}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error('Falha ao carregar conversas');
+      }
+      return response.json();
+    },
+    refetchInterval: 30000,
+    staleTime: 0
+  });
+
+  const selected = conversations?.find((conversation) => conversation.id === selectedId);
+
+  const { data: messages, isLoading: isLoadingMessages } = useQuery<ThreadMessage[]>({
+    queryKey: ['inbox-messages', selectedId],
+    queryFn: async () => {
+      const response = await fetch(`/api/inbox/conversations/${selectedId}/messages`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error('Falha ao carregar mensagens');
+      }
+      return response.json();
+    },
+    enabled: !!selectedId,
+    staleTime: 0
+  });
+
+  const { data: assignees } = useQuery<Assignee[]>({
+    queryKey: ['/api/inbox/assignees'],
+    staleTime: 60000
+  });
+
+  const { data: mediaAssets } = useQuery<MediaAsset[]>({
+    queryKey: ['/api/media'],
+    staleTime: 60000
+  });
+
+  const attachment = mediaAssets?.find((asset) => asset.id === attachmentId);
+
+  const invalidateInbox = () => {
+    queryClient.invalidateQueries({ queryKey: ['inbox-conversations'] });
+    queryClient.invalidateQueries({ queryKey: ['inbox-unread'] });
+  };
+
+  // Live updates from the WhatsApp socket
+  useEffect(() => {
+    if (!typedUser?.id) return;
+
+    const socket = io({ path: "/socket.io" });
+    socket.on("connect", () => {
+      socket.emit("authenticate", { userId: typedUser.id });
+    });
+    socket.on("inbox-update", (data: { conversationId: string }) => {
+      invalidateInbox();
+      queryClient.invalidateQueries({ queryKey: ['inbox-messages', data.conversationId] });
+    });
+
+    return () => {
+      socket.close();
+    };
+  }, [typedUser?.id]);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/inbox/conversations/${id}/read`);
+      return response.json();
+    },
+    onSuccess: invalidateInbox,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ id, body, mediaAssetId }: { id: string; body: string; mediaAssetId?: string }) => {
+      const response = await apiRequest('POST', `/api/inbox/conversations/${id}/messages`, { body, mediaAssetId });
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      setReply("");
+      setAttachmentId(null);
+      invalidateInbox();
+      queryClient.invalidateQueries({ queryKey: ['inbox-messages', variables.id] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao enviar resposta",
+        description: error.message || "Não foi possível enviar a mensagem",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { status?: string; assignedTo?: string | null } }) => {
+      const response = await apiRequest('PATCH', `/api/inbox/conversations/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: invalidateInbox,
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao atualizar conversa",
+        description: error.message || "Não foi possível atualizar a conversa",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleSelect = (conversation: ConversationSummary) => {
+    setSelectedId(conversation.id);
+    setReply("");
+    setAttachmentId(null);
+    if ((conversation.unreadCount || 0) > 0) {
+      markReadMutation.mutate(conversation.id);
+    }
+  };
+
+  const handleSend = () => {
+    if (!selectedId || (!reply.trim() && !attachmentId)) return;
+    replyMutation.mutate({ id: selectedId, body: reply.trim(), mediaAssetId: attachmentId || undefined });
+  };
+
+  const filteredConversations = conversations?.filter((conversation) => {
+    const term = searchTerm.toLowerCase();
+    return !term ||
+      conversation.phone.toLowerCase().includes(term) ||
+      (conversation.contactName || '').toLowerCase().includes(term) ||
+      (conversation.companyName || '').toLowerCase().includes(term);
+  }) || [];
+
+  const canAssign = isManager || selected?.ownerId === typedUser?.id;
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Erro ao carregar inbox</AlertTitle>
+          <AlertDescription>
+            {error.message || 'Ocorreu um erro inesperado. Tente novamente.'}
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold" data-testid="text-inbox-title">Inbox</h1>
+        <p className="text-muted-foreground">
+          Respostas do WhatsApp recebidas pela equipe
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Conversation list */}
+        <Card className="lg:col-span-1">
+          <CardHeader className="space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Buscar por nome ou telefone..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+                data-testid="input-search-conversations"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger data-testid="select-conversation-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">Todas</SelectItem>
+                <SelectItem value="OPEN">Abertas</SelectItem>
+                <SelectItem value="PENDING">Pendentes</SelectItem>
+                <SelectItem value="CLOSED">Fechadas</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="p-0">
+            <ScrollArea className="h-[560px]">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                </div>
+              ) : filteredConversations.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <InboxIcon className="h-8 w-8 mx-auto mb-2" />
+                  Nenhuma conversa encontrada
+                </div>
+              ) : (
+                filteredConversations.map((conversation) => (
+                  <button
+                    key={conversation.id}
+                    onClick={() => handleSelect(conversation)}
+                    className={`w-full text-left px-4 py-3 border-b hover:bg-gray-50 ${
+                      conversation.id === selectedId ? "bg-blue-50" : ""
+                    }`}
+                    data-testid={`conversation-${conversation.id}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium truncate">
+                        {conversation.contactName || conversation.companyName || conversation.phone}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatTime(conversation.lastMessageAt)}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between mt-1 gap-2">
+                      <span className="text-sm text-muted-foreground truncate">
+                        {conversation.lastMessagePreview}
+                      </span>
+                      {(conversation.unreadCount || 0) > 0 && (
+                        <Badge variant="destructive" data-testid={`badge-unread-${conversation.id}`}>
+                          {conversation.unreadCount}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 mt-1">
+                      <Badge className={getConversationStatus(conversation.status).color}>
+                        {getConversationStatus(conversation.status).label}
+                      </Badge>
+                      {conversation.assigneeName && (
+                        <span className="text-xs text-muted-foreground">{conversation.assigneeName}</span>
+                      )}
+                    </div>
+                  </button>
+                ))
+              )}
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
+        {/* Thread */}
+        <Card className="lg:col-span-2">
+          {!selected ? (
+            <CardContent className="flex items-center justify-center h-[680px] text-muted-foreground">
+              Selecione uma conversa
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader className="border-b">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle data-testid="text-conversation-name">
+                      {selected.contactName || selected.companyName || selected.phone}
+                    </CardTitle>
+                    <div className="flex items-center gap-3 mt-1 text-sm text-muted-foreground">
+                      <span>{selected.phone}</span>
+                      {selected.companyName && (
+                        <span className="flex items-center gap-1">
+                          <Building2 className="h-3 w-3" />
+                          {selected.companyName}
+                        </span>
+                      )}
+                      {selected.campaignContactId && <Badge variant="outline">Campanha</Badge>}
+                      {selected.leadId && <Badge variant="outline">Lead</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={selected.status || "OPEN"}
+                      onValueChange={(status) => updateMutation.mutate({ id: selected.id, updates: { status } })}
+                    >
+                      <SelectTrigger className="w-32" data-testid="select-thread-status">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="OPEN">Aberta</SelectItem>
+                        <SelectItem value="PENDING">Pendente</SelectItem>
+                        <SelectItem value="CLOSED">Fechada</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {canAssign && (
+                      <Select
+                        value={selected.assignedTo || "NONE"}
+                        onValueChange={(value) => updateMutation.mutate({
+                          id: selected.id,
+                          updates: { assignedTo: value === "NONE" ? null : value }
+                        })}
+                      >
+                        <SelectTrigger className="w-44" data-testid="select-thread-assignee">
+                          <User className="h-4 w-4 mr-1" />
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="NONE">Sem responsável</SelectItem>
+                          {assignees?.map((assignee) => (
+                            <SelectItem key={assignee.id} value={assignee.id}>{assignee.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ScrollArea className="h-[480px] px-4 py-3">
+                  {isLoadingMessages ? (
+                    <div className="flex items-center justify-center py-12">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {messages?.map((message) => (
+                        <div
+                          key={message.id}
+                          className={`flex ${message.direction === "OUTBOUND" ? "justify-end" : "justify-start"}`}
+                        >
+                          <div
+                            className={`max-w-[70%] rounded-lg px-3 py-2 text-sm ${
+                              message.direction === "OUTBOUND" ? "bg-green-100" : "bg-gray-100"
+                            }`}
+                            data-testid={`message-${message.id}`}
+                          >
+                            {message.media && (
+                              <a
+                                href={`/api/media/${message.media.id}/file`}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="flex items-center gap-1 text-xs text-blue-700 hover:underline mb-1"
+                                data-testid={`link-message-media-${message.id}`}
+                              >
+                                <Paperclip className="h-3 w-3" />
+                                {MEDIA_KIND_LABELS[message.media.kind]}: {message.media.name}
+                              </a>
+                            )}
+                            {message.body && <p className="whitespace-pre-wrap">{message.body}</p>}
+                            <p className="text-xs text-muted-foreground text-right mt-1">
+                              {formatTime(message.createdAt)}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </ScrollArea>
+                {attachment && (
+                  <div className="border-t px-4 pt-3 flex items-center gap-2 text-sm" data-testid="text-reply-attachment">
+                    <Paperclip className="h-4 w-4 text-muted-foreground" />
+                    <span className="truncate">{attachment.name}</span>
+                    <span className="text-xs text-muted-foreground">a mensagem vai como legenda</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setAttachmentId(null)}
+                      data-testid="button-remove-attachment"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+                <div className="border-t p-4 flex gap-2">
+                  <Select value={attachmentId || ""} onValueChange={setAttachmentId}>
+                    <SelectTrigger className="w-12 px-3" title="Anexar mídia" data-testid="select-reply-attachment">
+                      <Paperclip className="h-4 w-4" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!mediaAssets?.length ? (
+                        <div className="px-2 py-1.5 text-sm text-muted-foreground">Biblioteca de mídia vazia</div>
+                      ) : (
+                        mediaAssets.map((asset) => (
+                          <SelectItem key={asset.id} value={asset.id}>
+                            {asset.name} ({MEDIA_KIND_LABELS[asset.kind]})
+                          </SelectItem>
+                        ))
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <Textarea
+                    placeholder={attachment ? "Legenda (opcional)..." : "Escreva uma resposta..."}
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && !e.shiftKey) {
+                        e.preventDefault();
+                        handleSend();
+                      }
+                    }}
+                    rows={2}
+                    data-testid="input-reply"
+                  />
+                  <Button
+                    onClick={handleSend}
+                    disabled={(!reply.trim() && !attachmentId) || replyMutation.isPending}
+                    data-testid="button-send-reply"
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
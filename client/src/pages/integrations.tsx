@@ -4,6 +4,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { OptOutSettingsCard } from "@/components/whatsapp/opt-out-settings";
+import { FrequencyCapSettingsCard } from "@/components/campaigns/frequency-cap-settings";
+import { useAuth } from "@/hooks/useAuth";
+import type { User } from "@shared/schema";
 import { 
   MessageCircle, 
   Mail, 
@@ -39,6 +43,10 @@ const emailConfigurations = [
 ];
 
 export default function Integrations() {
+  const { user } = useAuth();
+  const isManager = ["GESTOR", "ADMIN", "SUPER_ADMIN"].includes((user as User | undefined)?.role || "");
+  const isAdmin = ["ADMIN", "SUPER_ADMIN"].includes((user as User | undefined)?.role || "");
+
   // Query for WhatsApp status
   const { data: whatsappData, isLoading: whatsappLoading } = useQuery<WhatsAppResponse>({
     queryKey: ["/api/whatsapp/status"],
@@ -261,6 +269,10 @@ export default function Integrations() {
         </Card>
       </div>
 
+      {isManager && <OptOutSettingsCard />}
+
+      {isAdmin && <FrequencyCapSettingsCard />}
+
       {/* Integration Tips */}
       <Card data-testid="card-integration-tips">
         <CardHeader>
@@ -0,0 +1,207 @@
+import { useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_VIDEO_SECONDS, MEDIA_ACCEPT, MEDIA_KIND_LABELS, MEDIA_TYPES, formatMediaSize } from "@shared/media";
+import type { MediaAsset } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, FileText, Film, Image as ImageIcon, Trash2, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+const KIND_ICONS = {
+  IMAGE: ImageIcon,
+  DOCUMENT: FileText,
+  VIDEO: Film,
+};
+
+// Campanhas ainda não finalizadas que usam o arquivo (resposta 409 da exclusão)
+interface MediaInUseResponse {
+  message: string;
+  campaigns?: { id: string; name: string; status: string }[];
+}
+
+export default function MediaLibrary() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: assets, isLoading, error } = useQuery<MediaAsset[]>({
+    queryKey: ["/api/media"],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/media", {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Erro ao enviar o arquivo");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/media"] });
+      toast({ title: "Arquivo adicionado à biblioteca" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro no upload", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/media/${id}`, { method: "DELETE", credentials: "include" });
+      if (!response.ok) {
+        const errorData: MediaInUseResponse = await response.json().catch(() => ({ message: response.statusText }));
+        if (errorData.campaigns?.length) {
+          throw new Error(`Em uso por: ${errorData.campaigns.map((campaign) => campaign.name).join(", ")}`);
+        }
+        throw new Error(errorData.message || "Não foi possível remover o arquivo");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/media"] });
+      toast({ title: "Arquivo removido" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao remover", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Verificação rápida no navegador; o servidor confere o conteúdo real do arquivo
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const rule = MEDIA_TYPES[file.type];
+    if (!rule) {
+      toast({ title: "Tipo não suportado", description: "Use JPG, PNG, WEBP, PDF ou vídeo MP4/3GP.", variant: "destructive" });
+      return;
+    }
+    if (file.size > rule.maxBytes) {
+      toast({
+        title: "Arquivo muito grande",
+        description: `${formatMediaSize(file.size)} excede o limite de ${formatMediaSize(rule.maxBytes)} para ${MEDIA_KIND_LABELS[rule.kind].toLowerCase()}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-media-title">Biblioteca de Mídia</h1>
+          <p className="text-muted-foreground">
+            Imagens, PDFs e vídeos curtos para anexar às campanhas e respostas do inbox
+          </p>
+        </div>
+        <div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={MEDIA_ACCEPT}
+            className="hidden"
+            onChange={handleFileChange}
+            data-testid="input-media-file"
+          />
+          <Button
+            onClick={() => fileInput.current?.click()}
+            disabled={uploadMutation.isPending}
+            data-testid="button-upload-media"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {uploadMutation.isPending ? "Enviando..." : "Enviar arquivo"}
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground" data-testid="text-media-limits">
+        Imagens JPG, PNG ou WEBP até 5 MB · PDF até 16 MB · vídeos MP4/3GP até 16 MB e {MAX_VIDEO_SECONDS} segundos.
+      </p>
+
+      {error && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Erro ao carregar a biblioteca</AlertTitle>
+          <AlertDescription>{(error as Error).message}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : !assets?.length ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <ImageIcon className="h-8 w-8 mx-auto mb-2" />
+            Nenhum arquivo na biblioteca
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {assets.map((asset) => {
+            const KindIcon = KIND_ICONS[asset.kind];
+            return (
+              <Card key={asset.id} data-testid={`card-media-${asset.id}`}>
+                <CardHeader className="p-0">
+                  <a href={`/api/media/${asset.id}/file`} target="_blank" rel="noreferrer">
+                    {asset.kind === "IMAGE" ? (
+                      <img
+                        src={`/api/media/${asset.id}/file`}
+                        alt={asset.name}
+                        className="h-40 w-full object-cover rounded-t-lg"
+                      />
+                    ) : (
+                      <div className="h-40 flex items-center justify-center bg-gray-50 rounded-t-lg">
+                        <KindIcon className="h-12 w-12 text-muted-foreground" />
+                      </div>
+                    )}
+                  </a>
+                </CardHeader>
+                <CardContent className="p-4 space-y-2">
+                  <CardTitle className="text-sm font-medium truncate" title={asset.name}>
+                    {asset.name}
+                  </CardTitle>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline">{MEDIA_KIND_LABELS[asset.kind]}</Badge>
+                      <span>{formatMediaSize(asset.sizeBytes)}</span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(asset.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-media-${asset.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {asset.createdAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(asset.createdAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, Smartphone, Wifi, WifiOff, QrCode, CheckCircle, AlertCircle, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { io, Socket } from "socket.io-client";
+import { SenderPoolsCard } from "@/components/whatsapp/sender-pools";
 
 interface WhatsAppStatus {
   status: string;
@@ -302,6 +303,8 @@ export default function WhatsAppConnect() {
         </CardContent>
       </Card>
 
+      <SenderPoolsCard />
+
       {/* Usage Information */}
       <Card data-testid="card-usage-info">
         <CardHeader>
@@ -0,0 +1,141 @@
+import { storage } from './storage';
+import { compareVariants, normalizeAbTestConfig, splitByWeight } from '@shared/abTest';
+import type { CampaignContact, CampaignVariant, MassCampaign } from '@shared/schema';
+
+/**
+ * A/B testing of campaign templates: splits the contacts between the variants
+ * and, in test-slice mode, holds the remaining contacts until the test slice is
+ * sent and then gives them the winning variant.
+ */
+class AbTestService {
+  /**
+   * Assign variants to the pending contacts that have none yet. In test-slice mode
+   * only the slice is assigned; the rest waits for the winner.
+   */
+  async assignVariants(campaign: MassCampaign, contacts: CampaignContact[]): Promise<void> {
+    if (!campaign.abTest) return;
+
+    const variants = await storage.getCampaignVariants(campaign.id);
+    if (variants.length < 2) return;
+
+    const unassigned = contacts.filter(contact => !contact.variantId && contact.sendStatus === 'PENDING');
+    if (unassigned.length === 0) return;
+
+    if (campaign.winnerVariantId) {
+      await storage.assignUnassignedContactsToVariant(campaign.id, campaign.winnerVariantId);
+      return;
+    }
+
+    const { testSlicePercent } = normalizeAbTestConfig(campaign.abTest);
+    const alreadyAssigned = contacts.length - contacts.filter(contact => !contact.variantId).length;
+    const sliceSize = testSlicePercent === null
+      ? unassigned.length
+      : Math.max(0, Math.min(unassigned.length, Math.ceil(contacts.length * testSlicePercent / 100) - alreadyAssigned));
+
+    // Ordem aleatória para que a amostra e a divisão não dependam da ordem da lista
+    const shuffled = [...unassigned];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    const counts = splitByWeight(sliceSize, variants.map(variant => variant.weight ?? 0));
+    let offset = 0;
+    for (let i = 0; i < variants.length; i++) {
+      const ids = shuffled.slice(offset, offset + counts[i]).map(contact => contact.id);
+      await storage.assignContactsToVariant(variants[i].id, ids);
+      offset += counts[i];
+    }
+
+    console.log(`[AbTest] Campaign ${campaign.id}: assigned ${sliceSize} contacts to ${variants.length} variants (${counts.join('/')})`);
+  }
+
+  /**
+   * True while a test-slice campaign has no winner yet; contacts without a variant must wait
+   */
+  isHoldingForWinner(campaign: MassCampaign): boolean {
+    return !!campaign.abTest &&
+      normalizeAbTestConfig(campaign.abTest).testSlicePercent !== null &&
+      !campaign.winnerVariantId;
+  }
+
+  /**
+   * Pick the winner once the test slice is sent and the decision delay has passed,
+   * then release the held contacts with the winning variant. Returns true when a
+   * winner was selected.
+   */
+  async selectWinnerIfReady(campaign: MassCampaign): Promise<boolean> {
+    const config = normalizeAbTestConfig(campaign.abTest);
+    const stats = await storage.getCampaignVariantStats(campaign.id);
+    if (stats.length === 0) return false;
+
+    const lastSentAt = stats.reduce<Date | null>((latest, variant) =>
+      variant.lastSentAt && (!latest || variant.lastSentAt > latest) ? variant.lastSentAt : latest,
+      null
+    );
+    const readyAt = lastSentAt ? lastSentAt.getTime() + config.decisionDelayMinutes * 60 * 1000 : 0;
+    if (Date.now() < readyAt) return false;
+
+    const results = compareVariants(stats, config.metric);
+    const winner = results.find(result => result.isLeader)!;
+
+    const claimed = await storage.selectCampaignWinner(campaign.id, winner.variantId);
+    if (!claimed) return false;
+
+    const released = await storage.assignUnassignedContactsToVariant(campaign.id, winner.variantId);
+    const rate = (winner.rates[config.metric] * 100).toFixed(1);
+
+    await storage.createCampaignLog({
+      campaignId: campaign.id,
+      eventType: 'AB_WINNER',
+      message: `Variant ${winner.key} won the A/B test (${config.metric} rate ${rate}%${winner.significant ? '' : ', not statistically significant'}) - sending it to the remaining ${released} contacts`,
+      metadata: {
+        variantId: winner.variantId,
+        variantKey: winner.key,
+        metric: config.metric,
+        rate: winner.rates[config.metric],
+        pValue: winner.pValue,
+        significant: winner.significant,
+        released
+      }
+    });
+
+    console.log(`[AbTest] Campaign ${campaign.id}: variant ${winner.key} selected as winner, ${released} contacts released`);
+    return true;
+  }
+
+  /**
+   * Template to send to the contact: its variant's, or the campaign's when there is no A/B test.
+   * Contacts added after the split get a variant here (the winner when already known).
+   */
+  async resolveTemplate(campaign: MassCampaign, contact: CampaignContact): Promise<{ template: string; variant?: CampaignVariant }> {
+    const variants = campaign.abTest ? await storage.getCampaignVariants(campaign.id) : [];
+    if (variants.length === 0) {
+      return { template: campaign.messageTemplate || '' };
+    }
+
+    let variant = variants.find(candidate => candidate.id === (contact.variantId || campaign.winnerVariantId));
+    if (!variant) {
+      variant = this.pickWeighted(variants);
+      await storage.updateCampaignContact(contact.id, { variantId: variant.id });
+    } else if (!contact.variantId) {
+      await storage.updateCampaignContact(contact.id, { variantId: variant.id });
+    }
+
+    return { template: variant.messageTemplate, variant };
+  }
+
+  private pickWeighted(variants: CampaignVariant[]): CampaignVariant {
+    const total = variants.reduce((sum, variant) => sum + Math.max(0, variant.weight ?? 0), 0);
+    if (total === 0) return variants[Math.floor(Math.random() * variants.length)];
+
+    let target = Math.random() * total;
+    for (const variant of variants) {
+      target -= Math.max(0, variant.weight ?? 0);
+      if (target < 0) return variant;
+    }
+    return variants[variants.length - 1];
+  }
+}
+
+export const abTestService = new AbTestService();
@@ -0,0 +1,213 @@
+import { storage } from './storage';
+import {
+  BUDGET_WARNING_RATIO,
+  budgetUsage,
+  monthKey,
+  monthRange,
+  normalizePriceTable,
+  type CampaignCostSummary,
+  type CostChannel,
+  type CostDashboard,
+  type MonthlyBudgetSummary,
+  type PriceTable,
+} from '@shared/budget';
+import type { MassCampaign, SpendingBudget, User } from '@shared/schema';
+
+export const PRICING_SETTINGS_KEY = 'pricing';
+
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+  scope?: 'CAMPAIGN' | 'USER' | 'TEAM';
+  limit?: number;
+  spent?: number;
+}
+
+function campaignSpent(campaign: MassCampaign): number {
+  return (Number(campaign.sendingCost) || 0) + (Number(campaign.validationCost) || 0);
+}
+
+function formatAmount(value: number, currency: string): string {
+  return `${currency} ${value.toFixed(2)}`;
+}
+
+/**
+ * Costs every campaign send through the configurable price table and enforces the
+ * campaign budget and the monthly budgets of the campaign owner and their team.
+ */
+class BudgetService {
+  async getPricing(): Promise<PriceTable> {
+    const setting = await storage.getSystemSetting(PRICING_SETTINGS_KEY);
+    return normalizePriceTable(setting?.value);
+  }
+
+  async updatePricing(pricing: PriceTable, updatedBy: string): Promise<PriceTable> {
+    const normalized = normalizePriceTable(pricing);
+    await storage.upsertSystemSetting(PRICING_SETTINGS_KEY, normalized, updatedBy);
+    return normalized;
+  }
+
+  /**
+   * Cost of one send: price of the channel actually used (a fallback may differ from
+   * the campaign channel) times the billed units, e.g. SMS segments
+   */
+  async getSendCost(campaign: MassCampaign, options: { channel?: CostChannel; units?: number } = {}): Promise<number> {
+    const pricing = await this.getPricing();
+    const channel = options.channel || (campaign.channel || 'WHATSAPP') as CostChannel;
+    return (pricing.perMessage[channel] ?? 0) * Math.max(1, options.units || 1);
+  }
+
+  /**
+   * Whether the next send fits in every budget that applies to the campaign.
+   * Crossing 80% of a budget records a BUDGET_WARNING log once.
+   */
+  async checkBudget(campaign: MassCampaign): Promise<BudgetCheck> {
+    const pricing = await this.getPricing();
+    const nextCost = pricing.perMessage[(campaign.channel || 'WHATSAPP') as CostChannel] ?? 0;
+
+    if (campaign.budget !== null && campaign.budget !== undefined) {
+      const limit = Number(campaign.budget);
+      const spent = campaignSpent(campaign);
+      if (spent + nextCost > limit) {
+        return {
+          allowed: false,
+          scope: 'CAMPAIGN',
+          limit,
+          spent,
+          reason: `Campaign budget of ${formatAmount(limit, pricing.currency)} reached (spent ${formatAmount(spent, pricing.currency)})`
+        };
+      }
+      if (spent >= limit * BUDGET_WARNING_RATIO && await storage.markCampaignBudgetWarned(campaign.id)) {
+        await this.logWarning(campaign, 'CAMPAIGN', limit, spent, pricing.currency);
+      }
+    }
+
+    const owner = await storage.getUser(campaign.userId);
+    if (!owner) return { allowed: true };
+
+    const month = monthKey();
+    const { start, end } = monthRange(month);
+    const targets: { scope: 'USER' | 'TEAM'; targetId: string }[] = [{ scope: 'USER', targetId: owner.id }];
+    if (owner.teamId) targets.push({ scope: 'TEAM', targetId: owner.teamId });
+
+    for (const { scope, targetId } of targets) {
+      const budget = await storage.getSpendingBudgetFor(scope, targetId);
+      if (!budget) continue;
+
+      const limit = Number(budget.monthlyLimit);
+      const totals = await storage.getSpendTotals(scope === 'USER' ? { userId: targetId } : { teamId: targetId }, start, end);
+      const spent = totals.sendingCost + totals.validationCost;
+      if (spent + nextCost > limit) {
+        return {
+          allowed: false,
+          scope,
+          limit,
+          spent,
+          reason: `Monthly ${scope === 'USER' ? 'user' : 'team'} budget of ${formatAmount(limit, pricing.currency)} reached for ${month} (spent ${formatAmount(spent, pricing.currency)})`
+        };
+      }
+      if (spent >= limit * BUDGET_WARNING_RATIO && await storage.markSpendingBudgetWarned(budget.id, month)) {
+        await this.logWarning(campaign, scope, limit, spent, pricing.currency);
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Add the cost of a successful send to the campaign
+   */
+  async chargeSend(campaign: MassCampaign, cost: number): Promise<void> {
+    if (cost <= 0) return;
+    await storage.addCampaignSendingCost(campaign.id, cost);
+  }
+
+  /**
+   * Spending of the month against the budgets the user can see: managers see every
+   * budget and campaign, other users their own and their team's
+   */
+  async getDashboard(user: User, month: string = monthKey()): Promise<CostDashboard> {
+    const isManager = !!user.role && ['GESTOR', 'ADMIN', 'SUPER_ADMIN'].includes(user.role);
+    const { start, end } = monthRange(month);
+    const pricing = await this.getPricing();
+
+    const allBudgets = await storage.getSpendingBudgets();
+    const visibleBudgets = isManager
+      ? allBudgets
+      : allBudgets.filter(budget => budget.userId === user.id || (!!user.teamId && budget.teamId === user.teamId));
+
+    const teams = await storage.getTeams();
+    const budgets: MonthlyBudgetSummary[] = [];
+    for (const budget of visibleBudgets) {
+      const targetName = budget.scope === 'USER'
+        ? await this.userName(budget.userId!)
+        : teams.find(team => team.id === budget.teamId)?.name || budget.teamId!;
+      budgets.push(await this.summarizeBudget(budget.scope, budget.scope === 'USER' ? budget.userId! : budget.teamId!, targetName, month, budget));
+    }
+    // O próprio gasto aparece mesmo sem orçamento definido
+    if (!budgets.some(budget => budget.scope === 'USER' && budget.targetId === user.id)) {
+      budgets.unshift(await this.summarizeBudget('USER', user.id, await this.userName(user.id), month));
+    }
+
+    const totals = await storage.getSpendTotals(isManager ? {} : { userId: user.id }, start, end);
+    const campaigns = await storage.getCampaignsWithCosts(isManager ? undefined : [user.id]);
+
+    return {
+      month,
+      pricing,
+      totals: { ...totals, total: totals.sendingCost + totals.validationCost },
+      budgets,
+      campaigns: campaigns.map((campaign): CampaignCostSummary => ({
+        campaignId: campaign.id,
+        name: campaign.name,
+        status: campaign.status,
+        userId: campaign.userId,
+        sendingCost: Number(campaign.sendingCost) || 0,
+        validationCost: Number(campaign.validationCost) || 0,
+        ...budgetUsage(campaignSpent(campaign), campaign.budget !== null ? Number(campaign.budget) : null),
+      })),
+    };
+  }
+
+  private async summarizeBudget(
+    scope: 'USER' | 'TEAM',
+    targetId: string,
+    targetName: string,
+    month: string,
+    budget?: SpendingBudget
+  ): Promise<MonthlyBudgetSummary> {
+    const { start, end } = monthRange(month);
+    const totals = await storage.getSpendTotals(scope === 'USER' ? { userId: targetId } : { teamId: targetId }, start, end);
+
+    return {
+      budgetId: budget?.id ?? null,
+      scope,
+      targetId,
+      targetName,
+      sendingCost: totals.sendingCost,
+      validationCost: totals.validationCost,
+      ...budgetUsage(totals.sendingCost + totals.validationCost, budget ? Number(budget.monthlyLimit) : null),
+    };
+  }
+
+  private async userName(userId: string): Promise<string> {
+    const user = await storage.getUser(userId);
+    if (!user) return userId;
+    return `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || userId;
+  }
+
+  private async logWarning(campaign: MassCampaign, scope: 'CAMPAIGN' | 'USER' | 'TEAM', limit: number, spent: number, currency: string): Promise<void> {
+    const percent = limit > 0 ? Math.round((spent / limit) * 100) : 100;
+    const label = scope === 'CAMPAIGN' ? 'Campaign budget' : `Monthly ${scope === 'USER' ? 'user' : 'team'} budget`;
+
+    await storage.createCampaignLog({
+      campaignId: campaign.id,
+      eventType: 'BUDGET_WARNING',
+      message: `${label} at ${percent}%: ${formatAmount(spent, currency)} of ${formatAmount(limit, currency)} spent`,
+      metadata: { scope, limit, spent, percent }
+    });
+    console.log(`[Budget] Campaign ${campaign.id}: ${label.toLowerCase()} at ${percent}%`);
+  }
+}
+
+export const budgetService = new BudgetService();
@@ -0,0 +1,174 @@
+import { storage } from './storage';
+import { campaignForecast } from './campaignForecast';
+import { campaignEvents } from './campaignEvents';
+import {
+  canSuperviseCampaignsOf,
+  requiresCampaignApproval,
+  type CampaignReviewAction,
+  type CampaignReviewSnapshot,
+} from '@shared/campaignApproval';
+import type { MassCampaign, User } from '@shared/schema';
+
+export type CampaignApprovalErrorCode = 'INVALID_STATUS' | 'NOT_ALLOWED' | 'NO_CONTACTS';
+
+// Erro de fluxo de aprovação com código para a rota escolher o status HTTP
+export class CampaignApprovalError extends Error {
+  constructor(public readonly code: CampaignApprovalErrorCode, message: string) {
+    super(message);
+    this.name = 'CampaignApprovalError';
+  }
+}
+
+const LOG_MESSAGES: Record<CampaignReviewAction, string> = {
+  SUBMITTED: 'Campaign submitted for approval',
+  APPROVED: 'Campaign approved',
+  REJECTED: 'Campaign rejected',
+  REVOKED: 'Approval revoked - campaign changed after review',
+};
+
+// Status em que uma alteração da campanha invalida a revisão já feita (ou em andamento)
+const REVIEWED_STATUSES: NonNullable<MassCampaign["status"]>[] = ['PENDING_APPROVAL', 'APPROVED', 'SCHEDULED'];
+
+/**
+ * Review workflow for campaigns of sellers: the owner submits the campaign, a manager
+ * approves or rejects it with a comment, and editing it afterwards revokes the approval.
+ * Every decision goes to campaign_reviews and to the campaign log.
+ */
+class CampaignApprovalService {
+  async requiresApproval(campaign: MassCampaign): Promise<boolean> {
+    const owner = await storage.getUser(campaign.userId);
+    return requiresCampaignApproval(owner?.role);
+  }
+
+  /**
+   * Send a DRAFT campaign for review, keeping a snapshot of its list and estimated cost
+   */
+  async submit(campaign: MassCampaign, actor: User, comment?: string): Promise<MassCampaign> {
+    if (campaign.status !== 'DRAFT') {
+      throw new CampaignApprovalError('INVALID_STATUS', `Only draft campaigns can be submitted for approval. Current status: ${campaign.status}`);
+    }
+    if (!(await this.requiresApproval(campaign))) {
+      throw new CampaignApprovalError('INVALID_STATUS', 'Campaigns of managers do not need approval and can be started directly');
+    }
+
+    const forecast = await campaignForecast.forecast(campaign);
+    if (forecast.contacts.total === 0) {
+      throw new CampaignApprovalError('NO_CONTACTS', 'Upload the contact list before submitting the campaign');
+    }
+    const snapshot: CampaignReviewSnapshot = {
+      contacts: forecast.contacts.total,
+      toSend: forecast.contacts.toSend,
+      blacklisted: forecast.contacts.skipped.BLACKLISTED,
+      estimatedCost: forecast.cost.initialCost,
+      currency: forecast.cost.currency,
+    };
+
+    const submitted = await storage.updateCampaignReviewStatus(campaign.id, ['DRAFT'], {
+      status: 'PENDING_APPROVAL',
+      reviewComment: null,
+    });
+    if (!submitted) {
+      throw new CampaignApprovalError('INVALID_STATUS', 'Campaign status changed, reload and try again');
+    }
+
+    await this.record(submitted, 'SUBMITTED', actor.id, comment, snapshot);
+    return submitted;
+  }
+
+  /**
+   * Approve a pending campaign. A requested start time still in the future schedules it.
+   */
+  async approve(campaign: MassCampaign, reviewer: User, comment?: string): Promise<MassCampaign> {
+    await this.assertReviewer(campaign, reviewer);
+    const scheduled = !!campaign.startTime && new Date(campaign.startTime).getTime() > Date.now();
+
+    const approved = await storage.updateCampaignReviewStatus(campaign.id, ['PENDING_APPROVAL'], {
+      status: scheduled ? 'SCHEDULED' : 'APPROVED',
+      startTime: scheduled ? campaign.startTime : null,
+      approvedBy: reviewer.id,
+      approvedAt: new Date(),
+      reviewComment: comment || null,
+    });
+    if (!approved) {
+      throw new CampaignApprovalError('INVALID_STATUS', `Campaign is not pending approval. Current status: ${campaign.status}`);
+    }
+
+    await this.record(approved, 'APPROVED', reviewer.id, comment);
+    return approved;
+  }
+
+  /**
+   * Reject a pending campaign, returning it to DRAFT with the reviewer's comment
+   */
+  async reject(campaign: MassCampaign, reviewer: User, comment: string): Promise<MassCampaign> {
+    await this.assertReviewer(campaign, reviewer);
+
+    const rejected = await storage.updateCampaignReviewStatus(campaign.id, ['PENDING_APPROVAL'], {
+      status: 'DRAFT',
+      approvedBy: null,
+      approvedAt: null,
+      reviewComment: comment,
+    });
+    if (!rejected) {
+      throw new CampaignApprovalError('INVALID_STATUS', `Campaign is not pending approval. Current status: ${campaign.status}`);
+    }
+
+    await this.record(rejected, 'REJECTED', reviewer.id, comment);
+    return rejected;
+  }
+
+  /**
+   * The campaign was edited (template, list, settings): a review in progress or an
+   * approval no longer covers it, so it goes back to DRAFT. No-op when nothing was reviewed.
+   */
+  async revoke(campaign: MassCampaign, actorId: string, reason: string): Promise<MassCampaign> {
+    const reviewed = campaign.status === 'PENDING_APPROVAL' || !!campaign.approvedAt;
+    if (!reviewed || !campaign.status || !REVIEWED_STATUSES.includes(campaign.status) || !(await this.requiresApproval(campaign))) {
+      return campaign;
+    }
+
+    const revoked = await storage.updateCampaignReviewStatus(campaign.id, REVIEWED_STATUSES, {
+      status: 'DRAFT',
+      approvedBy: null,
+      approvedAt: null,
+      reviewComment: null,
+    });
+    if (!revoked) return campaign;
+
+    await this.record(revoked, 'REVOKED', actorId, reason);
+    return revoked;
+  }
+
+  // Gestores revisam apenas campanhas da própria equipe; administradores, todas
+  private async assertReviewer(campaign: MassCampaign, reviewer: User): Promise<void> {
+    const owner = await storage.getUser(campaign.userId);
+    if (!canSuperviseCampaignsOf(reviewer, owner)) {
+      throw new CampaignApprovalError('NOT_ALLOWED', 'Only managers of the campaign owner team can review it');
+    }
+  }
+
+  private async record(
+    campaign: MassCampaign,
+    action: CampaignReviewAction,
+    actorId: string,
+    comment?: string,
+    snapshot?: CampaignReviewSnapshot
+  ): Promise<void> {
+    await storage.createCampaignReview({
+      campaignId: campaign.id,
+      action,
+      actorId,
+      comment: comment || null,
+      snapshot: snapshot || null,
+    });
+    await storage.createCampaignLog({
+      campaignId: campaign.id,
+      eventType: 'REVIEW',
+      message: comment ? `${LOG_MESSAGES[action]}: ${comment}` : LOG_MESSAGES[action],
+      metadata: { action, actorId, status: campaign.status, ...(snapshot ? { snapshot } : {}) },
+    });
+    campaignEvents.statusChanged(campaign);
+  }
+}
+
+export const campaignApproval = new CampaignApprovalService();
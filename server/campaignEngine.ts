@@ -1,29 +1,26 @@
 import { storage } from "./storage";
-import type { MassCampaign, CampaignContact } from "@shared/schema";
+import { nanoid } from "nanoid";
+import { getChannelAdapter, type CampaignChannel, type ChannelDeliveryReceipt, type ChannelErrorCode, type ChannelSendResult } from "./channels";
+import { getMaxAttempts, getRetryDelay, isRetryableError } from "./retryPolicy";
+import { whatsappService } from "./whatsappService";
+import { holidayCalendar } from "./holidayCalendar";
+import { senderPoolService } from "./senderPoolService";
+import { emailService } from "./emailService";
+import { smsService } from "./smsService";
+import { abTestService } from "./abTestService";
+import { budgetService } from "./budgetService";
+import { campaignThrottle, HEALTH_WINDOW, type SendHealth } from "./campaignThrottle";
+import { campaignEvents } from "./campaignEvents";
+import { mediaLibrary } from "./mediaLibrary";
+import { frequencyCap } from "./frequencyCap";
+import { recipientEmail } from "./channels/emailChannel";
+import { collectCustomFields, renderMessageTemplate, validateMessageTemplate } from "@shared/messageTemplate";
+import { checkSendWindow, normalizeWorkingHours, type HolidayCalendar } from "@shared/workingHours";
+import { canResumeCampaign, canStartCampaign } from "@shared/campaignApproval";
+import { getChannelStrategy, isHybridStrategy, pickChannel, type ChannelStrategy, type ContactReach } from "@shared/channelStrategy";
+import type { MassCampaign, CampaignContact, CampaignStep } from "@shared/schema";
 
 // Types for the campaign engine
-interface ContactData {
-  id: string;
-  phone: string;
-  razaoSocial?: string;
-  nomeFantasia?: string;
-  customData?: any;
-}
-
-interface SendResult {
-  success: boolean;
-  status: 'SENT' | 'FAILED';
-  messageId?: string;
-  error?: string;
-  deliveryTime?: number;
-}
-
-interface WorkingHours {
-  start: string; // "08:00"
-  end: string;   // "18:00"
-  timezone?: string;
-  daysOfWeek?: number[]; // 0=Sunday, 1=Monday, etc.
-}
 
 interface WhatsAppApiResponse {
   success: boolean;
@@ -44,8 +41,23 @@ export class CampaignEngine {
     isStopped: boolean;
     lastExecutionTime?: number;
     executionCount?: number;
+    throttleFactor?: number; // intervalo entre envios multiplicado pelo circuit breaker
+    circuitResetAt?: number; // falhas anteriores à retomada não contam na janela
   }> = new Map();
 
+  // Identifica esta instância do servidor como dona dos leases de campanha
+  // (o scheduler também reserva agendamentos em nome dela)
+  readonly instanceId = `engine_${nanoid()}`;
+  private readonly LEASE_TTL = 60 * 1000; // 1 minute
+  private readonly LEASE_HEARTBEAT = 20 * 1000; // renew/recover every 20 seconds
+  private readonly SEND_JITTER_RATIO = 0.3; // ±30% around the rate-based delay
+  private readonly LONG_PAUSE_PROBABILITY = 0.05; // 1 in 20 sends waits a bit longer
+  private readonly CLAIM_TTL = 5 * 60 * 1000; // contatos reservados voltam à fila se o worker cair
+  private readonly WINDOW_RECHECK_DELAY = 15 * 60 * 1000; // contato fora da janela volta à fila depois disso
+  private readonly WINDOW_SCAN_PAGE = 100;
+  private readonly MAX_CLAIM_SCAN = 500; // contatos examinados por ciclo no horário local do destinatário
+  private leaseHeartbeat?: NodeJS.Timeout;
+
   private constructor() {}
 
   public static getInstance(): CampaignEngine {
@@ -55,11 +67,100 @@ export class CampaignEngine {
     return CampaignEngine.instance;
   }
 
+  /**
+   * Resume RUNNING campaigns left behind by a restart and keep leases fresh
+   */
+  async initialize(): Promise<void> {
+    if (this.leaseHeartbeat) return;
+
+    console.log(`[CampaignEngine] Initializing engine instance ${this.instanceId}`);
+
+    whatsappService.on('messageAck', (ack: ChannelDeliveryReceipt) => {
+      this.handleMessageAck(ack, 'WHATSAPP').catch((error) => {
+        console.error(`[CampaignEngine] Error handling ack for message ${ack.messageId}:`, error);
+      });
+    });
+
+    smsService.on('deliveryReceipt', (receipt: ChannelDeliveryReceipt) => {
+      this.handleMessageAck(receipt, 'SMS').catch((error) => {
+        console.error(`[CampaignEngine] Error handling SMS receipt for message ${receipt.messageId}:`, error);
+      });
+    });
+
+    await this.recoverRunningCampaigns();
+
+    this.leaseHeartbeat = setInterval(() => {
+      this.maintainLeases().catch((error) => {
+        console.error(`[CampaignEngine] Lease heartbeat error:`, error);
+      });
+    }, this.LEASE_HEARTBEAT);
+  }
+
+  /**
+   * Take over RUNNING campaigns that have no live lease and continue them
+   */
+  async recoverRunningCampaigns(): Promise<void> {
+    const campaigns = await storage.getRunningMassCampaigns();
+
+    for (const campaign of campaigns) {
+      // Already processed by this instance
+      if (this.campaignStates.has(campaign.id)) continue;
+
+      const acquired = await storage.acquireCampaignLease(campaign.id, this.instanceId, this.LEASE_TTL);
+      if (!acquired) {
+        console.log(`[CampaignEngine] Campaign ${campaign.id} is leased by another instance, skipping recovery`);
+        continue;
+      }
+
+      console.log(`[CampaignEngine] Recovering campaign ${campaign.id} after restart`);
+
+      this.campaignStates.set(campaign.id, {
+        lastProcessedContact: 0,
+        isPaused: false,
+        isStopped: false
+      });
+
+      await storage.createCampaignLog({
+        campaignId: campaign.id,
+        eventType: 'RESUMED',
+        message: 'Campaign execution recovered after server restart',
+        metadata: { instanceId: this.instanceId }
+      });
+
+      try {
+        await this.startWorker(campaign.id);
+      } catch (error) {
+        console.error(`[CampaignEngine] Error recovering campaign ${campaign.id}:`, error);
+        this.campaignStates.delete(campaign.id);
+        await storage.releaseCampaignLease(campaign.id, this.instanceId);
+      }
+    }
+  }
+
+  /**
+   * Renew leases of campaigns processed here and pick up orphaned ones
+   */
+  private async maintainLeases(): Promise<void> {
+    for (const [campaignId, state] of Array.from(this.campaignStates.entries())) {
+      if (state.isPaused || state.isStopped) continue;
+
+      const renewed = await storage.acquireCampaignLease(campaignId, this.instanceId, this.LEASE_TTL);
+      if (!renewed) {
+        console.log(`[CampaignEngine] Lost lease for campaign ${campaignId}, stopping local worker`);
+        this.cleanupCampaignScheduler(campaignId);
+        this.campaignStates.delete(campaignId);
+      }
+    }
+
+    await this.recoverRunningCampaigns();
+  }
+
   /**
    * Start campaign execution
    */
   async startCampaign(campaignId: string): Promise<void> {
     console.log(`[CampaignEngine] Starting campaign ${campaignId}`);
+    let stateInitialized = false;
     
     try {
       // Get campaign data
@@ -69,9 +170,34 @@ export class CampaignEngine {
       }
 
       // Validate campaign can be started
-      if (campaign.status !== 'DRAFT' && campaign.status !== 'SCHEDULED') {
+      if (campaign.status !== 'DRAFT' && campaign.status !== 'SCHEDULED' && campaign.status !== 'APPROVED') {
         throw new Error(`Campaign ${campaignId} cannot be started. Current status: ${campaign.status}`);
       }
+      // Campanhas de vendedores só saem depois da aprovação de um gestor
+      const owner = await storage.getUser(campaign.userId);
+      if (!canStartCampaign(campaign, owner?.role)) {
+        throw new Error(`Campaign ${campaignId} needs manager approval before starting`);
+      }
+
+      // Validate there is an adapter able to deliver on every channel of the strategy
+      const { channels } = getChannelStrategy(campaign);
+      for (const channel of channels) {
+        if (!getChannelAdapter(channel)) {
+          throw new Error(`Channel ${channel} is not supported for campaign sending`);
+        }
+      }
+      if (channels.includes('SMS') && !smsService.isConfigured()) {
+        throw new Error('No SMS provider is configured (SMS_PROVIDER_URL)');
+      }
+      if (channels.includes('EMAIL')) {
+        const emailConfig = campaign.emailConfigId ? await storage.getEmailConfigurationById(campaign.emailConfigId) : undefined;
+        if (!emailConfig || !emailConfig.isActive) {
+          throw new Error(`Campaign ${campaignId} has no active email configuration`);
+        }
+      }
+      if (campaign.mediaAssetId && !(await mediaLibrary.load(campaign.mediaAssetId))) {
+        throw new Error(`Media file attached to campaign ${campaignId} is missing`);
+      }
 
       // Get campaign contacts
       const contacts = await storage.getCampaignContacts(campaignId);
@@ -79,13 +205,59 @@ export class CampaignEngine {
         throw new Error(`Campaign ${campaignId} has no contacts to process`);
       }
 
+      // Template errors would go out to every contact, so block the start
+      const templateCheck = validateMessageTemplate(campaign.messageTemplate || '', {
+        customFields: collectCustomFields(contacts)
+      });
+      if (!templateCheck.valid) {
+        throw new Error(`Invalid message template: ${templateCheck.errors.map(error => error.message).join('; ')}`);
+      }
+
+      // Same check for every A/B test variant, then split the contacts between them
+      const variants = campaign.abTest ? await storage.getCampaignVariants(campaignId) : [];
+      for (const variant of variants) {
+        const variantCheck = validateMessageTemplate(variant.messageTemplate, {
+          customFields: collectCustomFields(contacts)
+        });
+        if (!variantCheck.valid) {
+          throw new Error(`Invalid message template in variant ${variant.key}: ${variantCheck.errors.map(error => error.message).join('; ')}`);
+        }
+      }
+      if (channels.includes('EMAIL') && campaign.emailSubject) {
+        const subjectCheck = validateMessageTemplate(campaign.emailSubject, {
+          customFields: collectCustomFields(contacts)
+        });
+        if (!subjectCheck.valid) {
+          throw new Error(`Invalid email subject: ${subjectCheck.errors.map(error => error.message).join('; ')}`);
+        }
+      }
+      await abTestService.assignVariants(campaign, contacts);
+
+      const steps = await storage.getCampaignSteps(campaignId);
+      for (const step of steps) {
+        const stepCheck = validateMessageTemplate(step.messageTemplate, {
+          customFields: collectCustomFields(contacts)
+        });
+        if (!stepCheck.valid) {
+          throw new Error(`Invalid message template in follow-up step ${step.stepNumber}: ${stepCheck.errors.map(error => error.message).join('; ')}`);
+        }
+      }
+
+      // Initialize campaign state before going RUNNING so lease recovery skips it
+      this.campaignStates.set(campaignId, {
+        lastProcessedContact: 0,
+        isPaused: false,
+        isStopped: false
+      });
+      stateInitialized = true;
+
       // Update campaign status to RUNNING
-      await storage.updateMassCampaign(campaignId, {
+      campaignEvents.statusChanged(await storage.updateMassCampaign(campaignId, {
         status: 'RUNNING',
         startTime: new Date(),
         totalRecords: contacts.length,
         updatedAt: new Date()
-      });
+      }));
 
       // Log campaign start
       await storage.createCampaignLog({
@@ -96,24 +268,28 @@ export class CampaignEngine {
 
       });
 
-      // Initialize campaign state
-      this.campaignStates.set(campaignId, {
-        lastProcessedContact: 0,
-        isPaused: false,
-        isStopped: false
-      });
+      // Take the execution lease - another instance may have picked it up already
+      const acquired = await storage.acquireCampaignLease(campaignId, this.instanceId, this.LEASE_TTL);
+      if (!acquired) {
+        console.log(`[CampaignEngine] Campaign ${campaignId} already leased by another instance`);
+        this.campaignStates.delete(campaignId);
+        return;
+      }
 
       // Start background worker
       await this.startWorker(campaignId);
 
     } catch (error) {
       console.error(`[CampaignEngine] Error starting campaign ${campaignId}:`, error);
+      if (stateInitialized) {
+        this.campaignStates.delete(campaignId);
+      }
       
       // Update campaign status to error and log
-      await storage.updateMassCampaign(campaignId, {
+      campaignEvents.statusChanged(await storage.updateMassCampaign(campaignId, {
         status: 'STOPPED',
         updatedAt: new Date()
-      });
+      }));
 
       await storage.createCampaignLog({
         campaignId,
@@ -129,7 +305,11 @@ export class CampaignEngine {
   /**
    * Pause campaign execution
    */
-  async pauseCampaign(campaignId: string): Promise<void> {
+  async pauseCampaign(
+    campaignId: string,
+    reason = 'Campaign execution paused by user',
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
     console.log(`[CampaignEngine] Pausing campaign ${campaignId}`);
     
     const state = this.campaignStates.get(campaignId);
@@ -142,17 +322,20 @@ export class CampaignEngine {
     this.cleanupCampaignScheduler(campaignId);
 
     // Update database status
-    await storage.updateMassCampaign(campaignId, {
+    campaignEvents.statusChanged(await storage.updateMassCampaign(campaignId, {
       status: 'PAUSED',
       updatedAt: new Date()
-    });
+    }));
 
     // Log pause event
     await storage.createCampaignLog({
       campaignId,
       eventType: 'PAUSED',
-      message: 'Campaign execution paused by user'
+      message: reason,
+      metadata
     });
+
+    await storage.releaseCampaignLease(campaignId, this.instanceId);
   }
 
   /**
@@ -169,6 +352,16 @@ export class CampaignEngine {
     if (campaign.status !== 'PAUSED') {
       throw new Error(`Campaign ${campaignId} cannot be resumed. Current status: ${campaign.status}`);
     }
+    const owner = await storage.getUser(campaign.userId);
+    if (!canResumeCampaign(campaign, owner?.role)) {
+      throw new Error(`Campaign ${campaignId} needs manager approval before resuming`);
+    }
+
+    // Orçamento esgotado: retomar só depois de aumentar o limite
+    const budget = await budgetService.checkBudget(campaign);
+    if (!budget.allowed) {
+      throw new Error(`Campaign ${campaignId} cannot be resumed: ${budget.reason}`);
+    }
 
     // Update campaign state
     const state = this.campaignStates.get(campaignId) || {
@@ -177,13 +370,15 @@ export class CampaignEngine {
       isStopped: false
     };
     state.isPaused = false;
+    state.throttleFactor = 1;
+    state.circuitResetAt = Date.now();
     this.campaignStates.set(campaignId, state);
 
     // Update database status
-    await storage.updateMassCampaign(campaignId, {
+    campaignEvents.statusChanged(await storage.updateMassCampaign(campaignId, {
       status: 'RUNNING',
       updatedAt: new Date()
-    });
+    }));
 
     // Log resume event
     await storage.createCampaignLog({
@@ -192,6 +387,13 @@ export class CampaignEngine {
       message: 'Campaign execution resumed'
     });
 
+    const acquired = await storage.acquireCampaignLease(campaignId, this.instanceId, this.LEASE_TTL);
+    if (!acquired) {
+      console.log(`[CampaignEngine] Campaign ${campaignId} already leased by another instance`);
+      this.campaignStates.delete(campaignId);
+      return;
+    }
+
     // Restart background worker
     await this.startWorker(campaignId);
   }
@@ -212,11 +414,11 @@ export class CampaignEngine {
     this.cleanupCampaignScheduler(campaignId);
 
     // Update database status
-    await storage.updateMassCampaign(campaignId, {
+    campaignEvents.statusChanged(await storage.updateMassCampaign(campaignId, {
       status: 'STOPPED',
       endTime: new Date(),
       updatedAt: new Date()
-    });
+    }));
 
     // Log stop event
     await storage.createCampaignLog({
@@ -228,6 +430,7 @@ export class CampaignEngine {
     // Clean up state and resources
     this.campaignStates.delete(campaignId);
     this.campaignLocks.delete(campaignId);
+    await storage.releaseCampaignLease(campaignId, this.instanceId);
   }
 
   /**
@@ -239,9 +442,9 @@ export class CampaignEngine {
       throw new Error(`Campaign ${campaignId} not found`);
     }
 
-    // Calculate send delay based on rate limit
-    const sendDelay = this.calculateSendDelay(campaign.sendRate || 50);
-    console.log(`[CampaignEngine] Starting sequential scheduler for campaign ${campaignId} with ${sendDelay}ms delay between sends`);
+    // Calculate send delay based on rate limit; a batch of sends per tick spaces ticks out accordingly
+    const sendDelay = this.calculateSendDelay(campaign.sendRate || 50) * Math.max(1, campaign.batchSize || 1);
+    console.log(`[CampaignEngine] Starting sequential scheduler for campaign ${campaignId} with ${sendDelay}ms delay between ticks of ${campaign.batchSize || 1} sends`);
     
     // Initialize mutex for this campaign
     this.campaignLocks.set(campaignId, false);
@@ -272,7 +475,8 @@ export class CampaignEngine {
         
         // Calculate actual execution time
         const executionTime = Date.now() - executionStartTime;
-        const nextDelay = Math.max(sendDelay - executionTime, 1000); // Ensure at least 1s between executions
+        const throttledDelay = sendDelay * (currentState?.throttleFactor || 1);
+        const nextDelay = Math.max(this.applySendJitter(throttledDelay) - executionTime, 1000); // Ensure at least 1s between executions
         
         // Update execution statistics
         if (currentState) {
@@ -298,6 +502,8 @@ export class CampaignEngine {
             });
             
             this.cleanupCampaignScheduler(campaignId);
+            this.campaignStates.delete(campaignId);
+            await storage.releaseCampaignLease(campaignId, this.instanceId);
           });
         }, nextDelay);
         
@@ -316,6 +522,8 @@ export class CampaignEngine {
         });
         
         this.cleanupCampaignScheduler(campaignId);
+        this.campaignStates.delete(campaignId);
+        await storage.releaseCampaignLease(campaignId, this.instanceId);
       }
     };
 
@@ -358,39 +566,130 @@ export class CampaignEngine {
       return;
     }
 
-    // Check working hours
-    if (campaign.workingHours && !this.isWithinWorkingHours(campaign.workingHours)) {
-      console.log(`[CampaignEngine] Campaign ${campaignId} outside working hours, skipping`);
+    // Paused/stopped through another instance
+    if (campaign.status !== 'RUNNING') {
+      console.log(`[CampaignEngine] Campaign ${campaignId} is ${campaign.status}, stopping local worker`);
+      this.stopWorker(campaignId);
+      this.campaignStates.delete(campaignId);
       return;
     }
 
-    // Get contacts to process
-    const contacts = await storage.getCampaignContacts(campaignId);
-    if (contacts.length === 0) {
-      console.log(`[CampaignEngine] No contacts found for campaign ${campaignId}`);
-      await this.completeCampaign(campaignId);
-      return;
+    const now = new Date();
+    const steps = await storage.getCampaignSteps(campaignId);
+    const workingHours = normalizeWorkingHours(campaign.workingHours);
+    const needsCalendar = [workingHours, ...steps.map(step => normalizeWorkingHours(step.workingHours))]
+      .some(config => config?.skipHolidays);
+    const calendar = needsCalendar ? await holidayCalendar.getCalendar() : undefined;
+    const batchSize = Math.max(1, campaign.batchSize || 1);
+    const claim = { owner: this.instanceId, ttlMs: this.CLAIM_TTL };
+    let sent = 0;
+    let claimedAny = false;
+
+    // Follow-ups vencidos têm prioridade, cada um na janela do seu passo
+    if (steps.length > 0) {
+      const followUps = await storage.claimDueFollowUps(campaignId, { ...claim, limit: batchSize });
+      claimedAny = followUps.length > 0;
+      try {
+        for (const contact of followUps) {
+          const step = steps.find(candidate => candidate.stepNumber === (contact.sequenceStep || 0) + 1);
+          if (!step) {
+            // Passo removido depois do agendamento: encerra a sequência
+            await storage.updateCampaignContact(contact.id, { nextStepAt: null, sequenceExitReason: 'COMPLETED' });
+            continue;
+          }
+          if (!this.isInSendWindow(step.workingHours ?? campaign.workingHours, contact, now, calendar)) {
+            await storage.updateCampaignContact(contact.id, { nextStepAt: new Date(now.getTime() + this.WINDOW_RECHECK_DELAY) });
+            continue;
+          }
+
+          if (!(await this.readyToSend(campaign))) return;
+          await this.processFollowUp(campaign, contact, step, steps);
+          sent++;
+          state.lastProcessedContact++;
+        }
+      } finally {
+        await storage.releaseContactClaims(followUps.map(contact => contact.id));
+      }
     }
 
-    // Find next contact to process
-    const contactsToProcess = contacts.filter(contact => 
-      contact.sendStatus === 'PENDING' && 
-      contact.phoneValidationStatus !== 'BLACKLISTED'
-    );
+    // Campanha híbrida: reenvios pelo próximo canal (sem resposta ou falha de entrega)
+    const strategy = getChannelStrategy(campaign);
+    if (sent < batchSize && isHybridStrategy(strategy)) {
+      const fallbacks = await storage.claimDueFallbacks(campaignId, { ...claim, limit: batchSize - sent });
+      claimedAny = claimedAny || fallbacks.length > 0;
+      try {
+        for (const contact of fallbacks) {
+          if (!this.isInSendWindow(campaign.workingHours, contact, now, calendar)) {
+            await storage.updateCampaignContact(contact.id, { fallbackAt: new Date(now.getTime() + this.WINDOW_RECHECK_DELAY) });
+            continue;
+          }
 
-    if (contactsToProcess.length === 0) {
-      console.log(`[CampaignEngine] All contacts processed for campaign ${campaignId}`);
-      await this.completeCampaign(campaignId);
-      return;
+          if (!(await this.readyToSend(campaign))) return;
+          await this.processFallback(campaign, contact, strategy);
+          sent++;
+          state.lastProcessedContact++;
+        }
+      } finally {
+        await storage.releaseContactClaims(fallbacks.map(contact => contact.id));
+      }
     }
 
-    // Process next contact
-    const nextContact = contactsToProcess[0];
-    await this.processContact(campaignId, nextContact, campaign.messageTemplate || '');
+    if (sent >= batchSize) return;
 
-    // Update state
-    state.lastProcessedContact++;
-    this.campaignStates.set(campaignId, state);
+    // Check working hours (campaign timezone; per-recipient windows are checked below)
+    if (workingHours && !workingHours.recipientLocalTime) {
+      const window = checkSendWindow(workingHours, now, { calendar });
+      if (!window.allowed) {
+        console.log(`[CampaignEngine] Campaign ${campaignId} outside working hours (${window.reason}${window.holiday ? `: ${window.holiday}` : ''}, ${window.localTime} ${window.timezone}), skipping`);
+        if (!claimedAny) await this.checkOutstandingWork(campaign);
+        return;
+      }
+    }
+
+    // Teste A/B com amostra: contatos sem variante aguardam a escolha da vencedora
+    const requireVariant = abTestService.isHoldingForWinner(campaign);
+    const recipientLocalTime = !!workingHours?.recipientLocalTime;
+    let scanned = 0;
+
+    // Reserva só o necessário para o ciclo; no horário local do destinatário, quem está
+    // fora da janela é adiado e a busca continua até o limite de contatos por ciclo
+    while (sent < batchSize && scanned < this.MAX_CLAIM_SCAN) {
+      const remaining = batchSize - sent;
+      const claimed = await storage.claimPendingContacts(campaignId, {
+        ...claim,
+        limit: recipientLocalTime ? Math.max(remaining, this.WINDOW_SCAN_PAGE) : remaining,
+        requireVariant
+      });
+      if (claimed.length === 0) break;
+      claimedAny = true;
+      scanned += claimed.length;
+
+      try {
+        const inWindow = recipientLocalTime
+          ? claimed.filter(contact => checkSendWindow(workingHours!, now, { recipient: contact, calendar }).allowed)
+          : claimed;
+        const outsideWindow = claimed.filter(contact => !inWindow.includes(contact));
+        await storage.deferCampaignContacts(
+          outsideWindow.map(contact => contact.id),
+          new Date(now.getTime() + this.WINDOW_RECHECK_DELAY)
+        );
+
+        for (const contact of inWindow.slice(0, remaining)) {
+          if (!(await this.readyToSend(campaign))) return;
+          await this.processContact(campaign, contact, steps);
+          sent++;
+          state.lastProcessedContact++;
+        }
+      } finally {
+        await storage.releaseContactClaims(claimed.map(contact => contact.id));
+      }
+    }
+
+    if (!claimedAny) {
+      await this.checkOutstandingWork(campaign);
+    } else if (sent === 0) {
+      console.log(`[CampaignEngine] Campaign ${campaignId} has no contacts inside their local send window`);
+    }
     
     } finally {
       // CRITICAL: Always release lock in finally block
@@ -400,11 +699,134 @@ export class CampaignEngine {
     }
   }
 
+  /**
+   * Nothing to claim this tick: complete the campaign when no contact is left, or wait
+   * for retries, deferred contacts, follow-up steps, channel fallbacks or the A/B winner
+   */
+  private async checkOutstandingWork(campaign: MassCampaign): Promise<void> {
+    const campaignId = campaign.id;
+    const outstanding = await storage.getCampaignOutstandingWork(campaignId);
+
+    if (!outstanding.pending && !outstanding.awaitingFollowUp) {
+      console.log(`[CampaignEngine] All contacts processed for campaign ${campaignId}`);
+      await this.completeCampaign(campaignId);
+      return;
+    }
+
+    if (outstanding.pending && abTestService.isHoldingForWinner(campaign)) {
+      const selected = await abTestService.selectWinnerIfReady(campaign);
+      if (!selected) {
+        console.log(`[CampaignEngine] Campaign ${campaignId} test slice sent, waiting to select the A/B winner`);
+      }
+      return;
+    }
+
+    console.log(`[CampaignEngine] Campaign ${campaignId} is waiting for ${outstanding.pending ? 'retries or contacts outside their send window' : 'follow-up steps or channel fallbacks'}`);
+  }
+
+  /**
+   * Checks done right before each send: a sender pool needs an available number, the
+   * next send must fit in the budgets and the lease is renewed so a contact is never
+   * sent by two instances
+   */
+  private async readyToSend(campaign: MassCampaign): Promise<boolean> {
+    const campaignId = campaign.id;
+
+    const budget = await budgetService.checkBudget(campaign);
+    if (!budget.allowed) {
+      console.log(`[CampaignEngine] Campaign ${campaignId} reached its budget, pausing: ${budget.reason}`);
+      await this.pauseCampaign(campaignId, `Campaign paused automatically: ${budget.reason}`, {
+        reason: 'BUDGET_REACHED',
+        scope: budget.scope,
+        limit: budget.limit,
+        spent: budget.spent
+      });
+      return false;
+    }
+
+    // Sem número do pool conectado e com cota: aguarda em vez de consumir tentativas
+    if (campaign.senderPoolId && !(await senderPoolService.hasAvailableSender(campaign.senderPoolId))) {
+      console.log(`[CampaignEngine] Campaign ${campaignId} has no available sender in pool ${campaign.senderPoolId}, waiting`);
+      return false;
+    }
+
+    // Mesmo para o limite por hora da configuração de email
+    if (campaign.channel === 'EMAIL' && campaign.emailConfigId) {
+      const emailConfig = await storage.getEmailConfigurationById(campaign.emailConfigId);
+      if (emailConfig && !emailService.hasQuota(emailConfig)) {
+        console.log(`[CampaignEngine] Campaign ${campaignId} reached the hourly limit of email configuration ${emailConfig.id}, waiting`);
+        return false;
+      }
+    }
+
+    // Circuit breaker: pausa quando as falhas da janela passam do limite, senão ajusta o ritmo
+    const state = this.campaignStates.get(campaignId);
+    const health = await campaignThrottle.assess(campaign, state?.circuitResetAt);
+    if (health.action === 'PAUSE') {
+      console.log(`[CampaignEngine] Campaign ${campaignId} circuit open, pausing: ${health.reason}`);
+      await this.pauseCampaign(campaignId, `Campaign paused automatically: ${health.reason}`, {
+        reason: 'CIRCUIT_OPEN',
+        failureRate: health.failureRate,
+        ...health.sample
+      });
+      await campaignThrottle.notifyPaused(campaign, health.reason!);
+      return false;
+    }
+    if (state) {
+      await this.applyThrottle(campaignId, state, health);
+    }
+
+    const leaseRenewed = await storage.acquireCampaignLease(campaignId, this.instanceId, this.LEASE_TTL);
+    if (!leaseRenewed) {
+      console.log(`[CampaignEngine] Lost lease for campaign ${campaignId}, stopping local worker`);
+      this.stopWorker(campaignId);
+      this.campaignStates.delete(campaignId);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Keep the send interval in step with the campaign's health, logging each change of pace
+   */
+  private async applyThrottle(
+    campaignId: string,
+    state: { throttleFactor?: number },
+    health: SendHealth
+  ): Promise<void> {
+    const previous = state.throttleFactor || 1;
+    if (health.slowdown === previous) return;
+    state.throttleFactor = health.slowdown;
+
+    const failurePercent = Math.round(health.failureRate * 100);
+    await storage.createCampaignLog({
+      campaignId,
+      eventType: 'THROTTLED',
+      message: health.slowdown > 1
+        ? `Send rate reduced to 1/${health.slowdown} (${failurePercent}% failures, ${health.sample.rateLimited} rate limited, ${health.sample.disconnects} disconnects in the last ${HEALTH_WINDOW / 60000} minutes)`
+        : 'Send rate back to normal',
+      metadata: { slowdown: health.slowdown, previous, failureRate: health.failureRate, ...health.sample }
+    });
+    console.log(`[CampaignEngine] Campaign ${campaignId} throttle ${previous}x -> ${health.slowdown}x`);
+  }
+
+  private isInSendWindow(rawWorkingHours: unknown, contact: CampaignContact, at: Date, calendar?: HolidayCalendar): boolean {
+    const config = normalizeWorkingHours(rawWorkingHours);
+    if (!config) return true;
+    return checkSendWindow(config, at, {
+      recipient: config.recipientLocalTime ? contact : undefined,
+      calendar
+    }).allowed;
+  }
+
   /**
    * Process a single contact
    */
-  private async processContact(campaignId: string, contact: CampaignContact, template: string): Promise<void> {
+  private async processContact(campaign: MassCampaign, contact: CampaignContact, steps: CampaignStep[] = []): Promise<void> {
+    const campaignId = campaign.id;
     console.log(`[CampaignEngine] Processing contact ${contact.id} (${contact.phone}) for campaign ${campaignId}`);
+    let sendChannel: CampaignChannel | undefined;
 
     try {
       // Check blacklist
@@ -425,17 +847,51 @@ export class CampaignEngine {
           message: `Contact skipped - blacklisted phone: ${contact.phone}`,
   
         });
+        const updated = await storage.incrementMassCampaignCounters(campaignId, { errorCount: 1 });
+        campaignEvents.publish({ campaignId, type: 'FAILED', contactId: contact.id, phone: contact.phone }, updated);
         return;
       }
 
-      // Validate WhatsApp (use cached validation if available)
-      const validation = await storage.getCachedValidation(contact.phone || '');
-      if (validation && validation.validationStatus === 'VALID_NO_WHATSAPP') {
-        console.log(`[CampaignEngine] Contact ${contact.phone} does not have WhatsApp, skipping`);
+      // Global frequency cap: the number may have been reached by other campaigns since the upload
+      if (contact.phone) {
+        const { settings: cap, capped } = await frequencyCap.check([contact.phone]);
+        const recentSends = capped.get(contact.phone);
+        if (recentSends !== undefined) {
+          console.log(`[CampaignEngine] Contact ${contact.phone} reached the frequency cap (${recentSends} messages), skipping`);
+
+          await storage.updateCampaignContact(contact.id, {
+            sendStatus: 'FAILED',
+            errorMessage: `Frequency cap reached: ${recentSends} messages to this number in the last ${cap.windowDays} days (limit ${cap.maxMessages})`,
+            sendTimestamp: new Date()
+          });
+
+          await storage.createCampaignLog({
+            campaignId,
+            contactId: contact.id,
+            eventType: 'FAILED',
+            message: `Contact skipped - frequency cap reached: ${contact.phone}`,
+            metadata: { reason: 'FREQUENCY_CAP', recentSends, maxMessages: cap.maxMessages, windowDays: cap.windowDays },
+          });
+          const updated = await storage.incrementMassCampaignCounters(campaignId, { errorCount: 1 });
+          campaignEvents.publish({ campaignId, type: 'FAILED', contactId: contact.id, phone: contact.phone }, updated);
+          return;
+        }
+      }
+
+      // Channel for this send: the first one of the strategy that reaches the contact,
+      // starting at the channel a failure already moved the contact to
+      const strategy = getChannelStrategy(campaign);
+      const channel = strategy.channels[0];
+      const reach = await this.getContactReach(contact, strategy);
+      const from = contact.channel ? Math.max(strategy.channels.indexOf(contact.channel), 0) : 0;
+      const route = pickChannel(strategy, reach, from);
+      if (!route.channel) {
+        const noWhatsapp = route.skipped.length === 1 && route.skipped[0] === 'WHATSAPP' && reach.phone;
+        console.log(`[CampaignEngine] Contact ${contact.phone} ${noWhatsapp ? 'does not have WhatsApp' : 'has no reachable channel'}, skipping`);
         
         await storage.updateCampaignContact(contact.id, {
           sendStatus: 'FAILED',
-          errorMessage: 'Phone number does not have WhatsApp',
+          errorMessage: Array.from(new Set(route.skipped.map(skipped => this.unreachableReason(skipped, reach)))).join('; '),
           sendTimestamp: new Date()
         });
 
@@ -443,193 +899,613 @@ export class CampaignEngine {
           campaignId,
           contactId: contact.id,
           eventType: 'FAILED',
-          message: `Contact skipped - no WhatsApp: ${contact.phone}`,
-  
+          message: noWhatsapp
+            ? `Contact skipped - no WhatsApp: ${contact.phone}`
+            : `Contact skipped - no reachable channel (${route.skipped.join(', ')}): ${contact.phone || contact.email}`,
+          metadata: { skippedChannels: route.skipped },
         });
+        const updated = await storage.incrementMassCampaignCounters(campaignId, { errorCount: 1 });
+        campaignEvents.publish({ campaignId, type: 'FAILED', contactId: contact.id, phone: contact.phone }, updated);
         return;
       }
+      sendChannel = route.channel;
+      if (route.skipped.length > 0) {
+        console.log(`[CampaignEngine] Contact ${contact.phone} cannot be reached by ${route.skipped.join(', ')}, falling back to ${sendChannel}`);
+      }
 
       // Send message
-      const contactData: ContactData = {
-        id: contact.id,
-        phone: contact.phone || '',
-        razaoSocial: contact.razaoSocial || '',
-        nomeFantasia: contact.nomeFantasia || '',
-        customData: contact.customData
-      };
-
-      const result = await this.sendMessage(contactData, template);
+      const result = await this.sendMessage(campaign, contact, sendChannel);
+      const attemptNumber = (contact.attemptCount || 0) + 1;
 
       if (result.success) {
+        const cost = await budgetService.getSendCost(campaign, { channel: sendChannel, units: result.billableUnits });
+        // Sem resposta em N dias, o próximo canal que alcança o contato recebe a mensagem
+        const noReplyFallback = strategy.noReplyDays
+          ? pickChannel(strategy, reach, strategy.channels.indexOf(sendChannel) + 1).channel
+          : null;
+
         // Update contact status to SENT
         await storage.updateCampaignContact(contact.id, {
           sendStatus: 'SENT',
           sendTimestamp: new Date(),
-          errorMessage: null
+          messageId: result.messageId || null,
+          senderId: result.senderId || null,
+          channel: sendChannel,
+          mediaAssetId: result.mediaAssetId || null,
+          errorMessage: null,
+          attemptCount: attemptNumber,
+          nextAttemptAt: null,
+          // Primeiro follow-up da sequência, se houver
+          sequenceStep: 1,
+          nextStepAt: steps.length > 0 ? this.addDays(new Date(), steps[0].delayDays) : null,
+          fallbackAt: noReplyFallback ? this.addDays(new Date(), strategy.noReplyDays!) : null
         });
 
+        await storage.createContactAttempt({
+          campaignId,
+          contactId: contact.id,
+          attemptNumber,
+          channel: sendChannel,
+          status: 'SENT',
+          cost: cost.toString()
+        });
+        await budgetService.chargeSend(campaign, cost);
+
         // Log successful send
         await storage.createCampaignLog({
           campaignId,
           contactId: contact.id,
           eventType: 'SENT',
-          message: `Message sent successfully to ${contact.phone}`,
-          metadata: { messageId: result.messageId },
+          message: sendChannel !== channel
+            ? `Message sent successfully to ${contact.phone || contact.email} by ${sendChannel} (fallback)`
+            : `Message sent successfully to ${contact.phone}`,
+          metadata: { messageId: result.messageId, senderId: result.senderId, channel: sendChannel, mediaAssetId: result.mediaAssetId, segments: result.billableUnits, attempt: attemptNumber },
   
         });
 
-        // Simulate delivery and read status updates
-        setTimeout(async () => {
-          await this.simulateStatusUpdates(campaignId, contact.id);
-        }, Math.random() * 30000 + 10000); // 10-40 seconds delay
-
         // Update campaign sent count
-        const campaign = await storage.getMassCampaignById(campaignId);
-        if (campaign) {
-          await storage.updateMassCampaign(campaignId, {
-            sentCount: (campaign.sentCount || 0) + 1,
-            successCount: (campaign.successCount || 0) + 1,
-            updatedAt: new Date()
-          });
-        }
+        const updated = await storage.incrementMassCampaignCounters(campaignId, { sentCount: 1, successCount: 1 });
+        campaignEvents.publish({ campaignId, type: 'SENT', contactId: contact.id, phone: contact.phone }, updated);
 
       } else {
-        // Update contact status to FAILED
-        await storage.updateCampaignContact(contact.id, {
-          sendStatus: 'FAILED',
-          sendTimestamp: new Date(),
-          errorMessage: result.error || 'Unknown error'
-        });
+        await this.handleSendFailure(campaign, contact, result.errorCode, result.error || 'Unknown error', result.senderId, sendChannel);
+      }
 
-        // Log failed send
+    } catch (error) {
+      console.error(`[CampaignEngine] Error processing contact ${contact.id}:`, error);
+      
+      await this.handleSendFailure(
+        campaign,
+        contact,
+        'UNKNOWN',
+        `Error processing contact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        sendChannel
+      );
+    }
+  }
+
+  /**
+   * Send the next step of a drip sequence to a contact that has not replied yet.
+   * The contact keeps its send status; steps are tracked in the attempt history.
+   */
+  private async processFollowUp(
+    campaign: MassCampaign,
+    contact: CampaignContact,
+    step: CampaignStep,
+    steps: CampaignStep[]
+  ): Promise<void> {
+    const campaignId = campaign.id;
+    // Follow-ups seguem pelo canal que alcançou o contato (ex: fallback por SMS)
+    const channel: CampaignChannel = contact.channel || campaign.channel || 'WHATSAPP';
+    console.log(`[CampaignEngine] Sending follow-up step ${step.stepNumber} to contact ${contact.id} (${contact.phone}) for campaign ${campaignId}`);
+
+    // Descadastro fora da resposta (ex: blacklist manual) também encerra a sequência
+    if (await storage.isPhoneBlacklisted(contact.phone || '')) {
+      await storage.updateCampaignContact(contact.id, { nextStepAt: null, sequenceExitReason: 'OPTED_OUT' });
+      await storage.createCampaignLog({
+        campaignId,
+        contactId: contact.id,
+        eventType: 'CANCELLED',
+        message: `Follow-up step ${step.stepNumber} cancelled - blacklisted phone: ${contact.phone}`,
+        metadata: { step: step.stepNumber },
+      });
+      return;
+    }
+
+    // Follow-ups também contam no limite global de frequência
+    if (contact.phone) {
+      const { settings: cap, capped } = await frequencyCap.check([contact.phone]);
+      const recentSends = capped.get(contact.phone);
+      if (recentSends !== undefined) {
+        await storage.updateCampaignContact(contact.id, { nextStepAt: null, sequenceExitReason: 'FAILED' });
         await storage.createCampaignLog({
           campaignId,
           contactId: contact.id,
-          eventType: 'FAILED',
-          message: `Failed to send message to ${contact.phone}: ${result.error}`,
-  
+          eventType: 'CANCELLED',
+          message: `Follow-up step ${step.stepNumber} cancelled - frequency cap reached: ${contact.phone}`,
+          metadata: { step: step.stepNumber, reason: 'FREQUENCY_CAP', recentSends, maxMessages: cap.maxMessages, windowDays: cap.windowDays },
         });
-
-        // Update campaign error count
-        const campaign = await storage.getMassCampaignById(campaignId);
-        if (campaign) {
-          await storage.updateMassCampaign(campaignId, {
-            errorCount: (campaign.errorCount || 0) + 1,
-            updatedAt: new Date()
-          });
-        }
+        return;
       }
+    }
+
+    const previousAttempts = await storage.getContactAttempts(contact.id);
+    const attemptNumber = previousAttempts.filter(attempt => attempt.stepNumber === step.stepNumber).length + 1;
 
+    let result: ChannelSendResult;
+    try {
+      const adapter = getChannelAdapter(channel);
+      const message = renderMessageTemplate(step.messageTemplate, contact, { variationSeed: `${contact.id}:${step.stepNumber}` });
+      result = adapter
+        ? await adapter.send({ campaign, contact, message })
+        : { success: false, status: 'FAILED', errorCode: 'UNKNOWN', error: `Channel ${channel} is not supported` };
     } catch (error) {
-      console.error(`[CampaignEngine] Error processing contact ${contact.id}:`, error);
-      
+      result = {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'UNKNOWN',
+        error: `Error processing follow-up: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+
+    if (result.success) {
+      const cost = await budgetService.getSendCost(campaign, { channel, units: result.billableUnits });
+      const nextStep = steps.find(candidate => candidate.stepNumber === step.stepNumber + 1);
+      // Acks passam a se referir a este passo (ver handleMessageAck)
       await storage.updateCampaignContact(contact.id, {
-        sendStatus: 'FAILED',
-        sendTimestamp: new Date(),
-        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        messageId: result.messageId || null,
+        sequenceStep: step.stepNumber,
+        nextStepAt: nextStep ? this.addDays(new Date(), nextStep.delayDays) : null,
+        sequenceExitReason: nextStep ? null : 'COMPLETED',
+        ...(result.senderId ? { senderId: result.senderId } : {})
       });
 
-      await storage.createCampaignLog({
+      await storage.createContactAttempt({
         campaignId,
         contactId: contact.id,
-        eventType: 'FAILED',
-        message: `Error processing contact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        attemptNumber,
+        stepNumber: step.stepNumber,
+        channel,
+        status: 'SENT',
+        cost: cost.toString()
+      });
+      await budgetService.chargeSend(campaign, cost);
 
+      await storage.createCampaignLog({
+        campaignId,
+        contactId: contact.id,
+        eventType: 'SENT',
+        message: `Follow-up step ${step.stepNumber} sent to ${contact.phone}`,
+        metadata: { messageId: result.messageId, senderId: result.senderId, channel, segments: result.billableUnits, step: step.stepNumber, attempt: attemptNumber },
       });
+      campaignEvents.publish({ campaignId, type: 'SENT', contactId: contact.id, phone: contact.phone, step: step.stepNumber });
+      return;
     }
+
+    const maxAttempts = getMaxAttempts(campaign);
+    const retryable = isRetryableError(result.errorCode);
+    const willRetry = retryable && attemptNumber < maxAttempts;
+    const nextAttemptAt = willRetry ? new Date(Date.now() + getRetryDelay(attemptNumber)) : null;
+    const error = result.error || 'Unknown error';
+
+    await storage.createContactAttempt({
+      campaignId,
+      contactId: contact.id,
+      attemptNumber,
+      stepNumber: step.stepNumber,
+      channel,
+      status: 'FAILED',
+      errorCode: result.errorCode || 'UNKNOWN',
+      errorMessage: error,
+      retryable,
+      nextAttemptAt
+    });
+
+    // Follow-up que falhou de vez encerra a sequência do contato
+    await storage.updateCampaignContact(contact.id, willRetry
+      ? { nextStepAt: nextAttemptAt }
+      : { nextStepAt: null, sequenceExitReason: 'FAILED' }
+    );
+
+    await storage.createCampaignLog({
+      campaignId,
+      contactId: contact.id,
+      eventType: willRetry ? 'RETRYING' : 'FAILED',
+      message: willRetry
+        ? `Follow-up step ${step.stepNumber} attempt ${attemptNumber}/${maxAttempts} failed for ${contact.phone}: ${error}. Retrying at ${nextAttemptAt!.toISOString()}`
+        : `Follow-up step ${step.stepNumber} failed for ${contact.phone}: ${error}`,
+      metadata: { errorCode: result.errorCode, channel, step: step.stepNumber, attempt: attemptNumber },
+    });
   }
 
   /**
-   * Mock WhatsApp Business API send message
+   * Hybrid campaigns: the contact did not reply in time or the message was not delivered,
+   * so the initial message goes out again through the next channel of the strategy.
+   * The attempts of the initial message tell where the contact is in the strategy.
    */
-  private async sendMessage(contact: ContactData, template: string): Promise<SendResult> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 2000 + 500));
+  private async processFallback(campaign: MassCampaign, contact: CampaignContact, strategy: ChannelStrategy): Promise<void> {
+    const campaignId = campaign.id;
 
-    // Personalize message template
-    let personalizedMessage = template;
-    if (contact.razaoSocial) {
-      personalizedMessage = personalizedMessage.replace(/\{razao_social\}/g, contact.razaoSocial);
+    if (await storage.isPhoneBlacklisted(contact.phone || '')) {
+      await storage.updateCampaignContact(contact.id, { fallbackAt: null });
+      await storage.createCampaignLog({
+        campaignId,
+        contactId: contact.id,
+        eventType: 'CANCELLED',
+        message: `Channel fallback cancelled - blacklisted phone: ${contact.phone}`,
+      });
+      return;
     }
-    if (contact.nomeFantasia) {
-      personalizedMessage = personalizedMessage.replace(/\{nome_fantasia\}/g, contact.nomeFantasia);
+
+    if (contact.phone) {
+      const { settings: cap, capped } = await frequencyCap.check([contact.phone]);
+      const recentSends = capped.get(contact.phone);
+      if (recentSends !== undefined) {
+        await storage.updateCampaignContact(contact.id, { fallbackAt: null });
+        await storage.createCampaignLog({
+          campaignId,
+          contactId: contact.id,
+          eventType: 'CANCELLED',
+          message: `Channel fallback cancelled - frequency cap reached: ${contact.phone}`,
+          metadata: { reason: 'FREQUENCY_CAP', recentSends, maxMessages: cap.maxMessages, windowDays: cap.windowDays },
+        });
+        return;
+      }
     }
 
-    // Mock WhatsApp API response (67% success rate as mentioned in requirements)
-    const success = Math.random() < 0.67;
-    
-    if (success) {
-      const messageId = `msg_${Math.random().toString(36).substring(2, 15)}`;
-      return {
-        success: true,
-        status: 'SENT',
-        messageId,
-        deliveryTime: Math.random() * 1000 + 500
-      };
-    } else {
-      // Simulate different types of errors
-      const errors = [
-        'Phone number not on WhatsApp',
-        'Rate limit exceeded',
-        'Invalid phone number format',
-        'Message template validation failed',
-        'Network timeout',
-        'User blocked the business account'
-      ];
-      
-      return {
+    const attempts = (await storage.getContactAttempts(contact.id)).filter(attempt => (attempt.stepNumber ?? 1) === 1);
+    const last = attempts[attempts.length - 1];
+    const lastChannel = last?.channel || contact.channel || strategy.channels[0];
+    const reach = await this.getContactReach(contact, strategy);
+    // Falha temporária no próprio fallback: repete o canal até esgotar as tentativas
+    const channel = last?.status === 'FAILED' && last.nextAttemptAt
+      ? lastChannel
+      : pickChannel(strategy, reach, strategy.channels.indexOf(lastChannel) + 1).channel;
+    if (!channel) {
+      await storage.updateCampaignContact(contact.id, { fallbackAt: null });
+      return;
+    }
+
+    const reason = contact.sendStatus === 'FAILED' ? 'delivery failure' : `no reply in ${strategy.noReplyDays} days`;
+    console.log(`[CampaignEngine] Contact ${contact.id} (${contact.phone}) falling back from ${lastChannel} to ${channel} after ${reason}`);
+    const attemptNumber = attempts.filter(attempt => attempt.channel === channel).length + 1;
+
+    let result: ChannelSendResult;
+    try {
+      result = await this.sendMessage(campaign, contact, channel);
+    } catch (error) {
+      result = {
         success: false,
         status: 'FAILED',
-        error: errors[Math.floor(Math.random() * errors.length)]
+        errorCode: 'UNKNOWN',
+        error: `Error processing fallback: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
     }
+
+    if (result.success) {
+      const cost = await budgetService.getSendCost(campaign, { channel, units: result.billableUnits });
+      const next = strategy.noReplyDays
+        ? pickChannel(strategy, reach, strategy.channels.indexOf(channel) + 1).channel
+        : null;
+      await storage.updateCampaignContact(contact.id, {
+        channel,
+        messageId: result.messageId || null,
+        mediaAssetId: result.mediaAssetId || null,
+        errorMessage: null,
+        fallbackAt: next ? this.addDays(new Date(), strategy.noReplyDays!) : null,
+        ...(result.senderId ? { senderId: result.senderId } : {}),
+        // Falha de entrega revertida: o contato volta a contar como enviado
+        ...(contact.sendStatus === 'FAILED' ? { sendStatus: 'SENT' as const, sendTimestamp: new Date() } : {})
+      });
+
+      await storage.createContactAttempt({
+        campaignId,
+        contactId: contact.id,
+        attemptNumber,
+        channel,
+        status: 'SENT',
+        cost: cost.toString()
+      });
+      await budgetService.chargeSend(campaign, cost);
+
+      await storage.createCampaignLog({
+        campaignId,
+        contactId: contact.id,
+        eventType: 'SENT',
+        message: `Message sent to ${contact.phone || contact.email} by ${channel} (fallback after ${reason})`,
+        metadata: { messageId: result.messageId, senderId: result.senderId, channel, previousChannel: lastChannel, mediaAssetId: result.mediaAssetId, segments: result.billableUnits, attempt: attemptNumber },
+      });
+
+      const updated = contact.sendStatus === 'FAILED'
+        ? await storage.incrementMassCampaignCounters(campaignId, { successCount: 1, errorCount: -1 })
+        : undefined;
+      campaignEvents.publish({ campaignId, type: 'SENT', contactId: contact.id, phone: contact.phone }, updated);
+      return;
+    }
+
+    const maxAttempts = getMaxAttempts(campaign);
+    const retryable = isRetryableError(result.errorCode);
+    const willRetry = retryable && attemptNumber < maxAttempts;
+    const nextAttemptAt = willRetry ? new Date(Date.now() + getRetryDelay(attemptNumber)) : null;
+    const error = result.error || 'Unknown error';
+    const next = !willRetry && strategy.fallbackOnFailure
+      ? pickChannel(strategy, reach, strategy.channels.indexOf(channel) + 1).channel
+      : null;
+
+    await storage.createContactAttempt({
+      campaignId,
+      contactId: contact.id,
+      attemptNumber,
+      channel,
+      status: 'FAILED',
+      errorCode: result.errorCode || 'UNKNOWN',
+      errorMessage: error,
+      retryable,
+      nextAttemptAt
+    });
+
+    await storage.updateCampaignContact(contact.id, {
+      fallbackAt: willRetry ? nextAttemptAt : next ? new Date() : null
+    });
+
+    await storage.createCampaignLog({
+      campaignId,
+      contactId: contact.id,
+      eventType: willRetry ? 'RETRYING' : 'FAILED',
+      message: willRetry
+        ? `Fallback by ${channel} attempt ${attemptNumber}/${maxAttempts} failed for ${contact.phone || contact.email}: ${error}. Retrying at ${nextAttemptAt!.toISOString()}`
+        : `Fallback by ${channel} failed for ${contact.phone || contact.email}: ${error}${next ? `. Trying ${next} next` : ''}`,
+      metadata: { errorCode: result.errorCode, channel, fallbackChannel: next, attempt: attemptNumber },
+    });
   }
 
   /**
-   * Simulate status updates (delivered, read) for sent messages
+   * What the campaign knows about the contact to pick a channel. WhatsApp is ruled out
+   * only when the list or the cached validation says the number has no WhatsApp.
    */
-  private async simulateStatusUpdates(campaignId: string, contactId: string): Promise<void> {
-    try {
-      // 80% chance of delivery
-      if (Math.random() < 0.8) {
-        await storage.updateCampaignContact(contactId, {
-          sendStatus: 'DELIVERED',
-          deliveryTimestamp: new Date()
+  private async getContactReach(contact: CampaignContact, strategy: ChannelStrategy): Promise<ContactReach> {
+    let whatsapp = contact.phoneValidationStatus !== 'VALID_NO_WHATSAPP';
+    if (whatsapp && !contact.whatsappEnabled && strategy.channels.includes('WHATSAPP')) {
+      const validation = await storage.getCachedValidation(contact.phone || '');
+      whatsapp = validation?.validationStatus !== 'VALID_NO_WHATSAPP';
+    }
+    return { whatsapp, phone: !!contact.phone, email: !!recipientEmail(contact) };
+  }
+
+  private unreachableReason(channel: CampaignChannel, reach: ContactReach): string {
+    if (channel === 'EMAIL') return 'Contact has no email address';
+    if (channel === 'WHATSAPP' && reach.phone) return 'Phone number does not have WhatsApp';
+    return 'Contact has no phone number';
+  }
+
+  private addDays(from: Date, days: number): Date {
+    return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Record a failed attempt and either schedule a retry with exponential backoff,
+   * move a hybrid campaign contact to the next channel of the strategy or, when the
+   * error is permanent or attempts ran out, mark the contact FAILED
+   */
+  private async handleSendFailure(
+    campaign: MassCampaign,
+    contact: CampaignContact,
+    errorCode: ChannelErrorCode | undefined,
+    error: string,
+    senderId?: string,
+    channel: CampaignChannel = contact.channel || campaign.channel || 'WHATSAPP'
+  ): Promise<void> {
+    const campaignId = campaign.id;
+    const attemptNumber = (contact.attemptCount || 0) + 1;
+    const maxAttempts = getMaxAttempts(campaign);
+    const retryable = isRetryableError(errorCode);
+    const willRetry = retryable && attemptNumber < maxAttempts;
+    const nextAttemptAt = willRetry ? new Date(Date.now() + getRetryDelay(attemptNumber)) : null;
+
+    await storage.createContactAttempt({
+      campaignId,
+      contactId: contact.id,
+      attemptNumber,
+      channel,
+      status: 'FAILED',
+      errorCode: errorCode || 'UNKNOWN',
+      errorMessage: error,
+      retryable,
+      nextAttemptAt
+    });
+
+    if (willRetry) {
+      // Contato continua PENDING, mas só volta à fila após o backoff
+      await storage.updateCampaignContact(contact.id, {
+        attemptCount: attemptNumber,
+        nextAttemptAt,
+        errorMessage: error,
+        ...(senderId ? { senderId } : {})
+      });
+
+      await storage.createCampaignLog({
+        campaignId,
+        contactId: contact.id,
+        eventType: 'RETRYING',
+        message: `Attempt ${attemptNumber}/${maxAttempts} failed for ${contact.phone}: ${error}. Retrying at ${nextAttemptAt!.toISOString()}`,
+        metadata: { errorCode, channel, attempt: attemptNumber },
+      });
+      return;
+    }
+
+    // Campanha híbrida: o contato volta à fila no próximo canal, com as tentativas zeradas
+    const strategy = getChannelStrategy(campaign);
+    if (strategy.fallbackOnFailure) {
+      const reach = await this.getContactReach(contact, strategy);
+      const next = pickChannel(strategy, reach, strategy.channels.indexOf(channel) + 1).channel;
+      if (next) {
+        await storage.updateCampaignContact(contact.id, {
+          channel: next,
+          attemptCount: 0,
+          nextAttemptAt: null,
+          errorMessage: error,
+          ...(senderId ? { senderId } : {})
         });
 
         await storage.createCampaignLog({
           campaignId,
-          contactId,
-          eventType: 'DELIVERED',
-          message: 'Message delivered',
-  
+          contactId: contact.id,
+          eventType: 'RETRYING',
+          message: `Send by ${channel} failed for ${contact.phone || contact.email}: ${error}. Falling back to ${next}`,
+          metadata: { errorCode, channel, fallbackChannel: next, attempt: attemptNumber },
         });
+        return;
+      }
+    }
 
-        // 50% chance of being read (if delivered)
-        setTimeout(async () => {
-          if (Math.random() < 0.5) {
-            try {
-              await storage.updateCampaignContact(contactId, {
-                sendStatus: 'READ',
-                readTimestamp: new Date()
-              });
-
-              await storage.createCampaignLog({
-                campaignId,
-                contactId,
-                eventType: 'READ',
-                message: 'Message read',
-        
-              });
-            } catch (error) {
-              console.error(`[CampaignEngine] Error updating read status for contact ${contactId}:`, error);
-            }
-          }
-        }, Math.random() * 60000 + 30000); // 30-90 seconds delay for read
+    // Update contact status to FAILED
+    await storage.updateCampaignContact(contact.id, {
+      sendStatus: 'FAILED',
+      sendTimestamp: new Date(),
+      errorMessage: error,
+      attemptCount: attemptNumber,
+      nextAttemptAt: null,
+      ...(senderId ? { senderId } : {})
+    });
+
+    // Log failed send
+    await storage.createCampaignLog({
+      campaignId,
+      contactId: contact.id,
+      eventType: 'FAILED',
+      message: `Failed to send message to ${contact.phone}: ${error}`,
+      metadata: { errorCode, channel, attempt: attemptNumber },
+    });
+
+    // Update campaign error count
+    const updated = await storage.incrementMassCampaignCounters(campaignId, { errorCount: 1 });
+    campaignEvents.publish({ campaignId, type: 'FAILED', contactId: contact.id, phone: contact.phone }, updated);
+  }
+
+  /**
+   * Personalize the template and dispatch it through the campaign's channel adapter
+   */
+  private async sendMessage(
+    campaign: MassCampaign,
+    contact: CampaignContact,
+    channel: CampaignChannel = campaign.channel || 'WHATSAPP'
+  ): Promise<ChannelSendResult> {
+    const adapter = getChannelAdapter(channel);
+    if (!adapter) {
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'UNKNOWN',
+        error: `Channel ${channel} is not supported`
+      };
+    }
+
+    // Variação do spintax fixa por contato: um retry envia o mesmo texto
+    const { template } = await abTestService.resolveTemplate(campaign, contact);
+    const message = renderMessageTemplate(template, contact, { variationSeed: contact.id });
+    return adapter.send({ campaign, contact, message, mediaAssetId: campaign.mediaAssetId || undefined });
+  }
+
+  /**
+   * Apply a delivery/read acknowledgement from the channel (WhatsApp ack, SMS delivery
+   * receipt) to the campaign contact.
+   * Status only moves forward (SENT -> DELIVERED -> READ); duplicate or late acks are ignored,
+   * and so are receipts from a channel other than the one the contact was sent on.
+   */
+  async handleMessageAck(ack: ChannelDeliveryReceipt, channel: CampaignChannel): Promise<void> {
+    if (ack.status === 'SENT') return;
+
+    const contact = await storage.getCampaignContactByMessageId(ack.messageId);
+    if (!contact) return; // Mensagem fora de campanha
+    if ((contact.channel || 'WHATSAPP') !== channel) {
+      console.warn(`[CampaignEngine] Ignoring ${channel} receipt for message ${ack.messageId} sent by ${contact.channel || 'WHATSAPP'}`);
+      return;
+    }
+
+    // Falha de entrega de um follow-up: a mensagem inicial já foi contabilizada, só a sequência termina
+    if (ack.status === 'FAILED' && (contact.sequenceStep ?? 1) > 1) {
+      if (contact.sequenceExitReason && contact.sequenceExitReason !== 'COMPLETED') return;
+
+      await storage.updateCampaignContact(contact.id, { nextStepAt: null, sequenceExitReason: 'FAILED' });
+      await storage.createCampaignLog({
+        campaignId: contact.campaignId,
+        contactId: contact.id,
+        eventType: 'FAILED',
+        message: `Follow-up step ${contact.sequenceStep} delivery failed for ${contact.phone}`,
+        metadata: { messageId: ack.messageId, channel, error: ack.error, step: contact.sequenceStep },
+      });
+      return;
+    }
+
+    if (ack.status === 'FAILED') {
+      const failedContact = await storage.advanceCampaignContactStatus(contact.id, ['SENT'], {
+        sendStatus: 'FAILED',
+        errorMessage: ack.error || `${contact.channel || 'WhatsApp'} reported a delivery error`
+      });
+      if (!failedContact) return;
+
+      // Campanha híbrida: o próximo canal recebe a mensagem no ciclo seguinte
+      const campaign = await storage.getMassCampaignById(contact.campaignId);
+      const strategy = campaign ? getChannelStrategy(campaign) : undefined;
+      const next = strategy?.fallbackOnFailure && contact.channel
+        ? pickChannel(strategy, await this.getContactReach(contact, strategy), strategy.channels.indexOf(contact.channel) + 1).channel
+        : null;
+      if (next) {
+        await storage.updateCampaignContact(contact.id, { fallbackAt: new Date() });
       }
-    } catch (error) {
-      console.error(`[CampaignEngine] Error updating delivery status for contact ${contactId}:`, error);
+
+      await storage.createCampaignLog({
+        campaignId: contact.campaignId,
+        contactId: contact.id,
+        eventType: 'FAILED',
+        message: `Delivery failed for ${contact.phone}${next ? `, falling back to ${next}` : ''}`,
+        metadata: { messageId: ack.messageId, channel: contact.channel, error: ack.error, fallbackChannel: next },
+      });
+      const updated = await storage.incrementMassCampaignCounters(contact.campaignId, { successCount: -1, errorCount: 1 });
+      campaignEvents.publish({ campaignId: contact.campaignId, type: 'FAILED', contactId: contact.id, phone: contact.phone }, updated);
+      return;
+    }
+
+    if (ack.status === 'DELIVERED') {
+      const deliveredContact = await storage.advanceCampaignContactStatus(contact.id, ['SENT'], {
+        sendStatus: 'DELIVERED',
+        deliveryTimestamp: ack.timestamp
+      });
+      if (!deliveredContact) return;
+
+      await storage.createCampaignLog({
+        campaignId: contact.campaignId,
+        contactId: contact.id,
+        eventType: 'DELIVERED',
+        message: `Message delivered to ${contact.phone}`,
+        metadata: { messageId: ack.messageId },
+      });
+      const updated = await storage.incrementMassCampaignCounters(contact.campaignId, { deliveredCount: 1 });
+      campaignEvents.publish({ campaignId: contact.campaignId, type: 'DELIVERED', contactId: contact.id, phone: contact.phone }, updated);
+      return;
     }
+
+    // READ: a read receipt can arrive without a prior device ack, which also implies delivery
+    if (contact.sendStatus === 'SENT') {
+      await this.handleMessageAck({ ...ack, status: 'DELIVERED' }, channel);
+    }
+
+    const readContact = await storage.advanceCampaignContactStatus(contact.id, ['DELIVERED'], {
+      sendStatus: 'READ',
+      readTimestamp: ack.timestamp
+    });
+    if (!readContact) return;
+
+    await storage.createCampaignLog({
+      campaignId: contact.campaignId,
+      contactId: contact.id,
+      eventType: 'READ',
+      message: `Message read by ${contact.phone}`,
+      metadata: { messageId: ack.messageId },
+    });
+    const updated = await storage.incrementMassCampaignCounters(contact.campaignId, { readCount: 1 });
+    campaignEvents.publish({ campaignId: contact.campaignId, type: 'READ', contactId: contact.id, phone: contact.phone }, updated);
   }
 
   /**
@@ -646,38 +1522,26 @@ export class CampaignEngine {
   }
 
   /**
-   * Check if current time is within working hours
+   * Average time between two sends of the campaign, jitter and long pauses included.
+   * Used by the dry-run forecast.
    */
-  private isWithinWorkingHours(workingHours: any): boolean {
-    if (!workingHours || typeof workingHours !== 'object') {
-      return true; // No restrictions if not configured
-    }
-
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinutes = now.getMinutes();
-    const currentTimeInMinutes = currentHour * 60 + currentMinutes;
-
-    // Parse start and end times
-    const startTime = workingHours.start || '08:00';
-    const endTime = workingHours.end || '18:00';
-    
-    const [startHour, startMin] = startTime.split(':').map(Number);
-    const [endHour, endMin] = endTime.split(':').map(Number);
-    
-    const startTimeInMinutes = startHour * 60 + startMin;
-    const endTimeInMinutes = endHour * 60 + endMin;
-
-    // Check day of week if configured
-    if (workingHours.daysOfWeek && Array.isArray(workingHours.daysOfWeek)) {
-      const currentDay = now.getDay(); // 0=Sunday, 1=Monday, etc.
-      if (!workingHours.daysOfWeek.includes(currentDay)) {
-        return false;
-      }
-    }
+  getAverageSendInterval(campaign: MassCampaign): number {
+    const batchSize = Math.max(1, campaign.batchSize || 1);
+    const tickDelay = this.calculateSendDelay(campaign.sendRate || 50) * batchSize;
+    // Pausa longa: base * (1..3), em média 2x a base, com probabilidade LONG_PAUSE_PROBABILITY
+    const averageTick = Math.max(tickDelay * (1 + this.LONG_PAUSE_PROBABILITY * 2), 1000);
+    return averageTick / batchSize;
+  }
 
-    // Check time range
-    return currentTimeInMinutes >= startTimeInMinutes && currentTimeInMinutes <= endTimeInMinutes;
+  /**
+   * Randomize the delay so sends don't follow a fixed, bot-like cadence:
+   * ±30% around the base delay plus an occasional longer pause.
+   * The average rate stays close to the configured sendRate.
+   */
+  private applySendJitter(baseDelay: number): number {
+    const variation = 1 + (Math.random() * 2 - 1) * this.SEND_JITTER_RATIO;
+    const pause = Math.random() < this.LONG_PAUSE_PROBABILITY ? baseDelay * (1 + Math.random() * 2) : 0;
+    return Math.round(baseDelay * variation + pause);
   }
 
   /**
@@ -690,11 +1554,11 @@ export class CampaignEngine {
     this.stopWorker(campaignId);
 
     // Update campaign status
-    await storage.updateMassCampaign(campaignId, {
+    campaignEvents.statusChanged(await storage.updateMassCampaign(campaignId, {
       status: 'COMPLETED',
       endTime: new Date(),
       updatedAt: new Date()
-    });
+    }));
 
     // Log completion
     await storage.createCampaignLog({
@@ -705,6 +1569,7 @@ export class CampaignEngine {
 
     // Clean up state
     this.campaignStates.delete(campaignId);
+    await storage.releaseCampaignLease(campaignId, this.instanceId);
   }
 
   /**
@@ -0,0 +1,59 @@
+import { EventEmitter } from 'events';
+import type { MassCampaign } from '@shared/schema';
+
+export type CampaignEventType = 'SENT' | 'FAILED' | 'DELIVERED' | 'READ' | 'REPLIED' | 'STATUS';
+
+// Contadores mantidos por incremento atômico na própria campanha
+export interface CampaignCounters {
+  totalRecords: number;
+  sentCount: number; // envios com sucesso (descontadas falhas reportadas depois pelo canal)
+  deliveredCount: number;
+  readCount: number;
+  repliedCount: number;
+  errorCount: number;
+}
+
+export interface CampaignEvent {
+  campaignId: string;
+  type: CampaignEventType;
+  contactId?: string;
+  phone?: string | null;
+  step?: number; // follow-up da sequência
+  status?: MassCampaign["status"];
+  counters?: CampaignCounters;
+  timestamp: Date;
+}
+
+export function campaignCounters(campaign: MassCampaign): CampaignCounters {
+  return {
+    totalRecords: campaign.totalRecords || 0,
+    sentCount: campaign.successCount || 0,
+    deliveredCount: campaign.deliveredCount || 0,
+    readCount: campaign.readCount || 0,
+    repliedCount: campaign.repliedCount || 0,
+    errorCount: campaign.errorCount || 0,
+  };
+}
+
+/**
+ * Live feed of what happens in each campaign (sends, acks, replies, status changes)
+ * with the counters after the change. routes.ts relays it to the Socket.IO room of
+ * the campaign.
+ */
+class CampaignEvents extends EventEmitter {
+  publish(event: Omit<CampaignEvent, 'timestamp' | 'counters'>, campaign?: MassCampaign): void {
+    const payload: CampaignEvent = {
+      ...event,
+      ...(campaign ? { counters: campaignCounters(campaign) } : {}),
+      timestamp: new Date(),
+    };
+    this.emit('campaignEvent', payload);
+  }
+
+  statusChanged(campaign: MassCampaign | undefined): void {
+    if (!campaign) return;
+    this.publish({ campaignId: campaign.id, type: 'STATUS', status: campaign.status }, campaign);
+  }
+}
+
+export const campaignEvents = new CampaignEvents();
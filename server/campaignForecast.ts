@@ -0,0 +1,329 @@
+import { storage } from './storage';
+import { campaignEngine } from './campaignEngine';
+import { budgetService } from './budgetService';
+import { abTestService } from './abTestService';
+import { holidayCalendar } from './holidayCalendar';
+import { frequencyCap } from './frequencyCap';
+import { recipientEmail } from './channels/emailChannel';
+import { normalizeAbTestConfig } from '@shared/abTest';
+import { collectCustomFields, renderMessageTemplate, validateMessageTemplate } from '@shared/messageTemplate';
+import { splitSmsSegments } from '@shared/smsSegments';
+import { getChannelStrategy, pickChannel, type StrategyChannel } from '@shared/channelStrategy';
+import {
+  DEFAULT_TIMEZONE,
+  checkSendWindow,
+  getLocalTime,
+  getRecipientLocation,
+  normalizeWorkingHours,
+  type HolidayCalendar,
+  type WorkingHoursConfig,
+} from '@shared/workingHours';
+import type { CampaignForecast, ForecastDay, ForecastSample } from '@shared/forecast';
+import type { CampaignContact, CampaignVariant, MassCampaign } from '@shared/schema';
+import type { CostChannel } from '@shared/budget';
+
+const WINDOW_STEP = 15 * 60 * 1000; // granularidade da busca pela próxima janela aberta
+const WINDOW_HORIZON = 14 * 24 * 60 * 60 * 1000; // sem janela em 14 dias: contato não é agendado
+const SAMPLE_SIZE = 5;
+
+interface QueuedContact {
+  contact: CampaignContact;
+  order: number;
+}
+
+/**
+ * Send windows per recipient group, evaluated once per 15-minute slot. Without
+ * recipient local time every contact shares the campaign window.
+ */
+class WindowClock {
+  private cache: Map<string, boolean> = new Map();
+
+  constructor(private config: WorkingHoursConfig | null, private calendar?: HolidayCalendar) {}
+
+  groupOf(contact: CampaignContact): string {
+    if (!this.config?.recipientLocalTime) return 'campaign';
+    const location = contact.phone ? getRecipientLocation(contact.phone) : null;
+    const timezone = (contact.customData as Record<string, unknown> | null)?.timezone;
+    return `${location?.ddd || ''}|${contact.cidade || ''}|${typeof timezone === 'string' ? timezone : ''}`;
+  }
+
+  isOpen(group: string, sample: CampaignContact, at: number): boolean {
+    if (!this.config) return true;
+    const slot = Math.floor(at / WINDOW_STEP);
+    const key = `${group}|${slot}`;
+    let open = this.cache.get(key);
+    if (open === undefined) {
+      open = checkSendWindow(this.config, new Date(slot * WINDOW_STEP), {
+        recipient: this.config.recipientLocalTime ? sample : undefined,
+        calendar: this.calendar,
+      }).allowed;
+      this.cache.set(key, open);
+    }
+    return open;
+  }
+
+  // Próximo instante (>= at) com a janela do grupo aberta, ou null dentro do horizonte
+  nextOpen(group: string, sample: CampaignContact, at: number): number | null {
+    if (this.isOpen(group, sample, at)) return at;
+    let slotStart = (Math.floor(at / WINDOW_STEP) + 1) * WINDOW_STEP;
+    while (slotStart <= at + WINDOW_HORIZON) {
+      if (this.isOpen(group, sample, slotStart)) return slotStart;
+      slotStart += WINDOW_STEP;
+    }
+    return null;
+  }
+}
+
+/**
+ * Dry-run of a campaign: runs the contacts through the same checks as the engine
+ * (blacklist, cached validation, channel strategy, template, send window, send rate) without sending
+ * anything or touching the campaign, and forecasts the timeline and cost.
+ */
+class CampaignForecastService {
+  async forecast(campaign: MassCampaign): Promise<CampaignForecast> {
+    const now = Date.now();
+    const startAt = campaign.status === 'SCHEDULED' && campaign.startTime && campaign.startTime.getTime() > now
+      ? campaign.startTime.getTime()
+      : now;
+
+    const [contacts, steps, variants, pricing] = await Promise.all([
+      storage.getCampaignContacts(campaign.id),
+      storage.getCampaignSteps(campaign.id),
+      campaign.abTest ? storage.getCampaignVariants(campaign.id) : Promise.resolve([] as CampaignVariant[]),
+      budgetService.getPricing(),
+    ]);
+
+    const workingHours = normalizeWorkingHours(campaign.workingHours);
+    const timezone = workingHours?.timezone || DEFAULT_TIMEZONE;
+    const calendar = workingHours?.skipHolidays ? await holidayCalendar.getCalendar() : undefined;
+
+    // Mesmas checagens do envio (processContact), mas em lote
+    const pending = contacts.filter(contact => contact.sendStatus === 'PENDING');
+    const phones = pending.map(contact => contact.phone || '').filter(Boolean);
+    const blacklisted = await storage.arePhonesBulkBlacklisted(phones);
+    const { capped } = await frequencyCap.check(phones);
+    // Como no envio, a validação de WhatsApp só vale quando a estratégia usa WhatsApp
+    const strategy = getChannelStrategy(campaign);
+    const noWhatsapp = new Set(
+      (strategy.channels.includes('WHATSAPP') ? await storage.getCachedValidations(phones) : [])
+        .filter(validation => validation.validationStatus === 'VALID_NO_WHATSAPP')
+        .map(validation => validation.phone)
+    );
+
+    const skipped = { BLACKLISTED: 0, FREQUENCY_CAP: 0, NO_WHATSAPP: 0, NO_CHANNEL: 0 };
+    const queue: QueuedContact[] = [];
+    const channelOf = new Map<string, StrategyChannel>();
+    for (const contact of pending) {
+      if (contact.phoneValidationStatus === 'BLACKLISTED' || blacklisted.has(contact.phone || '')) {
+        skipped.BLACKLISTED++;
+        continue;
+      }
+      if (capped.has(contact.phone || '')) {
+        skipped.FREQUENCY_CAP++;
+        continue;
+      }
+
+      const reach = {
+        whatsapp: contact.phoneValidationStatus !== 'VALID_NO_WHATSAPP' &&
+          (!!contact.whatsappEnabled || !noWhatsapp.has(contact.phone || '')),
+        phone: !!contact.phone,
+        email: !!recipientEmail(contact),
+      };
+      const from = contact.channel ? Math.max(strategy.channels.indexOf(contact.channel), 0) : 0;
+      const route = pickChannel(strategy, reach, from);
+      if (route.channel) {
+        channelOf.set(contact.id, route.channel);
+        queue.push({ contact, order: queue.length });
+      } else if (route.skipped.includes('WHATSAPP') && reach.phone && !reach.whatsapp) {
+        skipped.NO_WHATSAPP++;
+      } else {
+        skipped.NO_CHANNEL++;
+      }
+    }
+
+    // Teste A/B com amostra: o restante da lista espera a escolha da vencedora
+    let sliceSize = queue.length;
+    let abTestHoldMinutes = 0;
+    if (abTestService.isHoldingForWinner(campaign) && variants.length >= 2) {
+      const config = normalizeAbTestConfig(campaign.abTest);
+      const assigned = queue.filter(({ contact }) => contact.variantId).length;
+      sliceSize = assigned > 0 ? assigned : Math.ceil(queue.length * (config.testSlicePercent ?? 100) / 100);
+      abTestHoldMinutes = config.decisionDelayMinutes;
+      queue.sort((a, b) => Number(!a.contact.variantId) - Number(!b.contact.variantId) || a.order - b.order);
+      queue.forEach((item, index) => { item.order = index; });
+    }
+
+    const interval = campaignEngine.getAverageSendInterval(campaign);
+    const clock = new WindowClock(workingHours, calendar);
+    const schedule = this.simulate(queue.slice(0, sliceSize), clock, startAt, interval);
+    if (sliceSize < queue.length) {
+      const resumeAt = (schedule.lastSendAt ?? startAt) + abTestHoldMinutes * 60 * 1000;
+      const rest = this.simulate(queue.slice(sliceSize), clock, resumeAt, interval);
+      rest.sendTimes.forEach((at, id) => schedule.sendTimes.set(id, at));
+      schedule.outsideWindow += rest.outsideWindow;
+      schedule.lastSendAt = rest.lastSendAt ?? schedule.lastSendAt;
+    }
+
+    // Renderiza todas as mensagens com o template que cada contato receberia
+    const variantFor = (contact: CampaignContact, index: number) => {
+      if (variants.length === 0) return undefined;
+      return variants.find(variant => variant.id === (contact.variantId || campaign.winnerVariantId))
+        || variants[index % variants.length];
+    };
+    const distinct = new Set<string>();
+    const samples: ForecastSample[] = [];
+    const timeline = new Map<string, number>();
+    let scheduled = 0;
+    let billedUnits = 0; // SMS é cobrado por segmento
+    let billedCost = 0;
+    const channels: Partial<Record<StrategyChannel, number>> = {};
+    queue.forEach(({ contact }, index) => {
+      const sendAt = schedule.sendTimes.get(contact.id);
+      if (sendAt === undefined) return;
+      scheduled++;
+
+      const variant = variantFor(contact, index);
+      const message = renderMessageTemplate(variant?.messageTemplate ?? campaign.messageTemplate ?? '', contact, { variationSeed: contact.id });
+      distinct.add(message);
+      const channel = channelOf.get(contact.id) || strategy.channels[0];
+      const units = channel === 'SMS' ? splitSmsSegments(message).segments : 1;
+      billedUnits += units;
+      billedCost += units * (pricing.perMessage[channel as CostChannel] ?? 0);
+      channels[channel] = (channels[channel] || 0) + 1;
+      if (samples.length < SAMPLE_SIZE) {
+        samples.push({
+          contactId: contact.id,
+          phone: contact.phone,
+          name: contact.nomeFantasia || contact.razaoSocial,
+          variantKey: variant?.key ?? null,
+          sendAt: new Date(sendAt).toISOString(),
+          message,
+        });
+      }
+
+      const day = this.dayKey(sendAt, timezone);
+      timeline.set(day, (timeline.get(day) || 0) + 1);
+    });
+
+    const customFields = contacts.length > 0 ? collectCustomFields(contacts) : undefined;
+    const templates = [
+      ...(variants.length > 0
+        ? variants.map(variant => ({ label: `Variant ${variant.key}`, template: variant.messageTemplate }))
+        : [{ label: 'Message', template: campaign.messageTemplate || '' }]),
+      ...steps.map(step => ({ label: `Follow-up step ${step.stepNumber}`, template: step.messageTemplate })),
+    ];
+    const templateErrors = templates.flatMap(({ label, template }) =>
+      validateMessageTemplate(template, { customFields }).errors.map(error => `${label}: ${error.message}`)
+    );
+
+    const perMessage = pricing.perMessage[strategy.channels[0] as CostChannel] ?? 0;
+    const unitsPerMessage = scheduled > 0 ? billedUnits / scheduled : 1;
+    // Média por envio: campanhas híbridas misturam preços de canais diferentes
+    const costPerSend = scheduled > 0 ? billedCost / scheduled : perMessage;
+    const spent = (Number(campaign.sendingCost) || 0) + (Number(campaign.validationCost) || 0);
+    const budget = campaign.budget !== null && campaign.budget !== undefined ? Number(campaign.budget) : null;
+    const budgetRemaining = budget !== null ? Math.max(0, budget - spent) : null;
+
+    const endAt = schedule.lastSendAt;
+    return {
+      generatedAt: new Date(now).toISOString(),
+      startAt: new Date(startAt).toISOString(),
+      estimatedEndAt: endAt !== null ? new Date(endAt).toISOString() : null,
+      durationMs: endAt !== null ? endAt - startAt : 0,
+      timezone,
+      sendIntervalMs: Math.round(interval),
+      contacts: {
+        total: contacts.length,
+        alreadyProcessed: contacts.length - pending.length,
+        toSend: scheduled,
+        skipped,
+        outsideWindow: schedule.outsideWindow,
+      },
+      timeline: Array.from(timeline.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, sends]): ForecastDay => ({ date, sends })),
+      abTestHoldMinutes,
+      cost: {
+        currency: pricing.currency,
+        perMessage,
+        unitsPerMessage,
+        initialSends: scheduled,
+        channels,
+        followUpSteps: steps.length,
+        maxFollowUpSends: scheduled * steps.length,
+        initialCost: billedCost,
+        maxFollowUpCost: scheduled * steps.length * costPerSend,
+        budget,
+        budgetRemaining,
+        affordableSends: budgetRemaining !== null && costPerSend > 0 ? Math.floor(budgetRemaining / costPerSend) : null,
+      },
+      messages: {
+        rendered: scheduled,
+        distinct: distinct.size,
+        templateErrors,
+        samples,
+      },
+    };
+  }
+
+  /**
+   * Place each contact on the send timeline the way the worker does: one send per
+   * interval, in list order, skipping contacts whose window is closed (they are
+   * deferred and picked up once it opens)
+   */
+  private simulate(queue: QueuedContact[], clock: WindowClock, startAt: number, interval: number) {
+    const sendTimes = new Map<string, number>();
+    let outsideWindow = 0;
+    let lastSendAt: number | null = null;
+
+    // Fila por grupo de janela (fuso/UF/cidade do destinatário), mantendo a ordem da lista
+    const groups = new Map<string, QueuedContact[]>();
+    for (const item of queue) {
+      const group = clock.groupOf(item.contact);
+      if (!groups.has(group)) groups.set(group, []);
+      groups.get(group)!.push(item);
+    }
+    const heads = new Map<string, number>(Array.from(groups.keys()).map(group => [group, 0]));
+
+    let cursor = startAt;
+    while (true) {
+      const active = Array.from(groups.entries())
+        .filter(([group, items]) => heads.get(group)! < items.length)
+        .sort(([a, itemsA], [b, itemsB]) => itemsA[heads.get(a)!].order - itemsB[heads.get(b)!].order);
+      if (active.length === 0) break;
+
+      const open = active.find(([group, items]) => clock.isOpen(group, items[heads.get(group)!].contact, cursor));
+      if (open) {
+        const [group, items] = open;
+        const index = heads.get(group)!;
+        sendTimes.set(items[index].contact.id, cursor);
+        lastSendAt = cursor;
+        heads.set(group, index + 1);
+        cursor += interval;
+        continue;
+      }
+
+      // Nenhuma janela aberta: avança até a próxima abertura; grupos sem janela no horizonte ficam de fora
+      let next: number | null = null;
+      for (const [group, items] of active) {
+        const opensAt = clock.nextOpen(group, items[heads.get(group)!].contact, cursor);
+        if (opensAt === null) {
+          outsideWindow += items.length - heads.get(group)!;
+          heads.set(group, items.length);
+        } else if (next === null || opensAt < next) {
+          next = opensAt;
+        }
+      }
+      if (next !== null) cursor = next;
+    }
+
+    return { sendTimes, outsideWindow, lastSendAt };
+  }
+
+  private dayKey(at: number, timezone: string): string {
+    const local = getLocalTime(new Date(at), timezone);
+    return `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+  }
+}
+
+export const campaignForecast = new CampaignForecastService();
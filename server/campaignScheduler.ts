@@ -0,0 +1,179 @@
+import { storage } from './storage';
+import { campaignEngine } from './campaignEngine';
+import { campaignEvents } from './campaignEvents';
+import { canStartCampaign } from '@shared/campaignApproval';
+import type { MassCampaign } from '@shared/schema';
+
+export interface CampaignSchedulerSettings {
+  graceMinutes: number; // atraso máximo para ainda iniciar um agendamento perdido
+}
+
+export const SCHEDULER_SETTINGS_KEY = 'campaignScheduler';
+
+const DEFAULT_SCHEDULER_SETTINGS: CampaignSchedulerSettings = {
+  graceMinutes: 60,
+};
+
+const CHECK_INTERVAL = 30 * 1000; // 30 seconds
+const CLAIM_TTL = 5 * 60 * 1000; // agendamento reservado volta a ser elegível se a instância cair ao iniciar
+
+// Campanhas que ainda podem ter o horário de início alterado
+const SCHEDULABLE_STATUSES: MassCampaign["status"][] = ['DRAFT', 'APPROVED', 'SCHEDULED'];
+
+/**
+ * Starts SCHEDULED campaigns once their startTime is due. Schedules missed
+ * by more than the grace window (e.g. server downtime) go back to DRAFT, or to
+ * APPROVED when a manager already approved the campaign.
+ */
+class CampaignScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  initialize(): void {
+    if (this.timer) return;
+
+    // Primeira verificação imediata: cobre agendamentos vencidos durante a parada do servidor
+    this.tick();
+    this.timer = setInterval(() => this.tick(), CHECK_INTERVAL);
+  }
+
+  async getSettings(): Promise<CampaignSchedulerSettings> {
+    const setting = await storage.getSystemSetting(SCHEDULER_SETTINGS_KEY);
+    return { ...DEFAULT_SCHEDULER_SETTINGS, ...(setting?.value as Partial<CampaignSchedulerSettings> | undefined) };
+  }
+
+  async updateSettings(settings: CampaignSchedulerSettings, updatedBy: string): Promise<CampaignSchedulerSettings> {
+    await storage.upsertSystemSetting(SCHEDULER_SETTINGS_KEY, settings, updatedBy);
+    return settings;
+  }
+
+  /**
+   * Schedule (or reschedule) a DRAFT/APPROVED/SCHEDULED campaign to start at the given time.
+   * Campaigns that need approval can only be scheduled once approved.
+   */
+  async schedule(campaignId: string, startTime: Date): Promise<MassCampaign> {
+    const campaign = await storage.getMassCampaignById(campaignId);
+    if (!campaign) {
+      throw new Error(`Campaign ${campaignId} not found`);
+    }
+    if (!SCHEDULABLE_STATUSES.includes(campaign.status)) {
+      throw new Error(`Campaign ${campaignId} cannot be scheduled. Current status: ${campaign.status}`);
+    }
+    const owner = await storage.getUser(campaign.userId);
+    if (!canStartCampaign(campaign, owner?.role)) {
+      throw new Error(`Campaign ${campaignId} needs manager approval before it can be scheduled`);
+    }
+    if (startTime.getTime() <= Date.now()) {
+      throw new Error('Scheduled start time must be in the future');
+    }
+
+    const scheduled = await storage.updateMassCampaign(campaignId, {
+      status: 'SCHEDULED',
+      startTime,
+      updatedAt: new Date()
+    });
+    campaignEvents.statusChanged(scheduled);
+    return scheduled;
+  }
+
+  /**
+   * Cancel the schedule, returning the campaign to DRAFT (APPROVED if it was approved)
+   */
+  async unschedule(campaignId: string): Promise<MassCampaign> {
+    const campaign = await storage.getMassCampaignById(campaignId);
+    if (!campaign) {
+      throw new Error(`Campaign ${campaignId} not found`);
+    }
+    if (campaign.status !== 'SCHEDULED') {
+      throw new Error(`Campaign ${campaignId} is not scheduled. Current status: ${campaign.status}`);
+    }
+
+    const draft = await storage.updateMassCampaign(campaignId, {
+      status: campaign.approvedAt ? 'APPROVED' : 'DRAFT',
+      startTime: null,
+      updatedAt: new Date()
+    });
+    campaignEvents.statusChanged(draft);
+    return draft;
+  }
+
+  private tick(): void {
+    // Evita verificações sobrepostas quando o início de uma campanha demora
+    if (this.running) return;
+    this.running = true;
+
+    this.runDueCampaigns()
+      .catch((error) => {
+        console.error('[CampaignScheduler] Error checking scheduled campaigns:', error);
+      })
+      .finally(() => {
+        this.running = false;
+      });
+  }
+
+  /**
+   * Start every campaign whose schedule is due, or discard it when it is past the grace window
+   */
+  async runDueCampaigns(): Promise<void> {
+    const now = new Date();
+    const dueCampaigns = await storage.getDueScheduledCampaigns(now);
+    if (dueCampaigns.length === 0) return;
+
+    const { graceMinutes } = await this.getSettings();
+    const graceMs = graceMinutes * 60 * 1000;
+
+    for (const campaign of dueCampaigns) {
+      const scheduledFor = campaign.startTime as Date;
+      const delayMs = now.getTime() - scheduledFor.getTime();
+
+      if (delayMs > graceMs) {
+        await this.discardMissedSchedule(campaign, scheduledFor, delayMs, graceMinutes);
+        continue;
+      }
+
+      // Reivindica o agendamento com o lease do engine desta instância (que o startCampaign
+      // renova); outra instância pode ter chegado primeiro
+      const claimed = await storage.claimScheduledCampaign(campaign.id, scheduledFor, campaignEngine.instanceId, CLAIM_TTL);
+      if (!claimed) continue;
+
+      console.log(`[CampaignScheduler] Starting scheduled campaign ${campaign.id} (due ${scheduledFor.toISOString()})`);
+      try {
+        await campaignEngine.startCampaign(campaign.id);
+      } catch (error) {
+        // startCampaign already marks the campaign STOPPED and logs the failure. If it could not,
+        // the campaign is still scheduled: releasing the claim retries it on the next check,
+        // until the grace window sends it back to DRAFT
+        console.error(`[CampaignScheduler] Scheduled start of campaign ${campaign.id} failed:`, error);
+        await storage.releaseCampaignLease(campaign.id, campaignEngine.instanceId);
+      }
+    }
+  }
+
+  private async discardMissedSchedule(
+    campaign: MassCampaign,
+    scheduledFor: Date,
+    delayMs: number,
+    graceMinutes: number
+  ): Promise<void> {
+    const discarded = await storage.updateScheduledCampaign(campaign.id, scheduledFor, {
+      status: campaign.approvedAt ? 'APPROVED' : 'DRAFT',
+      startTime: null,
+      leaseOwner: null,
+      leaseExpiresAt: null
+    });
+    if (!discarded) return;
+    campaignEvents.statusChanged(discarded);
+
+    const delayMinutes = Math.round(delayMs / 60000);
+    console.log(`[CampaignScheduler] Campaign ${campaign.id} missed its schedule by ${delayMinutes} minutes, returned to ${discarded.status}`);
+
+    await storage.createCampaignLog({
+      campaignId: campaign.id,
+      eventType: 'SCHEDULE_MISSED',
+      message: `Scheduled start missed by ${delayMinutes} minutes (grace window ${graceMinutes} minutes) - campaign returned to ${discarded.status === 'APPROVED' ? 'approved' : 'draft'}`,
+      metadata: { scheduledFor: scheduledFor.toISOString(), delayMinutes, graceMinutes }
+    });
+  }
+}
+
+export const campaignScheduler = new CampaignScheduler();
@@ -0,0 +1,172 @@
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import { whatsappService, type WhatsAppSenderStatus } from './whatsappService';
+import type { ChannelErrorCode } from './channels';
+import type { CampaignContactAttempt, MassCampaign } from '@shared/schema';
+
+// Erros que indicam problema na conta/sessão (e não no destinatário)
+const HEALTH_FAILURE_CODES: ChannelErrorCode[] = ['SESSION_CLOSED', 'RATE_LIMITED', 'UNKNOWN'];
+
+export const HEALTH_WINDOW = 15 * 60 * 1000; // 15 minutes
+const MIN_SAMPLE = 10; // tentativas na janela antes de olhar a taxa de falhas
+const SLOWDOWN_STEPS = [
+  { failureRate: 0.1, slowdown: 2 },
+  { failureRate: 0.2, slowdown: 4 },
+  { failureRate: 0.35, slowdown: 8 },
+];
+const PAUSE_FAILURE_RATE = 0.5;
+const PAUSE_CONSECUTIVE_FAILURES = 8;
+const PAUSE_RATE_LIMITED = 3;
+const PAUSE_DISCONNECTS = 3;
+const RATE_LIMITED_SLOWDOWN = 4;
+const MAX_SLOWDOWN = 8;
+
+export interface SendHealthSample {
+  total: number;
+  failed: number; // apenas falhas de conta/sessão
+  rateLimited: number;
+  consecutiveFailures: number;
+  disconnects: number;
+}
+
+export interface SendHealth {
+  action: 'SEND' | 'PAUSE';
+  slowdown: number; // multiplicador do intervalo entre envios (1 = sendRate normal)
+  failureRate: number;
+  reason?: string;
+  sample: SendHealthSample;
+}
+
+export interface CampaignAlertEvent {
+  campaignId: string;
+  userId: string;
+  campaignName: string;
+  reason: string;
+  timestamp: Date;
+}
+
+/**
+ * Decide how fast a campaign may keep sending from its recent send attempts and
+ * session disconnects: slow down as account-level failures rise, trip the circuit
+ * (pause) when they cross the thresholds
+ */
+export function assessSendHealth(sample: SendHealthSample): SendHealth {
+  const failureRate = sample.total > 0 ? sample.failed / sample.total : 0;
+  const windowMinutes = HEALTH_WINDOW / 60000;
+
+  let reason: string | undefined;
+  if (sample.total >= MIN_SAMPLE && failureRate >= PAUSE_FAILURE_RATE) {
+    reason = `${Math.round(failureRate * 100)}% of the last ${sample.total} sends failed in ${windowMinutes} minutes`;
+  } else if (sample.consecutiveFailures >= PAUSE_CONSECUTIVE_FAILURES) {
+    reason = `${sample.consecutiveFailures} consecutive send failures`;
+  } else if (sample.rateLimited >= PAUSE_RATE_LIMITED) {
+    reason = `WhatsApp rate limited ${sample.rateLimited} sends in ${windowMinutes} minutes - the account may be blocked`;
+  } else if (sample.disconnects >= PAUSE_DISCONNECTS) {
+    reason = `WhatsApp session disconnected ${sample.disconnects} times in ${windowMinutes} minutes`;
+  }
+
+  // Degraus em potências de 2 para o ritmo não oscilar a cada envio: 10% -> 2x, 20% -> 4x, 35% -> 8x
+  let slowdown = 1;
+  if (sample.total >= MIN_SAMPLE) {
+    slowdown = SLOWDOWN_STEPS.reduce((factor, step) => failureRate >= step.failureRate ? step.slowdown : factor, 1);
+  }
+  if (sample.rateLimited > 0) slowdown = Math.max(slowdown, RATE_LIMITED_SLOWDOWN);
+  if (sample.disconnects > 0) slowdown = Math.max(slowdown, Math.pow(2, sample.disconnects));
+
+  return {
+    action: reason ? 'PAUSE' : 'SEND',
+    slowdown: Math.min(slowdown, MAX_SLOWDOWN),
+    failureRate,
+    reason,
+    sample,
+  };
+}
+
+/**
+ * Circuit breaker for campaign sends: watches the rolling failure rate and the
+ * WhatsApp session disconnects behind each campaign and tells the engine when to
+ * slow down or pause. Emits 'campaignAlert' so the owner is notified live.
+ */
+class CampaignThrottle extends EventEmitter {
+  // Horários das desconexões recentes, por sessão do dono ("user:<id>") ou pool ("pool:<id>")
+  private disconnects: Map<string, number[]> = new Map();
+
+  constructor() {
+    super();
+
+    whatsappService.on('statusUpdate', (event: { userId: string; status: string }) => {
+      if (event.status === 'DISCONNECTED' || event.status === 'ERROR') {
+        this.recordDisconnect(`user:${event.userId}`);
+      }
+    });
+
+    whatsappService.on('senderStatus', (event: WhatsAppSenderStatus) => {
+      if (event.status !== 'DISCONNECTED' && event.status !== 'ERROR') return;
+      storage.getWhatsappSenderById(event.senderId).then((sender) => {
+        if (sender) this.recordDisconnect(`pool:${sender.poolId}`);
+      }).catch((error) => {
+        console.error(`[Throttle] Error recording disconnect of sender ${event.senderId}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Health of the campaign's sends since `resetAt` (last start/resume) within the rolling window
+   */
+  async assess(campaign: MassCampaign, resetAt?: number): Promise<SendHealth> {
+    const since = Math.max(Date.now() - HEALTH_WINDOW, resetAt || 0);
+    const attempts = await storage.getRecentCampaignAttempts(campaign.id, new Date(since));
+    const key = campaign.senderPoolId ? `pool:${campaign.senderPoolId}` : `user:${campaign.userId}`;
+
+    return assessSendHealth({
+      ...this.summarize(attempts),
+      disconnects: (this.disconnects.get(key) || []).filter(at => at >= since).length,
+    });
+  }
+
+  /**
+   * Tell the owner the campaign was paused: stored notification plus a live event
+   */
+  async notifyPaused(campaign: MassCampaign, reason: string): Promise<void> {
+    await storage.createNotification({
+      type: 'CAMPANHA_PAUSADA',
+      title: 'Campanha pausada automaticamente',
+      message: `A campanha "${campaign.name}" foi pausada: ${reason}`,
+      metadata: { campaignId: campaign.id, reason },
+      userId: campaign.userId,
+    });
+
+    const event: CampaignAlertEvent = {
+      campaignId: campaign.id,
+      userId: campaign.userId,
+      campaignName: campaign.name,
+      reason,
+      timestamp: new Date(),
+    };
+    this.emit('campaignAlert', event);
+  }
+
+  private summarize(attempts: CampaignContactAttempt[]): Omit<SendHealthSample, 'disconnects'> {
+    const isHealthFailure = (attempt: CampaignContactAttempt) =>
+      attempt.status === 'FAILED' && HEALTH_FAILURE_CODES.includes((attempt.errorCode || 'UNKNOWN') as ChannelErrorCode);
+
+    // Tentativas vêm das mais recentes para as mais antigas
+    const firstHealthy = attempts.findIndex(attempt => !isHealthFailure(attempt));
+
+    return {
+      total: attempts.length,
+      failed: attempts.filter(isHealthFailure).length,
+      rateLimited: attempts.filter(attempt => attempt.errorCode === 'RATE_LIMITED').length,
+      consecutiveFailures: firstHealthy === -1 ? attempts.length : firstHealthy,
+    };
+  }
+
+  private recordDisconnect(key: string): void {
+    const cutoff = Date.now() - HEALTH_WINDOW;
+    const recent = (this.disconnects.get(key) || []).filter(at => at >= cutoff);
+    recent.push(Date.now());
+    this.disconnects.set(key, recent);
+  }
+}
+
+export const campaignThrottle = new CampaignThrottle();
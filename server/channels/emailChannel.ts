@@ -0,0 +1,106 @@
+import { storage } from "../storage";
+import { emailService, EmailSendError } from "../emailService";
+import { mediaLibrary } from "../mediaLibrary";
+import { renderMessageTemplate } from "@shared/messageTemplate";
+import type { CampaignContact } from "@shared/schema";
+import type { ChannelAdapter, ChannelSendRequest, ChannelSendResult } from "./types";
+
+const HTML_TAG = /<\/?[a-z][^>]*>/i;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Template com tags é enviado como HTML; texto puro vira HTML com as quebras de linha
+function toHtml(message: string): string {
+  return HTML_TAG.test(message) ? message : escapeHtml(message).replace(/\r?\n/g, '<br>\n');
+}
+
+// Versão texto (multipart/alternative) para clientes sem HTML
+function toText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Email do contato: coluna própria ou campo "email" da planilha
+export function recipientEmail(contact: CampaignContact): string | undefined {
+  const customData = (contact.customData || {}) as Record<string, unknown>;
+  const email = contact.email || (typeof customData.email === 'string' ? customData.email : undefined);
+  const trimmed = email?.trim();
+  return trimmed && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * Sends campaign messages by email through the SMTP configuration selected on the campaign.
+ * The rendered template is the HTML body; the subject accepts the same variables.
+ */
+export const emailChannel: ChannelAdapter = {
+  channel: 'EMAIL',
+  name: 'smtp',
+
+  async send({ campaign, contact, message, mediaAssetId }: ChannelSendRequest): Promise<ChannelSendResult> {
+    const to = recipientEmail(contact);
+    if (!to) {
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'INVALID_RECIPIENT',
+        error: 'Contact has no valid email address',
+      };
+    }
+
+    const config = campaign.emailConfigId
+      ? await storage.getEmailConfigurationById(campaign.emailConfigId)
+      : undefined;
+    if (!config) {
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'SESSION_CLOSED',
+        error: 'Campaign has no email configuration',
+      };
+    }
+
+    // Mídia da campanha vai como anexo
+    const media = mediaAssetId ? await mediaLibrary.load(mediaAssetId) : null;
+    if (mediaAssetId && !media) {
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'UNKNOWN',
+        error: 'Media file attached to the campaign was not found',
+      };
+    }
+
+    try {
+      const html = toHtml(message);
+      const subject = renderMessageTemplate(campaign.emailSubject || campaign.name, contact, { variationSeed: contact.id });
+      const messageId = await emailService.send(config, {
+        to,
+        subject,
+        html,
+        text: toText(html),
+        attachments: media ? [{ filename: media.filename, content: media.data, encoding: 'base64', contentType: media.mimeType }] : undefined,
+      });
+      return { success: true, status: 'SENT', messageId, mediaAssetId: media?.asset.id };
+    } catch (error) {
+      if (error instanceof EmailSendError) {
+        return { success: false, status: 'FAILED', errorCode: error.code, error: error.message };
+      }
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'UNKNOWN',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+};
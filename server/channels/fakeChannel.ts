@@ -0,0 +1,42 @@
+import type { ChannelAdapter, CampaignChannel, ChannelSendRequest, ChannelSendResult } from "./types";
+
+/**
+ * Deterministic adapter for local testing - never talks to a real provider.
+ * Outcome depends only on the last digit of the phone number:
+ *   0 -> NOT_REGISTERED, 9 -> RATE_LIMITED, anything else -> SENT
+ */
+export function createFakeChannel(channel: CampaignChannel): ChannelAdapter {
+  return {
+    channel,
+    name: 'fake',
+
+    async send({ contact, mediaAssetId }: ChannelSendRequest): Promise<ChannelSendResult> {
+      const lastDigit = (contact.phone || '').replace(/\D/g, '').slice(-1);
+
+      if (lastDigit === '0') {
+        return {
+          success: false,
+          status: 'FAILED',
+          errorCode: 'NOT_REGISTERED',
+          error: 'Phone number is not registered on WhatsApp (fake channel)',
+        };
+      }
+
+      if (lastDigit === '9') {
+        return {
+          success: false,
+          status: 'FAILED',
+          errorCode: 'RATE_LIMITED',
+          error: 'Rate limit reached (fake channel)',
+        };
+      }
+
+      return {
+        success: true,
+        status: 'SENT',
+        messageId: `fake_${contact.id}`,
+        mediaAssetId: channel !== 'SMS' ? mediaAssetId : undefined,
+      };
+    },
+  };
+}
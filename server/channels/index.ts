@@ -0,0 +1,26 @@
+import { whatsappChannel } from "./whatsappChannel";
+import { emailChannel } from "./emailChannel";
+import { smsChannel } from "./smsChannel";
+import { createFakeChannel } from "./fakeChannel";
+import type { ChannelAdapter, CampaignChannel } from "./types";
+
+export type { ChannelAdapter, CampaignChannel, ChannelDeliveryReceipt, ChannelErrorCode, ChannelSendRequest, ChannelSendResult } from "./types";
+
+const adapters: Partial<Record<CampaignChannel, ChannelAdapter>> = {
+  WHATSAPP: whatsappChannel,
+  EMAIL: emailChannel,
+  SMS: smsChannel,
+};
+
+// CAMPAIGN_FAKE_CHANNEL=true troca todos os canais pelo adapter determinístico (testes locais)
+const useFakeChannel = () => process.env.CAMPAIGN_FAKE_CHANNEL === 'true';
+
+/**
+ * Returns the adapter that delivers messages for a campaign channel, if supported
+ */
+export function getChannelAdapter(channel: CampaignChannel): ChannelAdapter | undefined {
+  if (useFakeChannel()) {
+    return createFakeChannel(channel);
+  }
+  return adapters[channel];
+}
@@ -0,0 +1,37 @@
+import { smsService, SmsSendError } from "../smsService";
+import type { ChannelAdapter, ChannelSendRequest, ChannelSendResult } from "./types";
+
+/**
+ * Sends campaign messages by SMS through the configured gateway. Long messages go
+ * out as concatenated SMS and every segment is billed.
+ */
+export const smsChannel: ChannelAdapter = {
+  channel: 'SMS',
+  name: 'sms-gateway',
+
+  async send({ contact, message }: ChannelSendRequest): Promise<ChannelSendResult> {
+    if (!contact.phone) {
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'INVALID_RECIPIENT',
+        error: 'Contact has no phone number',
+      };
+    }
+
+    try {
+      const result = await smsService.send(contact.phone, message);
+      return { success: true, status: 'SENT', messageId: result.messageId, billableUnits: result.segments };
+    } catch (error) {
+      if (error instanceof SmsSendError) {
+        return { success: false, status: 'FAILED', errorCode: error.code, error: error.message };
+      }
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'UNKNOWN',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+};
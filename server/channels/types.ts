@@ -0,0 +1,46 @@
+import type { MassCampaign, CampaignContact } from "@shared/schema";
+
+export type CampaignChannel = NonNullable<MassCampaign["channel"]>;
+
+// Códigos de erro normalizados entre canais
+export type ChannelErrorCode =
+  | 'NOT_REGISTERED'
+  | 'SESSION_CLOSED'
+  | 'RATE_LIMITED'
+  | 'INVALID_RECIPIENT'
+  | 'UNKNOWN';
+
+export interface ChannelSendRequest {
+  campaign: MassCampaign;
+  contact: CampaignContact;
+  message: string;
+  mediaAssetId?: string; // arquivo da biblioteca de mídia; o texto vira a legenda
+}
+
+export interface ChannelSendResult {
+  success: boolean;
+  status: 'SENT' | 'FAILED';
+  messageId?: string;
+  senderId?: string; // número do pool de remetentes usado no envio
+  billableUnits?: number; // unidades cobradas pelo provedor (segmentos do SMS); padrão 1
+  mediaAssetId?: string; // mídia que foi junto (canais sem suporte enviam só o texto)
+  error?: string;
+  errorCode?: ChannelErrorCode;
+}
+
+// Confirmação assíncrona do canal para uma mensagem enviada (ack do WhatsApp, recibo de entrega do SMS)
+export interface ChannelDeliveryReceipt {
+  messageId: string;
+  status: 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+  timestamp: Date;
+  error?: string;
+}
+
+/**
+ * A channel adapter delivers one rendered campaign message to one contact
+ */
+export interface ChannelAdapter {
+  readonly channel: CampaignChannel;
+  readonly name: string;
+  send(request: ChannelSendRequest): Promise<ChannelSendResult>;
+}
@@ -0,0 +1,82 @@
+import { whatsappService, WhatsAppSendError } from "../whatsappService";
+import { senderPoolService } from "../senderPoolService";
+import { mediaLibrary } from "../mediaLibrary";
+import type { ChannelAdapter, ChannelSendRequest, ChannelSendResult } from "./types";
+
+// Mensagens de erro exibidas no monitoramento da campanha
+const ERROR_MESSAGES = {
+  NOT_REGISTERED: 'Phone number is not registered on WhatsApp',
+  SESSION_CLOSED: 'WhatsApp session of the campaign owner is not connected',
+  RATE_LIMITED: 'WhatsApp rate limit reached',
+  NO_SENDER: 'No sender of the pool is connected with daily quota left',
+  NO_MEDIA: 'Media file attached to the campaign was not found',
+} as const;
+
+/**
+ * Sends campaign messages through the campaign owner's connected WhatsApp session,
+ * or through the next number of the campaign's sender pool when one is selected
+ */
+export const whatsappChannel: ChannelAdapter = {
+  channel: 'WHATSAPP',
+  name: 'whatsapp-web',
+
+  async send({ campaign, contact, message, mediaAssetId }: ChannelSendRequest): Promise<ChannelSendResult> {
+    if (!contact.phone) {
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'INVALID_RECIPIENT',
+        error: 'Contact has no phone number',
+      };
+    }
+
+    const media = mediaAssetId ? await mediaLibrary.load(mediaAssetId) : null;
+    if (mediaAssetId && !media) {
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'UNKNOWN',
+        error: ERROR_MESSAGES.NO_MEDIA,
+      };
+    }
+
+    const sender = campaign.senderPoolId
+      ? await senderPoolService.pickSender(campaign.senderPoolId)
+      : undefined;
+    if (campaign.senderPoolId && !sender) {
+      return {
+        success: false,
+        status: 'FAILED',
+        errorCode: 'SESSION_CLOSED',
+        error: ERROR_MESSAGES.NO_SENDER,
+      };
+    }
+
+    try {
+      const messageId = sender
+        ? await whatsappService.sendMessageFromSession(sender.sessionId!, contact.phone, message, media || undefined)
+        : await whatsappService.sendMessage(campaign.userId, contact.phone, message, media || undefined);
+      return { success: true, status: 'SENT', messageId, senderId: sender?.id, mediaAssetId: media?.asset.id };
+    } catch (error) {
+      const result: ChannelSendResult = error instanceof WhatsAppSendError && error.code !== 'UNKNOWN'
+        ? {
+            success: false,
+            status: 'FAILED',
+            errorCode: error.code,
+            error: ERROR_MESSAGES[error.code],
+          }
+        : {
+            success: false,
+            status: 'FAILED',
+            errorCode: 'UNKNOWN',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          };
+
+      if (sender) {
+        await senderPoolService.handleSendError(sender, result.errorCode, result.error!);
+        result.senderId = sender.id;
+      }
+      return result;
+    }
+  },
+};
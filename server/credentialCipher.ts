@@ -0,0 +1,36 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const VERSION = 'v1';
+
+// CREDENTIALS_ENCRYPTION_KEY dedicada; sem ela usa o segredo da sessão (trocar qualquer
+// um dos dois invalida as senhas já salvas)
+function getKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY || process.env.SESSION_SECRET || 'dev-secret-key-change-in-production';
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a credential for storage: "v1:<iv>:<auth tag>:<ciphertext>", base64 parts
+ */
+export function encryptCredential(plain: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a credential produced by encryptCredential. Throws if the key changed or the value was tampered with.
+ */
+export function decryptCredential(stored: string): string {
+  const [version, iv, tag, data] = stored.split(':');
+  if (version !== VERSION || !iv || !tag || data === undefined) {
+    throw new Error('Invalid encrypted credential format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+}
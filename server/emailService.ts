@@ -0,0 +1,212 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { storage } from './storage';
+import { decryptCredential } from './credentialCipher';
+import type { EmailConfiguration } from '@shared/schema';
+
+export type EmailSendErrorCode = 'INVALID_RECIPIENT' | 'SESSION_CLOSED' | 'RATE_LIMITED' | 'UNKNOWN';
+
+// Erro de envio com código para que o chamador decida como tratar a falha
+export class EmailSendError extends Error {
+  constructor(public readonly code: EmailSendErrorCode, message: string) {
+    super(message);
+    this.name = 'EmailSendError';
+  }
+}
+
+// Dados de conexão SMTP já com a senha em texto (formulário ou configuração descriptografada)
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  username: string;
+  password: string;
+  senderEmail: string;
+  senderName?: string | null;
+  useSSL?: boolean | null;
+  useTLS?: boolean | null;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  encoding: 'base64';
+  contentType: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTestResult {
+  success: boolean;
+  error?: string;
+}
+
+// Configuração devolvida pela API: nunca expõe a senha, nem criptografada
+export type PublicEmailConfiguration = Omit<EmailConfiguration, 'passwordEncrypted'> & { hasPassword: boolean };
+
+const CONNECTION_TIMEOUT = 15000;
+const CONNECTION_ERROR_CODES = ['EAUTH', 'ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNREFUSED', 'ETLS'];
+const THROTTLE_RESPONSE_CODES = [421, 450, 451, 452];
+const RECIPIENT_RESPONSE_CODES = [550, 551, 553];
+
+/**
+ * Sends campaign emails through the SMTP configurations saved by the users.
+ * One pooled transport is kept per configuration and rebuilt when it is edited.
+ */
+class EmailService {
+  private transports: Map<string, { transporter: Transporter; version: number }> = new Map();
+
+  /**
+   * Check the SMTP login of unsaved form data
+   */
+  async testSettings(settings: SmtpSettings): Promise<EmailTestResult> {
+    const transporter = this.createTransport(settings);
+    try {
+      await transporter.verify();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: this.classify(error).message };
+    } finally {
+      transporter.close();
+    }
+  }
+
+  /**
+   * Check the SMTP login of a saved configuration and record the result on it
+   */
+  async testConfiguration(config: EmailConfiguration): Promise<{ result: EmailTestResult; config: EmailConfiguration }> {
+    let result: EmailTestResult;
+    try {
+      result = await this.testSettings(this.toSettings(config));
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    const updated = await storage.updateEmailConfiguration(config.id, {
+      status: result.success ? 'CONNECTED' : 'ERROR',
+      lastError: result.success ? null : result.error || null,
+      lastTestedAt: new Date(),
+    });
+    return { result, config: updated };
+  }
+
+  /**
+   * Send one email, reserving a slot on the configuration's hourly limit first.
+   * Returns the SMTP message id; failures are thrown as EmailSendError.
+   */
+  async send(config: EmailConfiguration, message: EmailMessage): Promise<string> {
+    if (!config.isActive) {
+      throw new EmailSendError('SESSION_CLOSED', `Email configuration "${config.name}" is disabled`);
+    }
+
+    const reserved = await storage.reserveEmailQuota(config.id);
+    if (!reserved) {
+      throw new EmailSendError('RATE_LIMITED', `Hourly limit of ${config.rateLimitPerHour} emails reached for "${config.name}"`);
+    }
+
+    try {
+      const info = await this.getTransport(config).sendMail({
+        from: config.senderName ? { name: config.senderName, address: config.senderEmail } : config.senderEmail,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        attachments: message.attachments,
+      });
+
+      if (info.rejected?.length) {
+        throw new EmailSendError('INVALID_RECIPIENT', `Recipient rejected by the SMTP server: ${message.to}`);
+      }
+      return info.messageId;
+    } catch (error) {
+      const sendError = this.classify(error);
+      if (sendError.code === 'SESSION_CLOSED') {
+        this.dropTransport(config.id);
+        await storage.updateEmailConfiguration(config.id, { status: 'ERROR', lastError: sendError.message });
+      }
+      throw sendError;
+    }
+  }
+
+  /**
+   * Whether the configuration can send now (active and below its hourly limit)
+   */
+  hasQuota(config: EmailConfiguration): boolean {
+    if (!config.isActive) return false;
+    const hourStart = new Date();
+    hourStart.setMinutes(0, 0, 0);
+    const sameHour = !!config.sentHourStart && new Date(config.sentHourStart).getTime() >= hourStart.getTime();
+    return !sameHour || (config.sentThisHour || 0) < (config.rateLimitPerHour || 0);
+  }
+
+  toPublic(config: EmailConfiguration): PublicEmailConfiguration {
+    const { passwordEncrypted, ...rest } = config;
+    return { ...rest, hasPassword: !!passwordEncrypted };
+  }
+
+  dropTransport(configId: string): void {
+    const cached = this.transports.get(configId);
+    if (cached) {
+      cached.transporter.close();
+      this.transports.delete(configId);
+    }
+  }
+
+  private getTransport(config: EmailConfiguration): Transporter {
+    const version = config.updatedAt ? new Date(config.updatedAt).getTime() : 0;
+    const cached = this.transports.get(config.id);
+    if (cached && cached.version === version) return cached.transporter;
+
+    this.dropTransport(config.id);
+    const transporter = this.createTransport(this.toSettings(config), true);
+    this.transports.set(config.id, { transporter, version });
+    return transporter;
+  }
+
+  private toSettings(config: EmailConfiguration): SmtpSettings {
+    return { ...config, password: decryptCredential(config.passwordEncrypted) };
+  }
+
+  // SSL = TLS implícito (porta 465); TLS = STARTTLS obrigatório; nenhum dos dois = texto
+  // puro, usado por servidores SMTP locais de teste
+  private createTransport(settings: SmtpSettings, pool = false): Transporter {
+    const secure = !!settings.useSSL && (settings.port === 465 || !settings.useTLS);
+    const options = {
+      host: settings.host,
+      port: settings.port,
+      secure,
+      requireTLS: !!settings.useTLS && !secure,
+      ignoreTLS: !settings.useSSL && !settings.useTLS,
+      auth: settings.username ? { user: settings.username, pass: settings.password } : undefined,
+      connectionTimeout: CONNECTION_TIMEOUT,
+      greetingTimeout: CONNECTION_TIMEOUT,
+      socketTimeout: CONNECTION_TIMEOUT * 2,
+    };
+    return pool
+      ? nodemailer.createTransport({ ...options, pool: true })
+      : nodemailer.createTransport(options);
+  }
+
+  private classify(error: unknown): EmailSendError {
+    if (error instanceof EmailSendError) return error;
+
+    const smtpError = error as { code?: string; responseCode?: number; message?: string };
+    const message = smtpError?.message || 'Unknown error';
+    if (smtpError?.responseCode && RECIPIENT_RESPONSE_CODES.includes(smtpError.responseCode)) {
+      return new EmailSendError('INVALID_RECIPIENT', message);
+    }
+    if (smtpError?.responseCode && THROTTLE_RESPONSE_CODES.includes(smtpError.responseCode)) {
+      return new EmailSendError('RATE_LIMITED', message);
+    }
+    if (smtpError?.code && CONNECTION_ERROR_CODES.includes(smtpError.code)) {
+      return new EmailSendError('SESSION_CLOSED', message);
+    }
+    return new EmailSendError('UNKNOWN', message);
+  }
+}
+
+export const emailService = new EmailService();
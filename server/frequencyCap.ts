@@ -0,0 +1,56 @@
+import { storage } from './storage';
+
+export interface FrequencyCapSettings {
+  enabled: boolean;
+  maxMessages: number; // mensagens por número dentro da janela, somando campanhas e canais
+  windowDays: number;
+}
+
+export const FREQUENCY_CAP_SETTINGS_KEY = 'frequencyCap';
+
+const DEFAULT_FREQUENCY_CAP_SETTINGS: FrequencyCapSettings = {
+  enabled: true,
+  maxMessages: 3,
+  windowDays: 30,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface FrequencyCapCheck {
+  settings: FrequencyCapSettings;
+  capped: Map<string, number>; // número -> mensagens já recebidas na janela
+}
+
+/**
+ * Global contact-frequency policy: a number that already received the maximum of
+ * messages in the window (from any campaign or seller) is left out of new sends.
+ */
+class FrequencyCapService {
+  async getSettings(): Promise<FrequencyCapSettings> {
+    const setting = await storage.getSystemSetting(FREQUENCY_CAP_SETTINGS_KEY);
+    return { ...DEFAULT_FREQUENCY_CAP_SETTINGS, ...(setting?.value as Partial<FrequencyCapSettings> | undefined) };
+  }
+
+  async updateSettings(settings: FrequencyCapSettings, updatedBy: string): Promise<FrequencyCapSettings> {
+    await storage.upsertSystemSetting(FREQUENCY_CAP_SETTINGS_KEY, settings, updatedBy);
+    return settings;
+  }
+
+  /**
+   * Numbers (+55 format, as in campaign_contacts) that reached the cap
+   */
+  async check(phones: string[]): Promise<FrequencyCapCheck> {
+    const settings = await this.getSettings();
+    const unique = Array.from(new Set(phones.filter(Boolean)));
+    if (!settings.enabled || unique.length === 0) {
+      return { settings, capped: new Map() };
+    }
+
+    const since = new Date(Date.now() - settings.windowDays * DAY);
+    const sends = await storage.countRecentSendsByPhone(unique, since);
+    const capped = new Map(Array.from(sends).filter(([, count]) => count >= settings.maxMessages));
+    return { settings, capped };
+  }
+}
+
+export const frequencyCap = new FrequencyCapService();
@@ -0,0 +1,24 @@
+import { storage } from './storage';
+import type { HolidayCalendar } from '@shared/workingHours';
+
+export const HOLIDAY_CALENDAR_KEY = 'holidayCalendar';
+
+const EMPTY_CALENDAR: HolidayCalendar = { state: {}, municipal: {} };
+
+/**
+ * State and municipal holidays registered by managers on top of the
+ * built-in Brazilian calendar in @shared/workingHours.
+ */
+class HolidayCalendarService {
+  async getCalendar(): Promise<HolidayCalendar> {
+    const setting = await storage.getSystemSetting(HOLIDAY_CALENDAR_KEY);
+    return { ...EMPTY_CALENDAR, ...(setting?.value as Partial<HolidayCalendar> | undefined) };
+  }
+
+  async updateCalendar(calendar: HolidayCalendar, updatedBy: string): Promise<HolidayCalendar> {
+    await storage.upsertSystemSetting(HOLIDAY_CALENDAR_KEY, calendar, updatedBy);
+    return calendar;
+  }
+}
+
+export const holidayCalendar = new HolidayCalendarService();
@@ -0,0 +1,165 @@
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import { whatsappService, type WhatsAppIncomingMessage } from './whatsappService';
+import { inboxService } from './inboxService';
+import { optOutService } from './optOutService';
+import { campaignEvents } from './campaignEvents';
+import type { CampaignContact, Lead } from '@shared/schema';
+
+// Resposta de um contato de campanha, repassada ao monitoramento em tempo real
+export interface CampaignReplyEvent {
+  userId: string;
+  campaignId: string;
+  contactId: string;
+  phone: string;
+  message: string;
+  timestamp: Date;
+}
+
+/**
+ * Matches inbound WhatsApp messages to the campaign contacts and leads of the
+ * session owner and records them as replies.
+ */
+class InboundMessageService extends EventEmitter {
+  constructor() {
+    super();
+
+    whatsappService.on('incomingMessage', (message: WhatsAppIncomingMessage) => {
+      this.handleIncomingMessage(message).catch((error) => {
+        console.error(`[InboundMessages] Error handling message ${message.messageId}:`, error);
+      });
+    });
+  }
+
+  async handleIncomingMessage(message: WhatsAppIncomingMessage): Promise<void> {
+    const variants = this.phoneVariants(message.phone);
+    if (variants.length === 0) return;
+
+    // Etapas isoladas: uma falha ao registrar a resposta não pode impedir o descadastro
+    const contacts = await this.runStep(message, 'campaign replies', () => this.recordCampaignReplies(message, variants), []);
+    const leads = await this.runStep(message, 'lead replies', () => this.recordLeadReplies(message, variants), []);
+    const conversation = await this.runStep(message, 'inbox conversation', () => inboxService.recordInbound(message, { contacts, leads }), undefined);
+    await optOutService.handleReply(message, { variants, contacts, conversation });
+  }
+
+  private async runStep<T>(message: WhatsAppIncomingMessage, step: string, run: () => Promise<T>, fallback: T): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      console.error(`[InboundMessages] Error recording ${step} for message ${message.messageId}:`, error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Mark every contact still waiting for an answer as REPLIED
+   */
+  private async recordCampaignReplies(message: WhatsAppIncomingMessage, variants: string[]): Promise<CampaignContact[]> {
+    // campaign_contacts.phone é gravado no formato +55DDNNNNNNNNN
+    const phones = variants.map(digits => `+${digits}`);
+    const contacts = await storage.getAwaitingReplyCampaignContacts(message.userId, phones);
+
+    for (const contact of contacts) {
+      const repliedContact = await storage.advanceCampaignContactStatus(
+        contact.id,
+        ['SENT', 'DELIVERED', 'READ'],
+        {
+          sendStatus: 'REPLIED',
+          replyTimestamp: message.timestamp,
+          replyMessage: message.body,
+          // Resposta encerra a sequência de follow-ups do contato
+          ...(contact.nextStepAt ? { nextStepAt: null, sequenceExitReason: 'REPLIED' as const } : {}),
+          // e o reenvio por outro canal da campanha híbrida
+          fallbackAt: null
+        }
+      );
+      if (!repliedContact) continue;
+
+      await storage.createCampaignLog({
+        campaignId: contact.campaignId,
+        contactId: contact.id,
+        eventType: 'REPLIED',
+        message: `Reply received from ${contact.phone}`,
+        metadata: { messageId: message.messageId, text: message.body },
+      });
+      // Resposta sem ack anterior também confirma entrega e leitura
+      const updated = await storage.incrementMassCampaignCounters(contact.campaignId, {
+        repliedCount: 1,
+        deliveredCount: contact.sendStatus === 'SENT' ? 1 : 0,
+        readCount: contact.sendStatus !== 'READ' ? 1 : 0,
+      });
+      campaignEvents.publish({ campaignId: contact.campaignId, type: 'REPLIED', contactId: contact.id, phone: contact.phone }, updated);
+
+      const event: CampaignReplyEvent = {
+        userId: message.userId,
+        campaignId: contact.campaignId,
+        contactId: contact.id,
+        phone: contact.phone || message.phone,
+        message: message.body,
+        timestamp: message.timestamp
+      };
+      this.emit('campaignReply', event);
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Record the reply on the owner's leads whose company has this phone number
+   */
+  private async recordLeadReplies(message: WhatsAppIncomingMessage, variants: string[]): Promise<Lead[]> {
+    const leads = await storage.getLeadsByCompanyPhone(message.userId, variants);
+
+    for (const lead of leads) {
+      const awaiting = await storage.getLatestAwaitingReplyInteraction(lead.id, 'WHATSAPP');
+      if (awaiting) {
+        await storage.updateInteraction(awaiting.id, {
+          status: 'RESPONDIDO',
+          respondedAt: message.timestamp
+        });
+        if (awaiting.campaignId) {
+          await storage.incrementCampaignResponded(awaiting.campaignId);
+        }
+      }
+
+      await storage.createInteraction({
+        type: 'WHATSAPP',
+        status: 'RESPONDIDO',
+        content: message.body,
+        respondedAt: message.timestamp,
+        leadId: lead.id,
+        userId: message.userId,
+        campaignId: awaiting?.campaignId || null
+      });
+    }
+
+    return leads;
+  }
+
+  /**
+   * Possible digit-only forms of a Brazilian number: with and without the 55
+   * country code and with and without the mobile ninth digit (WhatsApp still
+   * reports older numbers without it).
+   */
+  private phoneVariants(phone: string): string[] {
+    let national = phone.replace(/\D/g, '');
+    if (national.startsWith('55') && national.length >= 12) {
+      national = national.slice(2);
+    }
+    if (national.length !== 10 && national.length !== 11) return [];
+
+    const ddd = national.slice(0, 2);
+    const number = national.slice(2);
+    const nationals = new Set([national]);
+
+    if (number.length === 8 && /^[6-9]/.test(number)) {
+      nationals.add(`${ddd}9${number}`);
+    } else if (number.length === 9 && number.startsWith('9')) {
+      nationals.add(`${ddd}${number.slice(1)}`);
+    }
+
+    return Array.from(nationals).flatMap(value => [value, `55${value}`]);
+  }
+}
+
+export const inboundMessageService = new InboundMessageService();
@@ -0,0 +1,121 @@
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import { whatsappService, WhatsAppSendError, type WhatsAppIncomingMessage } from './whatsappService';
+import { mediaLibrary } from './mediaLibrary';
+import type { CampaignContact, Conversation, ConversationMessage, Lead } from '@shared/schema';
+
+// Notificação de nova mensagem para o dono da sessão e o vendedor responsável
+export interface ConversationUpdateEvent {
+  conversationId: string;
+  ownerId: string;
+  assignedTo: string | null;
+  direction: ConversationMessage["direction"];
+}
+
+/**
+ * Shared WhatsApp inbox: keeps one conversation per contact phone for each
+ * connected WhatsApp number and stores the messages exchanged with it.
+ */
+class InboxService extends EventEmitter {
+  /**
+   * Store an inbound message, creating the conversation on the first contact
+   */
+  async recordInbound(
+    message: WhatsAppIncomingMessage,
+    links: { contacts: CampaignContact[]; leads: Lead[] }
+  ): Promise<Conversation> {
+    const phone = `+${message.phone}`;
+    const senderId = message.senderId || null;
+    const contact = links.contacts[0];
+    const lead = links.leads[0];
+
+    let conversation = await storage.getConversationByPhone(message.userId, phone);
+    if (!conversation) {
+      conversation = await storage.createConversation({
+        ownerId: message.userId,
+        phone,
+        contactName: contact?.nomeFantasia || contact?.razaoSocial || null,
+        status: 'OPEN',
+        campaignContactId: contact?.id || null,
+        leadId: lead?.id || null,
+        companyId: lead?.companyId || null,
+        senderId,
+      });
+    } else if ((contact && !conversation.campaignContactId) || (lead && !conversation.leadId) || conversation.senderId !== senderId) {
+      // Vincula registros encontrados depois da criação da conversa e segue o número
+      // pelo qual o contato escreveu por último
+      conversation = await storage.updateConversation(conversation.id, {
+        campaignContactId: conversation.campaignContactId || contact?.id || null,
+        leadId: conversation.leadId || lead?.id || null,
+        companyId: conversation.companyId || lead?.companyId || null,
+        senderId,
+      });
+    }
+
+    await storage.createConversationMessage({
+      conversationId: conversation.id,
+      direction: 'INBOUND',
+      body: message.body,
+      externalId: message.messageId,
+    });
+    await storage.updateConversationActivity(conversation.id, {
+      preview: message.body,
+      at: message.timestamp,
+      inbound: true,
+    });
+
+    this.notify(conversation, 'INBOUND');
+    return conversation;
+  }
+
+  /**
+   * Reply to a conversation through the WhatsApp number the contact wrote to (a sender
+   * pool number or the owner's session), optionally with a file of the media library
+   * (the body becomes its caption).
+   * senderId is the replying user, null for automatic messages (e.g. opt-out confirmation).
+   */
+  async reply(conversation: Conversation, senderId: string | null, body: string, mediaAssetId?: string): Promise<ConversationMessage> {
+    const media = mediaAssetId ? await mediaLibrary.load(mediaAssetId) : null;
+    if (mediaAssetId && !media) {
+      throw new WhatsAppSendError('UNKNOWN', 'Media file not found');
+    }
+
+    // Responder por outro número confundiria o contato: sem a sessão do pool, a resposta falha
+    const poolSender = conversation.senderId ? await storage.getWhatsappSenderById(conversation.senderId) : undefined;
+    if (conversation.senderId && !poolSender?.sessionId) {
+      throw new WhatsAppSendError('SESSION_CLOSED', 'The WhatsApp number of this conversation is not connected');
+    }
+    const externalId = poolSender
+      ? await whatsappService.sendMessageFromSession(poolSender.sessionId!, conversation.phone, body, media || undefined)
+      : await whatsappService.sendMessage(conversation.ownerId, conversation.phone, body, media || undefined);
+
+    const message = await storage.createConversationMessage({
+      conversationId: conversation.id,
+      direction: 'OUTBOUND',
+      body,
+      externalId,
+      sentBy: senderId,
+      mediaAssetId: media?.asset.id || null,
+    });
+    await storage.updateConversationActivity(conversation.id, {
+      preview: body || (media ? `Anexo: ${media.filename}` : ''),
+      at: new Date(),
+      inbound: false,
+    });
+
+    this.notify(conversation, 'OUTBOUND');
+    return message;
+  }
+
+  private notify(conversation: Conversation, direction: ConversationMessage["direction"]): void {
+    const event: ConversationUpdateEvent = {
+      conversationId: conversation.id,
+      ownerId: conversation.ownerId,
+      assignedTo: conversation.assignedTo,
+      direction,
+    };
+    this.emit('conversationUpdate', event);
+  }
+}
+
+export const inboxService = new InboxService();
@@ -1,6 +1,8 @@
 import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { campaignEngine } from "./campaignEngine";
+import { campaignScheduler } from "./campaignScheduler";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -65,5 +67,12 @@ app.use((req, res, next) => {
   
   server.listen(port, host, () => {
     log(`serving on port ${port}`);
+
+    // Resume campaigns that were RUNNING before the restart, then start due SCHEDULED ones
+    campaignEngine.initialize()
+      .catch((error) => {
+        console.error("Failed to initialize campaign engine:", error);
+      })
+      .finally(() => campaignScheduler.initialize());
   });
 })();
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { storage } from './storage';
+import { MAX_VIDEO_SECONDS, MEDIA_TYPES, formatMediaSize, type MediaKind } from '@shared/media';
+import type { MediaAsset } from '@shared/schema';
+
+export type MediaValidationErrorCode = 'UNSUPPORTED_TYPE' | 'TOO_LARGE' | 'VIDEO_TOO_LONG' | 'EMPTY';
+
+// Arquivo recusado na entrada da biblioteca; a mensagem vai direto para o usuário
+export class MediaValidationError extends Error {
+  constructor(public readonly code: MediaValidationErrorCode, message: string) {
+    super(message);
+    this.name = 'MediaValidationError';
+  }
+}
+
+// Conteúdo pronto para o envio (base64, como o MessageMedia do whatsapp-web.js espera)
+export interface LoadedMedia {
+  asset: MediaAsset;
+  mimeType: string;
+  data: string;
+  filename: string;
+}
+
+const MAX_CACHED_FILES = 20;
+
+// Tipo real do arquivo pelos primeiros bytes; o mimetype enviado pelo navegador não é confiável
+function sniffMimeType(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') return 'image/webp';
+  if (buffer.toString('latin1', 0, 5) === '%PDF-') return 'application/pdf';
+  if (buffer.toString('latin1', 4, 8) === 'ftyp') {
+    return buffer.toString('latin1', 8, 10) === '3g' ? 'video/3gpp' : 'video/mp4';
+  }
+  return null;
+}
+
+// Duração em segundos a partir do box mvhd do MP4/3GP; null quando não encontrado
+function videoDurationSeconds(buffer: Buffer): number | null {
+  const offset = buffer.indexOf('mvhd', 0, 'latin1');
+  if (offset < 4) return null;
+
+  const version = buffer[offset + 4];
+  const timescaleAt = offset + (version === 1 ? 24 : 16);
+  if (buffer.length < timescaleAt + (version === 1 ? 12 : 8)) return null;
+
+  const timescale = buffer.readUInt32BE(timescaleAt);
+  const duration = version === 1
+    ? Number(buffer.readBigUInt64BE(timescaleAt + 4))
+    : buffer.readUInt32BE(timescaleAt + 4);
+  return timescale > 0 ? duration / timescale : null;
+}
+
+/**
+ * Stores the files of the media library on disk (MEDIA_STORAGE_DIR) and loads them
+ * for sending. Files are checked by content, size and, for videos, duration.
+ */
+class MediaLibrary {
+  private cache: Map<string, LoadedMedia> = new Map();
+
+  getStorageDir(): string {
+    return path.resolve(process.env.MEDIA_STORAGE_DIR || 'uploads/media');
+  }
+
+  /**
+   * Check an uploaded file and return its real type; throws MediaValidationError
+   */
+  inspect(buffer: Buffer): { mimeType: string; kind: MediaKind } {
+    if (buffer.length === 0) {
+      throw new MediaValidationError('EMPTY', 'O arquivo está vazio');
+    }
+
+    const mimeType = sniffMimeType(buffer);
+    const rule = mimeType ? MEDIA_TYPES[mimeType] : undefined;
+    if (!mimeType || !rule) {
+      throw new MediaValidationError('UNSUPPORTED_TYPE', 'Tipo de arquivo não suportado. Use JPG, PNG, WEBP, PDF ou vídeo MP4/3GP.');
+    }
+    if (buffer.length > rule.maxBytes) {
+      throw new MediaValidationError('TOO_LARGE', `Arquivo de ${formatMediaSize(buffer.length)} excede o limite de ${formatMediaSize(rule.maxBytes)} para este tipo`);
+    }
+    if (rule.kind === 'VIDEO') {
+      const seconds = videoDurationSeconds(buffer);
+      if (seconds !== null && seconds > MAX_VIDEO_SECONDS) {
+        throw new MediaValidationError('VIDEO_TOO_LONG', `O vídeo tem ${Math.round(seconds)}s; o limite é ${MAX_VIDEO_SECONDS}s`);
+      }
+    }
+    return { mimeType, kind: rule.kind };
+  }
+
+  /**
+   * Validate and store an uploaded file for the user
+   */
+  async save(userId: string, originalName: string, buffer: Buffer): Promise<MediaAsset> {
+    const { mimeType, kind } = this.inspect(buffer);
+    const extension = MEDIA_TYPES[mimeType].extensions[0];
+    const storagePath = path.join(userId, `${nanoid(16)}${extension}`);
+    const fullPath = path.join(this.getStorageDir(), storagePath);
+
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, buffer);
+
+    try {
+      return await storage.createMediaAsset({
+        userId,
+        name: originalName.slice(0, 255),
+        kind,
+        mimeType,
+        sizeBytes: buffer.length,
+        storagePath,
+      });
+    } catch (error) {
+      await fs.unlink(fullPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  getFilePath(asset: MediaAsset): string {
+    return path.join(this.getStorageDir(), asset.storagePath);
+  }
+
+  /**
+   * Load an asset for sending. The last files used are kept in memory, since a
+   * campaign sends the same file to every contact.
+   */
+  async load(assetId: string): Promise<LoadedMedia | null> {
+    const cached = this.cache.get(assetId);
+    if (cached) return cached;
+
+    const asset = await storage.getMediaAssetById(assetId);
+    if (!asset) return null;
+
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(this.getFilePath(asset));
+    } catch (error) {
+      console.error(`[MediaLibrary] File of asset ${assetId} not found:`, error);
+      return null;
+    }
+
+    const media: LoadedMedia = { asset, mimeType: asset.mimeType, data: buffer.toString('base64'), filename: asset.name };
+    this.cache.set(assetId, media);
+    if (this.cache.size > MAX_CACHED_FILES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return media;
+  }
+
+  /**
+   * Delete the asset record and its file
+   */
+  async remove(asset: MediaAsset): Promise<void> {
+    await storage.deleteMediaAsset(asset.id);
+    this.cache.delete(asset.id);
+    await fs.unlink(this.getFilePath(asset)).catch((error) => {
+      console.error(`[MediaLibrary] Error deleting file of asset ${asset.id}:`, error);
+    });
+  }
+}
+
+export const mediaLibrary = new MediaLibrary();
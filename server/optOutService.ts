@@ -0,0 +1,151 @@
+import { storage } from './storage';
+import { inboxService } from './inboxService';
+import type { WhatsAppIncomingMessage } from './whatsappService';
+import type { CampaignContact, Conversation } from '@shared/schema';
+
+export interface OptOutSettings {
+  confirmationEnabled: boolean;
+  confirmationMessage: string;
+}
+
+export const OPT_OUT_SETTINGS_KEY = 'optOut';
+
+const DEFAULT_OPT_OUT_SETTINGS: OptOutSettings = {
+  confirmationEnabled: false,
+  confirmationMessage: 'Pronto! Seu número foi removido da nossa lista e você não receberá novas mensagens.',
+};
+
+// Palavras-chave já normalizadas (sem acento, maiúsculas)
+const OPT_OUT_KEYWORDS = ['SAIR', 'PARAR', 'NAO QUERO', 'REMOVER'];
+
+// Campanhas que ainda podem enviar para o número
+const ACTIVE_CAMPAIGN_STATUSES = ['RUNNING', 'PAUSED', 'SCHEDULED'] as const;
+
+/**
+ * Uppercase, strip accents and punctuation so "Não quero!" matches "NAO QUERO"
+ */
+export function normalizeOptOutText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Returns the opt-out keyword found as a whole word/phrase in the text, if any
+ */
+export function detectOptOutKeyword(text: string): string | null {
+  const normalized = ` ${normalizeOptOutText(text)} `;
+  return OPT_OUT_KEYWORDS.find(keyword => normalized.includes(` ${keyword} `)) || null;
+}
+
+/**
+ * LGPD opt-out handling for inbound replies: blacklists the number, cancels
+ * its pending sends and keeps the request as consent evidence.
+ */
+class OptOutService {
+  async getSettings(): Promise<OptOutSettings> {
+    const setting = await storage.getSystemSetting(OPT_OUT_SETTINGS_KEY);
+    return { ...DEFAULT_OPT_OUT_SETTINGS, ...(setting?.value as Partial<OptOutSettings> | undefined) };
+  }
+
+  async updateSettings(settings: OptOutSettings, updatedBy: string): Promise<OptOutSettings> {
+    await storage.upsertSystemSetting(OPT_OUT_SETTINGS_KEY, settings, updatedBy);
+    return settings;
+  }
+
+  /**
+   * Process the reply if it is an opt-out request. Returns true when it was.
+   */
+  async handleReply(
+    message: WhatsAppIncomingMessage,
+    context: { variants: string[]; contacts: CampaignContact[]; conversation?: Conversation }
+  ): Promise<boolean> {
+    const keyword = detectOptOutKeyword(message.body);
+    if (!keyword) return false;
+
+    // Blacklist e campaign_contacts usam o formato +55DDNNNNNNNNN
+    const phones = context.variants
+      .filter(variant => variant.startsWith('55'))
+      .map(variant => `+${variant}`);
+
+    for (const phone of phones) {
+      if (await storage.isPhoneBlacklisted(phone)) continue;
+      await storage.addToBlacklist({
+        phone,
+        category: 'OPTOUT',
+        reason: `Opt-out via WhatsApp reply ("${keyword}")`,
+        addedBy: message.userId,
+        autoDetected: true,
+      });
+    }
+
+    const cancelled = await storage.cancelPendingContactsByPhone(
+      phones,
+      [...ACTIVE_CAMPAIGN_STATUSES],
+      'Contact opted out'
+    );
+    for (const contact of cancelled) {
+      await storage.createCampaignLog({
+        campaignId: contact.campaignId,
+        contactId: contact.id,
+        eventType: 'CANCELLED',
+        message: `Contact ${contact.phone} opted out - pending message cancelled`,
+        metadata: { keyword, messageId: message.messageId },
+      });
+    }
+
+    const endedSequences = await storage.endContactSequencesByPhone(
+      phones,
+      [...ACTIVE_CAMPAIGN_STATUSES],
+      'OPTED_OUT'
+    );
+    for (const contact of endedSequences) {
+      await storage.createCampaignLog({
+        campaignId: contact.campaignId,
+        contactId: contact.id,
+        eventType: 'CANCELLED',
+        message: `Contact ${contact.phone} opted out - follow-up sequence ended`,
+        metadata: { keyword, messageId: message.messageId },
+      });
+    }
+
+    const confirmationSent = await this.sendConfirmation(context.conversation);
+
+    await storage.createConsentRecord({
+      phone: `+${message.phone}`,
+      type: 'OPTOUT',
+      source: 'WHATSAPP_REPLY',
+      keyword,
+      messageText: message.body,
+      externalMessageId: message.messageId,
+      receivedAt: message.timestamp,
+      userId: message.userId,
+      campaignId: context.contacts[0]?.campaignId || null,
+      cancelledContacts: cancelled.length,
+      confirmationSent,
+    });
+
+    console.log(`[OptOut] ${message.phone} opted out ("${keyword}"), ${cancelled.length} pending contacts cancelled`);
+    return true;
+  }
+
+  private async sendConfirmation(conversation?: Conversation): Promise<boolean> {
+    if (!conversation) return false;
+
+    const settings = await this.getSettings();
+    if (!settings.confirmationEnabled || !settings.confirmationMessage.trim()) return false;
+
+    try {
+      await inboxService.reply(conversation, null, settings.confirmationMessage);
+      return true;
+    } catch (error) {
+      console.error(`[OptOut] Failed to send confirmation to ${conversation.phone}:`, error);
+      return false;
+    }
+  }
+}
+
+export const optOutService = new OptOutService();
@@ -23,7 +23,10 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
+// Uma única instância do middleware: o Socket.IO lê as mesmas sessões que o Express
+export const getSession = memoize(createSession);
+
+function createSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   
   // Em desenvolvimento sem banco, usa MemoryStore
@@ -64,6 +67,12 @@ export function getSession() {
   });
 }
 
+// Usuário logado na sessão (cookie) da requisição, sem confiar em ids enviados pelo cliente
+export function getSessionUserId(req: any): string | undefined {
+  const user = req.session?.passport?.user;
+  return user?.claims?.sub || user?.id;
+}
+
 function updateUserSession(
   user: any,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
@@ -0,0 +1,32 @@
+import type { MassCampaign } from "@shared/schema";
+import { MAX_RETRY_ATTEMPTS } from "@shared/retry";
+import type { ChannelErrorCode } from "./channels";
+
+// Falhas transitórias: vale tentar de novo mais tarde
+const RETRYABLE_ERROR_CODES: ChannelErrorCode[] = ['RATE_LIMITED', 'SESSION_CLOSED', 'UNKNOWN'];
+
+const BASE_RETRY_DELAY = 60 * 1000; // 1 minute
+const MAX_RETRY_DELAY = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Whether a failed send may be attempted again. Permanent failures such as
+ * unregistered numbers or invalid recipients are never retried.
+ */
+export function isRetryableError(errorCode?: ChannelErrorCode): boolean {
+  return RETRYABLE_ERROR_CODES.includes(errorCode || 'UNKNOWN');
+}
+
+/**
+ * Total attempts allowed per contact - a single attempt when retry is disabled
+ */
+export function getMaxAttempts(campaign: Pick<MassCampaign, "retryEnabled" | "retryAttempts">): number {
+  if (!campaign.retryEnabled) return 1;
+  return Math.min(Math.max(campaign.retryAttempts || 1, 1), MAX_RETRY_ATTEMPTS);
+}
+
+/**
+ * Exponential backoff after the given (1-based) failed attempt: 1min, 2min, 4min... capped at 1h
+ */
+export function getRetryDelay(failedAttempt: number): number {
+  return Math.min(BASE_RETRY_DELAY * Math.pow(2, failedAttempt - 1), MAX_RETRY_DELAY);
+}
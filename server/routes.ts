@@ -2,11 +2,35 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated, getSession, getSessionUserId } from "./replitAuth";
 import { campaignEngine } from "./campaignEngine";
 import { whatsappService } from "./whatsappService";
+import { inboundMessageService, type CampaignReplyEvent } from "./inboundMessageService";
+import { inboxService, type ConversationUpdateEvent } from "./inboxService";
+import { WhatsAppSendError } from "./whatsappService";
+import { optOutService } from "./optOutService";
+import { campaignScheduler } from "./campaignScheduler";
+import { holidayCalendar } from "./holidayCalendar";
+import { senderPoolService } from "./senderPoolService";
+import { emailService } from "./emailService";
+import { encryptCredential } from "./credentialCipher";
+import { smsService } from "./smsService";
+import { registerSmsStandIn } from "./smsStandIn";
+import { budgetService } from "./budgetService";
+import { campaignThrottle, type CampaignAlertEvent } from "./campaignThrottle";
+import { campaignForecast } from "./campaignForecast";
+import { campaignCounters, campaignEvents, type CampaignEvent } from "./campaignEvents";
+import { mediaLibrary, MediaValidationError } from "./mediaLibrary";
+import { frequencyCap } from "./frequencyCap";
+import { campaignApproval, CampaignApprovalError } from "./campaignApproval";
 import { groqService } from "./groqService";
-import { insertLeadSchema, insertSaleSchema, insertCompanySchema, insertMassCampaignSchema, insertCampaignContactSchema } from "@shared/schema";
+import { insertLeadSchema, insertSaleSchema, insertCompanySchema, insertMassCampaignSchema, insertCampaignContactSchema, type MassCampaign } from "@shared/schema";
+import { collectCustomFields, renderMessageTemplate, validateMessageTemplate } from "@shared/messageTemplate";
+import { compareVariants, normalizeAbTestConfig, variantKey } from "@shared/abTest";
+import { MAX_NO_REPLY_DAYS } from "@shared/channelStrategy";
+import { municipalityKey } from "@shared/workingHours";
+import { MAX_MEDIA_BYTES } from "@shared/media";
+import { CAMPAIGN_APPROVER_ROLES, canResumeCampaign, canStartCampaign, canSuperviseCampaignsOf, requiresCampaignApproval } from "@shared/campaignApproval";
 import { z } from "zod";
 import multer from "multer";
 import csv from "csv-parser";
@@ -279,11 +303,13 @@ async function processContactsList(contacts: any[], campaignId: string, userId?:
   invalidContacts: any[];
   duplicates: any[];
   blacklisted: any[];
+  frequencyCapped: any[];
 }> {
   const validContacts: any[] = [];
   const invalidContacts: any[] = [];
   const duplicates: any[] = [];
   const blacklisted: any[] = [];
+  const frequencyCapped: any[] = [];
   const phoneSet = new Set<string>();
   
   // First pass: validate and format all phone numbers
@@ -316,6 +342,8 @@ async function processContactsList(contacts: any[], campaignId: string, userId?:
   // Bulk blacklist check for all unique formatted phones
   const uniquePhones = Array.from(phoneSet);
   const blacklistedPhonesSet = await storage.arePhonesBulkBlacklisted(uniquePhones);
+  // Números que já receberam o máximo de mensagens na janela, de qualquer campanha
+  const { settings: cap, capped } = await frequencyCap.check(uniquePhones);
   
   // Second pass: automatic blacklist detection and categorization
   const autoDetectedBlacklist: Array<{
@@ -352,6 +380,11 @@ async function processContactsList(contacts: any[], campaignId: string, userId?:
         ...contact, 
         reason: `Blacklist automática: ${detection.category} - ${detection.reason}`
       });
+    } else if (capped.has(formattedPhone)) {
+      frequencyCapped.push({
+        ...contact,
+        reason: `Limite de frequência: ${capped.get(formattedPhone)} mensagens nos últimos ${cap.windowDays} dias (máximo ${cap.maxMessages})`
+      });
     } else {
       validContacts.push({
         campaignId,
@@ -386,7 +419,7 @@ async function processContactsList(contacts: any[], campaignId: string, userId?:
     });
   }
   
-  return { validContacts, invalidContacts, duplicates, blacklisted };
+  return { validContacts, invalidContacts, duplicates, blacklisted, frequencyCapped };
 }
 
 // WhatsApp validation service functions
@@ -1374,6 +1407,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Teste A/B: a configuração fica na campanha e as variantes em campaign_variants
+  const abTestSchema = z.object({
+    metric: z.enum(['DELIVERY', 'READ', 'REPLY']).default('REPLY'),
+    testSlicePercent: z.number().min(1).max(99).nullable().default(null),
+    decisionDelayMinutes: z.number().int().min(0).max(10080).default(120),
+    variants: z.array(z.object({
+      name: z.string().trim().max(100).optional(),
+      messageTemplate: z.string().min(1),
+      weight: z.number().int().min(1).max(100).default(50),
+    })).min(2).max(5),
+  });
+
+  // Follow-ups de uma sequência: o passo 1 é o template da campanha
+  const followUpStepsSchema = z.array(z.object({
+    messageTemplate: z.string().min(1),
+    delayDays: z.number().int().min(1).max(60),
+    workingHours: z.record(z.any()).nullable().optional(),
+  })).max(4);
+
+  // Orçamento da campanha (validação + envios); null remove o limite
+  const campaignBudgetSchema = z.number().positive().max(99999999).nullable();
+
+  // Campanha híbrida: canais em ordem de preferência; o primeiro vira o canal da campanha
+  const channelStrategySchema = z.object({
+    channels: z.array(z.enum(['WHATSAPP', 'SMS', 'EMAIL'])).min(2).max(3)
+      .refine(channels => new Set(channels).size === channels.length, 'Channels must not repeat'),
+    fallbackOnFailure: z.boolean().default(true),
+    noReplyDays: z.number().int().min(1).max(MAX_NO_REPLY_DAYS).nullable().default(null),
+  }).nullable();
+
   app.post('/api/mass-campaigns', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user?.claims?.sub;
@@ -1382,35 +1445,163 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "User not authenticated" });
       }
       
+      // O formulário envia startTime como string ISO; com horário a campanha nasce agendada
+      const startTime = req.body.startTime ? new Date(req.body.startTime) : null;
+      if (startTime && isNaN(startTime.getTime())) {
+        return res.status(400).json({ message: "Invalid start time" });
+      }
+
+      const abTest = req.body.abTest ? abTestSchema.parse(req.body.abTest) : null;
+      const variantErrors = (abTest?.variants || []).flatMap((variant, index) =>
+        validateMessageTemplate(variant.messageTemplate).errors.map(error => `Variant ${variantKey(index)}: ${error.message}`)
+      );
+      if (variantErrors.length > 0) {
+        return res.status(400).json({ message: "Invalid variant template", errors: variantErrors });
+      }
+
+      const steps = followUpStepsSchema.parse(req.body.steps || []);
+      const stepErrors = steps.flatMap((step, index) =>
+        validateMessageTemplate(step.messageTemplate).errors.map(error => `Step ${index + 2}: ${error.message}`)
+      );
+      if (stepErrors.length > 0) {
+        return res.status(400).json({ message: "Invalid follow-up template", errors: stepErrors });
+      }
+
+      const budget = campaignBudgetSchema.parse(req.body.budget ?? null);
+      const channelStrategy = channelStrategySchema.parse(req.body.channelStrategy ?? null);
+
+      // Campanha de vendedor nasce DRAFT mesmo com horário: o agendamento só vale após a aprovação
+      const creator = await storage.getUser(userId);
+      const needsApproval = requiresCampaignApproval(creator?.role);
+
       const validatedData = insertMassCampaignSchema.parse({
         ...req.body,
+        budget: budget === null ? null : budget.toFixed(2),
+        channelStrategy,
+        channel: channelStrategy ? channelStrategy.channels[0] : req.body.channel,
+        messageTemplate: req.body.messageTemplate || abTest?.variants[0].messageTemplate,
+        abTest: abTest
+          ? { metric: abTest.metric, testSlicePercent: abTest.testSlicePercent, decisionDelayMinutes: abTest.decisionDelayMinutes }
+          : null,
+        startTime,
+        status: startTime && !needsApproval ? 'SCHEDULED' : 'DRAFT',
+        approvedBy: null,
+        approvedAt: null,
+        reviewComment: null,
         userId,
       });
+
+      if (validatedData.senderPoolId) {
+        const access = await loadAccessibleSenderPool(req, res, validatedData.senderPoolId);
+        if (!access) return;
+      }
+      if (validatedData.emailConfigId) {
+        const access = await loadAccessibleEmailConfig(req, res, validatedData.emailConfigId);
+        if (!access) return;
+      }
+      if (validatedData.mediaAssetId) {
+        const access = await loadAccessibleMediaAsset(req, res, validatedData.mediaAssetId);
+        if (!access) return;
+      }
       
       const campaign = await storage.createMassCampaign(validatedData);
+      if (abTest) {
+        await storage.createCampaignVariants(abTest.variants.map((variant, index) => ({
+          campaignId: campaign.id,
+          key: variantKey(index),
+          name: variant.name || null,
+          messageTemplate: variant.messageTemplate,
+          weight: variant.weight,
+        })));
+      }
+      await storage.createCampaignSteps(steps.map((step, index) => ({
+        campaignId: campaign.id,
+        stepNumber: index + 2,
+        messageTemplate: step.messageTemplate,
+        delayDays: step.delayDays,
+        workingHours: step.workingHours || null,
+      })));
       res.status(201).json(campaign);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid campaign data", errors: error.errors });
+      }
       console.error("Error creating mass campaign:", error);
       res.status(500).json({ message: "Failed to create campaign" });
     }
   });
 
-  app.patch('/api/mass-campaigns/:id', isAuthenticated, async (req, res) => {
+  // Campos que o dono pode editar; status, aprovação, contadores e lease só mudam pelo sistema
+  const massCampaignUpdateSchema = insertMassCampaignSchema.pick({
+    name: true,
+    description: true,
+    channel: true,
+    messageTemplate: true,
+    sendRate: true,
+    batchSize: true,
+    workingHours: true,
+    retryEnabled: true,
+    retryAttempts: true,
+    senderPoolId: true,
+    smsFallback: true,
+    emailConfigId: true,
+    emailSubject: true,
+    mediaAssetId: true,
+  }).extend({
+    budget: campaignBudgetSchema,
+    channelStrategy: channelStrategySchema,
+  }).partial().strict();
+
+  // Conteúdo coberto pela revisão do gestor: travado enquanto a campanha está em andamento
+  const CAMPAIGN_CONTENT_FIELDS = ['messageTemplate', 'emailSubject', 'mediaAssetId', 'channel', 'channelStrategy', 'smsFallback', 'emailConfigId'];
+  const isCampaignContentLocked = (campaign: { status: string | null }) => campaign.status === 'RUNNING' || campaign.status === 'PAUSED';
+
+  app.patch('/api/mass-campaigns/:id', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
+
+      const { budget, ...fields } = massCampaignUpdateSchema.parse(req.body);
+      const updates: Partial<MassCampaign> = fields;
+
+      // Em andamento só ritmo, janela e orçamento mudam; o conteúdo aprovado não
+      if (isCampaignContentLocked(access.campaign) && CAMPAIGN_CONTENT_FIELDS.some(field => field in updates)) {
+        return res.status(409).json({ message: "Campaign content cannot be changed while it is running or paused" });
+      }
+
+      if (updates.senderPoolId && !(await loadAccessibleSenderPool(req, res, updates.senderPoolId))) return;
+      if (updates.emailConfigId && !(await loadAccessibleEmailConfig(req, res, updates.emailConfigId))) return;
+      if (updates.mediaAssetId && !(await loadAccessibleMediaAsset(req, res, updates.mediaAssetId))) return;
+
+      // Novo orçamento: o aviso de 80% pode ser registrado de novo
+      if (budget !== undefined) {
+        updates.budget = budget === null ? null : budget.toFixed(2);
+        updates.budgetWarnedAt = null;
+      }
+
+      if (fields.channelStrategy) {
+        updates.channel = fields.channelStrategy.channels[0];
+      }
       
-      const campaign = await storage.updateMassCampaign(id, updates);
+      const updated = await storage.updateMassCampaign(id, updates);
+      const campaign = await campaignApproval.revoke(updated, access.user.id, 'Campaign settings changed');
       res.json(campaign);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid campaign data", errors: error.errors });
+      }
       console.error("Error updating mass campaign:", error);
       res.status(500).json({ message: "Failed to update campaign" });
     }
   });
 
-  app.delete('/api/mass-campaigns/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/mass-campaigns/:id', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
+
       await storage.deleteMassCampaign(id);
       res.status(204).send();
     } catch (error) {
@@ -1429,10 +1620,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Nenhum arquivo foi enviado" });
       }
 
-      // Verify campaign exists
-      const campaign = await storage.getMassCampaignById(campaignId);
-      if (!campaign) {
-        return res.status(404).json({ message: "Campanha não encontrada" });
+      const access = await loadAccessibleCampaign(req, res, campaignId);
+      if (!access) return;
+      const { campaign } = access;
+      if (isCampaignContentLocked(campaign)) {
+        return res.status(409).json({ message: "A lista de contatos não pode mudar com a campanha em andamento" });
       }
 
       // Create list validation record
@@ -1474,6 +1666,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Save contacts in batches
         if (processedContacts.validContacts.length > 0) {
           await storage.createCampaignContactsBulk(processedContacts.validContacts);
+          await campaignApproval.revoke(campaign, userId, 'Contact list changed');
         }
 
         // Update validation record with results
@@ -1490,6 +1683,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             invalidContacts: processedContacts.invalidContacts.length,
             duplicates: processedContacts.duplicates.length,
             blacklisted: processedContacts.blacklisted.length,
+            frequencyCapped: processedContacts.frequencyCapped.length,
           },
         });
 
@@ -1502,6 +1696,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             invalidRecords: processedContacts.invalidContacts.length,
             duplicateRecords: processedContacts.duplicates.length,
             blacklistedRecords: processedContacts.blacklisted.length,
+            frequencyCappedRecords: processedContacts.frequencyCapped.length,
           }
         });
 
@@ -1766,9 +1961,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Apply pagination
       const offset = (Number(page) - 1) * Number(limit);
       const paginatedLogs = logs.slice(offset, offset + Number(limit));
+
+      // Cada linha mostra o contato, o canal que o alcançou e o custo de cada tentativa
+      const contactIds = Array.from(new Set(paginatedLogs.map(log => log.contactId).filter((contactId): contactId is string => !!contactId)));
+      const summaries = new Map((await storage.getContactChannelSummaries(contactIds)).map(summary => [summary.contactId, summary]));
       
       res.json({
-        logs: paginatedLogs,
+        logs: paginatedLogs.map(log => {
+          const summary = log.contactId ? summaries.get(log.contactId) : undefined;
+          return {
+            ...log,
+            phone: summary?.phone ?? null,
+            razaoSocial: summary?.razaoSocial ?? null,
+            channel: summary?.channel ?? null,
+            media: summary?.media ?? null,
+            attemptCosts: summary?.attempts ?? [],
+            totalCost: summary?.totalCost ?? 0,
+          };
+        }),
         totalCount: logs.length,
         page: Number(page),
         limit: Number(limit),
@@ -1780,40 +1990,220 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Campaign statistics route
-  app.get('/api/mass-campaigns/:id/stats', isAuthenticated, async (req, res) => {
+  // Attempt history for one contact (retries with error class and backoff)
+  app.get('/api/mass-campaigns/:id/contacts/:contactId/attempts', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, contactId } = req.params;
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
+
+      const contact = await storage.getCampaignContactById(contactId);
+      if (!contact || contact.campaignId !== id) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const attempts = await storage.getContactAttempts(contactId);
+      res.json({
+        contactId,
+        phone: contact.phone,
+        sendStatus: contact.sendStatus,
+        channel: contact.channel,
+        nextAttemptAt: contact.nextAttemptAt,
+        fallbackAt: contact.fallbackAt,
+        attempts
+      });
+    } catch (error) {
+      console.error("Error fetching contact attempts:", error);
+      res.status(500).json({ message: "Failed to fetch contact attempts" });
+    }
+  });
+
+  // Sent/failed counts per sender pool number
+  app.get('/api/mass-campaigns/:id/senders', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleCampaign(req, res, req.params.id);
+      if (!access) return;
+      const { campaign } = access;
+
+      const senders = await storage.getCampaignSenderCounts(campaign.id);
+      res.json({ senderPoolId: campaign.senderPoolId, senders });
+    } catch (error) {
+      console.error("Error fetching campaign sender counts:", error);
+      res.status(500).json({ message: "Failed to fetch campaign sender counts" });
+    }
+  });
+
+  // Render the message a contact would receive (campaign template or a draft sent in the body)
+  app.post('/api/mass-campaigns/:id/preview', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      
-      // Get campaign details
-      const campaign = await storage.getMassCampaignById(id);
-      if (!campaign) {
-        return res.status(404).json({ message: "Campaign not found" });
+      const { contactId, template } = req.body as { contactId?: string; template?: string };
+
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
+      const { campaign } = access;
+      if (template !== undefined && typeof template !== 'string') {
+        return res.status(400).json({ message: "Template must be a string" });
       }
-      
-      // Get campaign contacts for total records
+
+      const contacts = await storage.getCampaignContacts(id);
+      const contact = contactId ? contacts.find(c => c.id === contactId) : contacts[0];
+      if (contactId && !contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const messageTemplate = template ?? campaign.messageTemplate ?? '';
+      const validation = validateMessageTemplate(messageTemplate, {
+        customFields: contacts.length > 0 ? collectCustomFields(contacts) : undefined
+      });
+
+      res.json({
+        contactId: contact?.id || null,
+        phone: contact?.phone || null,
+        message: contact ? renderMessageTemplate(messageTemplate, contact, { variationSeed: contact.id }) : null,
+        validation
+      });
+    } catch (error) {
+      console.error("Error rendering message preview:", error);
+      res.status(500).json({ message: "Failed to render message preview" });
+    }
+  });
+
+  // Uniqueness report: how many different texts the spintax produces for this campaign
+  app.get('/api/mass-campaigns/:id/variations', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
+      const { campaign } = access;
+
+      const template = campaign.messageTemplate || '';
       const contacts = await storage.getCampaignContacts(id);
+      const repetitions = new Map<string, number>();
+      for (const contact of contacts) {
+        const message = renderMessageTemplate(template, contact, { variationSeed: contact.id });
+        repetitions.set(message, (repetitions.get(message) || 0) + 1);
+      }
+
+      res.json({
+        variants: validateMessageTemplate(template).variants,
+        totalContacts: contacts.length,
+        distinctMessages: repetitions.size,
+        maxRepetitions: Array.from(repetitions.values()).reduce((max, count) => Math.max(max, count), 0)
+      });
+    } catch (error) {
+      console.error("Error building variation report:", error);
+      res.status(500).json({ message: "Failed to build variation report" });
+    }
+  });
+
+  // Dry-run: who would be skipped, when each message would go out and what it would cost
+  app.post('/api/mass-campaigns/:id/forecast', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleCampaign(req, res, req.params.id);
+      if (!access) return;
+      const { campaign } = access;
+
+      res.json(await campaignForecast.forecast(campaign));
+    } catch (error) {
+      console.error("Error forecasting campaign:", error);
+      res.status(500).json({ message: "Failed to forecast campaign" });
+    }
+  });
+
+  // Drip sequence: follow-up steps with sends, replies and exits per step
+  app.get('/api/mass-campaigns/:id/steps', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleCampaign(req, res, req.params.id);
+      if (!access) return;
+      const { campaign } = access;
+
+      const [steps, stats] = await Promise.all([
+        storage.getCampaignSteps(campaign.id),
+        storage.getCampaignSequenceStats(campaign.id),
+      ]);
+      const countsFor = (stepNumber: number) => {
+        const counts = stats.steps.find(step => step.stepNumber === stepNumber);
+        return { sent: counts?.sent || 0, failed: counts?.failed || 0, repliedAfter: counts?.repliedAfter || 0 };
+      };
+
+      res.json({
+        steps: [
+          { stepNumber: 1, delayDays: 0, messageTemplate: campaign.messageTemplate, workingHours: campaign.workingHours, ...countsFor(1) },
+          ...steps.map(step => ({ ...step, ...countsFor(step.stepNumber) })),
+        ],
+        awaiting: stats.awaiting,
+        exits: stats.exits,
+      });
+    } catch (error) {
+      console.error("Error fetching campaign steps:", error);
+      res.status(500).json({ message: "Failed to fetch campaign steps" });
+    }
+  });
+
+  // A/B test results: rates per variant with significance against the leader
+  app.get('/api/mass-campaigns/:id/ab-test', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleCampaign(req, res, req.params.id);
+      if (!access) return;
+      const { campaign } = access;
+      if (!campaign.abTest) {
+        return res.json({ enabled: false });
+      }
+
+      const config = normalizeAbTestConfig(campaign.abTest);
+      const [variants, stats] = await Promise.all([
+        storage.getCampaignVariants(campaign.id),
+        storage.getCampaignVariantStats(campaign.id),
+      ]);
+      const results = compareVariants(stats.map(({ lastSentAt, ...counts }) => counts), config.metric);
+
+      res.json({
+        enabled: true,
+        config,
+        winnerVariantId: campaign.winnerVariantId,
+        winnerSelectedAt: campaign.winnerSelectedAt,
+        variants: results.map(result => {
+          const variant = variants.find(candidate => candidate.id === result.variantId);
+          return { ...result, weight: variant?.weight, messageTemplate: variant?.messageTemplate };
+        }),
+      });
+    } catch (error) {
+      console.error("Error fetching A/B test results:", error);
+      res.status(500).json({ message: "Failed to fetch A/B test results" });
+    }
+  });
+
+  // Campaign statistics route
+  app.get('/api/mass-campaigns/:id/stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
       
-      // Get logs for detailed statistics
-      const logs = await storage.getCampaignLogs(id);
+      // Get campaign details
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
+      const { campaign } = access;
       
-      // Calculate statistics
+      // Contadores incrementais da campanha; antes do início o total vem da lista
+      const counters = campaignCounters(campaign);
+      const totalRecords = campaign.status === 'DRAFT' || campaign.status === 'SCHEDULED'
+        ? await storage.countCampaignContacts(id)
+        : counters.totalRecords;
+
       const stats = {
         id: campaign.id,
         name: campaign.name,
         status: campaign.status,
         channel: campaign.channel || 'WHATSAPP',
-        totalRecords: contacts.length,
-        sentCount: logs.filter(log => ['SENT', 'DELIVERED', 'READ'].includes(log.eventType || '')).length,
-        deliveredCount: logs.filter(log => ['DELIVERED', 'READ'].includes(log.eventType || '')).length,
-        readCount: logs.filter(log => log.eventType === 'READ').length,
-        errorCount: logs.filter(log => log.eventType === 'FAILED').length,
+        ...counters,
+        totalRecords,
         currentRate: campaign.sendRate || 50,
         startedAt: campaign.startTime,
         estimatedCompletionTime: campaign.endTime,
         totalCost: (Number(campaign.validationCost) || 0) + (Number(campaign.sendingCost) || 0),
         validationCost: Number(campaign.validationCost) || 0,
         sendingCost: Number(campaign.sendingCost) || 0,
+        budget: campaign.budget !== null ? Number(campaign.budget) : null,
         createdAt: campaign.createdAt,
         updatedAt: campaign.updatedAt
       };
@@ -1826,9 +2216,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Campaign control routes
-  app.post('/api/mass-campaigns/:id/start', isAuthenticated, async (req, res) => {
+  // Campanha do próprio usuário; gestores também acessam as da equipe e administradores, todas
+  const canAccessCampaign = (
+    campaign: { userId: string },
+    user: { id: string; role: string | null; teamId: string | null },
+    owner: { teamId: string | null } | undefined
+  ) => campaign.userId === user.id || canSuperviseCampaignsOf(user, owner);
+
+  const loadAccessibleCampaign = async (req: any, res: any, campaignId: string) => {
+    const user = await storage.getUser(req.user.claims.sub);
+    if (!user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return null;
+    }
+
+    const campaign = await storage.getMassCampaignById(campaignId);
+    if (!campaign) {
+      res.status(404).json({ message: "Campaign not found" });
+      return null;
+    }
+
+    const owner = campaign.userId === user.id ? user : await storage.getUser(campaign.userId);
+    if (!canAccessCampaign(campaign, user, owner)) {
+      res.status(403).json({ message: "Not authorized to access this campaign" });
+      return null;
+    }
+
+    return { user, campaign, owner };
+  };
+
+  // Checado antes do engine: uma falha dentro do startCampaign encerraria a campanha
+  const assertCampaignCanStart = (res: any, access: NonNullable<Awaited<ReturnType<typeof loadAccessibleCampaign>>>) => {
+    if (canStartCampaign(access.campaign, access.owner?.role)) return true;
+
+    const message = access.campaign.status === 'PENDING_APPROVAL'
+      ? "Campaign is waiting for manager approval"
+      : "Campaign needs manager approval before starting";
+    res.status(409).json({ message });
+    return false;
+  };
+
+  app.post('/api/mass-campaigns/:id/start', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access || !assertCampaignCanStart(res, access)) return;
       
       console.log(`[API] Starting campaign ${id}`);
       await campaignEngine.startCampaign(id);
@@ -1847,9 +2279,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/mass-campaigns/:id/pause', isAuthenticated, async (req, res) => {
+  app.post('/api/mass-campaigns/:id/schedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const startTime = new Date(req.body?.startTime);
+      if (isNaN(startTime.getTime())) {
+        return res.status(400).json({ message: "Invalid start time" });
+      }
+
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access || !assertCampaignCanStart(res, access)) return;
+
+      const updatedCampaign = await campaignScheduler.schedule(id, startTime);
+      res.json(updatedCampaign);
+    } catch (error) {
+      console.error("Error scheduling campaign:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to schedule campaign" 
+      });
+    }
+  });
+
+  app.post('/api/mass-campaigns/:id/unschedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
+
+      const updatedCampaign = await campaignScheduler.unschedule(id);
+      res.json(updatedCampaign);
+    } catch (error) {
+      console.error("Error unscheduling campaign:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to unschedule campaign" 
+      });
+    }
+  });
+
+  app.post('/api/mass-campaigns/:id/pause', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
       
       console.log(`[API] Pausing campaign ${id}`);
       await campaignEngine.pauseCampaign(id);
@@ -1868,9 +2339,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/mass-campaigns/:id/resume', isAuthenticated, async (req, res) => {
+  app.post('/api/mass-campaigns/:id/resume', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
+      if (access.campaign.status === 'PAUSED' && !canResumeCampaign(access.campaign, access.owner?.role)) {
+        return res.status(409).json({ message: "Campaign needs manager approval before resuming" });
+      }
       
       console.log(`[API] Resuming campaign ${id}`);
       await campaignEngine.resumeCampaign(id);
@@ -1889,9 +2365,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/mass-campaigns/:id/stop', isAuthenticated, async (req, res) => {
+  app.post('/api/mass-campaigns/:id/stop', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
+      const access = await loadAccessibleCampaign(req, res, id);
+      if (!access) return;
       
       console.log(`[API] Stopping campaign ${id}`);
       await campaignEngine.stopCampaign(id);
@@ -1910,6 +2388,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Campaign approval routes: vendedores enviam para revisão, gestores aprovam ou rejeitam
+  const reviewCommentSchema = z.object({
+    comment: z.string().trim().max(1000).optional(),
+  });
+
+  const sendCampaignApprovalError = (res: any, error: CampaignApprovalError) => {
+    res.status(error.code === 'NOT_ALLOWED' ? 403 : 409).json({ message: error.message, code: error.code });
+  };
+
+  const displayName = (user?: { firstName: string | null; lastName: string | null; email: string | null }) =>
+    user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email : null;
+
+  app.post('/api/mass-campaigns/:id/submit-approval', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleCampaign(req, res, req.params.id);
+      if (!access) return;
+
+      const { comment } = reviewCommentSchema.parse(req.body || {});
+      const campaign = await campaignApproval.submit(access.campaign, access.user, comment);
+      res.json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review data", errors: error.errors });
+      }
+      if (error instanceof CampaignApprovalError) {
+        return sendCampaignApprovalError(res, error);
+      }
+      console.error("Error submitting campaign for approval:", error);
+      res.status(500).json({ message: "Failed to submit campaign for approval" });
+    }
+  });
+
+  // Fila de aprovação do gestor, com o retrato enviado junto de cada campanha
+  app.get('/api/campaign-approvals', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !CAMPAIGN_APPROVER_ROLES.includes(user.role || '')) {
+        return res.status(403).json({ message: "Only managers can review campaigns" });
+      }
+
+      const members = new Map((await storage.getTeamMembers()).map(member => [member.id, member]));
+      const campaigns = (await storage.getCampaignsPendingApproval())
+        .filter(campaign => canSuperviseCampaignsOf(user, members.get(campaign.userId)));
+      const queue = await Promise.all(campaigns.map(async (campaign) => {
+        const reviews = await storage.getCampaignReviews(campaign.id);
+        const submission = reviews.find(review => review.action === 'SUBMITTED');
+        return {
+          campaign,
+          owner: { id: campaign.userId, name: displayName(members.get(campaign.userId)) },
+          submittedAt: submission?.createdAt || null,
+          submissionComment: submission?.comment || null,
+          snapshot: submission?.snapshot || null,
+        };
+      }));
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching campaign approvals:", error);
+      res.status(500).json({ message: "Failed to fetch campaign approvals" });
+    }
+  });
+
+  // Tudo o que o gestor precisa para decidir: conteúdo, mídia, sequência e histórico de decisões
+  app.get('/api/mass-campaigns/:id/review', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleCampaign(req, res, req.params.id);
+      if (!access) return;
+
+      const { campaign } = access;
+      const [variants, steps, reviews, members, media] = await Promise.all([
+        storage.getCampaignVariants(campaign.id),
+        storage.getCampaignSteps(campaign.id),
+        storage.getCampaignReviews(campaign.id),
+        storage.getTeamMembers(),
+        campaign.mediaAssetId ? storage.getMediaAssetById(campaign.mediaAssetId) : Promise.resolve(undefined),
+      ]);
+      const membersById = new Map(members.map(member => [member.id, member]));
+
+      res.json({
+        campaign,
+        owner: { id: campaign.userId, name: displayName(access.owner) },
+        variants,
+        steps,
+        media: media ? { id: media.id, name: media.name, kind: media.kind } : null,
+        reviews: reviews.map(review => ({
+          ...review,
+          actorName: review.actorId ? displayName(membersById.get(review.actorId)) : null,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching campaign review:", error);
+      res.status(500).json({ message: "Failed to fetch campaign review" });
+    }
+  });
+
+  app.post('/api/mass-campaigns/:id/approve', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleCampaign(req, res, req.params.id);
+      if (!access) return;
+
+      const { comment } = reviewCommentSchema.parse(req.body || {});
+      const campaign = await campaignApproval.approve(access.campaign, access.user, comment);
+      res.json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review data", errors: error.errors });
+      }
+      if (error instanceof CampaignApprovalError) {
+        return sendCampaignApprovalError(res, error);
+      }
+      console.error("Error approving campaign:", error);
+      res.status(500).json({ message: "Failed to approve campaign" });
+    }
+  });
+
+  app.post('/api/mass-campaigns/:id/reject', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleCampaign(req, res, req.params.id);
+      if (!access) return;
+
+      // A rejeição sempre diz ao vendedor o que corrigir
+      const { comment } = reviewCommentSchema.extend({ comment: z.string().trim().min(1).max(1000) }).parse(req.body || {});
+      const campaign = await campaignApproval.reject(access.campaign, access.user, comment);
+      res.json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review data", errors: error.errors });
+      }
+      if (error instanceof CampaignApprovalError) {
+        return sendCampaignApprovalError(res, error);
+      }
+      console.error("Error rejecting campaign:", error);
+      res.status(500).json({ message: "Failed to reject campaign" });
+    }
+  });
+
   // WhatsApp Phone Validation routes
   app.get('/api/whatsapp/validation-limits', isAuthenticated, async (req: any, res) => {
     try {
@@ -2206,57 +2819,1079 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create HTTP server and setup WebSocket
-  const httpServer = createServer(app);
-  
-  // Setup Socket.IO for real-time WhatsApp status updates
-  const io = new SocketIOServer(httpServer, {
-    cors: {
-      origin: process.env.NODE_ENV === "development" ? "http://localhost:5000" : false,
-      methods: ["GET", "POST"]
-    },
-    path: "/socket.io"
+  // Sender pool routes: extra WhatsApp numbers rotated by campaigns
+  const SENDER_POOL_MANAGER_ROLES = ['GESTOR', 'ADMIN', 'SUPER_ADMIN'];
+
+  const senderPoolSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    shareWithTeam: z.boolean().optional(),
   });
 
-  // Store user socket mappings for targeted updates
-  const userSockets = new Map<string, string>(); // userId -> socketId
-  const socketUsers = new Map<string, string>(); // socketId -> userId
+  const senderSchema = z.object({
+    label: z.string().trim().min(1).max(100),
+    weight: z.number().int().min(1).max(100).optional(),
+    dailyCap: z.number().int().min(1).max(10000).optional(),
+    active: z.boolean().optional(),
+  });
 
-  io.on('connection', (socket) => {
-    console.log('Client connected to WhatsApp WebSocket:', socket.id);
+  // Pools são do dono ou compartilhados com a equipe; gestores da equipe também administram
+  const canAccessSenderPool = (user: { id: string; role: string | null; teamId: string | null }, pool: { ownerId: string; teamId: string | null }, manage = false) =>
+    pool.ownerId === user.id ||
+    (!!pool.teamId && pool.teamId === user.teamId && (!manage || SENDER_POOL_MANAGER_ROLES.includes(user.role || '')));
 
-    // Handle user authentication for socket
-    socket.on('authenticate', (data: { userId: string }) => {
-      if (data.userId) {
-        userSockets.set(data.userId, socket.id);
-        socketUsers.set(socket.id, data.userId);
-        console.log(`User ${data.userId} authenticated on socket ${socket.id}`);
-        
-        // Send current WhatsApp status
-        whatsappService.getConnectionStatus(data.userId).then(status => {
-          socket.emit('whatsapp-status', {
-            success: true,
-            data: status
-          });
-        }).catch(error => {
-          console.error('Error getting status for new connection:', error);
-        });
+  const loadAccessibleSenderPool = async (req: any, res: any, poolId: string, manage = false) => {
+    const user = await storage.getUser(req.user.claims.sub);
+    if (!user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return null;
+    }
+
+    const pool = await storage.getSenderPoolById(poolId);
+    if (!pool) {
+      res.status(404).json({ message: "Sender pool not found" });
+      return null;
+    }
+
+    if (!canAccessSenderPool(user, pool, manage)) {
+      res.status(403).json({ message: "Not authorized to access this sender pool" });
+      return null;
+    }
+
+    return { user, pool };
+  };
+
+  const loadManageableSender = async (req: any, res: any) => {
+    const sender = await storage.getWhatsappSenderById(req.params.id);
+    if (!sender) {
+      res.status(404).json({ message: "Sender not found" });
+      return null;
+    }
+
+    const access = await loadAccessibleSenderPool(req, res, sender.poolId, true);
+    return access ? { ...access, sender } : null;
+  };
+
+  app.get('/api/sender-pools', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
-    });
 
-    socket.on('disconnect', () => {
-      const userId = socketUsers.get(socket.id);
-      if (userId) {
-        userSockets.delete(userId);
-        socketUsers.delete(socket.id);
-        console.log(`User ${userId} disconnected from WhatsApp WebSocket`);
+      const pools = await storage.getSenderPools(user.id, user.teamId);
+      const poolsWithSenders = await Promise.all(pools.map(async (pool) => ({
+        ...pool,
+        canManage: canAccessSenderPool(user, pool, true),
+        senders: await storage.getPoolSenders(pool.id),
+      })));
+      res.json(poolsWithSenders);
+    } catch (error) {
+      console.error("Error fetching sender pools:", error);
+      res.status(500).json({ message: "Failed to fetch sender pools" });
+    }
+  });
+
+  app.post('/api/sender-pools', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
-    });
+
+      const { name, shareWithTeam } = senderPoolSchema.parse(req.body);
+      if (shareWithTeam && !user.teamId) {
+        return res.status(400).json({ message: "User has no team to share the pool with" });
+      }
+
+      const pool = await storage.createSenderPool({
+        name,
+        ownerId: user.id,
+        teamId: shareWithTeam ? user.teamId : null,
+      });
+      res.status(201).json(pool);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sender pool data", errors: error.errors });
+      }
+      console.error("Error creating sender pool:", error);
+      res.status(500).json({ message: "Failed to create sender pool" });
+    }
   });
 
-  // Listen to WhatsApp service events and emit to connected clients
-  whatsappService.on('statusUpdate', (data: {
-    userId: string;
+  app.patch('/api/sender-pools/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleSenderPool(req, res, req.params.id, true);
+      if (!access) return;
+
+      const { name, shareWithTeam } = senderPoolSchema.partial().parse(req.body);
+      if (shareWithTeam && !access.user.teamId) {
+        return res.status(400).json({ message: "User has no team to share the pool with" });
+      }
+
+      const pool = await storage.updateSenderPool(access.pool.id, {
+        ...(name !== undefined ? { name } : {}),
+        ...(shareWithTeam !== undefined ? { teamId: shareWithTeam ? access.user.teamId : null } : {}),
+      });
+      res.json(pool);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sender pool data", errors: error.errors });
+      }
+      console.error("Error updating sender pool:", error);
+      res.status(500).json({ message: "Failed to update sender pool" });
+    }
+  });
+
+  app.delete('/api/sender-pools/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleSenderPool(req, res, req.params.id, true);
+      if (!access) return;
+
+      const senders = await storage.getPoolSenders(access.pool.id);
+      for (const sender of senders) {
+        await senderPoolService.disconnectSender(sender);
+      }
+
+      await storage.deleteSenderPool(access.pool.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting sender pool:", error);
+      res.status(500).json({ message: "Failed to delete sender pool" });
+    }
+  });
+
+  app.get('/api/sender-pools/:id/senders', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleSenderPool(req, res, req.params.id);
+      if (!access) return;
+
+      const senders = await storage.getPoolSenders(access.pool.id);
+      res.json(senders);
+    } catch (error) {
+      console.error("Error fetching pool senders:", error);
+      res.status(500).json({ message: "Failed to fetch pool senders" });
+    }
+  });
+
+  app.post('/api/sender-pools/:id/senders', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleSenderPool(req, res, req.params.id, true);
+      if (!access) return;
+
+      const data = senderSchema.parse(req.body);
+      const sender = await storage.createWhatsappSender({
+        ...data,
+        poolId: access.pool.id,
+        ownerId: access.user.id,
+      });
+      res.status(201).json(sender);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sender data", errors: error.errors });
+      }
+      console.error("Error creating sender:", error);
+      res.status(500).json({ message: "Failed to create sender" });
+    }
+  });
+
+  app.patch('/api/senders/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadManageableSender(req, res);
+      if (!access) return;
+
+      const { active, ...updates } = senderSchema.partial().parse(req.body);
+      const sender = await storage.updateWhatsappSender(access.sender.id, {
+        ...updates,
+        // Reativar manualmente limpa o motivo da retirada automática
+        ...(active !== undefined
+          ? { active, removedReason: active ? null : 'Removed manually', removedAt: active ? null : new Date() }
+          : {}),
+      });
+      res.json(sender);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sender data", errors: error.errors });
+      }
+      console.error("Error updating sender:", error);
+      res.status(500).json({ message: "Failed to update sender" });
+    }
+  });
+
+  app.delete('/api/senders/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadManageableSender(req, res);
+      if (!access) return;
+
+      await senderPoolService.disconnectSender(access.sender);
+      await storage.deleteWhatsappSender(access.sender.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting sender:", error);
+      res.status(500).json({ message: "Failed to delete sender" });
+    }
+  });
+
+  app.post('/api/senders/:id/connect', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadManageableSender(req, res);
+      if (!access) return;
+
+      const result = await senderPoolService.connectSender(access.sender);
+      res.json({
+        sessionId: result.sessionId,
+        qrCode: result.qrCode,
+        status: 'WAITING_QR'
+      });
+    } catch (error) {
+      console.error("Error connecting sender:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to connect sender" });
+    }
+  });
+
+  app.post('/api/senders/:id/disconnect', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadManageableSender(req, res);
+      if (!access) return;
+
+      await senderPoolService.disconnectSender(access.sender);
+      res.json({ message: "Sender disconnected successfully" });
+    } catch (error) {
+      console.error("Error disconnecting sender:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to disconnect sender" });
+    }
+  });
+
+  // Email configuration routes: SMTP accounts used by EMAIL campaigns
+  const EMAIL_CONFIG_MANAGER_ROLES = ['GESTOR', 'ADMIN', 'SUPER_ADMIN'];
+
+  const emailConfigSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    provider: z.enum(['gmail', 'outlook', 'sendgrid', 'custom']).default('custom'),
+    host: z.string().trim().min(1).max(255),
+    port: z.coerce.number().int().min(1).max(65535),
+    username: z.string().trim().max(255).default(''),
+    password: z.string().max(1024).default(''),
+    senderEmail: z.string().trim().email(),
+    senderName: z.string().trim().max(100).nullable().optional(),
+    useSSL: z.boolean().default(false),
+    useTLS: z.boolean().default(true),
+    rateLimitPerHour: z.coerce.number().int().min(1).max(100000).default(100),
+    isActive: z.boolean().optional(),
+  });
+
+  // Configurações são do dono; gestores também podem administrar as da equipe
+  const loadAccessibleEmailConfig = async (req: any, res: any, configId: string) => {
+    const user = await storage.getUser(req.user.claims.sub);
+    if (!user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return null;
+    }
+
+    const config = await storage.getEmailConfigurationById(configId);
+    if (!config) {
+      res.status(404).json({ message: "Email configuration not found" });
+      return null;
+    }
+
+    if (config.userId !== user.id && !EMAIL_CONFIG_MANAGER_ROLES.includes(user.role || '')) {
+      res.status(403).json({ message: "Not authorized to access this email configuration" });
+      return null;
+    }
+
+    return { user, config };
+  };
+
+  app.get('/api/email-configs', isAuthenticated, async (req: any, res) => {
+    try {
+      const configs = await storage.getEmailConfigurations(req.user.claims.sub);
+      res.json(configs.map(config => emailService.toPublic(config)));
+    } catch (error) {
+      console.error("Error fetching email configurations:", error);
+      res.status(500).json({ message: "Failed to fetch email configurations" });
+    }
+  });
+
+  app.post('/api/email-configs', isAuthenticated, async (req: any, res) => {
+    try {
+      const { password, ...data } = emailConfigSchema.parse(req.body);
+      const config = await storage.createEmailConfiguration({
+        ...data,
+        userId: req.user.claims.sub,
+        passwordEncrypted: encryptCredential(password),
+      });
+      res.status(201).json(emailService.toPublic(config));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid email configuration data", errors: error.errors });
+      }
+      console.error("Error creating email configuration:", error);
+      res.status(500).json({ message: "Failed to create email configuration" });
+    }
+  });
+
+  // Test unsaved form data (nothing is stored)
+  app.post('/api/email-configs/test', isAuthenticated, async (req: any, res) => {
+    try {
+      const settings = emailConfigSchema.parse(req.body);
+      res.json(await emailService.testSettings(settings));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid email configuration data", errors: error.errors });
+      }
+      console.error("Error testing email settings:", error);
+      res.status(500).json({ message: "Failed to test email settings" });
+    }
+  });
+
+  app.patch('/api/email-configs/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleEmailConfig(req, res, req.params.id);
+      if (!access) return;
+
+      // Senha em branco mantém a atual; mudar a conexão exige testar de novo
+      const { password, ...updates } = emailConfigSchema.partial().parse(req.body);
+      const connectionChanged = !!password ||
+        (['host', 'port', 'username', 'useSSL', 'useTLS'] as const).some(field =>
+          updates[field] !== undefined && updates[field] !== access.config[field]);
+      const config = await storage.updateEmailConfiguration(access.config.id, {
+        ...updates,
+        ...(password ? { passwordEncrypted: encryptCredential(password) } : {}),
+        ...(connectionChanged ? { status: 'UNTESTED' as const, lastError: null } : {}),
+      });
+      emailService.dropTransport(config.id);
+      res.json(emailService.toPublic(config));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid email configuration data", errors: error.errors });
+      }
+      console.error("Error updating email configuration:", error);
+      res.status(500).json({ message: "Failed to update email configuration" });
+    }
+  });
+
+  app.delete('/api/email-configs/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleEmailConfig(req, res, req.params.id);
+      if (!access) return;
+
+      emailService.dropTransport(access.config.id);
+      await storage.deleteEmailConfiguration(access.config.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting email configuration:", error);
+      res.status(500).json({ message: "Failed to delete email configuration" });
+    }
+  });
+
+  app.post('/api/email-configs/:id/test', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleEmailConfig(req, res, req.params.id);
+      if (!access) return;
+
+      const { result, config } = await emailService.testConfiguration(access.config);
+      res.json({ ...result, config: emailService.toPublic(config) });
+    } catch (error) {
+      console.error("Error testing email configuration:", error);
+      res.status(500).json({ message: "Failed to test email configuration" });
+    }
+  });
+
+  // Media library routes: images, PDFs and short videos attached to campaigns and inbox replies
+  const MEDIA_MANAGER_ROLES = ['GESTOR', 'ADMIN', 'SUPER_ADMIN'];
+
+  // Conteúdo validado pelo mediaLibrary (tipo real, tamanho e duração); aqui só o teto geral
+  const mediaUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_MEDIA_BYTES, files: 1 },
+  });
+
+  // Arquivos são do dono; gestores também podem usar os da equipe
+  const loadAccessibleMediaAsset = async (req: any, res: any, assetId: string) => {
+    const user = await storage.getUser(req.user.claims.sub);
+    if (!user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return null;
+    }
+
+    const asset = await storage.getMediaAssetById(assetId);
+    if (!asset) {
+      res.status(404).json({ message: "Media not found" });
+      return null;
+    }
+
+    if (asset.userId !== user.id && !MEDIA_MANAGER_ROLES.includes(user.role || '')) {
+      res.status(403).json({ message: "Not authorized to access this media" });
+      return null;
+    }
+
+    return { user, asset };
+  };
+
+  app.get('/api/media', isAuthenticated, async (req: any, res) => {
+    try {
+      const assets = await storage.getMediaAssets(req.user.claims.sub);
+      res.json(assets);
+    } catch (error) {
+      console.error("Error fetching media library:", error);
+      res.status(500).json({ message: "Failed to fetch media library" });
+    }
+  });
+
+  app.post('/api/media', isAuthenticated, (req: any, res, next) => {
+    mediaUpload.single('file')(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ message: `Arquivo excede o limite de ${MAX_MEDIA_BYTES / (1024 * 1024)} MB` });
+      }
+      if (error) return next(error);
+      next();
+    });
+  }, async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const asset = await mediaLibrary.save(req.user.claims.sub, req.file.originalname, req.file.buffer);
+      res.status(201).json(asset);
+    } catch (error) {
+      if (error instanceof MediaValidationError) {
+        return res.status(400).json({ message: error.message, code: error.code });
+      }
+      console.error("Error uploading media:", error);
+      res.status(500).json({ message: "Failed to upload media" });
+    }
+  });
+
+  app.get('/api/media/:id/file', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleMediaAsset(req, res, req.params.id);
+      if (!access) return;
+
+      res.type(access.asset.mimeType);
+      res.sendFile(mediaLibrary.getFilePath(access.asset), (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "Media file not found" });
+        }
+      });
+    } catch (error) {
+      console.error("Error serving media file:", error);
+      res.status(500).json({ message: "Failed to fetch media file" });
+    }
+  });
+
+  app.delete('/api/media/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleMediaAsset(req, res, req.params.id);
+      if (!access) return;
+
+      // Campanhas que ainda vão enviar perderiam o anexo
+      const campaigns = await storage.getActiveCampaignsUsingMedia(access.asset.id);
+      if (campaigns.length > 0) {
+        return res.status(409).json({
+          message: "Media is attached to campaigns that have not finished",
+          campaigns: campaigns.map(campaign => ({ id: campaign.id, name: campaign.name, status: campaign.status })),
+        });
+      }
+
+      await mediaLibrary.remove(access.asset);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting media:", error);
+      res.status(500).json({ message: "Failed to delete media" });
+    }
+  });
+
+  // Shared WhatsApp Inbox routes
+  const INBOX_MANAGER_ROLES = ['GESTOR', 'ADMIN', 'SUPER_ADMIN'];
+
+  // Vendedores veem conversas do próprio número, atribuídas a eles ou sem responsável
+  const canAccessConversation = (user: { id: string; role: string | null }, conversation: { ownerId: string; assignedTo: string | null }) =>
+    INBOX_MANAGER_ROLES.includes(user.role || '') ||
+    conversation.ownerId === user.id ||
+    conversation.assignedTo === user.id ||
+    !conversation.assignedTo;
+
+  const loadAccessibleConversation = async (req: any, res: any) => {
+    const user = await storage.getUser(req.user.claims.sub);
+    if (!user) {
+      res.status(401).json({ message: "User not authenticated" });
+      return null;
+    }
+
+    const conversation = await storage.getConversationById(req.params.id);
+    if (!conversation) {
+      res.status(404).json({ message: "Conversation not found" });
+      return null;
+    }
+
+    if (!canAccessConversation(user, conversation)) {
+      res.status(403).json({ message: "Not authorized to access this conversation" });
+      return null;
+    }
+
+    return { user, conversation };
+  };
+
+  app.get('/api/inbox/conversations', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const { status } = req.query;
+      if (status && !['OPEN', 'PENDING', 'CLOSED'].includes(status)) {
+        return res.status(400).json({ message: "Invalid conversation status" });
+      }
+
+      const conversations = await storage.getConversations({
+        visibleTo: INBOX_MANAGER_ROLES.includes(user.role || '') ? undefined : user.id,
+        status: status || undefined,
+      });
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  app.get('/api/inbox/unread-count', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const unread = await storage.getUnreadConversationCount({
+        visibleTo: INBOX_MANAGER_ROLES.includes(user.role || '') ? undefined : user.id,
+      });
+      res.json({ unread });
+    } catch (error) {
+      console.error("Error fetching unread conversations:", error);
+      res.status(500).json({ message: "Failed to fetch unread count" });
+    }
+  });
+
+  // Vendedores ativos que podem receber conversas
+  app.get('/api/inbox/assignees', isAuthenticated, async (req: any, res) => {
+    try {
+      const members = await storage.getTeamMembers();
+      res.json(members
+        .filter(member => member.role === 'VENDEDOR')
+        .map(member => ({
+          id: member.id,
+          name: `${member.firstName || ''} ${member.lastName || ''}`.trim() || member.email,
+        })));
+    } catch (error) {
+      console.error("Error fetching inbox assignees:", error);
+      res.status(500).json({ message: "Failed to fetch assignees" });
+    }
+  });
+
+  app.get('/api/inbox/conversations/:id/messages', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleConversation(req, res);
+      if (!access) return;
+
+      const messages = await storage.getConversationMessages(access.conversation.id);
+      const mediaIds = Array.from(new Set(messages.map(message => message.mediaAssetId).filter((id): id is string => !!id)));
+      const mediaById = new Map((await storage.getMediaAssetsByIds(mediaIds)).map(asset => [asset.id, asset]));
+      res.json(messages.map(message => {
+        const media = message.mediaAssetId ? mediaById.get(message.mediaAssetId) : undefined;
+        return { ...message, media: media ? { id: media.id, name: media.name, kind: media.kind } : null };
+      }));
+    } catch (error) {
+      console.error("Error fetching conversation messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post('/api/inbox/conversations/:id/messages', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleConversation(req, res);
+      if (!access) return;
+
+      // Com anexo o texto é a legenda e pode ficar vazio
+      const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+      const mediaAssetId = typeof req.body.mediaAssetId === 'string' && req.body.mediaAssetId ? req.body.mediaAssetId : undefined;
+      if (!body && !mediaAssetId) {
+        return res.status(400).json({ message: "Message body is required" });
+      }
+      if (mediaAssetId) {
+        const media = await loadAccessibleMediaAsset(req, res, mediaAssetId);
+        if (!media) return;
+      }
+
+      const message = await inboxService.reply(access.conversation, access.user.id, body, mediaAssetId);
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof WhatsAppSendError) {
+        return res.status(409).json({ message: error.message, code: error.code });
+      }
+      console.error("Error replying to conversation:", error);
+      res.status(500).json({ message: "Failed to send reply" });
+    }
+  });
+
+  app.post('/api/inbox/conversations/:id/read', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleConversation(req, res);
+      if (!access) return;
+
+      const conversation = await storage.updateConversation(access.conversation.id, { unreadCount: 0 });
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error marking conversation as read:", error);
+      res.status(500).json({ message: "Failed to mark conversation as read" });
+    }
+  });
+
+  app.patch('/api/inbox/conversations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const access = await loadAccessibleConversation(req, res);
+      if (!access) return;
+
+      const { status, assignedTo } = req.body;
+      const updates: Partial<{ status: 'OPEN' | 'PENDING' | 'CLOSED'; assignedTo: string | null }> = {};
+
+      if (status !== undefined) {
+        if (!['OPEN', 'PENDING', 'CLOSED'].includes(status)) {
+          return res.status(400).json({ message: "Invalid conversation status" });
+        }
+        updates.status = status;
+      }
+
+      if (assignedTo !== undefined) {
+        // Somente gestores ou o dono do número distribuem conversas
+        const canAssign = INBOX_MANAGER_ROLES.includes(access.user.role || '') || access.conversation.ownerId === access.user.id;
+        if (!canAssign) {
+          return res.status(403).json({ message: "Not authorized to assign conversations" });
+        }
+
+        if (assignedTo) {
+          const assignee = await storage.getUser(assignedTo);
+          if (!assignee || assignee.role !== 'VENDEDOR') {
+            return res.status(400).json({ message: "Conversations can only be assigned to a VENDEDOR" });
+          }
+        }
+        updates.assignedTo = assignedTo || null;
+      }
+
+      const conversation = await storage.updateConversation(access.conversation.id, updates);
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error updating conversation:", error);
+      res.status(500).json({ message: "Failed to update conversation" });
+    }
+  });
+
+  // SMS routes: gateway status and delivery receipts posted by the provider
+  app.get('/api/sms/status', isAuthenticated, async (_req, res) => {
+    const provider = smsService.getProvider();
+    res.json({ configured: !!provider, provider: provider?.name || null });
+  });
+
+  // Webhook sem sessão: o provedor se autentica com SMS_WEBHOOK_TOKEN (query ou header)
+  app.post('/api/webhooks/sms/delivery', async (req, res) => {
+    try {
+      if (!smsService.isValidWebhookToken(req.query.token || req.get('x-webhook-token'))) {
+        return res.status(401).json({ message: "Invalid webhook token" });
+      }
+
+      if (!smsService.handleDeliveryReceipt(req.body)) {
+        return res.status(400).json({ message: "Invalid delivery receipt" });
+      }
+      res.json({ received: true });
+    } catch (error) {
+      console.error("Error handling SMS delivery receipt:", error);
+      res.status(500).json({ message: "Failed to handle delivery receipt" });
+    }
+  });
+
+  registerSmsStandIn(app);
+
+  // Opt-out (LGPD) routes
+  app.get('/api/settings/opt-out', isAuthenticated, async (req: any, res) => {
+    try {
+      const settings = await optOutService.getSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching opt-out settings:", error);
+      res.status(500).json({ message: "Failed to fetch opt-out settings" });
+    }
+  });
+
+  app.put('/api/settings/opt-out', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user || !user.role || !['GESTOR', 'ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+        return res.status(403).json({ message: "Not authorized to change opt-out settings" });
+      }
+
+      const settingsSchema = z.object({
+        confirmationEnabled: z.boolean(),
+        confirmationMessage: z.string().max(1000),
+      });
+      const settings = await optOutService.updateSettings(settingsSchema.parse(req.body), userId);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid opt-out settings", errors: error.errors });
+      }
+      console.error("Error updating opt-out settings:", error);
+      res.status(500).json({ message: "Failed to update opt-out settings" });
+    }
+  });
+
+  // Limite global de mensagens por número (todas as campanhas e canais)
+  app.get('/api/settings/frequency-cap', isAuthenticated, async (req: any, res) => {
+    try {
+      const settings = await frequencyCap.getSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching frequency cap settings:", error);
+      res.status(500).json({ message: "Failed to fetch frequency cap settings" });
+    }
+  });
+
+  app.put('/api/settings/frequency-cap', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user || !user.role || !['ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+        return res.status(403).json({ message: "Not authorized to change frequency cap settings" });
+      }
+
+      const settingsSchema = z.object({
+        enabled: z.boolean(),
+        maxMessages: z.number().int().min(1).max(100),
+        windowDays: z.number().int().min(1).max(365),
+      });
+      const settings = await frequencyCap.updateSettings(settingsSchema.parse(req.body), userId);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid frequency cap settings", errors: error.errors });
+      }
+      console.error("Error updating frequency cap settings:", error);
+      res.status(500).json({ message: "Failed to update frequency cap settings" });
+    }
+  });
+
+  // Janela de tolerância para agendamentos perdidos (ex.: servidor fora do ar)
+  app.get('/api/settings/scheduler', isAuthenticated, async (req: any, res) => {
+    try {
+      const settings = await campaignScheduler.getSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching scheduler settings:", error);
+      res.status(500).json({ message: "Failed to fetch scheduler settings" });
+    }
+  });
+
+  app.put('/api/settings/scheduler', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user || !user.role || !['GESTOR', 'ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+        return res.status(403).json({ message: "Not authorized to change scheduler settings" });
+      }
+
+      const settingsSchema = z.object({
+        graceMinutes: z.number().int().min(0).max(7 * 24 * 60),
+      });
+      const settings = await campaignScheduler.updateSettings(settingsSchema.parse(req.body), userId);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid scheduler settings", errors: error.errors });
+      }
+      console.error("Error updating scheduler settings:", error);
+      res.status(500).json({ message: "Failed to update scheduler settings" });
+    }
+  });
+
+  // Feriados estaduais e municipais além do calendário nacional embutido
+  app.get('/api/settings/holidays', isAuthenticated, async (req: any, res) => {
+    try {
+      const calendar = await holidayCalendar.getCalendar();
+      res.json(calendar);
+    } catch (error) {
+      console.error("Error fetching holiday calendar:", error);
+      res.status(500).json({ message: "Failed to fetch holiday calendar" });
+    }
+  });
+
+  app.put('/api/settings/holidays', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user || !user.role || !['GESTOR', 'ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+        return res.status(403).json({ message: "Not authorized to change the holiday calendar" });
+      }
+
+      const holidayRuleSchema = z.object({
+        name: z.string().min(1).max(100),
+        date: z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/).optional(),
+        easterOffset: z.number().int().min(-100).max(100).optional(),
+      }).refine(rule => rule.date !== undefined || rule.easterOffset !== undefined, {
+        message: "Holiday needs a date or an Easter offset",
+      });
+      const calendarSchema = z.object({
+        state: z.record(z.string().length(2), z.array(holidayRuleSchema)),
+        municipal: z.record(z.string().regex(/^[A-Za-z]{2}:.+$/), z.array(holidayRuleSchema)),
+      });
+      const parsed = calendarSchema.parse(req.body);
+
+      // Chaves normalizadas iguais às usadas na verificação ("SP:SAO PAULO")
+      const calendar = {
+        state: Object.fromEntries(Object.entries(parsed.state).map(([state, rules]) => [state.toUpperCase(), rules])),
+        municipal: Object.fromEntries(Object.entries(parsed.municipal).map(([key, rules]) => {
+          const [state, ...city] = key.split(':');
+          return [municipalityKey(state, city.join(':')), rules];
+        })),
+      };
+      res.json(await holidayCalendar.updateCalendar(calendar, userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid holiday calendar", errors: error.errors });
+      }
+      console.error("Error updating holiday calendar:", error);
+      res.status(500).json({ message: "Failed to update holiday calendar" });
+    }
+  });
+
+  // Tabela de preços usada para custear cada envio de campanha
+  app.get('/api/settings/pricing', isAuthenticated, async (req: any, res) => {
+    try {
+      const pricing = await budgetService.getPricing();
+      res.json(pricing);
+    } catch (error) {
+      console.error("Error fetching pricing:", error);
+      res.status(500).json({ message: "Failed to fetch pricing" });
+    }
+  });
+
+  app.put('/api/settings/pricing', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user || !user.role || !['GESTOR', 'ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+        return res.status(403).json({ message: "Not authorized to change pricing" });
+      }
+
+      const priceSchema = z.number().min(0).max(1000);
+      const pricingSchema = z.object({
+        currency: z.string().trim().min(1).max(5),
+        perMessage: z.object({
+          WHATSAPP: priceSchema,
+          SMS: priceSchema,
+          EMAIL: priceSchema,
+        }),
+      });
+      const pricing = await budgetService.updatePricing(pricingSchema.parse(req.body), userId);
+      res.json(pricing);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pricing", errors: error.errors });
+      }
+      console.error("Error updating pricing:", error);
+      res.status(500).json({ message: "Failed to update pricing" });
+    }
+  });
+
+  // Orçamentos mensais por usuário ou equipe
+  app.get('/api/teams', isAuthenticated, async (req: any, res) => {
+    try {
+      const teams = await storage.getTeams();
+      res.json(teams);
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  });
+
+  app.put('/api/budgets', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!user || !user.role || !['GESTOR', 'ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+        return res.status(403).json({ message: "Not authorized to change budgets" });
+      }
+
+      const budgetSchema = z.object({
+        scope: z.enum(['USER', 'TEAM']),
+        targetId: z.string().min(1),
+        monthlyLimit: z.number().positive().max(99999999),
+      });
+      const { scope, targetId, monthlyLimit } = budgetSchema.parse(req.body);
+
+      const target = scope === 'USER'
+        ? await storage.getUser(targetId)
+        : (await storage.getTeams()).find(team => team.id === targetId);
+      if (!target) {
+        return res.status(404).json({ message: scope === 'USER' ? "User not found" : "Team not found" });
+      }
+
+      const budget = await storage.upsertSpendingBudget({
+        scope,
+        userId: scope === 'USER' ? targetId : null,
+        teamId: scope === 'TEAM' ? targetId : null,
+        monthlyLimit: monthlyLimit.toFixed(2),
+        updatedBy: userId,
+      });
+      res.json(budget);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid budget", errors: error.errors });
+      }
+      console.error("Error saving budget:", error);
+      res.status(500).json({ message: "Failed to save budget" });
+    }
+  });
+
+  app.delete('/api/budgets/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !user.role || !['GESTOR', 'ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+        return res.status(403).json({ message: "Not authorized to change budgets" });
+      }
+
+      const budget = await storage.getSpendingBudgetById(req.params.id);
+      if (!budget) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+
+      await storage.deleteSpendingBudget(budget.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting budget:", error);
+      res.status(500).json({ message: "Failed to delete budget" });
+    }
+  });
+
+  // Gastos do mês comparados aos orçamentos
+  app.get('/api/costs/dashboard', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const month = typeof req.query.month === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(req.query.month)
+        ? req.query.month
+        : undefined;
+      const dashboard = await budgetService.getDashboard(user, month);
+      res.json(dashboard);
+    } catch (error) {
+      console.error("Error fetching cost dashboard:", error);
+      res.status(500).json({ message: "Failed to fetch cost dashboard" });
+    }
+  });
+
+  // Evidências de descadastro para auditoria LGPD
+  app.get('/api/consent-records', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user || !user.role || !['GESTOR', 'ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
+        return res.status(403).json({ message: "Not authorized to view consent records" });
+      }
+
+      const { phone } = req.query;
+      const records = await storage.getConsentRecords(phone ? formatBrazilianPhone(phone as string) : undefined);
+      res.json(records);
+    } catch (error) {
+      console.error("Error fetching consent records:", error);
+      res.status(500).json({ message: "Failed to fetch consent records" });
+    }
+  });
+
+  // Create HTTP server and setup WebSocket
+  const httpServer = createServer(app);
+  
+  // Setup Socket.IO for real-time WhatsApp status updates
+  const io = new SocketIOServer(httpServer, {
+    cors: {
+      origin: process.env.NODE_ENV === "development" ? "http://localhost:5000" : false,
+      methods: ["GET", "POST"]
+    },
+    path: "/socket.io"
+  });
+  // O handshake carrega a sessão do cookie: a identidade do socket vem dela
+  io.engine.use(getSession());
+
+  // Store user socket mappings for targeted updates
+  const userSockets = new Map<string, string>(); // userId -> socketId
+  const socketUsers = new Map<string, string>(); // socketId -> userId
+
+  io.on('connection', (socket) => {
+    console.log('Client connected to WhatsApp WebSocket:', socket.id);
+
+    // Handle user authentication for socket: the userId sent by the client is ignored,
+    // the socket belongs to the user logged in on the session cookie
+    socket.on('authenticate', () => {
+      const userId = getSessionUserId(socket.request);
+      if (!userId) {
+        socket.emit('unauthorized', { message: 'Not authenticated' });
+        return;
+      }
+
+      userSockets.set(userId, socket.id);
+      socketUsers.set(socket.id, userId);
+      console.log(`User ${userId} authenticated on socket ${socket.id}`);
+      
+      // Send current WhatsApp status
+      whatsappService.getConnectionStatus(userId).then(status => {
+        socket.emit('whatsapp-status', {
+          success: true,
+          data: status
+        });
+      }).catch(error => {
+        console.error('Error getting status for new connection:', error);
+      });
+    });
+
+    // Monitoring page of a campaign: live events go to the campaign room (owner or managers only)
+    socket.on('campaign:subscribe', async (data: { campaignId?: string }) => {
+      const userId = socketUsers.get(socket.id);
+      if (!userId || !data?.campaignId) return;
+
+      try {
+        const [user, campaign] = await Promise.all([
+          storage.getUser(userId),
+          storage.getMassCampaignById(data.campaignId),
+        ]);
+        if (!user || !campaign) return;
+        const owner = campaign.userId === user.id ? user : await storage.getUser(campaign.userId);
+        if (!canAccessCampaign(campaign, user, owner)) {
+          console.warn(`User ${userId} is not allowed to follow campaign ${campaign.id}`);
+          return;
+        }
+        socket.join(`campaign:${campaign.id}`);
+      } catch (error) {
+        console.error('Error subscribing to campaign events:', error);
+      }
+    });
+
+    socket.on('campaign:unsubscribe', (data: { campaignId?: string }) => {
+      if (!data?.campaignId) return;
+      socket.leave(`campaign:${data.campaignId}`);
+    });
+
+    socket.on('disconnect', () => {
+      const userId = socketUsers.get(socket.id);
+      if (userId) {
+        userSockets.delete(userId);
+        socketUsers.delete(socket.id);
+        console.log(`User ${userId} disconnected from WhatsApp WebSocket`);
+      }
+    });
+  });
+
+  // Listen to WhatsApp service events and emit to connected clients
+  whatsappService.on('statusUpdate', (data: {
+    userId: string;
     sessionId: string;
     status: string;
     qrCode?: string;
@@ -2280,6 +3915,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Notify the campaign owner's monitoring page when a contact replies
+  inboundMessageService.on('campaignReply', (data: CampaignReplyEvent) => {
+    const socketId = userSockets.get(data.userId);
+    if (socketId) {
+      io.to(socketId).emit('campaign-reply', {
+        campaignId: data.campaignId,
+        contactId: data.contactId,
+        phone: data.phone,
+        message: data.message,
+        timestamp: data.timestamp
+      });
+    }
+  });
+
+  // Warn the campaign owner when the circuit breaker pauses a campaign
+  campaignThrottle.on('campaignAlert', (data: CampaignAlertEvent) => {
+    const socketId = userSockets.get(data.userId);
+    if (socketId) {
+      io.to(socketId).emit('campaign-alert', {
+        campaignId: data.campaignId,
+        campaignName: data.campaignName,
+        reason: data.reason,
+        timestamp: data.timestamp
+      });
+    }
+  });
+
+  // Sends, acks, replies and status changes with the updated counters, to everyone watching the campaign
+  campaignEvents.on('campaignEvent', (event: CampaignEvent) => {
+    io.to(`campaign:${event.campaignId}`).emit('campaign-event', event);
+  });
+
+  // Refresh the inbox of the number owner and of the assigned seller
+  inboxService.on('conversationUpdate', (data: ConversationUpdateEvent) => {
+    const recipients = new Set([data.ownerId, data.assignedTo].filter(Boolean) as string[]);
+    recipients.forEach((userId) => {
+      const socketId = userSockets.get(userId);
+      if (socketId) {
+        io.to(socketId).emit('inbox-update', {
+          conversationId: data.conversationId,
+          direction: data.direction
+        });
+      }
+    });
+  });
+
   console.log('WhatsApp WebSocket server initialized');
 
   // Groq AI Routes
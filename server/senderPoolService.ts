@@ -0,0 +1,149 @@
+import { storage } from './storage';
+import { whatsappService, type WhatsAppSenderStatus } from './whatsappService';
+import type { ChannelErrorCode } from './channels/types';
+import type { WhatsappSender } from '@shared/schema';
+
+// Erros de envio que indicam problema no número remetente (e não no destinatário)
+const SENDER_FAILURE_CODES: ChannelErrorCode[] = ['SESSION_CLOSED', 'RATE_LIMITED', 'UNKNOWN'];
+
+/**
+ * Rotates campaign sends across the connected numbers of a sender pool using
+ * smooth weighted round-robin, respecting each number's daily cap. Numbers that
+ * disconnect or fail are taken out of the pool automatically.
+ */
+class SenderPoolService {
+  // Peso acumulado de cada número no rodízio, por pool
+  private currentWeights: Map<string, Map<string, number>> = new Map();
+
+  constructor() {
+    whatsappService.on('senderStatus', (event: WhatsAppSenderStatus) => {
+      this.handleSenderStatus(event).catch((error) => {
+        console.error(`[SenderPool] Error handling status of sender ${event.senderId}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Start a WhatsApp session for the sender and return its QR code
+   */
+  async connectSender(sender: WhatsappSender): Promise<{ sessionId: string; qrCode: string }> {
+    const result = await whatsappService.generateQRCode(sender.ownerId, { senderId: sender.id });
+    await storage.updateWhatsappSender(sender.id, {
+      sessionId: result.sessionId,
+      status: 'WAITING_QR',
+      removedReason: null,
+      removedAt: null
+    });
+    return result;
+  }
+
+  async disconnectSender(sender: WhatsappSender): Promise<void> {
+    await whatsappService.disconnectSender(sender.id);
+  }
+
+  /**
+   * Pick the next sender of the pool and reserve one send on its daily cap.
+   * Returns undefined when no connected sender has quota left.
+   */
+  async pickSender(poolId: string): Promise<WhatsappSender | undefined> {
+    let candidates = await this.getAvailableSenders(poolId);
+
+    while (candidates.length > 0) {
+      const sender = this.nextByWeight(poolId, candidates);
+      const reserved = await storage.reserveSenderQuota(sender.id);
+      if (reserved) return reserved;
+
+      // Cota esgotada (ou número retirado por outra instância): tenta o próximo
+      candidates = candidates.filter(candidate => candidate.id !== sender.id);
+    }
+
+    return undefined;
+  }
+
+  async hasAvailableSender(poolId: string): Promise<boolean> {
+    const senders = await this.getAvailableSenders(poolId);
+    return senders.length > 0;
+  }
+
+  /**
+   * Take the sender out of the pool when a send failed because of the number itself
+   */
+  async handleSendError(sender: WhatsappSender, errorCode: ChannelErrorCode | undefined, error: string): Promise<void> {
+    if (!SENDER_FAILURE_CODES.includes(errorCode || 'UNKNOWN')) return;
+    await this.removeSender(sender.id, `Send error (${errorCode || 'UNKNOWN'}): ${error}`);
+  }
+
+  private async getAvailableSenders(poolId: string): Promise<WhatsappSender[]> {
+    const senders = await storage.getPoolSenders(poolId);
+    const today = new Date().toISOString().slice(0, 10);
+
+    return senders.filter(sender =>
+      sender.active &&
+      !!sender.sessionId &&
+      whatsappService.isSessionConnected(sender.sessionId) &&
+      (sender.sentTodayDate !== today || (sender.sentToday || 0) < (sender.dailyCap || 0))
+    );
+  }
+
+  // Smooth weighted round-robin (nginx): distribui os envios proporcionalmente ao peso
+  // sem mandar rajadas seguidas pelo mesmo número
+  private nextByWeight(poolId: string, candidates: WhatsappSender[]): WhatsappSender {
+    const weights = this.currentWeights.get(poolId) || new Map<string, number>();
+    this.currentWeights.set(poolId, weights);
+
+    let totalWeight = 0;
+    let selected = candidates[0];
+    for (const sender of candidates) {
+      const weight = Math.max(1, sender.weight || 1);
+      totalWeight += weight;
+      weights.set(sender.id, (weights.get(sender.id) || 0) + weight);
+      if (weights.get(sender.id)! > (weights.get(selected.id) || 0)) {
+        selected = sender;
+      }
+    }
+
+    weights.set(selected.id, weights.get(selected.id)! - totalWeight);
+    return selected;
+  }
+
+  private async handleSenderStatus(event: WhatsAppSenderStatus): Promise<void> {
+    const sender = await storage.getWhatsappSenderById(event.senderId);
+    // Sessão antiga de um número que já reconectou com outra sessão
+    if (!sender || sender.sessionId !== event.sessionId) return;
+
+    if (event.status === 'CONNECTED') {
+      await storage.updateWhatsappSender(sender.id, {
+        status: 'CONNECTED',
+        connectedPhone: event.connectedPhone || sender.connectedPhone,
+        active: true,
+        removedReason: null,
+        removedAt: null
+      });
+      console.log(`[SenderPool] Sender ${sender.id} connected as ${event.connectedPhone}`);
+      return;
+    }
+
+    if (event.status === 'DISCONNECTED' || event.status === 'ERROR') {
+      await storage.updateWhatsappSender(sender.id, { status: event.status });
+      await this.removeSender(sender.id, event.errorMessage || 'WhatsApp session disconnected');
+      return;
+    }
+
+    await storage.updateWhatsappSender(sender.id, { status: event.status });
+  }
+
+  private async removeSender(senderId: string, reason: string): Promise<void> {
+    const sender = await storage.getWhatsappSenderById(senderId);
+    if (!sender || !sender.active) return;
+
+    await storage.updateWhatsappSender(senderId, {
+      active: false,
+      removedReason: reason,
+      removedAt: new Date()
+    });
+    this.currentWeights.get(sender.poolId)?.delete(senderId);
+    console.log(`[SenderPool] Sender ${senderId} removed from pool ${sender.poolId}: ${reason}`);
+  }
+}
+
+export const senderPoolService = new SenderPoolService();
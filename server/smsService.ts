@@ -0,0 +1,201 @@
+import { EventEmitter } from 'events';
+import { timingSafeEqual } from 'crypto';
+import { splitSmsSegments, type SmsSegmentInfo } from '@shared/smsSegments';
+import type { ChannelDeliveryReceipt } from './channels/types';
+
+export type SmsSendErrorCode = 'INVALID_RECIPIENT' | 'SESSION_CLOSED' | 'RATE_LIMITED' | 'UNKNOWN';
+
+// Erro de envio com código para que o chamador decida como tratar a falha
+export class SmsSendError extends Error {
+  constructor(public readonly code: SmsSendErrorCode, message: string) {
+    super(message);
+    this.name = 'SmsSendError';
+  }
+}
+
+export interface SmsSendRequest {
+  to: string; // E.164, ex: +5511999998888
+  text: string;
+  callbackUrl?: string; // webhook de recibo de entrega
+}
+
+export interface SmsSendResponse {
+  providerMessageId: string;
+}
+
+/**
+ * An SMS gateway. Providers throw SmsSendError on failures and translate their
+ * delivery receipt payloads into channel receipts.
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(request: SmsSendRequest): Promise<SmsSendResponse>;
+  parseReceipt(payload: unknown): ChannelDeliveryReceipt | null;
+}
+
+export interface SmsSendResult extends SmsSegmentInfo {
+  messageId: string;
+}
+
+// Status de recibo aceitos pelo protocolo HTTP genérico
+const RECEIPT_STATUSES: Record<string, ChannelDeliveryReceipt["status"]> = {
+  SENT: 'SENT',
+  ACCEPTED: 'SENT',
+  DELIVERED: 'DELIVERED',
+  UNDELIVERED: 'FAILED',
+  FAILED: 'FAILED',
+  REJECTED: 'FAILED',
+  EXPIRED: 'FAILED',
+};
+
+/**
+ * Generic JSON-over-HTTP gateway, also spoken by the local stand-in (server/smsStandIn.ts):
+ *   POST {baseUrl}/messages {to, text, callbackUrl} -> {id}
+ *   receipts: POST callbackUrl {id, status, error?, timestamp?}
+ */
+export function createHttpSmsProvider(options: { baseUrl: string; token?: string; name?: string }): SmsProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: options.name || 'http',
+
+    async send(request: SmsSendRequest): Promise<SmsSendResponse> {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/messages`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+          },
+          body: JSON.stringify(request),
+          signal: AbortSignal.timeout(15000),
+        });
+      } catch (error) {
+        throw new SmsSendError('SESSION_CLOSED', `SMS gateway unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const body = await response.json().catch(() => ({} as Record<string, unknown>));
+      if (!response.ok) {
+        const message = `SMS gateway error ${response.status}: ${body?.error || response.statusText}`;
+        if (response.status === 400 || response.status === 422) throw new SmsSendError('INVALID_RECIPIENT', message);
+        if (response.status === 429) throw new SmsSendError('RATE_LIMITED', message);
+        if (response.status === 401 || response.status === 403) throw new SmsSendError('SESSION_CLOSED', message);
+        throw new SmsSendError('UNKNOWN', message);
+      }
+
+      if (!body?.id) {
+        throw new SmsSendError('UNKNOWN', 'SMS gateway did not return a message id');
+      }
+      return { providerMessageId: String(body.id) };
+    },
+
+    parseReceipt(payload: unknown): ChannelDeliveryReceipt | null {
+      const body = (payload || {}) as Record<string, unknown>;
+      const status = RECEIPT_STATUSES[String(body.status || '').toUpperCase()];
+      if (!body.id || !status) return null;
+
+      const timestamp = body.timestamp ? new Date(String(body.timestamp)) : new Date();
+      return {
+        messageId: String(body.id),
+        status,
+        timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+        error: body.error ? String(body.error) : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Sends SMS through the configured gateway (SMS_PROVIDER_URL) and turns its
+ * delivery receipts into 'deliveryReceipt' events for the campaign engine.
+ */
+class SmsService extends EventEmitter {
+  private provider: SmsProvider | null | undefined;
+
+  // Provider montado a partir do ambiente na primeira chamada; null = SMS não configurado
+  getProvider(): SmsProvider | null {
+    if (this.provider === undefined) {
+      const baseUrl = process.env.SMS_PROVIDER_URL;
+      this.provider = baseUrl
+        ? createHttpSmsProvider({ baseUrl, token: process.env.SMS_PROVIDER_TOKEN, name: process.env.SMS_PROVIDER_NAME })
+        : null;
+    }
+    return this.provider;
+  }
+
+  setProvider(provider: SmsProvider | null): void {
+    this.provider = provider;
+  }
+
+  isConfigured(): boolean {
+    return !!this.getProvider();
+  }
+
+  /**
+   * Send one SMS. Returns the provider message id and the segments that will be billed.
+   */
+  async send(phone: string, text: string): Promise<SmsSendResult> {
+    const provider = this.getProvider();
+    if (!provider) {
+      throw new SmsSendError('SESSION_CLOSED', 'No SMS provider is configured (SMS_PROVIDER_URL)');
+    }
+
+    const to = toE164(phone);
+    if (!to) {
+      throw new SmsSendError('INVALID_RECIPIENT', `Invalid phone number for SMS: ${phone}`);
+    }
+
+    const segments = splitSmsSegments(text);
+    const { providerMessageId } = await provider.send({ to, text, callbackUrl: this.getCallbackUrl() });
+    return { ...segments, messageId: providerMessageId };
+  }
+
+  /**
+   * Apply a delivery receipt posted by the provider to the webhook.
+   * Returns false when the payload is not a receipt the provider understands.
+   */
+  handleDeliveryReceipt(payload: unknown): boolean {
+    const receipt = this.getProvider()?.parseReceipt(payload);
+    if (!receipt) return false;
+
+    this.emit('deliveryReceipt', receipt);
+    return true;
+  }
+
+  // Sem SMS_WEBHOOK_TOKEN o webhook recusa tudo: recibos falsos mexeriam nos contadores
+  isValidWebhookToken(token: unknown): boolean {
+    const expected = process.env.SMS_WEBHOOK_TOKEN;
+    if (!expected || typeof token !== 'string') return false;
+
+    const received = Buffer.from(token);
+    const wanted = Buffer.from(expected);
+    return received.length === wanted.length && timingSafeEqual(received, wanted);
+  }
+
+  /**
+   * Webhook address sent to the provider with each message: SMS_CALLBACK_URL, or the
+   * webhook route under the public address of the app (PUBLIC_BASE_URL, else the
+   * first Replit domain). Without a public address or token no receipt is requested.
+   */
+  private getCallbackUrl(): string | undefined {
+    if (process.env.SMS_CALLBACK_URL) return process.env.SMS_CALLBACK_URL;
+
+    const token = process.env.SMS_WEBHOOK_TOKEN;
+    const domain = process.env.REPLIT_DOMAINS?.split(',')[0]?.trim();
+    const baseUrl = process.env.PUBLIC_BASE_URL || (domain ? `https://${domain}` : undefined);
+    if (!token || !baseUrl) return undefined;
+
+    return `${baseUrl.replace(/\/+$/, '')}/api/webhooks/sms/delivery?token=${encodeURIComponent(token)}`;
+  }
+}
+
+// Telefones da base ficam como +55DDDNUMERO; aceita também só os dígitos com ou sem DDI
+function toE164(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 10 || digits.length === 11) return `+55${digits}`;
+  if (digits.length >= 12 && digits.length <= 15) return `+${digits}`;
+  return null;
+}
+
+export const smsService = new SmsService();
@@ -0,0 +1,66 @@
+import type { Express } from "express";
+import { nanoid } from "nanoid";
+
+const RECEIPT_DELAY = 2000;
+const MAX_KEPT_MESSAGES = 500;
+
+interface StandInMessage {
+  id: string;
+  to: string;
+  text: string;
+  status: 'SENT' | 'DELIVERED' | 'UNDELIVERED';
+  createdAt: string;
+}
+
+/**
+ * Local SMS gateway for testing, speaking the same protocol as createHttpSmsProvider.
+ * Enabled with SMS_STAND_IN=true; point SMS_PROVIDER_URL at http://localhost:5000/api/sms-stand-in.
+ * Outcome depends only on the last digit of the number, like the fake channel:
+ *   0 -> rejected (invalid number), 9 -> UNDELIVERED receipt, anything else -> DELIVERED receipt
+ */
+export function registerSmsStandIn(app: Express): void {
+  if (process.env.SMS_STAND_IN !== 'true') return;
+
+  const messages: StandInMessage[] = [];
+  console.log('[SmsStandIn] Local SMS gateway enabled at /api/sms-stand-in');
+
+  app.post('/api/sms-stand-in/messages', (req, res) => {
+    const { to, text, callbackUrl } = req.body || {};
+    if (typeof to !== 'string' || typeof text !== 'string' || !text) {
+      return res.status(400).json({ error: 'to and text are required' });
+    }
+
+    const lastDigit = to.replace(/\D/g, '').slice(-1);
+    if (lastDigit === '0') {
+      return res.status(422).json({ error: 'Invalid destination number (stand-in)' });
+    }
+
+    const message: StandInMessage = { id: `standin_${nanoid(12)}`, to, text, status: 'SENT', createdAt: new Date().toISOString() };
+    messages.unshift(message);
+    messages.splice(MAX_KEPT_MESSAGES);
+
+    if (typeof callbackUrl === 'string' && callbackUrl) {
+      setTimeout(() => {
+        message.status = lastDigit === '9' ? 'UNDELIVERED' : 'DELIVERED';
+        fetch(callbackUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: message.id,
+            status: message.status,
+            error: message.status === 'UNDELIVERED' ? 'Handset unreachable (stand-in)' : undefined,
+            timestamp: new Date().toISOString(),
+          }),
+        }).catch((error) => {
+          console.error(`[SmsStandIn] Error posting receipt for ${message.id}:`, error);
+        });
+      }, RECEIPT_DELAY);
+    }
+
+    res.status(201).json({ id: message.id, status: message.status });
+  });
+
+  app.get('/api/sms-stand-in/messages', (_req, res) => {
+    res.json(messages);
+  });
+}
@@ -12,13 +12,27 @@ import {
   teams,
   massCampaigns,
   campaignContacts,
+  campaignVariants,
+  campaignSteps,
   phoneBlacklist,
   phoneValidations,
   phoneValidationCache,
   listValidations,
   campaignLogs,
+  campaignReviews,
+  campaignContactAttempts,
   whatsappConnections,
+  senderPools,
+  whatsappSenders,
+  emailConfigurations,
+  mediaAssets,
+  spendingBudgets,
+  conversations,
+  conversationMessages,
+  consentRecords,
+  systemSettings,
   type User,
+  type Team,
   type UpsertUser,
   type Company,
   type Lead,
@@ -27,12 +41,27 @@ import {
   type Interaction,
   type MassCampaign,
   type CampaignContact,
+  type CampaignVariant,
+  type CampaignStep,
   type PhoneBlacklist,
   type PhoneValidation,
   type PhoneValidationCache,
   type ListValidation,
   type CampaignLog,
+  type CampaignReview,
+  type CampaignContactAttempt,
   type WhatsappConnection,
+  type SenderPool,
+  type WhatsappSender,
+  type EmailConfiguration,
+  type MediaAsset,
+  type SpendingBudget,
+  type Notification,
+  type Conversation,
+  type ConversationMessage,
+  type ConsentRecord,
+  type SystemSetting,
+  type InsertNotification,
   type InsertCompany,
   type InsertLead,
   type InsertSale,
@@ -40,15 +69,86 @@ import {
   type InsertInteraction,
   type InsertMassCampaign,
   type InsertCampaignContact,
+  type InsertCampaignVariant,
+  type InsertCampaignStep,
   type InsertPhoneBlacklist,
   type InsertPhoneValidation,
   type InsertPhoneValidationCache,
   type InsertListValidation,
   type InsertCampaignLog,
+  type InsertCampaignReview,
+  type InsertCampaignContactAttempt,
   type InsertWhatsappConnection,
+  type InsertSenderPool,
+  type InsertWhatsappSender,
+  type InsertEmailConfiguration,
+  type InsertMediaAsset,
+  type InsertSpendingBudget,
+  type InsertConversation,
+  type InsertConversationMessage,
+  type InsertConsentRecord,
 } from "@shared/schema";
+import type { VariantCounts } from "@shared/abTest";
 import { db } from "./db";
-import { eq, desc, and, ilike, count, sql, sum } from "drizzle-orm";
+import { eq, desc, and, or, isNull, inArray, ilike, count, sql, sum, lte } from "drizzle-orm";
+
+// Contadores de campanha atualizados com incremento atômico no SQL
+export type MassCampaignCounter = 'sentCount' | 'successCount' | 'errorCount' | 'deliveredCount' | 'readCount' | 'repliedCount';
+export type CampaignContactSendStatus = NonNullable<CampaignContact["sendStatus"]>;
+
+// Conversa do inbox com nomes resolvidos para a listagem
+export type ConversationSummary = Conversation & {
+  companyName: string | null;
+  assigneeName: string | null;
+};
+
+export type CampaignVariantStats = VariantCounts & { lastSentAt: Date | null };
+
+export type SequenceExitReason = NonNullable<CampaignContact["sequenceExitReason"]>;
+
+export interface CampaignSequenceStats {
+  steps: { stepNumber: number; sent: number; failed: number; repliedAfter: number }[];
+  awaiting: number; // contatos aguardando o próximo follow-up
+  exits: Record<SequenceExitReason, number>;
+}
+
+export interface CampaignSenderCount {
+  senderId: string | null;
+  label: string | null;
+  connectedPhone: string | null;
+  sent: number;
+  failed: number;
+}
+
+// Gasto de um período: envios (tabela de preços) e validações de número
+export interface SpendTotals {
+  sendingCost: number;
+  validationCost: number;
+}
+
+// Reserva de contatos da fila de envio por um worker
+export interface ContactClaimOptions {
+  owner: string; // instância que reserva
+  limit: number;
+  ttlMs: number; // a reserva expira se o worker não concluir
+  requireVariant?: boolean; // teste A/B com amostra: só contatos já com variante
+}
+
+// Contato de uma linha do monitoramento: canal que o alcançou e custo de cada tentativa
+export interface ContactChannelSummary {
+  contactId: string;
+  phone: string | null;
+  razaoSocial: string | null;
+  channel: CampaignContact["channel"];
+  media: { id: string; name: string; kind: MediaAsset["kind"] } | null; // anexo que foi no envio
+  totalCost: number;
+  attempts: { channel: CampaignContactAttempt["channel"]; status: CampaignContactAttempt["status"]; cost: number }[];
+}
+
+export interface ConversationFilters {
+  visibleTo?: string; // vendedor: conversas do próprio número, atribuídas a ele ou sem responsável
+  status?: NonNullable<Conversation["status"]>;
+}
 
 // Helper para verificar se db está disponível
 const hasDb = () => db !== null && db !== undefined;
@@ -74,6 +174,7 @@ export interface IStorage {
   createLead(lead: InsertLead): Promise<Lead>;
   updateLead(id: string, updates: Partial<Lead>): Promise<Lead>;
   getLeadById(id: string): Promise<Lead | undefined>;
+  getLeadsByCompanyPhone(userId: string, phones: string[]): Promise<Lead[]>;
   
   // Sales operations
   getSales(userId?: string): Promise<Sale[]>;
@@ -84,10 +185,13 @@ export interface IStorage {
   // Campaign operations
   getCampaigns(userId?: string): Promise<Campaign[]>;
   createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  incrementCampaignResponded(id: string): Promise<void>;
   
   // Interaction operations
   getInteractions(leadId: string): Promise<Interaction[]>;
   createInteraction(interaction: InsertInteraction): Promise<Interaction>;
+  updateInteraction(id: string, updates: Partial<Interaction>): Promise<Interaction | undefined>;
+  getLatestAwaitingReplyInteraction(leadId: string, type: Interaction["type"]): Promise<Interaction | undefined>;
   
   // Gamification operations
   getUserRankings(period?: string): Promise<any[]>;
@@ -98,6 +202,7 @@ export interface IStorage {
   getTeamStats(managerId: string): Promise<any>;
   
   // Team management operations
+  getTeams(): Promise<Team[]>;
   getTeamMembers(managerId?: string): Promise<User[]>;
   createTeamMember(userData: { email: string; firstName: string; lastName: string; phone?: string; managerId: string; teamId?: string; monthlyGoal: number }): Promise<User>;
   updateTeamMember(userId: string, updates: Partial<User>): Promise<User>;
@@ -131,13 +236,46 @@ export interface IStorage {
   createMassCampaign(campaign: InsertMassCampaign): Promise<MassCampaign>;
   updateMassCampaign(id: string, updates: Partial<MassCampaign>): Promise<MassCampaign>;
   deleteMassCampaign(id: string): Promise<void>;
+  getRunningMassCampaigns(): Promise<MassCampaign[]>;
+  getDueScheduledCampaigns(now: Date): Promise<MassCampaign[]>;
+  updateScheduledCampaign(id: string, scheduledFor: Date, updates: Partial<MassCampaign>): Promise<MassCampaign | undefined>;
+  claimScheduledCampaign(id: string, scheduledFor: Date, owner: string, ttlMs: number): Promise<boolean>;
+  acquireCampaignLease(id: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseCampaignLease(id: string, owner: string): Promise<void>;
+  incrementMassCampaignCounters(id: string, increments: Partial<Record<MassCampaignCounter, number>>): Promise<MassCampaign | undefined>;
 
   // Campaign Contacts operations
   getCampaignContacts(campaignId: string): Promise<CampaignContact[]>;
+  countCampaignContacts(campaignId: string): Promise<number>;
+  getCampaignContactById(id: string): Promise<CampaignContact | undefined>;
   createCampaignContact(contact: InsertCampaignContact): Promise<CampaignContact>;
   createCampaignContactsBulk(contacts: InsertCampaignContact[]): Promise<CampaignContact[]>;
   updateCampaignContact(id: string, updates: Partial<CampaignContact>): Promise<CampaignContact>;
   getCampaignContactsByValidationStatus(campaignId: string, status: string): Promise<CampaignContact[]>;
+  getCampaignContactByMessageId(messageId: string): Promise<CampaignContact | undefined>;
+  getAwaitingReplyCampaignContacts(userId: string, phones: string[]): Promise<CampaignContact[]>;
+  advanceCampaignContactStatus(id: string, fromStatuses: CampaignContactSendStatus[], updates: Partial<CampaignContact>): Promise<CampaignContact | undefined>;
+  cancelPendingContactsByPhone(phones: string[], campaignStatuses: NonNullable<MassCampaign["status"]>[], reason: string): Promise<CampaignContact[]>;
+  claimPendingContacts(campaignId: string, options: ContactClaimOptions): Promise<CampaignContact[]>;
+  claimDueFollowUps(campaignId: string, options: Omit<ContactClaimOptions, 'requireVariant'>): Promise<CampaignContact[]>;
+  claimDueFallbacks(campaignId: string, options: Omit<ContactClaimOptions, 'requireVariant'>): Promise<CampaignContact[]>;
+  releaseContactClaims(ids: string[]): Promise<void>;
+  deferCampaignContacts(ids: string[], until: Date): Promise<void>;
+  getCampaignOutstandingWork(campaignId: string): Promise<{ pending: boolean; awaitingFollowUp: boolean }>;
+
+  // A/B test variant operations
+  getCampaignVariants(campaignId: string): Promise<CampaignVariant[]>;
+  createCampaignVariants(variants: InsertCampaignVariant[]): Promise<CampaignVariant[]>;
+  assignContactsToVariant(variantId: string, contactIds: string[]): Promise<void>;
+  assignUnassignedContactsToVariant(campaignId: string, variantId: string): Promise<number>;
+  getCampaignVariantStats(campaignId: string): Promise<CampaignVariantStats[]>;
+  selectCampaignWinner(campaignId: string, variantId: string): Promise<MassCampaign | undefined>;
+
+  // Drip sequence operations
+  getCampaignSteps(campaignId: string): Promise<CampaignStep[]>;
+  createCampaignSteps(steps: InsertCampaignStep[]): Promise<CampaignStep[]>;
+  endContactSequencesByPhone(phones: string[], campaignStatuses: NonNullable<MassCampaign["status"]>[], reason: SequenceExitReason): Promise<CampaignContact[]>;
+  getCampaignSequenceStats(campaignId: string): Promise<CampaignSequenceStats>;
 
   // Phone Blacklist operations
   getBlacklistedPhones(): Promise<PhoneBlacklist[]>;
@@ -147,6 +285,14 @@ export interface IStorage {
   removeFromBlacklist(id: string): Promise<void>;
   getBlacklistByCategory(category: string): Promise<PhoneBlacklist[]>;
 
+  // Consent evidence operations (LGPD)
+  createConsentRecord(record: InsertConsentRecord): Promise<ConsentRecord>;
+  getConsentRecords(phone?: string): Promise<ConsentRecord[]>;
+
+  // System settings operations
+  getSystemSetting(key: string): Promise<SystemSetting | undefined>;
+  upsertSystemSetting(key: string, value: unknown, updatedBy: string): Promise<SystemSetting>;
+
   // Phone Validation operations - tracks each validation event for quota/cost tracking  
   recordValidationEvent(validation: InsertPhoneValidation): Promise<PhoneValidation>;
   bulkRecordValidationEvents(validations: InsertPhoneValidation[]): Promise<void>;
@@ -155,6 +301,7 @@ export interface IStorage {
   
   // Phone Validation Cache operations - stores latest result per phone for performance
   getCachedValidation(phone: string): Promise<PhoneValidationCache | null>;
+  getCachedValidations(phones: string[]): Promise<PhoneValidationCache[]>;
   saveCachedValidation(validation: InsertPhoneValidationCache): Promise<PhoneValidationCache>;
   clearExpiredCache(): Promise<number>;
   clearExpiredValidations(): Promise<number>;
@@ -169,6 +316,22 @@ export interface IStorage {
   createCampaignLog(log: InsertCampaignLog): Promise<CampaignLog>;
   getCampaignLogsByContact(contactId: string): Promise<CampaignLog[]>;
 
+  // Campaign approval operations
+  createCampaignReview(review: InsertCampaignReview): Promise<CampaignReview>;
+  getCampaignReviews(campaignId: string): Promise<CampaignReview[]>;
+  getCampaignsPendingApproval(): Promise<MassCampaign[]>;
+  updateCampaignReviewStatus(id: string, fromStatuses: NonNullable<MassCampaign["status"]>[], updates: Partial<MassCampaign>): Promise<MassCampaign | undefined>;
+
+  // Contact send attempt history
+  createContactAttempt(attempt: InsertCampaignContactAttempt): Promise<CampaignContactAttempt>;
+  getContactAttempts(contactId: string): Promise<CampaignContactAttempt[]>;
+  getRecentCampaignAttempts(campaignId: string, since: Date, limit?: number): Promise<CampaignContactAttempt[]>;
+  countRecentSendsByPhone(phones: string[], since: Date): Promise<Map<string, number>>;
+  getContactChannelSummaries(contactIds: string[]): Promise<ContactChannelSummary[]>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+
   // WhatsApp Connection operations
   getWhatsappConnection(userId: string): Promise<WhatsappConnection | undefined>;
   createWhatsappConnection(connection: InsertWhatsappConnection): Promise<WhatsappConnection>;
@@ -176,6 +339,59 @@ export interface IStorage {
   deleteWhatsappConnection(id: string): Promise<void>;
   getWhatsappConnectionBySessionId(sessionId: string): Promise<WhatsappConnection | undefined>;
   getActiveWhatsappConnection(userId: string): Promise<WhatsappConnection | undefined>;
+
+  // Sender pool operations
+  getSenderPools(userId: string, teamId?: string | null): Promise<SenderPool[]>;
+  getSenderPoolById(id: string): Promise<SenderPool | undefined>;
+  createSenderPool(pool: InsertSenderPool): Promise<SenderPool>;
+  updateSenderPool(id: string, updates: Partial<SenderPool>): Promise<SenderPool>;
+  deleteSenderPool(id: string): Promise<void>;
+  getPoolSenders(poolId: string): Promise<WhatsappSender[]>;
+  getWhatsappSenderById(id: string): Promise<WhatsappSender | undefined>;
+  createWhatsappSender(sender: InsertWhatsappSender): Promise<WhatsappSender>;
+  updateWhatsappSender(id: string, updates: Partial<WhatsappSender>): Promise<WhatsappSender>;
+  deleteWhatsappSender(id: string): Promise<void>;
+  reserveSenderQuota(id: string): Promise<WhatsappSender | undefined>;
+  getCampaignSenderCounts(campaignId: string): Promise<CampaignSenderCount[]>;
+
+  // Email configuration operations
+  getEmailConfigurations(userId: string): Promise<EmailConfiguration[]>;
+  getEmailConfigurationById(id: string): Promise<EmailConfiguration | undefined>;
+  createEmailConfiguration(config: InsertEmailConfiguration): Promise<EmailConfiguration>;
+  updateEmailConfiguration(id: string, updates: Partial<EmailConfiguration>): Promise<EmailConfiguration>;
+  deleteEmailConfiguration(id: string): Promise<void>;
+  reserveEmailQuota(id: string): Promise<EmailConfiguration | undefined>;
+
+  // Media library operations
+  getMediaAssets(userId: string): Promise<MediaAsset[]>;
+  getMediaAssetById(id: string): Promise<MediaAsset | undefined>;
+  getMediaAssetsByIds(ids: string[]): Promise<MediaAsset[]>;
+  createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset>;
+  deleteMediaAsset(id: string): Promise<void>;
+  getActiveCampaignsUsingMedia(assetId: string): Promise<MassCampaign[]>;
+
+  // Budget operations
+  addCampaignSendingCost(id: string, amount: number): Promise<MassCampaign | undefined>;
+  markCampaignBudgetWarned(id: string): Promise<boolean>;
+  getCampaignsWithCosts(userIds?: string[]): Promise<MassCampaign[]>;
+  getSpendingBudgets(): Promise<SpendingBudget[]>;
+  getSpendingBudgetById(id: string): Promise<SpendingBudget | undefined>;
+  getSpendingBudgetFor(scope: SpendingBudget["scope"], targetId: string): Promise<SpendingBudget | undefined>;
+  upsertSpendingBudget(budget: InsertSpendingBudget): Promise<SpendingBudget>;
+  deleteSpendingBudget(id: string): Promise<void>;
+  markSpendingBudgetWarned(id: string, month: string): Promise<boolean>;
+  getSpendTotals(filter: { userId?: string; teamId?: string }, startDate: Date, endDate: Date): Promise<SpendTotals>;
+
+  // Inbox operations
+  getConversations(filters?: ConversationFilters): Promise<ConversationSummary[]>;
+  getConversationById(id: string): Promise<Conversation | undefined>;
+  getConversationByPhone(ownerId: string, phone: string): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation>;
+  updateConversationActivity(id: string, activity: { preview: string; at: Date; inbound: boolean }): Promise<void>;
+  getUnreadConversationCount(filters?: ConversationFilters): Promise<number>;
+  getConversationMessages(conversationId: string): Promise<ConversationMessage[]>;
+  createConversationMessage(message: InsertConversationMessage): Promise<ConversationMessage>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -273,6 +489,20 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(leads).orderBy(desc(leads.createdAt));
   }
 
+  // Telefones comparados apenas pelos dígitos, pois companies.phone não é normalizado
+  async getLeadsByCompanyPhone(userId: string, phones: string[]): Promise<Lead[]> {
+    if (!hasDb() || phones.length === 0) return [];
+    const rows = await db
+      .select({ lead: leads })
+      .from(leads)
+      .innerJoin(companies, eq(leads.companyId, companies.id))
+      .where(and(
+        eq(leads.userId, userId),
+        inArray(sql`regexp_replace(${companies.phone}, '\\D', '', 'g')`, phones)
+      ));
+    return rows.map((row: { lead: Lead }) => row.lead);
+  }
+
   async getLeadsByStatus(status: string): Promise<Lead[]> {
     if (!hasDb()) return [];
     return await db.select().from(leads).where(eq(leads.status, status));
@@ -365,6 +595,17 @@ export class DatabaseStorage implements IStorage {
     return newCampaign;
   }
 
+  async incrementCampaignResponded(id: string): Promise<void> {
+    if (!hasDb()) return;
+    await db
+      .update(campaigns)
+      .set({
+        totalResponded: sql`COALESCE(${campaigns.totalResponded}, 0) + 1`,
+        updatedAt: new Date()
+      })
+      .where(eq(campaigns.id, id));
+  }
+
   // Interaction operations
   async getInteractions(leadId: string): Promise<Interaction[]> {
     if (!hasDb()) return [];
@@ -383,6 +624,32 @@ export class DatabaseStorage implements IStorage {
     return newInteraction;
   }
 
+  async updateInteraction(id: string, updates: Partial<Interaction>): Promise<Interaction | undefined> {
+    if (!hasDb()) return undefined;
+    const [updatedInteraction] = await db
+      .update(interactions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(interactions.id, id))
+      .returning();
+    return updatedInteraction;
+  }
+
+  // Última interação enviada ao lead que ainda não recebeu resposta
+  async getLatestAwaitingReplyInteraction(leadId: string, type: Interaction["type"]): Promise<Interaction | undefined> {
+    if (!hasDb()) return undefined;
+    const [interaction] = await db
+      .select()
+      .from(interactions)
+      .where(and(
+        eq(interactions.leadId, leadId),
+        eq(interactions.type, type),
+        inArray(interactions.status, ["ENVIADO", "ENTREGUE", "VISUALIZADO"])
+      ))
+      .orderBy(desc(interactions.createdAt))
+      .limit(1);
+    return interaction;
+  }
+
   // Gamification operations
   async getUserRankings(period = "2024-01"): Promise<any[]> {
     if (!hasDb()) return [];
@@ -481,6 +748,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Team management operations
+  async getTeams(): Promise<Team[]> {
+    if (!hasDb()) return [];
+    return await db.select().from(teams).where(eq(teams.isActive, true)).orderBy(teams.name);
+  }
+
   async getTeamMembers(managerId?: string): Promise<User[]> {
     if (!hasDb()) return [];
     if (managerId) {
@@ -723,7 +995,118 @@ export class DatabaseStorage implements IStorage {
     await db.delete(massCampaigns).where(eq(massCampaigns.id, id));
   }
 
+  async getRunningMassCampaigns(): Promise<MassCampaign[]> {
+    return await db
+      .select()
+      .from(massCampaigns)
+      .where(eq(massCampaigns.status, "RUNNING"))
+      .orderBy(massCampaigns.startTime);
+  }
+
+  async getDueScheduledCampaigns(now: Date): Promise<MassCampaign[]> {
+    return await db
+      .select()
+      .from(massCampaigns)
+      .where(and(
+        eq(massCampaigns.status, "SCHEDULED"),
+        lte(massCampaigns.startTime, now)
+      ))
+      .orderBy(massCampaigns.startTime);
+  }
+
+  // Atualização condicional: só vale se a campanha ainda estiver agendada para o mesmo
+  // horário, assim apenas uma instância do scheduler "reivindica" cada agendamento
+  async updateScheduledCampaign(id: string, scheduledFor: Date, updates: Partial<MassCampaign>): Promise<MassCampaign | undefined> {
+    const [campaign] = await db
+      .update(massCampaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(massCampaigns.id, id),
+        eq(massCampaigns.status, "SCHEDULED"),
+        eq(massCampaigns.startTime, scheduledFor)
+      ))
+      .returning();
+    return campaign;
+  }
+
+  // Reserva o início de um agendamento usando o lease da campanha: o agendamento continua
+  // intacto, então se a instância cair antes de iniciar a campanha o lease expira e
+  // o próximo ciclo do scheduler tenta de novo
+  async claimScheduledCampaign(id: string, scheduledFor: Date, owner: string, ttlMs: number): Promise<boolean> {
+    const rows = await db
+      .update(massCampaigns)
+      .set({
+        leaseOwner: owner,
+        leaseExpiresAt: sql`NOW() + (${ttlMs} * INTERVAL '1 millisecond')`,
+      })
+      .where(and(
+        eq(massCampaigns.id, id),
+        eq(massCampaigns.status, "SCHEDULED"),
+        eq(massCampaigns.startTime, scheduledFor),
+        or(
+          isNull(massCampaigns.leaseOwner),
+          sql`${massCampaigns.leaseExpiresAt} < NOW()`
+        )
+      ))
+      .returning({ id: massCampaigns.id });
+    return rows.length > 0;
+  }
+
+  // Lease atômico: só é concedido se a campanha estiver RUNNING e o lease estiver
+  // livre, expirado ou já pertencer ao mesmo dono (renovação). Usa o relógio do banco
+  // para que instâncias diferentes concordem sobre a expiração.
+  async acquireCampaignLease(id: string, owner: string, ttlMs: number): Promise<boolean> {
+    const rows = await db
+      .update(massCampaigns)
+      .set({
+        leaseOwner: owner,
+        leaseExpiresAt: sql`NOW() + (${ttlMs} * INTERVAL '1 millisecond')`,
+      })
+      .where(and(
+        eq(massCampaigns.id, id),
+        eq(massCampaigns.status, "RUNNING"),
+        or(
+          isNull(massCampaigns.leaseOwner),
+          eq(massCampaigns.leaseOwner, owner),
+          sql`${massCampaigns.leaseExpiresAt} < NOW()`
+        )
+      ))
+      .returning({ id: massCampaigns.id });
+    return rows.length > 0;
+  }
+
+  async releaseCampaignLease(id: string, owner: string): Promise<void> {
+    await db
+      .update(massCampaigns)
+      .set({ leaseOwner: null, leaseExpiresAt: null })
+      .where(and(eq(massCampaigns.id, id), eq(massCampaigns.leaseOwner, owner)));
+  }
+
+  async incrementMassCampaignCounters(id: string, increments: Partial<Record<MassCampaignCounter, number>>): Promise<MassCampaign | undefined> {
+    const set: Record<string, any> = { updatedAt: new Date() };
+    for (const [counter, amount] of Object.entries(increments) as [MassCampaignCounter, number][]) {
+      if (!amount) continue;
+      const column = massCampaigns[counter];
+      set[counter] = sql`COALESCE(${column}, 0) + ${amount}`;
+    }
+    const [campaign] = await db.update(massCampaigns).set(set).where(eq(massCampaigns.id, id)).returning();
+    return campaign;
+  }
+
   // Campaign Contacts operations
+  async getCampaignContactById(id: string): Promise<CampaignContact | undefined> {
+    const [contact] = await db.select().from(campaignContacts).where(eq(campaignContacts.id, id));
+    return contact;
+  }
+
+  async countCampaignContacts(campaignId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(campaignContacts)
+      .where(eq(campaignContacts.campaignId, campaignId));
+    return result?.count || 0;
+  }
+
   async getCampaignContacts(campaignId: string): Promise<CampaignContact[]> {
     return await db
       .select()
@@ -772,6 +1155,369 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  async getCampaignContactByMessageId(messageId: string): Promise<CampaignContact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(campaignContacts)
+      .where(eq(campaignContacts.messageId, messageId))
+      .limit(1);
+    return contact;
+  }
+
+  // Contatos de campanhas do usuário que já receberam mensagem e ainda não responderam
+  async getAwaitingReplyCampaignContacts(userId: string, phones: string[]): Promise<CampaignContact[]> {
+    if (phones.length === 0) return [];
+    const rows = await db
+      .select({ contact: campaignContacts })
+      .from(campaignContacts)
+      .innerJoin(massCampaigns, eq(campaignContacts.campaignId, massCampaigns.id))
+      .where(and(
+        eq(massCampaigns.userId, userId),
+        inArray(campaignContacts.phone, phones),
+        inArray(campaignContacts.sendStatus, ["SENT", "DELIVERED", "READ"])
+      ));
+    return rows.map((row: { contact: CampaignContact }) => row.contact);
+  }
+
+  // Atualização condicional: só aplica se o contato ainda estiver em um dos status de origem
+  async advanceCampaignContactStatus(
+    id: string,
+    fromStatuses: CampaignContactSendStatus[],
+    updates: Partial<CampaignContact>
+  ): Promise<CampaignContact | undefined> {
+    const [updatedContact] = await db
+      .update(campaignContacts)
+      .set(updates)
+      .where(and(
+        eq(campaignContacts.id, id),
+        inArray(campaignContacts.sendStatus, fromStatuses)
+      ))
+      .returning();
+    return updatedContact;
+  }
+
+  // Cancela contatos ainda não enviados em campanhas ativas (ex: pedido de descadastro)
+  async cancelPendingContactsByPhone(
+    phones: string[],
+    campaignStatuses: NonNullable<MassCampaign["status"]>[],
+    reason: string
+  ): Promise<CampaignContact[]> {
+    if (phones.length === 0) return [];
+    const activeCampaigns = db
+      .select({ id: massCampaigns.id })
+      .from(massCampaigns)
+      .where(inArray(massCampaigns.status, campaignStatuses));
+
+    return await db
+      .update(campaignContacts)
+      .set({
+        sendStatus: 'CANCELLED',
+        errorMessage: reason,
+        phoneValidationStatus: 'BLACKLISTED',
+        blacklistCategory: 'OPTOUT',
+        blacklistReason: reason
+      })
+      .where(and(
+        inArray(campaignContacts.phone, phones),
+        eq(campaignContacts.sendStatus, 'PENDING'),
+        inArray(campaignContacts.campaignId, activeCampaigns)
+      ))
+      .returning();
+  }
+
+  // Contatos não reservados (ou com reserva expirada)
+  private unclaimed() {
+    return or(isNull(campaignContacts.claimExpiresAt), sql`${campaignContacts.claimExpiresAt} < NOW()`);
+  }
+
+  // Expiração calculada pelo relógio do banco, o mesmo usado em unclaimed()
+  private claimExpiry(ttlMs: number) {
+    return sql`NOW() + (${ttlMs} * INTERVAL '1 millisecond')`;
+  }
+
+  // Reserva atômica dos próximos contatos prontos para envio: FOR UPDATE SKIP LOCKED
+  // garante que dois workers nunca peguem o mesmo contato, e o índice da fila mantém
+  // o custo por mensagem constante em listas grandes
+  async claimPendingContacts(campaignId: string, options: ContactClaimOptions): Promise<CampaignContact[]> {
+    const ready = db
+      .select({ id: campaignContacts.id })
+      .from(campaignContacts)
+      .where(and(
+        eq(campaignContacts.campaignId, campaignId),
+        eq(campaignContacts.sendStatus, 'PENDING'),
+        sql`${campaignContacts.phoneValidationStatus} IS DISTINCT FROM 'BLACKLISTED'`,
+        or(isNull(campaignContacts.nextAttemptAt), sql`${campaignContacts.nextAttemptAt} <= NOW()`),
+        or(isNull(campaignContacts.deferredUntil), sql`${campaignContacts.deferredUntil} <= NOW()`),
+        options.requireVariant ? sql`${campaignContacts.variantId} IS NOT NULL` : undefined,
+        this.unclaimed()
+      ))
+      .orderBy(campaignContacts.createdAt, campaignContacts.id)
+      .limit(options.limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(campaignContacts)
+      .set({ claimedBy: options.owner, claimExpiresAt: this.claimExpiry(options.ttlMs) })
+      .where(inArray(campaignContacts.id, ready))
+      .returning();
+  }
+
+  async claimDueFollowUps(campaignId: string, options: Omit<ContactClaimOptions, 'requireVariant'>): Promise<CampaignContact[]> {
+    const due = db
+      .select({ id: campaignContacts.id })
+      .from(campaignContacts)
+      .where(and(
+        eq(campaignContacts.campaignId, campaignId),
+        sql`${campaignContacts.nextStepAt} <= NOW()`,
+        isNull(campaignContacts.sequenceExitReason),
+        // Entrega que falhou ou contato descadastrado/respondido não recebe o próximo passo
+        inArray(campaignContacts.sendStatus, ['SENT', 'DELIVERED', 'READ']),
+        this.unclaimed()
+      ))
+      .orderBy(campaignContacts.nextStepAt)
+      .limit(options.limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(campaignContacts)
+      .set({ claimedBy: options.owner, claimExpiresAt: this.claimExpiry(options.ttlMs) })
+      .where(inArray(campaignContacts.id, due))
+      .returning();
+  }
+
+  // Campanhas híbridas: contatos sem resposta (ou com falha de entrega) cujo prazo venceu
+  async claimDueFallbacks(campaignId: string, options: Omit<ContactClaimOptions, 'requireVariant'>): Promise<CampaignContact[]> {
+    const due = db
+      .select({ id: campaignContacts.id })
+      .from(campaignContacts)
+      .where(and(
+        eq(campaignContacts.campaignId, campaignId),
+        sql`${campaignContacts.fallbackAt} <= NOW()`,
+        inArray(campaignContacts.sendStatus, ['SENT', 'DELIVERED', 'READ', 'FAILED']),
+        this.unclaimed()
+      ))
+      .orderBy(campaignContacts.fallbackAt)
+      .limit(options.limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(campaignContacts)
+      .set({ claimedBy: options.owner, claimExpiresAt: this.claimExpiry(options.ttlMs) })
+      .where(inArray(campaignContacts.id, due))
+      .returning();
+  }
+
+  async releaseContactClaims(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(campaignContacts)
+      .set({ claimedBy: null, claimExpiresAt: null })
+      .where(inArray(campaignContacts.id, ids));
+  }
+
+  // Tira da fila até `until` (ex: fora da janela local do destinatário)
+  async deferCampaignContacts(ids: string[], until: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(campaignContacts)
+      .set({ deferredUntil: until })
+      .where(inArray(campaignContacts.id, ids));
+  }
+
+  // Se ainda há envios iniciais pendentes (inclusive aguardando retry/janela) ou follow-ups
+  // e reenvios por outro canal por vir
+  async getCampaignOutstandingWork(campaignId: string): Promise<{ pending: boolean; awaitingFollowUp: boolean }> {
+    const [pending] = await db
+      .select({ id: campaignContacts.id })
+      .from(campaignContacts)
+      .where(and(
+        eq(campaignContacts.campaignId, campaignId),
+        eq(campaignContacts.sendStatus, 'PENDING'),
+        sql`${campaignContacts.phoneValidationStatus} IS DISTINCT FROM 'BLACKLISTED'`
+      ))
+      .limit(1);
+
+    const [awaitingFollowUp] = await db
+      .select({ id: campaignContacts.id })
+      .from(campaignContacts)
+      .where(and(
+        eq(campaignContacts.campaignId, campaignId),
+        or(
+          and(sql`${campaignContacts.nextStepAt} IS NOT NULL`, isNull(campaignContacts.sequenceExitReason)),
+          and(
+            sql`${campaignContacts.fallbackAt} IS NOT NULL`,
+            inArray(campaignContacts.sendStatus, ['SENT', 'DELIVERED', 'READ', 'FAILED'])
+          )
+        )
+      ))
+      .limit(1);
+
+    return { pending: !!pending, awaitingFollowUp: !!awaitingFollowUp };
+  }
+
+  // A/B test variant operations
+  async getCampaignVariants(campaignId: string): Promise<CampaignVariant[]> {
+    return await db
+      .select()
+      .from(campaignVariants)
+      .where(eq(campaignVariants.campaignId, campaignId))
+      .orderBy(campaignVariants.key);
+  }
+
+  async createCampaignVariants(variants: InsertCampaignVariant[]): Promise<CampaignVariant[]> {
+    if (variants.length === 0) return [];
+    return await db.insert(campaignVariants).values(variants).returning();
+  }
+
+  async assignContactsToVariant(variantId: string, contactIds: string[]): Promise<void> {
+    if (contactIds.length === 0) return;
+    await db
+      .update(campaignContacts)
+      .set({ variantId })
+      .where(inArray(campaignContacts.id, contactIds));
+  }
+
+  // Contatos fora da amostra de teste recebem a variante vencedora
+  async assignUnassignedContactsToVariant(campaignId: string, variantId: string): Promise<number> {
+    const updated = await db
+      .update(campaignContacts)
+      .set({ variantId })
+      .where(and(
+        eq(campaignContacts.campaignId, campaignId),
+        isNull(campaignContacts.variantId)
+      ))
+      .returning({ id: campaignContacts.id });
+    return updated.length;
+  }
+
+  async getCampaignVariantStats(campaignId: string): Promise<CampaignVariantStats[]> {
+    const rows = await db
+      .select({
+        variantId: campaignVariants.id,
+        key: campaignVariants.key,
+        name: campaignVariants.name,
+        assigned: sql<number>`COUNT(${campaignContacts.id})`,
+        sent: sql<number>`COUNT(*) FILTER (WHERE ${campaignContacts.sendStatus} IN ('SENT', 'DELIVERED', 'READ', 'REPLIED'))`,
+        delivered: sql<number>`COUNT(*) FILTER (WHERE ${campaignContacts.sendStatus} IN ('DELIVERED', 'READ', 'REPLIED') OR ${campaignContacts.deliveryTimestamp} IS NOT NULL)`,
+        read: sql<number>`COUNT(*) FILTER (WHERE ${campaignContacts.sendStatus} IN ('READ', 'REPLIED') OR ${campaignContacts.readTimestamp} IS NOT NULL)`,
+        replied: sql<number>`COUNT(*) FILTER (WHERE ${campaignContacts.sendStatus} = 'REPLIED' OR ${campaignContacts.replyTimestamp} IS NOT NULL)`,
+        lastSentAt: sql<Date | null>`MAX(${campaignContacts.sendTimestamp})`,
+      })
+      .from(campaignVariants)
+      .leftJoin(campaignContacts, eq(campaignContacts.variantId, campaignVariants.id))
+      .where(eq(campaignVariants.campaignId, campaignId))
+      .groupBy(campaignVariants.id, campaignVariants.key, campaignVariants.name)
+      .orderBy(campaignVariants.key);
+
+    return rows.map((row: any) => ({
+      ...row,
+      assigned: Number(row.assigned),
+      sent: Number(row.sent),
+      delivered: Number(row.delivered),
+      read: Number(row.read),
+      replied: Number(row.replied),
+      lastSentAt: row.lastSentAt ? new Date(row.lastSentAt) : null,
+    }));
+  }
+
+  // Atualização condicional: apenas uma instância define a vencedora
+  async selectCampaignWinner(campaignId: string, variantId: string): Promise<MassCampaign | undefined> {
+    const [campaign] = await db
+      .update(massCampaigns)
+      .set({ winnerVariantId: variantId, winnerSelectedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(massCampaigns.id, campaignId), isNull(massCampaigns.winnerVariantId)))
+      .returning();
+    return campaign;
+  }
+
+  // Drip sequence operations
+  async getCampaignSteps(campaignId: string): Promise<CampaignStep[]> {
+    return await db
+      .select()
+      .from(campaignSteps)
+      .where(eq(campaignSteps.campaignId, campaignId))
+      .orderBy(campaignSteps.stepNumber);
+  }
+
+  async createCampaignSteps(steps: InsertCampaignStep[]): Promise<CampaignStep[]> {
+    if (steps.length === 0) return [];
+    return await db.insert(campaignSteps).values(steps).returning();
+  }
+
+  // Encerra follow-ups pendentes do telefone em campanhas ativas (ex: descadastro). A resposta
+  // com a palavra-chave já encerrou a sequência como REPLIED, então ela é reclassificada.
+  async endContactSequencesByPhone(
+    phones: string[],
+    campaignStatuses: NonNullable<MassCampaign["status"]>[],
+    reason: SequenceExitReason
+  ): Promise<CampaignContact[]> {
+    if (phones.length === 0) return [];
+    const activeCampaigns = db
+      .select({ id: massCampaigns.id })
+      .from(massCampaigns)
+      .where(inArray(massCampaigns.status, campaignStatuses));
+
+    return await db
+      .update(campaignContacts)
+      .set({ nextStepAt: null, sequenceExitReason: reason })
+      .where(and(
+        inArray(campaignContacts.phone, phones),
+        or(
+          sql`${campaignContacts.nextStepAt} IS NOT NULL`,
+          eq(campaignContacts.sequenceExitReason, 'REPLIED')
+        ),
+        inArray(campaignContacts.campaignId, activeCampaigns)
+      ))
+      .returning();
+  }
+
+  async getCampaignSequenceStats(campaignId: string): Promise<CampaignSequenceStats> {
+    const attemptRows = await db
+      .select({
+        stepNumber: campaignContactAttempts.stepNumber,
+        sent: sql<number>`COUNT(*) FILTER (WHERE ${campaignContactAttempts.status} = 'SENT')`,
+        failed: sql<number>`COUNT(*) FILTER (WHERE ${campaignContactAttempts.status} = 'FAILED' AND ${campaignContactAttempts.nextAttemptAt} IS NULL)`,
+      })
+      .from(campaignContactAttempts)
+      .where(eq(campaignContactAttempts.campaignId, campaignId))
+      .groupBy(campaignContactAttempts.stepNumber);
+
+    const contactRows = await db
+      .select({
+        sequenceStep: campaignContacts.sequenceStep,
+        sequenceExitReason: campaignContacts.sequenceExitReason,
+        replied: sql<number>`COUNT(*) FILTER (WHERE ${campaignContacts.sendStatus} = 'REPLIED')`,
+        awaiting: sql<number>`COUNT(*) FILTER (WHERE ${campaignContacts.nextStepAt} IS NOT NULL)`,
+        total: sql<number>`COUNT(*)`,
+      })
+      .from(campaignContacts)
+      .where(eq(campaignContacts.campaignId, campaignId))
+      .groupBy(campaignContacts.sequenceStep, campaignContacts.sequenceExitReason);
+
+    const exits: Record<SequenceExitReason, number> = { REPLIED: 0, OPTED_OUT: 0, COMPLETED: 0, FAILED: 0 };
+    let awaiting = 0;
+    const repliedByStep = new Map<number, number>();
+    for (const row of contactRows as any[]) {
+      awaiting += Number(row.awaiting);
+      if (row.sequenceExitReason) {
+        exits[row.sequenceExitReason as SequenceExitReason] += Number(row.total);
+      }
+      const step = row.sequenceStep || 0;
+      repliedByStep.set(step, (repliedByStep.get(step) || 0) + Number(row.replied));
+    }
+
+    const steps = (attemptRows as any[])
+      .map(row => ({
+        stepNumber: row.stepNumber || 1,
+        sent: Number(row.sent),
+        failed: Number(row.failed),
+        repliedAfter: repliedByStep.get(row.stepNumber || 1) || 0,
+      }))
+      .sort((a, b) => a.stepNumber - b.stepNumber);
+
+    return { steps, awaiting, exits };
+  }
+
   // Phone Blacklist operations
   async getBlacklistedPhones(): Promise<PhoneBlacklist[]> {
     return await db.select().from(phoneBlacklist).orderBy(desc(phoneBlacklist.createdAt));
@@ -791,7 +1537,7 @@ export class DatabaseStorage implements IStorage {
     const blacklistedPhones = await db
       .select({ phone: phoneBlacklist.phone })
       .from(phoneBlacklist)
-      .where(sql`${phoneBlacklist.phone} = ANY(${phones})`);
+      .where(inArray(phoneBlacklist.phone, phones));
     
     return new Set(blacklistedPhones.map(row => row.phone));
   }
@@ -885,6 +1631,19 @@ export class DatabaseStorage implements IStorage {
     return cached || null;
   }
 
+  // Validações em cache ainda não expiradas (sem apagar as vencidas, usado em consultas em lote)
+  async getCachedValidations(phones: string[]): Promise<PhoneValidationCache[]> {
+    if (phones.length === 0) return [];
+
+    return await db
+      .select()
+      .from(phoneValidationCache)
+      .where(and(
+        inArray(phoneValidationCache.phone, phones),
+        or(isNull(phoneValidationCache.expiresAt), sql`${phoneValidationCache.expiresAt} >= NOW()`)
+      ));
+  }
+
   async saveCachedValidation(validation: InsertPhoneValidationCache): Promise<PhoneValidationCache> {
     const [cached] = await db
       .insert(phoneValidationCache)
@@ -940,6 +1699,137 @@ export class DatabaseStorage implements IStorage {
     return updatedValidation;
   }
 
+  // Contact send attempt history
+  async createContactAttempt(attempt: InsertCampaignContactAttempt): Promise<CampaignContactAttempt> {
+    const [newAttempt] = await db.insert(campaignContactAttempts).values(attempt).returning();
+    return newAttempt;
+  }
+
+  async getContactAttempts(contactId: string): Promise<CampaignContactAttempt[]> {
+    return await db
+      .select()
+      .from(campaignContactAttempts)
+      .where(eq(campaignContactAttempts.contactId, contactId))
+      .orderBy(campaignContactAttempts.attemptedAt, campaignContactAttempts.attemptNumber);
+  }
+
+  // Tentativas mais recentes primeiro, para a janela de saúde dos envios
+  async getRecentCampaignAttempts(campaignId: string, since: Date, limit = 200): Promise<CampaignContactAttempt[]> {
+    return await db
+      .select()
+      .from(campaignContactAttempts)
+      .where(and(
+        eq(campaignContactAttempts.campaignId, campaignId),
+        sql`${campaignContactAttempts.attemptedAt} >= ${since}`
+      ))
+      .orderBy(desc(campaignContactAttempts.attemptedAt))
+      .limit(limit);
+  }
+
+  // Mensagens enviadas a cada número desde a data, em qualquer campanha, passo ou canal
+  async countRecentSendsByPhone(phones: string[], since: Date): Promise<Map<string, number>> {
+    if (phones.length === 0) return new Map();
+
+    const rows = await db
+      .select({
+        phone: campaignContacts.phone,
+        sends: sql<number>`COUNT(*)::int`,
+      })
+      .from(campaignContactAttempts)
+      .innerJoin(campaignContacts, eq(campaignContactAttempts.contactId, campaignContacts.id))
+      .where(and(
+        eq(campaignContactAttempts.status, 'SENT'),
+        sql`${campaignContactAttempts.attemptedAt} >= ${since}`,
+        inArray(campaignContacts.phone, phones)
+      ))
+      .groupBy(campaignContacts.phone);
+
+    return new Map(rows.map((row: { phone: string; sends: number }) => [row.phone, Number(row.sends)]));
+  }
+
+  async getContactChannelSummaries(contactIds: string[]): Promise<ContactChannelSummary[]> {
+    if (contactIds.length === 0) return [];
+    const contacts = await db
+      .select({
+        id: campaignContacts.id,
+        phone: campaignContacts.phone,
+        razaoSocial: campaignContacts.razaoSocial,
+        channel: campaignContacts.channel,
+        mediaId: mediaAssets.id,
+        mediaName: mediaAssets.name,
+        mediaKind: mediaAssets.kind,
+      })
+      .from(campaignContacts)
+      .leftJoin(mediaAssets, eq(campaignContacts.mediaAssetId, mediaAssets.id))
+      .where(inArray(campaignContacts.id, contactIds));
+    const attempts: CampaignContactAttempt[] = await db
+      .select()
+      .from(campaignContactAttempts)
+      .where(inArray(campaignContactAttempts.contactId, contactIds))
+      .orderBy(campaignContactAttempts.attemptedAt, campaignContactAttempts.attemptNumber);
+
+    type ContactRow = Pick<CampaignContact, 'id' | 'phone' | 'razaoSocial' | 'channel'> & {
+      mediaId: string | null;
+      mediaName: string | null;
+      mediaKind: MediaAsset["kind"] | null;
+    };
+    return contacts.map((contact: ContactRow) => {
+      const contactAttempts = attempts
+        .filter(attempt => attempt.contactId === contact.id)
+        .map(attempt => ({ channel: attempt.channel, status: attempt.status, cost: Number(attempt.cost || 0) }));
+      return {
+        contactId: contact.id,
+        phone: contact.phone,
+        razaoSocial: contact.razaoSocial,
+        channel: contact.channel,
+        media: contact.mediaId ? { id: contact.mediaId, name: contact.mediaName!, kind: contact.mediaKind! } : null,
+        totalCost: contactAttempts.reduce((total, attempt) => total + attempt.cost, 0),
+        attempts: contactAttempts,
+      };
+    });
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  // Consent evidence operations (LGPD)
+  async createConsentRecord(record: InsertConsentRecord): Promise<ConsentRecord> {
+    const [newRecord] = await db.insert(consentRecords).values(record).returning();
+    return newRecord;
+  }
+
+  async getConsentRecords(phone?: string): Promise<ConsentRecord[]> {
+    if (phone) {
+      return await db
+        .select()
+        .from(consentRecords)
+        .where(eq(consentRecords.phone, phone))
+        .orderBy(desc(consentRecords.receivedAt));
+    }
+    return await db.select().from(consentRecords).orderBy(desc(consentRecords.receivedAt));
+  }
+
+  // System settings operations
+  async getSystemSetting(key: string): Promise<SystemSetting | undefined> {
+    const [setting] = await db.select().from(systemSettings).where(eq(systemSettings.key, key));
+    return setting;
+  }
+
+  async upsertSystemSetting(key: string, value: unknown, updatedBy: string): Promise<SystemSetting> {
+    const [setting] = await db
+      .insert(systemSettings)
+      .values({ key, value, updatedBy, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: systemSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return setting;
+  }
+
   // Campaign Logs operations
   async getCampaignLogs(campaignId: string): Promise<CampaignLog[]> {
     return await db
@@ -954,6 +1844,42 @@ export class DatabaseStorage implements IStorage {
     return newLog;
   }
 
+  // Campaign approval operations
+  async createCampaignReview(review: InsertCampaignReview): Promise<CampaignReview> {
+    const [newReview] = await db.insert(campaignReviews).values(review).returning();
+    return newReview;
+  }
+
+  async getCampaignReviews(campaignId: string): Promise<CampaignReview[]> {
+    return await db
+      .select()
+      .from(campaignReviews)
+      .where(eq(campaignReviews.campaignId, campaignId))
+      .orderBy(desc(campaignReviews.createdAt));
+  }
+
+  async getCampaignsPendingApproval(): Promise<MassCampaign[]> {
+    return await db
+      .select()
+      .from(massCampaigns)
+      .where(eq(massCampaigns.status, 'PENDING_APPROVAL'))
+      .orderBy(massCampaigns.updatedAt);
+  }
+
+  // Transição condicionada ao status atual: duas decisões simultâneas não passam ambas
+  async updateCampaignReviewStatus(
+    id: string,
+    fromStatuses: NonNullable<MassCampaign["status"]>[],
+    updates: Partial<MassCampaign>
+  ): Promise<MassCampaign | undefined> {
+    const [campaign] = await db
+      .update(massCampaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(massCampaigns.id, id), inArray(massCampaigns.status, fromStatuses)))
+      .returning();
+    return campaign;
+  }
+
   async getCampaignLogsByContact(contactId: string): Promise<CampaignLog[]> {
     return await db
       .select()
@@ -1011,6 +1937,444 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(whatsappConnections.lastActivity));
     return connection;
   }
+
+  // Sender pool operations
+  async getSenderPools(userId: string, teamId?: string | null): Promise<SenderPool[]> {
+    const visibility = teamId
+      ? or(eq(senderPools.ownerId, userId), eq(senderPools.teamId, teamId))
+      : eq(senderPools.ownerId, userId);
+    return await db
+      .select()
+      .from(senderPools)
+      .where(visibility)
+      .orderBy(senderPools.name);
+  }
+
+  async getSenderPoolById(id: string): Promise<SenderPool | undefined> {
+    const [pool] = await db.select().from(senderPools).where(eq(senderPools.id, id));
+    return pool;
+  }
+
+  async createSenderPool(pool: InsertSenderPool): Promise<SenderPool> {
+    const [newPool] = await db.insert(senderPools).values(pool).returning();
+    return newPool;
+  }
+
+  async updateSenderPool(id: string, updates: Partial<SenderPool>): Promise<SenderPool> {
+    const [updatedPool] = await db
+      .update(senderPools)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(senderPools.id, id))
+      .returning();
+    return updatedPool;
+  }
+
+  async deleteSenderPool(id: string): Promise<void> {
+    await db.delete(senderPools).where(eq(senderPools.id, id));
+  }
+
+  async getPoolSenders(poolId: string): Promise<WhatsappSender[]> {
+    return await db
+      .select()
+      .from(whatsappSenders)
+      .where(eq(whatsappSenders.poolId, poolId))
+      .orderBy(whatsappSenders.createdAt);
+  }
+
+  async getWhatsappSenderById(id: string): Promise<WhatsappSender | undefined> {
+    const [sender] = await db.select().from(whatsappSenders).where(eq(whatsappSenders.id, id));
+    return sender;
+  }
+
+  async createWhatsappSender(sender: InsertWhatsappSender): Promise<WhatsappSender> {
+    const [newSender] = await db.insert(whatsappSenders).values(sender).returning();
+    return newSender;
+  }
+
+  async updateWhatsappSender(id: string, updates: Partial<WhatsappSender>): Promise<WhatsappSender> {
+    const [updatedSender] = await db
+      .update(whatsappSenders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(whatsappSenders.id, id))
+      .returning();
+    return updatedSender;
+  }
+
+  async deleteWhatsappSender(id: string): Promise<void> {
+    await db.delete(whatsappSenders).where(eq(whatsappSenders.id, id));
+  }
+
+  // Reserva atômica de um envio na cota diária do número. O contador zera quando
+  // muda o dia (relógio do banco); retorna undefined se o número atingiu o limite
+  // ou foi retirado do pool.
+  async reserveSenderQuota(id: string): Promise<WhatsappSender | undefined> {
+    const [sender] = await db
+      .update(whatsappSenders)
+      .set({
+        sentToday: sql`CASE WHEN ${whatsappSenders.sentTodayDate} = CURRENT_DATE THEN COALESCE(${whatsappSenders.sentToday}, 0) + 1 ELSE 1 END`,
+        sentTodayDate: sql`CURRENT_DATE`,
+        totalSent: sql`COALESCE(${whatsappSenders.totalSent}, 0) + 1`,
+      })
+      .where(and(
+        eq(whatsappSenders.id, id),
+        eq(whatsappSenders.active, true),
+        or(
+          sql`${whatsappSenders.sentTodayDate} IS DISTINCT FROM CURRENT_DATE`,
+          sql`COALESCE(${whatsappSenders.sentToday}, 0) < COALESCE(${whatsappSenders.dailyCap}, 0)`
+        )
+      ))
+      .returning();
+    return sender;
+  }
+
+  async getCampaignSenderCounts(campaignId: string): Promise<CampaignSenderCount[]> {
+    const rows = await db
+      .select({
+        senderId: campaignContacts.senderId,
+        label: whatsappSenders.label,
+        connectedPhone: whatsappSenders.connectedPhone,
+        sent: sql<number>`COUNT(*) FILTER (WHERE ${campaignContacts.sendStatus} IN ('SENT', 'DELIVERED', 'READ', 'REPLIED'))`,
+        failed: sql<number>`COUNT(*) FILTER (WHERE ${campaignContacts.sendStatus} = 'FAILED')`,
+      })
+      .from(campaignContacts)
+      .leftJoin(whatsappSenders, eq(campaignContacts.senderId, whatsappSenders.id))
+      .where(and(
+        eq(campaignContacts.campaignId, campaignId),
+        sql`${campaignContacts.senderId} IS NOT NULL`
+      ))
+      .groupBy(campaignContacts.senderId, whatsappSenders.label, whatsappSenders.connectedPhone);
+
+    return rows.map((row: any) => ({ ...row, sent: Number(row.sent), failed: Number(row.failed) }));
+  }
+
+  // Email configuration operations
+  async getEmailConfigurations(userId: string): Promise<EmailConfiguration[]> {
+    return await db
+      .select()
+      .from(emailConfigurations)
+      .where(eq(emailConfigurations.userId, userId))
+      .orderBy(emailConfigurations.name);
+  }
+
+  async getEmailConfigurationById(id: string): Promise<EmailConfiguration | undefined> {
+    const [config] = await db.select().from(emailConfigurations).where(eq(emailConfigurations.id, id));
+    return config;
+  }
+
+  async createEmailConfiguration(config: InsertEmailConfiguration): Promise<EmailConfiguration> {
+    const [newConfig] = await db.insert(emailConfigurations).values(config).returning();
+    return newConfig;
+  }
+
+  async updateEmailConfiguration(id: string, updates: Partial<EmailConfiguration>): Promise<EmailConfiguration> {
+    const [updatedConfig] = await db
+      .update(emailConfigurations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(emailConfigurations.id, id))
+      .returning();
+    return updatedConfig;
+  }
+
+  async deleteEmailConfiguration(id: string): Promise<void> {
+    await db.delete(emailConfigurations).where(eq(emailConfigurations.id, id));
+  }
+
+  // Reserva atômica de um envio no limite por hora da configuração. O contador zera
+  // quando muda a hora (relógio do banco); retorna undefined se o limite foi atingido
+  // ou a configuração está desativada.
+  async reserveEmailQuota(id: string): Promise<EmailConfiguration | undefined> {
+    const sameHour = sql`${emailConfigurations.sentHourStart} = date_trunc('hour', now())`;
+    const [config] = await db
+      .update(emailConfigurations)
+      .set({
+        sentThisHour: sql`CASE WHEN ${sameHour} THEN COALESCE(${emailConfigurations.sentThisHour}, 0) + 1 ELSE 1 END`,
+        sentHourStart: sql`date_trunc('hour', now())`,
+        totalSent: sql`COALESCE(${emailConfigurations.totalSent}, 0) + 1`,
+        lastUsedAt: new Date(),
+      })
+      .where(and(
+        eq(emailConfigurations.id, id),
+        eq(emailConfigurations.isActive, true),
+        or(
+          sql`${emailConfigurations.sentHourStart} IS DISTINCT FROM date_trunc('hour', now())`,
+          sql`COALESCE(${emailConfigurations.sentThisHour}, 0) < COALESCE(${emailConfigurations.rateLimitPerHour}, 0)`
+        )
+      ))
+      .returning();
+    return config;
+  }
+
+  // Media library operations
+  async getMediaAssets(userId: string): Promise<MediaAsset[]> {
+    return await db
+      .select()
+      .from(mediaAssets)
+      .where(eq(mediaAssets.userId, userId))
+      .orderBy(desc(mediaAssets.createdAt));
+  }
+
+  async getMediaAssetById(id: string): Promise<MediaAsset | undefined> {
+    const [asset] = await db.select().from(mediaAssets).where(eq(mediaAssets.id, id));
+    return asset;
+  }
+
+  async getMediaAssetsByIds(ids: string[]): Promise<MediaAsset[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(mediaAssets).where(inArray(mediaAssets.id, ids));
+  }
+
+  async createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset> {
+    const [newAsset] = await db.insert(mediaAssets).values(asset).returning();
+    return newAsset;
+  }
+
+  async deleteMediaAsset(id: string): Promise<void> {
+    await db.delete(mediaAssets).where(eq(mediaAssets.id, id));
+  }
+
+  // Campanhas que ainda vão enviar a mídia (a exclusão do arquivo as deixaria sem anexo)
+  async getActiveCampaignsUsingMedia(assetId: string): Promise<MassCampaign[]> {
+    return await db
+      .select()
+      .from(massCampaigns)
+      .where(and(
+        eq(massCampaigns.mediaAssetId, assetId),
+        inArray(massCampaigns.status, ['DRAFT', 'SCHEDULED', 'RUNNING', 'PAUSED'])
+      ));
+  }
+
+  // Budget operations
+  async addCampaignSendingCost(id: string, amount: number): Promise<MassCampaign | undefined> {
+    const [campaign] = await db
+      .update(massCampaigns)
+      .set({ sendingCost: sql`COALESCE(${massCampaigns.sendingCost}, 0) + ${amount}` })
+      .where(eq(massCampaigns.id, id))
+      .returning();
+    return campaign;
+  }
+
+  // Marca o aviso de 80% uma única vez, mesmo com várias instâncias enviando
+  async markCampaignBudgetWarned(id: string): Promise<boolean> {
+    const [campaign] = await db
+      .update(massCampaigns)
+      .set({ budgetWarnedAt: new Date() })
+      .where(and(eq(massCampaigns.id, id), isNull(massCampaigns.budgetWarnedAt)))
+      .returning({ id: massCampaigns.id });
+    return !!campaign;
+  }
+
+  // Campanhas com orçamento definido ou algum gasto registrado
+  async getCampaignsWithCosts(userIds?: string[]): Promise<MassCampaign[]> {
+    if (userIds && userIds.length === 0) return [];
+    return await db
+      .select()
+      .from(massCampaigns)
+      .where(and(
+        userIds ? inArray(massCampaigns.userId, userIds) : undefined,
+        or(
+          sql`${massCampaigns.budget} IS NOT NULL`,
+          sql`COALESCE(${massCampaigns.sendingCost}, 0) + COALESCE(${massCampaigns.validationCost}, 0) > 0`
+        )
+      ))
+      .orderBy(desc(massCampaigns.updatedAt))
+      .limit(100);
+  }
+
+  async getSpendingBudgets(): Promise<SpendingBudget[]> {
+    return await db.select().from(spendingBudgets).orderBy(spendingBudgets.scope, spendingBudgets.createdAt);
+  }
+
+  async getSpendingBudgetById(id: string): Promise<SpendingBudget | undefined> {
+    const [budget] = await db.select().from(spendingBudgets).where(eq(spendingBudgets.id, id));
+    return budget;
+  }
+
+  async getSpendingBudgetFor(scope: SpendingBudget["scope"], targetId: string): Promise<SpendingBudget | undefined> {
+    const [budget] = await db
+      .select()
+      .from(spendingBudgets)
+      .where(scope === 'USER' ? eq(spendingBudgets.userId, targetId) : eq(spendingBudgets.teamId, targetId));
+    return budget;
+  }
+
+  async upsertSpendingBudget(budget: InsertSpendingBudget): Promise<SpendingBudget> {
+    const [saved] = await db
+      .insert(spendingBudgets)
+      .values(budget)
+      .onConflictDoUpdate({
+        target: budget.scope === 'USER' ? spendingBudgets.userId : spendingBudgets.teamId,
+        // Novo limite pode voltar a cruzar os 80% no mesmo mês
+        set: { monthlyLimit: budget.monthlyLimit, updatedBy: budget.updatedBy, warnedMonth: null, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteSpendingBudget(id: string): Promise<void> {
+    await db.delete(spendingBudgets).where(eq(spendingBudgets.id, id));
+  }
+
+  async markSpendingBudgetWarned(id: string, month: string): Promise<boolean> {
+    const [budget] = await db
+      .update(spendingBudgets)
+      .set({ warnedMonth: month })
+      .where(and(
+        eq(spendingBudgets.id, id),
+        sql`${spendingBudgets.warnedMonth} IS DISTINCT FROM ${month}`
+      ))
+      .returning({ id: spendingBudgets.id });
+    return !!budget;
+  }
+
+  // Gasto no período por dono da campanha/validação (usuário) ou pela equipe do dono
+  async getSpendTotals(filter: { userId?: string; teamId?: string }, startDate: Date, endDate: Date): Promise<SpendTotals> {
+    const ownerFilter = (ownerColumn: any) => {
+      if (filter.userId) return eq(ownerColumn, filter.userId);
+      if (filter.teamId) return eq(users.teamId, filter.teamId);
+      return undefined;
+    };
+
+    const [sending] = await db
+      .select({ total: sum(campaignContactAttempts.cost) })
+      .from(campaignContactAttempts)
+      .innerJoin(massCampaigns, eq(campaignContactAttempts.campaignId, massCampaigns.id))
+      .innerJoin(users, eq(massCampaigns.userId, users.id))
+      .where(and(
+        ownerFilter(massCampaigns.userId),
+        sql`${campaignContactAttempts.attemptedAt} >= ${startDate}`,
+        sql`${campaignContactAttempts.attemptedAt} < ${endDate}`
+      ));
+
+    const [validation] = await db
+      .select({ total: sum(phoneValidations.validationCost) })
+      .from(phoneValidations)
+      .innerJoin(users, eq(phoneValidations.validatedBy, users.id))
+      .where(and(
+        ownerFilter(phoneValidations.validatedBy),
+        sql`${phoneValidations.createdAt} >= ${startDate}`,
+        sql`${phoneValidations.createdAt} < ${endDate}`
+      ));
+
+    return {
+      sendingCost: parseFloat(sending?.total || "0"),
+      validationCost: parseFloat(validation?.total || "0"),
+    };
+  }
+
+  // Inbox operations
+  private conversationFilters(filters: ConversationFilters = {}) {
+    const conditions = [];
+    if (filters.visibleTo) {
+      conditions.push(or(
+        eq(conversations.ownerId, filters.visibleTo),
+        eq(conversations.assignedTo, filters.visibleTo),
+        isNull(conversations.assignedTo)
+      ));
+    }
+    if (filters.status) {
+      conditions.push(eq(conversations.status, filters.status));
+    }
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  async getConversations(filters: ConversationFilters = {}): Promise<ConversationSummary[]> {
+    const rows = await db
+      .select({
+        conversation: conversations,
+        companyName: sql<string | null>`COALESCE(${companies.nomeFantasia}, ${companies.razaoSocial})`,
+        assigneeFirstName: users.firstName,
+        assigneeLastName: users.lastName,
+      })
+      .from(conversations)
+      .leftJoin(companies, eq(conversations.companyId, companies.id))
+      .leftJoin(users, eq(conversations.assignedTo, users.id))
+      .where(this.conversationFilters(filters))
+      .orderBy(desc(conversations.lastMessageAt));
+
+    return rows.map((row: any) => ({
+      ...row.conversation,
+      companyName: row.companyName,
+      assigneeName: row.assigneeFirstName
+        ? `${row.assigneeFirstName} ${row.assigneeLastName || ''}`.trim()
+        : null,
+    }));
+  }
+
+  async getConversationById(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async getConversationByPhone(ownerId: string, phone: string): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.ownerId, ownerId), eq(conversations.phone, phone)));
+    return conversation;
+  }
+
+  // Mensagens simultâneas do mesmo número disputam o índice único (ownerId, phone):
+  // quem perde a corrida recebe a conversa criada pela outra
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const [newConversation] = await db
+      .insert(conversations)
+      .values(conversation)
+      .onConflictDoNothing({ target: [conversations.ownerId, conversations.phone] })
+      .returning();
+    if (newConversation) return newConversation;
+
+    const existing = await this.getConversationByPhone(conversation.ownerId, conversation.phone);
+    if (!existing) {
+      throw new Error(`Conversation with ${conversation.phone} could not be created`);
+    }
+    return existing;
+  }
+
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation> {
+    const [updatedConversation] = await db
+      .update(conversations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    return updatedConversation;
+  }
+
+  // Mensagem recebida reabre conversas fechadas e soma ao contador de não lidas
+  async updateConversationActivity(id: string, activity: { preview: string; at: Date; inbound: boolean }): Promise<void> {
+    await db
+      .update(conversations)
+      .set({
+        lastMessageAt: activity.at,
+        lastMessagePreview: activity.preview.slice(0, 200),
+        ...(activity.inbound && {
+          unreadCount: sql`COALESCE(${conversations.unreadCount}, 0) + 1`,
+          status: sql`CASE WHEN ${conversations.status} = 'CLOSED' THEN 'OPEN' ELSE ${conversations.status} END`,
+        }),
+        updatedAt: new Date(),
+      })
+      .where(eq(conversations.id, id));
+  }
+
+  async getUnreadConversationCount(filters: ConversationFilters = {}): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(conversations)
+      .where(and(this.conversationFilters(filters), sql`${conversations.unreadCount} > 0`));
+    return result?.count || 0;
+  }
+
+  async getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
+    return await db
+      .select()
+      .from(conversationMessages)
+      .where(eq(conversationMessages.conversationId, conversationId))
+      .orderBy(conversationMessages.createdAt);
+  }
+
+  async createConversationMessage(message: InsertConversationMessage): Promise<ConversationMessage> {
+    const [newMessage] = await db.insert(conversationMessages).values(message).returning();
+    return newMessage;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -8,6 +8,7 @@ import { EventEmitter } from 'events';
 export interface WhatsAppSession {
   userId: string;
   sessionId: string;
+  senderId?: string; // sessões extras de números do pool de remetentes
   client: Client;
   status: 'DISCONNECTED' | 'GENERATING_QR' | 'WAITING_QR' | 'CONNECTED' | 'ERROR';
   qrCode?: string;
@@ -16,6 +17,56 @@ export interface WhatsAppSession {
   errorMessage?: string;
 }
 
+export type WhatsAppSendErrorCode = 'NOT_REGISTERED' | 'SESSION_CLOSED' | 'RATE_LIMITED' | 'UNKNOWN';
+
+// Erro de envio com código para que o chamador decida como tratar a falha
+export class WhatsAppSendError extends Error {
+  constructor(public readonly code: WhatsAppSendErrorCode, message: string) {
+    super(message);
+    this.name = 'WhatsAppSendError';
+  }
+}
+
+// Arquivo enviado junto com a mensagem, que vira a legenda
+export interface OutgoingMedia {
+  mimeType: string;
+  data: string; // base64
+  filename: string;
+}
+
+export type WhatsAppAckStatus = 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+
+// Confirmação de entrega/leitura de uma mensagem enviada pela sessão
+export interface WhatsAppMessageAck {
+  userId: string;
+  sessionId: string;
+  messageId: string;
+  status: WhatsAppAckStatus;
+  timestamp: Date;
+}
+
+// Mudança de estado de uma sessão de número do pool de remetentes
+export interface WhatsAppSenderStatus {
+  senderId: string;
+  userId: string;
+  sessionId: string;
+  status: WhatsAppSession["status"];
+  connectedPhone?: string;
+  qrCode?: string;
+  errorMessage?: string;
+}
+
+// Mensagem recebida de um contato individual na sessão do usuário
+export interface WhatsAppIncomingMessage {
+  userId: string;
+  sessionId: string;
+  senderId?: string; // número do pool que recebeu a mensagem; ausente = sessão do próprio usuário
+  messageId: string;
+  phone: string; // somente dígitos, com DDI (ex: 5511987654321)
+  body: string;
+  timestamp: Date;
+}
+
 class WhatsAppService extends EventEmitter {
   private sessions: Map<string, WhatsAppSession> = new Map();
   private userSessions: Map<string, string> = new Map(); // userId -> sessionId
@@ -52,10 +103,21 @@ class WhatsAppService extends EventEmitter {
     }
   }
 
-  async generateQRCode(userId: string): Promise<{ sessionId: string; qrCode: string }> {
+  /**
+   * Start a session and resolve with its QR code. With senderId the session belongs
+   * to a sender pool number and runs alongside the user's own session.
+   */
+  async generateQRCode(userId: string, options: { senderId?: string } = {}): Promise<{ sessionId: string; qrCode: string }> {
+    const { senderId } = options;
     try {
-      // Disconnect any existing session for this user
-      await this.disconnectUser(userId);
+      if (senderId) {
+        // Reconnecting a sender replaces only that sender's previous session
+        const previous = this.findSenderSession(senderId);
+        if (previous) await this.destroySession(previous.sessionId, 'Sender reconnecting');
+      } else {
+        // Disconnect any existing session for this user
+        await this.disconnectUser(userId);
+      }
       
       const sessionId = nanoid();
       
@@ -83,6 +145,7 @@ class WhatsAppService extends EventEmitter {
       const session: WhatsAppSession = {
         userId,
         sessionId,
+        senderId,
         client,
         status: 'GENERATING_QR',
         lastActivity: new Date()
@@ -90,14 +153,16 @@ class WhatsAppService extends EventEmitter {
 
       // Store session
       this.sessions.set(sessionId, session);
-      this.userSessions.set(userId, sessionId);
-
-      // Save to database
-      await storage.createWhatsappConnection({
-        userId,
-        sessionId,
-        status: 'GENERATING_QR'
-      });
+      if (!senderId) {
+        this.userSessions.set(userId, sessionId);
+
+        // Save to database
+        await storage.createWhatsappConnection({
+          userId,
+          sessionId,
+          status: 'GENERATING_QR'
+        });
+      }
 
       return new Promise((resolve, reject) => {
         let qrTimeout: NodeJS.Timeout;
@@ -122,23 +187,27 @@ class WhatsAppService extends EventEmitter {
             session.qrCode = qrCodeDataUrl;
             session.lastActivity = new Date();
 
-            // Update database
-            await storage.updateWhatsappConnection(
-              (await storage.getWhatsappConnection(userId))!.id,
-              {
+            if (senderId) {
+              this.emitSenderStatus(session);
+            } else {
+              // Update database
+              await storage.updateWhatsappConnection(
+                (await storage.getWhatsappConnection(userId))!.id,
+                {
+                  status: 'WAITING_QR',
+                  qrCode: qrCodeDataUrl,
+                  qrCodeExpires: new Date(Date.now() + this.QR_TIMEOUT)
+                }
+              );
+
+              // Emit status update
+              this.emit('statusUpdate', {
+                userId,
+                sessionId,
                 status: 'WAITING_QR',
-                qrCode: qrCodeDataUrl,
-                qrCodeExpires: new Date(Date.now() + this.QR_TIMEOUT)
-              }
-            );
-
-            // Emit status update
-            this.emit('statusUpdate', {
-              userId,
-              sessionId,
-              status: 'WAITING_QR',
-              qrCode: qrCodeDataUrl
-            });
+                qrCode: qrCodeDataUrl
+              });
+            }
 
             // Set QR timeout
             qrTimeout = setTimeout(async () => {
@@ -170,26 +239,30 @@ class WhatsAppService extends EventEmitter {
             session.lastActivity = new Date();
             session.qrCode = undefined; // Clear QR code
 
-            // Update database
-            await storage.updateWhatsappConnection(
-              (await storage.getWhatsappConnection(userId))!.id,
-              {
+            if (senderId) {
+              this.emitSenderStatus(session);
+            } else {
+              // Update database
+              await storage.updateWhatsappConnection(
+                (await storage.getWhatsappConnection(userId))!.id,
+                {
+                  status: 'CONNECTED',
+                  connectedPhone: phone,
+                  qrCode: null,
+                  qrCodeExpires: null,
+                  lastActivity: new Date(),
+                  connectionData: { clientId: sessionId } // Store encrypted session data
+                }
+              );
+
+              // Emit status update
+              this.emit('statusUpdate', {
+                userId,
+                sessionId,
                 status: 'CONNECTED',
-                connectedPhone: phone,
-                qrCode: null,
-                qrCodeExpires: null,
-                lastActivity: new Date(),
-                connectionData: { clientId: sessionId } // Store encrypted session data
-              }
-            );
-
-            // Emit status update
-            this.emit('statusUpdate', {
-              userId,
-              sessionId,
-              status: 'CONNECTED',
-              connectedPhone: phone
-            });
+                connectedPhone: phone
+              });
+            }
 
             console.log(`WhatsApp connected for user ${userId} with phone ${phone}`);
           } catch (error) {
@@ -198,6 +271,41 @@ class WhatsAppService extends EventEmitter {
           }
         });
 
+        // Forward delivery/read acknowledgements of messages sent by this session
+        client.on('message_ack', (msg, ack) => {
+          if (!msg.fromMe) return;
+
+          const status = this.toAckStatus(ack);
+          if (!status) return;
+
+          session.lastActivity = new Date();
+          const event: WhatsAppMessageAck = {
+            userId,
+            sessionId,
+            messageId: msg.id._serialized,
+            status,
+            timestamp: new Date()
+          };
+          this.emit('messageAck', event);
+        });
+
+        // Forward replies from individual contacts (groups, broadcasts and own messages are ignored)
+        client.on('message', (msg) => {
+          if (msg.fromMe || !msg.from.endsWith('@c.us')) return;
+
+          session.lastActivity = new Date();
+          const event: WhatsAppIncomingMessage = {
+            userId,
+            sessionId,
+            senderId: session.senderId,
+            messageId: msg.id._serialized,
+            phone: msg.from.replace(/@c\.us$/, ''),
+            body: msg.body || `[${msg.type}]`,
+            timestamp: msg.timestamp ? new Date(msg.timestamp * 1000) : new Date()
+          };
+          this.emit('incomingMessage', event);
+        });
+
         // Handle authentication failure
         client.on('auth_failure', async (msg) => {
           clearTimeout(qrTimeout);
@@ -307,6 +415,13 @@ class WhatsAppService extends EventEmitter {
 
       // Remove from maps
       this.sessions.delete(sessionId);
+
+      if (session.senderId) {
+        this.emitSenderStatus(session);
+        console.log(`Session ${sessionId} destroyed: ${reason}`);
+        return;
+      }
+
       this.userSessions.delete(session.userId);
 
       // Update database
@@ -333,34 +448,118 @@ class WhatsAppService extends EventEmitter {
     }
   }
 
-  async sendMessage(userId: string, phone: string, message: string): Promise<void> {
+  private findSenderSession(senderId: string): WhatsAppSession | undefined {
+    return Array.from(this.sessions.values()).find(session => session.senderId === senderId);
+  }
+
+  private emitSenderStatus(session: WhatsAppSession): void {
+    const event: WhatsAppSenderStatus = {
+      senderId: session.senderId!,
+      userId: session.userId,
+      sessionId: session.sessionId,
+      status: session.status,
+      connectedPhone: session.connectedPhone,
+      qrCode: session.qrCode,
+      errorMessage: session.errorMessage
+    };
+    this.emit('senderStatus', event);
+  }
+
+  /**
+   * Disconnect the session of a sender pool number, if any
+   */
+  async disconnectSender(senderId: string): Promise<void> {
+    const session = this.findSenderSession(senderId);
+    if (session) {
+      await this.destroySession(session.sessionId, 'User requested disconnection');
+    }
+  }
+
+  isSessionConnected(sessionId: string): boolean {
+    return this.sessions.get(sessionId)?.status === 'CONNECTED';
+  }
+
+  /**
+   * Sends a text message (or a media file with the text as caption) from the user's
+   * session and returns the WhatsApp message id
+   */
+  async sendMessage(userId: string, phone: string, message: string, media?: OutgoingMedia): Promise<string> {
     const sessionId = this.userSessions.get(userId);
     
     if (!sessionId) {
-      throw new Error('No active WhatsApp session');
+      throw new WhatsAppSendError('SESSION_CLOSED', 'No active WhatsApp session');
     }
 
+    return this.sendMessageFromSession(sessionId, phone, message, media);
+  }
+
+  /**
+   * Sends a text message from a specific session (e.g. a sender pool number)
+   */
+  async sendMessageFromSession(sessionId: string, phone: string, message: string, media?: OutgoingMedia): Promise<string> {
     const session = this.sessions.get(sessionId);
     
     if (!session || session.status !== 'CONNECTED') {
-      throw new Error('WhatsApp not connected');
+      throw new WhatsAppSendError('SESSION_CLOSED', 'WhatsApp not connected');
     }
 
+    let numberId;
     try {
-      // Format phone number for WhatsApp
-      const formattedPhone = phone.replace(/\D/g, '') + '@c.us';
-      
-      // Send message
-      await session.client.sendMessage(formattedPhone, message);
+      // Resolve the registered WhatsApp id (handles the Brazilian 9th digit)
+      numberId = await session.client.getNumberId(phone.replace(/\D/g, ''));
+    } catch (error) {
+      console.error('Error resolving WhatsApp number:', error);
+      throw this.toSendError(error);
+    }
+
+    if (!numberId) {
+      throw new WhatsAppSendError('NOT_REGISTERED', 'Phone number is not registered on WhatsApp');
+    }
+
+    try {
+      // Send message; with media the text goes as the caption
+      const sent = media
+        ? await session.client.sendMessage(
+            numberId._serialized,
+            new MessageMedia(media.mimeType, media.data, media.filename),
+            { caption: message || undefined }
+          )
+        : await session.client.sendMessage(numberId._serialized, message);
       
       // Update last activity
       session.lastActivity = new Date();
       
-      console.log(`Message sent from user ${userId} to ${phone}`);
+      console.log(`Message sent from user ${session.userId} (session ${sessionId}) to ${phone}`);
+      return sent.id._serialized;
     } catch (error) {
       console.error('Error sending WhatsApp message:', error);
-      throw new Error('Failed to send message');
+      throw this.toSendError(error);
+    }
+  }
+
+  // Map whatsapp-web.js / puppeteer errors to send error codes
+  private toSendError(error: unknown): WhatsAppSendError {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (/rate|too many|429|overlimit/i.test(message)) {
+      return new WhatsAppSendError('RATE_LIMITED', 'WhatsApp rate limit reached');
     }
+    if (/session closed|target closed|protocol error|execution context was destroyed|not connected/i.test(message)) {
+      return new WhatsAppSendError('SESSION_CLOSED', 'WhatsApp session closed');
+    }
+    if (/invalid wid|not a valid|not registered/i.test(message)) {
+      return new WhatsAppSendError('NOT_REGISTERED', 'Phone number is not registered on WhatsApp');
+    }
+    return new WhatsAppSendError('UNKNOWN', `Failed to send message: ${message}`);
+  }
+
+  // Map whatsapp-web.js MessageAck values (-1 error, 0 pending, 1 server, 2 device, 3 read, 4 played)
+  private toAckStatus(ack: number): WhatsAppAckStatus | null {
+    if (ack < 0) return 'FAILED';
+    if (ack === 1) return 'SENT';
+    if (ack === 2) return 'DELIVERED';
+    if (ack >= 3) return 'READ';
+    return null;
   }
 
   async isUserConnected(userId: string): Promise<boolean> {
@@ -381,7 +580,7 @@ class WhatsAppService extends EventEmitter {
     const connectedUsers: string[] = [];
     
     for (const session of this.sessions.values()) {
-      if (session.status === 'CONNECTED') {
+      if (session.status === 'CONNECTED' && !session.senderId) {
         connectedUsers.push(session.userId);
       }
     }
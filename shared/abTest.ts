@@ -0,0 +1,153 @@
+// Teste A/B de templates de campanha: divisão do tráfego entre variantes,
+// taxas por variante e significância (teste z de duas proporções).
+
+export type AbTestMetric = 'DELIVERY' | 'READ' | 'REPLY';
+
+export interface AbTestConfig {
+  metric: AbTestMetric; // métrica que define a vencedora
+  testSlicePercent: number | null; // amostra de teste; null = divisão em toda a lista
+  decisionDelayMinutes: number; // espera após o último envio da amostra (tempo para leituras/respostas)
+}
+
+export interface VariantCounts {
+  variantId: string;
+  key: string;
+  name: string | null;
+  assigned: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+}
+
+export interface VariantResult extends VariantCounts {
+  rates: Record<AbTestMetric, number>; // sobre as mensagens enviadas
+  isLeader: boolean;
+  pValue: number | null; // contra a líder (para a líder: contra a segunda colocada)
+  significant: boolean;
+}
+
+export const AB_TEST_METRICS: { value: AbTestMetric; label: string }[] = [
+  { value: 'REPLY', label: 'Taxa de resposta' },
+  { value: 'READ', label: 'Taxa de leitura' },
+  { value: 'DELIVERY', label: 'Taxa de entrega' },
+];
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export const DEFAULT_AB_TEST_CONFIG: AbTestConfig = {
+  metric: 'REPLY',
+  testSlicePercent: null,
+  decisionDelayMinutes: 120,
+};
+
+export function normalizeAbTestConfig(raw: unknown): AbTestConfig {
+  const config = (raw && typeof raw === 'object' ? raw : {}) as Partial<AbTestConfig>;
+  const percent = Number(config.testSlicePercent);
+  return {
+    metric: AB_TEST_METRICS.some(metric => metric.value === config.metric) ? config.metric! : DEFAULT_AB_TEST_CONFIG.metric,
+    testSlicePercent: percent > 0 && percent < 100 ? percent : null,
+    decisionDelayMinutes: Number.isFinite(Number(config.decisionDelayMinutes)) && Number(config.decisionDelayMinutes) >= 0
+      ? Number(config.decisionDelayMinutes)
+      : DEFAULT_AB_TEST_CONFIG.decisionDelayMinutes,
+  };
+}
+
+// A, B, C... na ordem em que as variantes foram cadastradas
+export function variantKey(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Split `total` items proportionally to the weights (largest remainder method),
+ * so the counts always add up to `total`
+ */
+export function splitByWeight(total: number, weights: number[]): number[] {
+  let safeWeights = weights.map(weight => Math.max(0, weight || 0));
+  if (safeWeights.every(weight => weight === 0)) safeWeights = safeWeights.map(() => 1);
+  const weightSum = safeWeights.reduce((sum, weight) => sum + weight, 0);
+
+  const exact = safeWeights.map(weight => (total * weight) / weightSum);
+  const counts = exact.map(Math.floor);
+
+  // Distribui as sobras para as maiores partes fracionárias
+  const remaining = total - counts.reduce((sum, count) => sum + count, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, remaining)
+    .forEach(({ index }) => counts[index]++);
+  return counts;
+}
+
+function metricCount(counts: VariantCounts, metric: AbTestMetric): number {
+  if (metric === 'DELIVERY') return counts.delivered;
+  if (metric === 'READ') return counts.read;
+  return counts.replied;
+}
+
+function rate(successes: number, trials: number): number {
+  return trials > 0 ? successes / trials : 0;
+}
+
+// Função de distribuição da normal padrão (aproximação de Abramowitz-Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value of the difference between two proportions, or null when
+ * either sample is empty or there is no variance to compare
+ */
+export function twoProportionPValue(successesA: number, trialsA: number, successesB: number, trialsB: number): number | null {
+  if (trialsA === 0 || trialsB === 0) return null;
+
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  if (standardError === 0) return null;
+
+  const z = (rate(successesA, trialsA) - rate(successesB, trialsB)) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Rates per variant and how each one compares to the leader on the chosen metric.
+ * The leader is significant only when it beats every other variant.
+ */
+export function compareVariants(variants: VariantCounts[], metric: AbTestMetric): VariantResult[] {
+  const leader = variants.reduce<VariantCounts | undefined>((best, variant) =>
+    !best || rate(metricCount(variant, metric), variant.sent) > rate(metricCount(best, metric), best.sent) ? variant : best,
+    undefined
+  );
+
+  const results = variants.map((variant): VariantResult => ({
+    ...variant,
+    rates: {
+      DELIVERY: rate(variant.delivered, variant.sent),
+      READ: rate(variant.read, variant.sent),
+      REPLY: rate(variant.replied, variant.sent),
+    },
+    isLeader: variant === leader,
+    pValue: variant === leader || !leader
+      ? null
+      : twoProportionPValue(metricCount(leader, metric), leader.sent, metricCount(variant, metric), variant.sent),
+    significant: false,
+  }));
+
+  const others = results.filter(result => !result.isLeader);
+  results.forEach(result => {
+    if (result.isLeader) {
+      // p-valor da líder = comparação com a segunda colocada (o maior p-valor)
+      const pValues = others.map(other => other.pValue);
+      result.pValue = pValues.length > 0 && pValues.every(p => p !== null)
+        ? Math.max(...(pValues as number[]))
+        : null;
+    }
+    result.significant = result.pValue !== null && result.pValue < SIGNIFICANCE_LEVEL;
+  });
+
+  return results;
+}
@@ -0,0 +1,88 @@
+// Custos de envio e orçamentos: tabela de preços por canal e o resumo
+// usado no dashboard de custos.
+
+export type CostChannel = 'WHATSAPP' | 'SMS' | 'EMAIL';
+
+export interface PriceTable {
+  currency: string;
+  perMessage: Record<CostChannel, number>; // custo de cada mensagem enviada (inclui follow-ups); SMS por segmento
+}
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: 'BRL',
+  perMessage: {
+    WHATSAPP: 0.05,
+    SMS: 0.12,
+    EMAIL: 0.002,
+  },
+};
+
+// Fração do orçamento a partir da qual o aviso é registrado
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export interface BudgetUsage {
+  limit: number | null; // null = sem orçamento
+  spent: number;
+  percent: number | null;
+}
+
+export interface CampaignCostSummary extends BudgetUsage {
+  campaignId: string;
+  name: string;
+  status: string | null;
+  userId: string;
+  sendingCost: number;
+  validationCost: number;
+}
+
+export interface MonthlyBudgetSummary extends BudgetUsage {
+  budgetId: string | null;
+  scope: 'USER' | 'TEAM';
+  targetId: string;
+  targetName: string;
+  sendingCost: number;
+  validationCost: number;
+}
+
+export interface CostDashboard {
+  month: string; // YYYY-MM
+  pricing: PriceTable;
+  totals: { sendingCost: number; validationCost: number; total: number };
+  budgets: MonthlyBudgetSummary[];
+  campaigns: CampaignCostSummary[];
+}
+
+export function normalizePriceTable(raw: unknown): PriceTable {
+  const table = (raw && typeof raw === 'object' ? raw : {}) as Partial<PriceTable>;
+  const perMessage = { ...DEFAULT_PRICE_TABLE.perMessage };
+  for (const channel of Object.keys(perMessage) as CostChannel[]) {
+    const price = Number(table.perMessage?.[channel]);
+    if (Number.isFinite(price) && price >= 0) perMessage[channel] = price;
+  }
+  return {
+    currency: typeof table.currency === 'string' && table.currency ? table.currency : DEFAULT_PRICE_TABLE.currency,
+    perMessage,
+  };
+}
+
+export function budgetUsage(spent: number, limit: number | null | undefined): BudgetUsage {
+  const hasLimit = limit !== null && limit !== undefined && Number.isFinite(limit);
+  return {
+    limit: hasLimit ? limit! : null,
+    spent,
+    percent: hasLimit && limit! > 0 ? (spent / limit!) * 100 : hasLimit ? 100 : null,
+  };
+}
+
+// Mês corrente no formato YYYY-MM (UTC) e seus limites
+export function monthKey(at: Date = new Date()): string {
+  return at.toISOString().slice(0, 7);
+}
+
+export function monthRange(month: string): { start: Date; end: Date } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)),
+    end: new Date(Date.UTC(year, monthIndex, 1)),
+  };
+}
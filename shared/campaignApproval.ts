@@ -0,0 +1,57 @@
+// Aprovação de campanhas: campanhas de vendedores passam pela revisão de um gestor
+// (DRAFT -> PENDING_APPROVAL -> APPROVED/SCHEDULED) antes de qualquer envio.
+
+export const CAMPAIGN_APPROVER_ROLES = ['GESTOR', 'ADMIN', 'SUPER_ADMIN'];
+
+// Administradores supervisionam todas as campanhas; gestores, apenas as de quem é da própria equipe
+export function canSuperviseCampaignsOf(
+  reviewer: { role: string | null; teamId: string | null },
+  owner: { teamId: string | null } | null | undefined
+): boolean {
+  if (reviewer.role === 'ADMIN' || reviewer.role === 'SUPER_ADMIN') return true;
+  return reviewer.role === 'GESTOR' && !!reviewer.teamId && owner?.teamId === reviewer.teamId;
+}
+
+export type CampaignReviewAction = 'SUBMITTED' | 'APPROVED' | 'REJECTED' | 'REVOKED';
+
+export const CAMPAIGN_REVIEW_LABELS: Record<CampaignReviewAction, string> = {
+  SUBMITTED: 'Enviada para aprovação',
+  APPROVED: 'Aprovada',
+  REJECTED: 'Rejeitada',
+  REVOKED: 'Aprovação revogada (campanha alterada)',
+};
+
+// Retrato da campanha no envio para aprovação, guardado no histórico de decisões
+export interface CampaignReviewSnapshot {
+  contacts: number;
+  toSend: number;
+  blacklisted: number;
+  estimatedCost: number;
+  currency: string;
+}
+
+// Gestores e administradores iniciam as próprias campanhas sem revisão
+export function requiresCampaignApproval(ownerRole: string | null | undefined): boolean {
+  return !CAMPAIGN_APPROVER_ROLES.includes(ownerRole || 'VENDEDOR');
+}
+
+/**
+ * Whether the campaign may start (or be scheduled) now: approved campaigns always,
+ * drafts only when the owner does not need approval
+ */
+export function canStartCampaign(
+  campaign: { status: string | null; approvedAt: Date | string | null },
+  ownerRole: string | null | undefined
+): boolean {
+  if (campaign.status === 'APPROVED') return true;
+  if (campaign.status !== 'DRAFT' && campaign.status !== 'SCHEDULED') return false;
+  return !requiresCampaignApproval(ownerRole) || !!campaign.approvedAt;
+}
+
+// Retomar uma campanha pausada exige a mesma aprovação do início
+export function canResumeCampaign(
+  campaign: { status: string | null; approvedAt: Date | string | null },
+  ownerRole: string | null | undefined
+): boolean {
+  return campaign.status === 'PAUSED' && (!requiresCampaignApproval(ownerRole) || !!campaign.approvedAt);
+}
@@ -0,0 +1,91 @@
+// Estratégia de canais de campanhas híbridas: ordem de preferência por contato e
+// quando passar para o próximo canal (sem WhatsApp, falha no envio ou sem resposta).
+
+export type StrategyChannel = 'WHATSAPP' | 'SMS' | 'EMAIL';
+
+export interface ChannelStrategy {
+  channels: StrategyChannel[]; // ordem de preferência, sem repetição
+  fallbackOnFailure: boolean; // falha definitiva (ou recibo de falha) passa para o próximo canal
+  noReplyDays: number | null; // sem resposta após N dias reenvia pelo próximo canal; null = não reenvia
+}
+
+export const STRATEGY_CHANNELS: { value: StrategyChannel; label: string }[] = [
+  { value: 'WHATSAPP', label: 'WhatsApp' },
+  { value: 'SMS', label: 'SMS' },
+  { value: 'EMAIL', label: 'Email' },
+];
+
+export const MAX_NO_REPLY_DAYS = 30;
+
+export const DEFAULT_CHANNEL_STRATEGY: ChannelStrategy = {
+  channels: ['WHATSAPP', 'SMS', 'EMAIL'],
+  fallbackOnFailure: true,
+  noReplyDays: 3,
+};
+
+export function normalizeChannelStrategy(raw: unknown): ChannelStrategy | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const config = raw as Partial<ChannelStrategy>;
+  const known = STRATEGY_CHANNELS.map(channel => channel.value);
+  const channels = (Array.isArray(config.channels) ? config.channels : [])
+    .filter((channel, index, all): channel is StrategyChannel => known.includes(channel) && all.indexOf(channel) === index);
+  if (channels.length === 0) return null;
+
+  const days = Number(config.noReplyDays);
+  return {
+    channels,
+    fallbackOnFailure: config.fallbackOnFailure !== false,
+    noReplyDays: config.noReplyDays != null && days >= 1 ? Math.min(Math.floor(days), MAX_NO_REPLY_DAYS) : null,
+  };
+}
+
+/**
+ * Channels a campaign may use, in order. Campaigns without a strategy use their single
+ * channel; the older SMS fallback switch is WhatsApp then SMS for contacts without WhatsApp.
+ */
+export function getChannelStrategy(campaign: {
+  channel?: StrategyChannel | null;
+  channelStrategy?: unknown;
+  smsFallback?: boolean | null;
+}): ChannelStrategy {
+  const strategy = normalizeChannelStrategy(campaign.channelStrategy);
+  if (strategy) return strategy;
+
+  const channel = campaign.channel || 'WHATSAPP';
+  return {
+    channels: channel === 'WHATSAPP' && campaign.smsFallback ? ['WHATSAPP', 'SMS'] : [channel],
+    fallbackOnFailure: false,
+    noReplyDays: null,
+  };
+}
+
+export function isHybridStrategy(strategy: ChannelStrategy): boolean {
+  return strategy.channels.length > 1;
+}
+
+// O que se sabe do contato para escolher o canal
+export interface ContactReach {
+  whatsapp: boolean; // false quando a validação diz que o número não tem WhatsApp
+  phone: boolean;
+  email: boolean;
+}
+
+/**
+ * First channel of the strategy, from position `from` on, that can reach the contact,
+ * with the channels passed over on the way
+ */
+export function pickChannel(
+  strategy: ChannelStrategy,
+  reach: ContactReach,
+  from = 0
+): { channel: StrategyChannel | null; skipped: StrategyChannel[] } {
+  const skipped: StrategyChannel[] = [];
+  for (const channel of strategy.channels.slice(from)) {
+    const reachable = channel === 'WHATSAPP' ? reach.phone && reach.whatsapp
+      : channel === 'SMS' ? reach.phone
+      : reach.email;
+    if (reachable) return { channel, skipped };
+    skipped.push(channel);
+  }
+  return { channel: null, skipped };
+}
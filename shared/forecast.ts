@@ -0,0 +1,69 @@
+// Simulação (dry-run) de uma campanha: quem será pulado, quando cada mensagem
+// sairia respeitando janela de envio e rate limiting, e quanto vai custar.
+
+import type { StrategyChannel } from './channelStrategy';
+
+export type ForecastSkipReason = 'BLACKLISTED' | 'FREQUENCY_CAP' | 'NO_WHATSAPP' | 'NO_CHANNEL';
+
+export interface ForecastSample {
+  contactId: string;
+  phone: string | null;
+  name: string | null;
+  variantKey: string | null;
+  sendAt: string; // ISO
+  message: string;
+}
+
+export interface ForecastDay {
+  date: string; // YYYY-MM-DD no fuso da campanha
+  sends: number;
+}
+
+export interface CampaignForecast {
+  generatedAt: string;
+  startAt: string;
+  estimatedEndAt: string | null; // null = nenhum envio previsto
+  durationMs: number;
+  timezone: string;
+  sendIntervalMs: number; // intervalo médio entre envios (sendRate, lote e pausas aleatórias)
+
+  contacts: {
+    total: number;
+    alreadyProcessed: number; // fora da fila (já enviados, falhos ou cancelados)
+    toSend: number;
+    skipped: Record<ForecastSkipReason, number>;
+    outsideWindow: number; // sem janela de envio nos próximos dias
+  };
+
+  timeline: ForecastDay[];
+  abTestHoldMinutes: number; // espera pela escolha da variante vencedora
+
+  cost: {
+    currency: string;
+    perMessage: number; // preço unitário (por segmento no SMS)
+    unitsPerMessage: number; // média de segmentos por SMS; 1 nos demais canais
+    initialSends: number;
+    channels: Partial<Record<StrategyChannel, number>>; // envios iniciais por canal (campanhas híbridas)
+    followUpSteps: number;
+    maxFollowUpSends: number; // se nenhum contato responder
+    initialCost: number;
+    maxFollowUpCost: number;
+    budget: number | null;
+    budgetRemaining: number | null;
+    affordableSends: number | null; // envios que cabem no orçamento da campanha
+  };
+
+  messages: {
+    rendered: number;
+    distinct: number;
+    templateErrors: string[];
+    samples: ForecastSample[];
+  };
+}
+
+export const FORECAST_SKIP_LABELS: Record<ForecastSkipReason, string> = {
+  BLACKLISTED: 'Blacklist',
+  FREQUENCY_CAP: 'Limite de frequência',
+  NO_WHATSAPP: 'Sem WhatsApp',
+  NO_CHANNEL: 'Sem canal disponível',
+};
@@ -0,0 +1,42 @@
+// Tipos de mídia aceitos na biblioteca e limites do WhatsApp para cada um.
+// O mesmo arquivo segue como anexo quando o canal é email; SMS envia só o texto.
+
+export type MediaKind = 'IMAGE' | 'DOCUMENT' | 'VIDEO';
+
+export interface MediaTypeRule {
+  kind: MediaKind;
+  maxBytes: number;
+  extensions: string[];
+}
+
+const MB = 1024 * 1024;
+
+export const MEDIA_TYPES: Record<string, MediaTypeRule> = {
+  'image/jpeg': { kind: 'IMAGE', maxBytes: 5 * MB, extensions: ['.jpg', '.jpeg'] },
+  'image/png': { kind: 'IMAGE', maxBytes: 5 * MB, extensions: ['.png'] },
+  'image/webp': { kind: 'IMAGE', maxBytes: 5 * MB, extensions: ['.webp'] },
+  'application/pdf': { kind: 'DOCUMENT', maxBytes: 16 * MB, extensions: ['.pdf'] },
+  'video/mp4': { kind: 'VIDEO', maxBytes: 16 * MB, extensions: ['.mp4'] },
+  'video/3gpp': { kind: 'VIDEO', maxBytes: 16 * MB, extensions: ['.3gp'] },
+};
+
+export const MAX_MEDIA_BYTES = Math.max(...Object.values(MEDIA_TYPES).map(rule => rule.maxBytes));
+export const MAX_VIDEO_SECONDS = 60;
+export const MAX_CAPTION_LENGTH = 1024;
+
+// Valor do atributo accept do input de arquivo
+export const MEDIA_ACCEPT = Object.entries(MEDIA_TYPES)
+  .flatMap(([mimeType, rule]) => [mimeType, ...rule.extensions])
+  .join(',');
+
+export const MEDIA_KIND_LABELS: Record<MediaKind, string> = {
+  IMAGE: 'Imagem',
+  DOCUMENT: 'PDF',
+  VIDEO: 'Vídeo',
+};
+
+export function formatMediaSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+}
@@ -0,0 +1,401 @@
+// Motor de templates de mensagem compartilhado entre cliente (preview) e servidor (envio)
+//
+// Sintaxe suportada:
+//   {{nome}}                      variável
+//   {{nome|cliente}}              variável com valor padrão quando vazia
+//   {{#if cidade}}...{{else}}...{{/if}}  bloco condicional (valor preenchido)
+//   {Olá|Oi|Bom dia}              variação (spintax), pode ter variáveis e variações aninhadas
+//   {~oferta}                     bloco de sinônimos (ver SYNONYM_GROUPS)
+//   \{{  \{  \|  \}                caracteres literais, sem interpretar
+// Qualquer chave de customData também pode ser usada como variável.
+// A variação escolhida é determinística por contato (variationSeed).
+
+// Dados do contato usados para preencher o template
+export interface TemplateContact {
+  razaoSocial?: string | null;
+  nomeFantasia?: string | null;
+  phone?: string | null;
+  cidade?: string | null;
+  setor?: string | null;
+  customData?: unknown;
+}
+
+export interface TemplateIssue {
+  message: string;
+  index: number; // posição no template
+}
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  errors: TemplateIssue[];
+  warnings: TemplateIssue[];
+  variables: string[];
+  variants: number; // mensagens distintas que o template pode gerar (sem contar os dados)
+}
+
+// Variáveis padrão oferecidas no editor de campanhas
+export const TEMPLATE_VARIABLES = [
+  { name: "nome", description: "Nome da empresa" },
+  { name: "empresa", description: "Razão social" },
+  { name: "telefone", description: "Telefone" },
+  { name: "cidade", description: "Cidade" },
+  { name: "setor", description: "Setor da empresa" },
+] as const;
+
+// Nomes antigos ({razao_social} e {nome_fantasia}) continuam aceitos
+const LEGACY_VARIABLES = ["razao_social", "nome_fantasia"];
+
+const BUILT_IN_VARIABLES: string[] = [...TEMPLATE_VARIABLES.map(variable => variable.name), ...LEGACY_VARIABLES];
+
+// Sinônimos para blocos {~palavra}; novos grupos podem ser adicionados aqui
+export const SYNONYM_GROUPS: Record<string, string[]> = {
+  "olá": ["Olá", "Oi", "Bom dia", "Tudo bem?"],
+  "oferta": ["oferta", "proposta", "condição especial", "oportunidade"],
+  "empresa": ["empresa", "negócio", "companhia"],
+  "contato": ["contato", "retorno", "resposta"],
+  "obrigado": ["Obrigado", "Agradeço", "Muito obrigado"],
+  "conhecer": ["conhecer", "saber mais sobre", "entender melhor"],
+  "atenciosamente": ["Atenciosamente", "Abraços", "Até breve"],
+};
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z0-9_À-ÿ.-]+$/;
+
+// Teto do relatório de variações, evita números astronômicos em templates muito variados
+const MAX_REPORTED_VARIANTS = 1_000_000_000;
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "variable"; name: string; fallback?: string; index: number }
+  | { type: "if"; name: string; then: TemplateNode[]; else: TemplateNode[]; index: number }
+  | { type: "spin"; options: TemplateNode[][]; index: number };
+
+type OpenBlock =
+  | { kind: "if"; node: Extract<TemplateNode, { type: "if" }>; inElse: boolean }
+  | { kind: "spin"; node: Extract<TemplateNode, { type: "spin" }> };
+
+interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: TemplateIssue[];
+}
+
+/**
+ * Converte placeholders de chave simples do formato antigo para a sintaxe {{ }}
+ */
+function upgradeLegacyPlaceholders(template: string): string {
+  return template.replace(/(^|[^{\\])\{(razao_social|nome_fantasia)\}(?!\})/g, "$1{{$2}}");
+}
+
+function parseTemplate(template: string): ParsedTemplate {
+  const source = upgradeLegacyPlaceholders(template);
+  const root: TemplateNode[] = [];
+  const errors: TemplateIssue[] = [];
+  const stack: OpenBlock[] = [];
+
+  const target = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.kind === "spin") return top.node.options[top.node.options.length - 1];
+    return top.inElse ? top.node.else : top.node.then;
+  };
+
+  const pushText = (value: string) => {
+    const nodes = target();
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") {
+      last.value += value;
+    } else {
+      nodes.push({ type: "text", value });
+    }
+  };
+
+  const inSpin = () => stack[stack.length - 1]?.kind === "spin";
+
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith("\\{{", i)) {
+      pushText("{{");
+      i += 3;
+      continue;
+    }
+    if (source[i] === "\\" && "{}|".includes(source[i + 1] ?? "")) {
+      pushText(source[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (source.startsWith("{{", i)) {
+      const close = source.indexOf("}}", i + 2);
+      if (close === -1) {
+        errors.push({ message: "Variável aberta com {{ sem o fechamento }}", index: i });
+        pushText(source.slice(i));
+        break;
+      }
+
+      const tag = source.slice(i + 2, close).trim();
+      const index = i;
+      i = close + 2;
+
+      if (tag === "#if" || tag.startsWith("#if ")) {
+        const name = tag.slice(3).trim();
+        if (!VARIABLE_NAME_PATTERN.test(name)) {
+          errors.push({ message: `Condição inválida: "{{${tag}}}"`, index });
+        }
+        const node: Extract<TemplateNode, { type: "if" }> = { type: "if", name, then: [], else: [], index };
+        target().push(node);
+        stack.push({ kind: "if", node, inElse: false });
+      } else if (tag === "else") {
+        const top = stack[stack.length - 1];
+        if (top?.kind !== "if" || top.inElse) {
+          errors.push({ message: "{{else}} fora de um bloco {{#if}}", index });
+        } else {
+          top.inElse = true;
+        }
+      } else if (tag === "/if") {
+        if (stack[stack.length - 1]?.kind !== "if") {
+          errors.push({ message: "{{/if}} sem um {{#if}} correspondente", index });
+        } else {
+          stack.pop();
+        }
+      } else {
+        const separator = tag.indexOf("|");
+        const name = (separator === -1 ? tag : tag.slice(0, separator)).trim();
+        const fallback = separator === -1 ? undefined : tag.slice(separator + 1).trim();
+        if (!name) {
+          errors.push({ message: "Variável sem nome", index });
+        } else if (!VARIABLE_NAME_PATTERN.test(name)) {
+          errors.push({ message: `Nome de variável inválido: "${name}"`, index });
+        }
+        target().push({ type: "variable", name, fallback, index });
+      }
+      continue;
+    }
+
+    if (source.startsWith("{~", i)) {
+      const close = source.indexOf("}", i + 2);
+      const word = close === -1 ? "" : source.slice(i + 2, close).trim();
+      const synonyms = SYNONYM_GROUPS[word.toLowerCase()];
+      if (!synonyms) {
+        errors.push({
+          message: close === -1 ? "Bloco de sinônimos sem o fechamento }" : `Sem sinônimos cadastrados para "${word}"`,
+          index: i,
+        });
+        pushText(close === -1 ? source.slice(i) : word);
+        if (close === -1) break;
+      } else {
+        target().push({ type: "spin", options: synonyms.map(value => [{ type: "text", value }]), index: i });
+      }
+      i = close + 1;
+      continue;
+    }
+
+    if (source[i] === "{") {
+      const node: Extract<TemplateNode, { type: "spin" }> = { type: "spin", options: [[]], index: i };
+      target().push(node);
+      stack.push({ kind: "spin", node });
+      i += 1;
+      continue;
+    }
+
+    if (inSpin() && source[i] === "|") {
+      const top = stack[stack.length - 1] as Extract<OpenBlock, { kind: "spin" }>;
+      top.node.options.push([]);
+      i += 1;
+      continue;
+    }
+
+    if (inSpin() && source[i] === "}") {
+      stack.pop();
+      i += 1;
+      continue;
+    }
+
+    // Texto comum até o próximo caractere especial
+    let end = i + 1;
+    while (end < source.length && !"{}|\\".includes(source[end])) end++;
+    pushText(source.slice(i, end));
+    i = end;
+  }
+
+  for (const open of stack) {
+    if (open.kind === "if") {
+      errors.push({ message: `Bloco {{#if ${open.node.name}}} sem {{/if}}`, index: open.node.index });
+    } else {
+      errors.push({ message: "Variação aberta com { sem o fechamento } (use \\{ para uma chave literal)", index: open.node.index });
+    }
+  }
+
+  return { nodes: root, errors };
+}
+
+/**
+ * Valores das variáveis para um contato. Campos padrão têm prioridade sobre customData.
+ */
+export function getTemplateValues(contact: TemplateContact): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  if (contact.customData && typeof contact.customData === "object" && !Array.isArray(contact.customData)) {
+    for (const [key, value] of Object.entries(contact.customData as Record<string, unknown>)) {
+      if (value !== null && value !== undefined && typeof value !== "object") {
+        values[key.trim()] = String(value);
+      }
+    }
+  }
+
+  const builtIns: Record<string, string | null | undefined> = {
+    nome: contact.nomeFantasia || contact.razaoSocial,
+    empresa: contact.razaoSocial || contact.nomeFantasia,
+    telefone: contact.phone,
+    cidade: contact.cidade,
+    setor: contact.setor,
+    razao_social: contact.razaoSocial,
+    nome_fantasia: contact.nomeFantasia,
+  };
+  for (const [key, value] of Object.entries(builtIns)) {
+    if (value) values[key] = value;
+  }
+
+  return values;
+}
+
+function lookup(values: Record<string, string>, name: string): string {
+  // Só chaves próprias: {{constructor}} ou {{toString}} não podem achar o protótipo
+  if (Object.prototype.hasOwnProperty.call(values, name)) return String(values[name] ?? "");
+  // Cabeçalhos de planilha costumam variar entre maiúsculas e minúsculas
+  const lower = name.toLowerCase();
+  const key = Object.keys(values).find(candidate => candidate.toLowerCase() === lower);
+  return key ? String(values[key] ?? "") : "";
+}
+
+// FNV-1a 32 bits: mesmo contato sempre recebe a mesma variação
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function renderNodes(nodes: TemplateNode[], values: Record<string, string>, seed?: string): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case "text":
+        return node.value;
+      case "variable": {
+        const value = lookup(values, node.name);
+        return value.trim() ? value : node.fallback ?? "";
+      }
+      case "if":
+        return renderNodes(lookup(values, node.name).trim() ? node.then : node.else, values, seed);
+      case "spin": {
+        // Uma única opção não é variação: mantém as chaves como texto
+        if (node.options.length === 1) return `{${renderNodes(node.options[0], values, seed)}}`;
+        const choice = seed === undefined ? 0 : hashSeed(`${seed}:${node.index}`) % node.options.length;
+        return renderNodes(node.options[choice], values, seed);
+      }
+    }
+  }).join("");
+}
+
+/**
+ * Preenche o template com os dados do contato. Templates com erro de sintaxe
+ * são renderizados da melhor forma possível - use validateMessageTemplate antes de enviar.
+ * variationSeed (ex.: id do contato) escolhe as variações; sem ele usa sempre a primeira opção.
+ */
+export function renderMessageTemplate(
+  template: string,
+  contact: TemplateContact,
+  options: { variationSeed?: string } = {}
+): string {
+  return renderNodes(parseTemplate(template).nodes, getTemplateValues(contact), options.variationSeed);
+}
+
+/**
+ * Number of distinct texts the spintax can produce, ignoring contact data.
+ * Both branches of a conditional are counted since either may be rendered.
+ */
+function countVariants(nodes: TemplateNode[]): number {
+  return nodes.reduce((total, node) => {
+    let count = 1;
+    if (node.type === "if") {
+      count = countVariants(node.then) + countVariants(node.else);
+    } else if (node.type === "spin") {
+      count = node.options.reduce((sum, option) => sum + countVariants(option), 0);
+    }
+    return Math.min(total * count, MAX_REPORTED_VARIANTS);
+  }, 1);
+}
+
+function collectVariables(nodes: TemplateNode[], found: Map<string, { index: number; hasFallback: boolean }>): void {
+  for (const node of nodes) {
+    if (node.type === "text") continue;
+    if (node.type === "spin") {
+      node.options.forEach(option => collectVariables(option, found));
+      continue;
+    }
+    const current = found.get(node.name);
+    const hasFallback = node.type === "variable" && node.fallback !== undefined;
+    found.set(node.name, {
+      index: current?.index ?? node.index,
+      // Condições aceitam valor vazio, então contam como "com padrão"
+      hasFallback: (current?.hasFallback ?? true) && (hasFallback || node.type === "if"),
+    });
+    if (node.type === "if") {
+      collectVariables(node.then, found);
+      collectVariables(node.else, found);
+    }
+  }
+}
+
+/**
+ * Checks the template syntax and that every variable can be filled.
+ * When customFields is given (customData keys of the campaign contacts),
+ * unknown variables without a default value are errors instead of warnings.
+ */
+export function validateMessageTemplate(
+  template: string,
+  options: { customFields?: string[] } = {}
+): TemplateValidationResult {
+  const { nodes, errors } = parseTemplate(template);
+  const warnings: TemplateIssue[] = [];
+
+  if (!template.trim()) {
+    errors.push({ message: "O template da mensagem está vazio", index: 0 });
+  }
+
+  const found = new Map<string, { index: number; hasFallback: boolean }>();
+  collectVariables(nodes, found);
+
+  const customFields = options.customFields?.map(field => field.toLowerCase());
+  found.forEach((usage, name) => {
+    if (!name || BUILT_IN_VARIABLES.includes(name.toLowerCase())) return;
+    if (customFields?.includes(name.toLowerCase())) return;
+
+    if (customFields && !usage.hasFallback) {
+      errors.push({ message: `Variável {{${name}}} não existe nos contatos da campanha`, index: usage.index });
+    } else {
+      warnings.push({ message: `Variável {{${name}}} será lida dos dados personalizados do contato`, index: usage.index });
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    variables: Array.from(found.keys()).filter(Boolean),
+    variants: countVariants(nodes),
+  };
+}
+
+/**
+ * Union of the customData keys of the given contacts
+ */
+export function collectCustomFields(contacts: Pick<TemplateContact, "customData">[]): string[] {
+  const fields = new Set<string>();
+  for (const contact of contacts) {
+    if (contact.customData && typeof contact.customData === "object" && !Array.isArray(contact.customData)) {
+      Object.keys(contact.customData).forEach(key => fields.add(key.trim()));
+    }
+  }
+  return Array.from(fields);
+}
@@ -0,0 +1,4 @@
+// Retry de envios: total de tentativas por contato quando o retry está ativo.
+// Formulário, API (insertMassCampaignSchema) e engine usam o mesmo limite.
+export const MAX_RETRY_ATTEMPTS = 5;
+export const DEFAULT_RETRY_ATTEMPTS = 3;
@@ -5,10 +5,12 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   boolean,
   decimal,
+  date,
   pgEnum,
   uuid
 } from "drizzle-orm/pg-core";
@@ -16,6 +18,7 @@ import { sql } from "drizzle-orm";
 import { relations } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEFAULT_RETRY_ATTEMPTS, MAX_RETRY_ATTEMPTS } from "./retry";
 
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
@@ -204,9 +207,9 @@ export const achievements = pgTable("achievements", {
 });
 
 export const notifications = pgTable("notifications", {
-  id: varchar("id").primaryKey().notNull().default("gen_random_uuid()"),
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
   type: text("type", { 
-    enum: ["LEAD_NOVO", "LEAD_INTERESSE", "VENDA_APROVADA", "RANKING_ATUALIZADO", "META_ATINGIDA", "CAMPANHA_FINALIZADA"] 
+    enum: ["LEAD_NOVO", "LEAD_INTERESSE", "VENDA_APROVADA", "RANKING_ATUALIZADO", "META_ATINGIDA", "CAMPANHA_FINALIZADA", "CAMPANHA_PAUSADA"] 
   }).notNull(),
   title: varchar("title").notNull(),
   message: text("message").notNull(),
@@ -228,22 +231,77 @@ export const massCampaigns = pgTable("mass_campaigns", {
   channel: text("channel", { enum: ["WHATSAPP", "EMAIL", "SMS"] }).default("WHATSAPP"),
   messageTemplate: text("message_template"),
   status: text("status", { 
-    enum: ["DRAFT", "VALIDATING", "SCHEDULED", "RUNNING", "PAUSED", "COMPLETED", "STOPPED"] 
+    enum: ["DRAFT", "PENDING_APPROVAL", "APPROVED", "VALIDATING", "SCHEDULED", "RUNNING", "PAUSED", "COMPLETED", "STOPPED"] 
   }).default("DRAFT"),
   totalRecords: integer("total_records").default(0),
   sentCount: integer("sent_count").default(0),
   successCount: integer("success_count").default(0),
   errorCount: integer("error_count").default(0),
+  deliveredCount: integer("delivered_count").default(0),
+  readCount: integer("read_count").default(0),
+  repliedCount: integer("replied_count").default(0),
   sendRate: integer("send_rate").default(50), // msgs per hour
+  batchSize: integer("batch_size").default(1), // envios por ciclo do worker (o ritmo total segue o sendRate)
   startTime: timestamp("start_time"),
   endTime: timestamp("end_time"),
   workingHours: jsonb("working_hours"),
+  retryEnabled: boolean("retry_enabled").default(false),
+  retryAttempts: integer("retry_attempts").default(DEFAULT_RETRY_ATTEMPTS), // total de tentativas por contato quando o retry está ativo
+  senderPoolId: varchar("sender_pool_id").references(() => senderPools.id, { onDelete: "set null" }), // null = sessão WhatsApp do dono
+  smsFallback: boolean("sms_fallback").default(false), // contatos sem WhatsApp recebem por SMS
+  // Campanha híbrida: ordem de canais por contato (ChannelStrategy em @shared/channelStrategy); null = só `channel`
+  channelStrategy: jsonb("channel_strategy"),
+  // Canal EMAIL: configuração SMTP usada nos envios e assunto (aceita variáveis do template)
+  emailConfigId: varchar("email_config_id").references(() => emailConfigurations.id, { onDelete: "set null" }),
+  emailSubject: text("email_subject"),
+  // Mídia anexada à mensagem inicial; o template vira a legenda
+  mediaAssetId: varchar("media_asset_id").references(() => mediaAssets.id, { onDelete: "set null" }),
+  // Teste A/B: configuração (AbTestConfig em @shared/abTest) e variante vencedora quando há amostra de teste
+  abTest: jsonb("ab_test"),
+  winnerVariantId: varchar("winner_variant_id"),
+  winnerSelectedAt: timestamp("winner_selected_at"),
   validationCost: decimal("validation_cost", { precision: 10, scale: 4 }).default("0"),
   sendingCost: decimal("sending_cost", { precision: 10, scale: 4 }).default("0"),
+  // Orçamento da campanha (validação + envios); null = sem limite
+  budget: decimal("budget", { precision: 10, scale: 2 }),
+  budgetWarnedAt: timestamp("budget_warned_at"), // aviso de 80% já registrado
+  // Aprovação do gestor (campanhas de vendedores); o histórico fica em campaign_reviews
+  approvedBy: varchar("approved_by").references(() => users.id, { onDelete: "set null" }),
+  approvedAt: timestamp("approved_at"),
+  reviewComment: text("review_comment"), // comentário da última decisão (motivo da rejeição)
+  // Lease de execução: apenas uma instância do servidor processa a campanha por vez
+  leaseOwner: varchar("lease_owner"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Variantes de template de uma campanha em teste A/B
+export const campaignVariants = pgTable("campaign_variants", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => massCampaigns.id, { onDelete: "cascade" }),
+  key: varchar("key", { length: 2 }).notNull(), // A, B, C...
+  name: varchar("name"),
+  messageTemplate: text("message_template").notNull(),
+  weight: integer("weight").default(50), // fatia do tráfego, proporcional à soma dos pesos
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_campaign_variants_campaign").on(table.campaignId),
+]);
+
+// Passos de follow-up de uma sequência (o passo 1 é o template da própria campanha)
+export const campaignSteps = pgTable("campaign_steps", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => massCampaigns.id, { onDelete: "cascade" }),
+  stepNumber: integer("step_number").notNull(), // 2, 3...
+  messageTemplate: text("message_template").notNull(),
+  delayDays: integer("delay_days").notNull().default(3), // dias após o passo anterior, apenas para quem não respondeu
+  workingHours: jsonb("working_hours"), // janela própria do passo; null = janela da campanha
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_campaign_steps_campaign").on(table.campaignId),
+]);
+
 // Lista de Contatos da Campanha
 export const campaignContacts = pgTable("campaign_contacts", {
   id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
@@ -252,6 +310,7 @@ export const campaignContacts = pgTable("campaign_contacts", {
   razaoSocial: varchar("razao_social"),
   nomeFantasia: varchar("nome_fantasia"),
   phone: varchar("phone"),
+  email: varchar("email"),
   setor: varchar("setor"),
   cidade: varchar("cidade"),
   customData: jsonb("custom_data"),
@@ -270,16 +329,40 @@ export const campaignContacts = pgTable("campaign_contacts", {
   
   // Status de Envio
   sendStatus: text("send_status", { 
-    enum: ["PENDING", "SENT", "DELIVERED", "READ", "REPLIED", "FAILED"] 
+    enum: ["PENDING", "SENT", "DELIVERED", "READ", "REPLIED", "FAILED", "CANCELLED"] 
   }).default("PENDING"),
   sendTimestamp: timestamp("send_timestamp"),
   deliveryTimestamp: timestamp("delivery_timestamp"),
   readTimestamp: timestamp("read_timestamp"),
   replyTimestamp: timestamp("reply_timestamp"),
+  replyMessage: text("reply_message"), // Texto da resposta recebida do contato
   errorMessage: text("error_message"),
+  messageId: varchar("message_id"), // ID retornado pelo canal (ex: WhatsApp) no envio
+  channel: text("channel", { enum: ["WHATSAPP", "EMAIL", "SMS"] }), // canal que fez o envio (pode ser o fallback)
+  mediaAssetId: varchar("media_asset_id").references(() => mediaAssets.id, { onDelete: "set null" }), // mídia que foi junto
+  senderId: varchar("sender_id").references(() => whatsappSenders.id, { onDelete: "set null" }), // número do pool que enviou
+  variantId: varchar("variant_id").references(() => campaignVariants.id, { onDelete: "set null" }), // variante do teste A/B
+  // Sequência de follow-ups: último passo enviado, próximo envio e motivo de saída
+  sequenceStep: integer("sequence_step").default(0),
+  nextStepAt: timestamp("next_step_at"),
+  fallbackAt: timestamp("fallback_at"), // campanha híbrida: sem resposta (ou com falha de entrega) até aqui, reenvia pelo próximo canal
+  sequenceExitReason: text("sequence_exit_reason", {
+    enum: ["REPLIED", "OPTED_OUT", "COMPLETED", "FAILED"]
+  }),
+  attemptCount: integer("attempt_count").default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // backoff: contato só volta à fila após este horário
+  deferredUntil: timestamp("deferred_until"), // fora da janela local do destinatário: reavaliado após este horário
+  // Reserva do contato por um worker (SELECT ... FOR UPDATE SKIP LOCKED); expira se o worker cair
+  claimedBy: varchar("claimed_by"),
+  claimExpiresAt: timestamp("claim_expires_at"),
   
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_campaign_contacts_message_id").on(table.messageId),
+  index("IDX_campaign_contacts_queue").on(table.campaignId, table.sendStatus, table.createdAt),
+  index("IDX_campaign_contacts_next_step").on(table.campaignId, table.nextStepAt),
+  index("IDX_campaign_contacts_phone").on(table.phone),
+]);
 
 // Sistema de Blacklist
 export const phoneBlacklist = pgTable("phone_blacklist", {
@@ -319,13 +402,45 @@ export const campaignLogs = pgTable("campaign_logs", {
   campaignId: varchar("campaign_id").notNull().references(() => massCampaigns.id, { onDelete: "cascade" }),
   contactId: varchar("contact_id").references(() => campaignContacts.id, { onDelete: "cascade" }),
   eventType: text("event_type", { 
-    enum: ["SENT", "DELIVERED", "READ", "REPLIED", "FAILED", "PAUSED", "STOPPED", "RESUMED"] 
+    enum: ["SENT", "DELIVERED", "READ", "REPLIED", "FAILED", "RETRYING", "CANCELLED", "PAUSED", "STOPPED", "RESUMED", "SCHEDULE_MISSED", "AB_WINNER", "BUDGET_WARNING", "THROTTLED", "REVIEW"] 
   }).notNull(),
   message: text("message"),
   metadata: jsonb("metadata"),
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Decisões de aprovação da campanha: envio para revisão, aprovação, rejeição e revogação
+export const campaignReviews = pgTable("campaign_reviews", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => massCampaigns.id, { onDelete: "cascade" }),
+  action: text("action", { enum: ["SUBMITTED", "APPROVED", "REJECTED", "REVOKED"] }).notNull(),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  comment: text("comment"),
+  snapshot: jsonb("snapshot"), // CampaignReviewSnapshot (@shared/campaignApproval) no envio para aprovação
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_campaign_reviews_campaign").on(table.campaignId),
+]);
+
+// Histórico de tentativas de envio por contato
+export const campaignContactAttempts = pgTable("campaign_contact_attempts", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => massCampaigns.id, { onDelete: "cascade" }),
+  contactId: varchar("contact_id").notNull().references(() => campaignContacts.id, { onDelete: "cascade" }),
+  attemptNumber: integer("attempt_number").notNull(),
+  stepNumber: integer("step_number").default(1), // passo da sequência (1 = mensagem inicial)
+  channel: text("channel", { enum: ["WHATSAPP", "EMAIL", "SMS"] }), // canal da tentativa (campanhas híbridas trocam de canal)
+  status: text("status", { enum: ["SENT", "FAILED"] }).notNull(),
+  errorCode: varchar("error_code"),
+  errorMessage: text("error_message"),
+  retryable: boolean("retryable").default(false),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  cost: decimal("cost", { precision: 10, scale: 4 }).default("0"), // custo do envio pela tabela de preços
+  attemptedAt: timestamp("attempted_at").defaultNow(),
+}, (table) => [
+  index("IDX_campaign_contact_attempts_contact").on(table.contactId),
+]);
+
 // Conexões WhatsApp para Campanhas
 export const whatsappConnections = pgTable("whatsapp_connections", {
   id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
@@ -344,6 +459,87 @@ export const whatsappConnections = pgTable("whatsapp_connections", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Pools de números remetentes para rodízio dos envios de campanha
+export const senderPools = pgTable("sender_pools", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  teamId: varchar("team_id").references(() => teams.id, { onDelete: "set null" }), // compartilhado com a equipe
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Números WhatsApp de um pool, cada um com sua própria sessão
+export const whatsappSenders = pgTable("whatsapp_senders", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  poolId: varchar("pool_id").notNull().references(() => senderPools.id, { onDelete: "cascade" }),
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  label: varchar("label").notNull(),
+  sessionId: varchar("session_id").unique(),
+  connectedPhone: varchar("connected_phone"),
+  status: text("status", {
+    enum: ["DISCONNECTED", "GENERATING_QR", "WAITING_QR", "CONNECTED", "ERROR"]
+  }).default("DISCONNECTED"),
+  weight: integer("weight").default(1), // peso no rodízio ponderado
+  dailyCap: integer("daily_cap").default(200), // máximo de envios por dia
+  sentToday: integer("sent_today").default(0),
+  sentTodayDate: date("sent_today_date"),
+  totalSent: integer("total_sent").default(0),
+  // Retirado do rodízio automaticamente (desconexão/erro) ou manualmente
+  active: boolean("active").default(true),
+  removedReason: text("removed_reason"),
+  removedAt: timestamp("removed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_whatsapp_senders_pool").on(table.poolId),
+]);
+
+// Configurações SMTP para campanhas por email (senha criptografada em repouso)
+export const emailConfigurations = pgTable("email_configurations", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  provider: text("provider", { enum: ["gmail", "outlook", "sendgrid", "custom"] }).default("custom"),
+  host: varchar("host").notNull(),
+  port: integer("port").notNull().default(587),
+  username: varchar("username").notNull(),
+  passwordEncrypted: text("password_encrypted").notNull(), // AES-256-GCM, ver server/credentialCipher.ts
+  senderEmail: varchar("sender_email").notNull(),
+  senderName: varchar("sender_name"),
+  useSSL: boolean("use_ssl").default(false),
+  useTLS: boolean("use_tls").default(true),
+  // Limite de envios por hora da conta SMTP; o contador zera quando muda a hora
+  rateLimitPerHour: integer("rate_limit_per_hour").default(100),
+  sentThisHour: integer("sent_this_hour").default(0),
+  sentHourStart: timestamp("sent_hour_start"),
+  totalSent: integer("total_sent").default(0),
+  isActive: boolean("is_active").default(true),
+  status: text("status", { enum: ["UNTESTED", "CONNECTED", "ERROR"] }).default("UNTESTED"),
+  lastError: text("last_error"),
+  lastTestedAt: timestamp("last_tested_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_email_configurations_user").on(table.userId),
+]);
+
+// Biblioteca de mídia: imagens, PDFs e vídeos curtos anexados a campanhas e conversas.
+// O arquivo fica em disco (MEDIA_STORAGE_DIR); aqui só os metadados
+export const mediaAssets = pgTable("media_assets", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(), // nome original do arquivo
+  kind: text("kind", { enum: ["IMAGE", "DOCUMENT", "VIDEO"] }).notNull(),
+  mimeType: varchar("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  storagePath: varchar("storage_path").notNull(), // relativo ao diretório de mídia
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_media_assets_user").on(table.userId),
+]);
+
 // Histórico de Validações de Números WhatsApp (cada validação = 1 registro)
 export const phoneValidations = pgTable("phone_validations", {
   id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
@@ -383,6 +579,82 @@ export const phoneValidationCache = pgTable("phone_validation_cache", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Inbox WhatsApp compartilhado: uma conversa por número de contato em cada sessão
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }), // dono da sessão WhatsApp
+  phone: varchar("phone").notNull(), // formato +55DDNNNNNNNNN
+  contactName: varchar("contact_name"),
+  status: text("status", { enum: ["OPEN", "PENDING", "CLOSED"] }).default("OPEN"),
+  assignedTo: varchar("assigned_to").references(() => users.id, { onDelete: "set null" }),
+  unreadCount: integer("unread_count").default(0),
+  lastMessageAt: timestamp("last_message_at"),
+  lastMessagePreview: text("last_message_preview"),
+  campaignContactId: varchar("campaign_contact_id").references(() => campaignContacts.id, { onDelete: "set null" }),
+  leadId: varchar("lead_id"),
+  companyId: varchar("company_id"),
+  // Número do pool que recebeu a última mensagem do contato; as respostas saem por ele (null = sessão do dono)
+  senderId: varchar("sender_id").references(() => whatsappSenders.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_conversations_owner_phone").on(table.ownerId, table.phone),
+]);
+
+export const conversationMessages = pgTable("conversation_messages", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  direction: text("direction", { enum: ["INBOUND", "OUTBOUND"] }).notNull(),
+  body: text("body").notNull(),
+  externalId: varchar("external_id"), // ID da mensagem no WhatsApp
+  sentBy: varchar("sent_by").references(() => users.id, { onDelete: "set null" }), // vendedor que respondeu
+  mediaAssetId: varchar("media_asset_id").references(() => mediaAssets.id, { onDelete: "set null" }), // anexo da resposta
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_conversation_messages_conversation").on(table.conversationId),
+]);
+// Evidência de consentimento (LGPD): registro de cada pedido de descadastro recebido
+export const consentRecords = pgTable("consent_records", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  phone: varchar("phone").notNull(),
+  type: text("type", { enum: ["OPTOUT"] }).notNull().default("OPTOUT"),
+  source: text("source", { enum: ["WHATSAPP_REPLY"] }).notNull(),
+  keyword: varchar("keyword"), // palavra-chave reconhecida na mensagem
+  messageText: text("message_text"),
+  externalMessageId: varchar("external_message_id"),
+  receivedAt: timestamp("received_at").notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // dono da sessão que recebeu
+  campaignId: varchar("campaign_id").references(() => massCampaigns.id, { onDelete: "set null" }),
+  cancelledContacts: integer("cancelled_contacts").default(0),
+  confirmationSent: boolean("confirmation_sent").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_consent_records_phone").on(table.phone),
+]);
+
+// Configurações gerais do sistema (chave -> valor JSON)
+export const systemSettings = pgTable("system_settings", {
+  key: varchar("key").primaryKey().notNull(),
+  value: jsonb("value").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Orçamento mensal de envios por usuário ou por equipe
+export const spendingBudgets = pgTable("spending_budgets", {
+  id: varchar("id").primaryKey().notNull().default(sql`gen_random_uuid()`),
+  scope: text("scope", { enum: ["USER", "TEAM"] }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  teamId: varchar("team_id").references(() => teams.id, { onDelete: "cascade" }),
+  monthlyLimit: decimal("monthly_limit", { precision: 10, scale: 2 }).notNull(),
+  warnedMonth: varchar("warned_month", { length: 7 }), // YYYY-MM do último aviso de 80%
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_spending_budgets_user").on(table.userId),
+  uniqueIndex("IDX_spending_budgets_team").on(table.teamId),
+]);
 
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -455,10 +727,42 @@ export const massCampaignsRelations = relations(massCampaigns, ({ one, many }) =
   contacts: many(campaignContacts),
   validations: many(listValidations),
   logs: many(campaignLogs),
+  variants: many(campaignVariants),
+  steps: many(campaignSteps),
+}));
+
+export const campaignStepsRelations = relations(campaignSteps, ({ one }) => ({
+  campaign: one(massCampaigns, { fields: [campaignSteps.campaignId], references: [massCampaigns.id] }),
+}));
+
+export const campaignVariantsRelations = relations(campaignVariants, ({ one, many }) => ({
+  campaign: one(massCampaigns, { fields: [campaignVariants.campaignId], references: [massCampaigns.id] }),
+  contacts: many(campaignContacts),
 }));
 
 export const campaignContactsRelations = relations(campaignContacts, ({ one }) => ({
   campaign: one(massCampaigns, { fields: [campaignContacts.campaignId], references: [massCampaigns.id] }),
+  sender: one(whatsappSenders, { fields: [campaignContacts.senderId], references: [whatsappSenders.id] }),
+  variant: one(campaignVariants, { fields: [campaignContacts.variantId], references: [campaignVariants.id] }),
+}));
+
+export const senderPoolsRelations = relations(senderPools, ({ one, many }) => ({
+  owner: one(users, { fields: [senderPools.ownerId], references: [users.id] }),
+  team: one(teams, { fields: [senderPools.teamId], references: [teams.id] }),
+  senders: many(whatsappSenders),
+}));
+
+export const whatsappSendersRelations = relations(whatsappSenders, ({ one }) => ({
+  pool: one(senderPools, { fields: [whatsappSenders.poolId], references: [senderPools.id] }),
+  owner: one(users, { fields: [whatsappSenders.ownerId], references: [users.id] }),
+}));
+
+export const mediaAssetsRelations = relations(mediaAssets, ({ one }) => ({
+  user: one(users, { fields: [mediaAssets.userId], references: [users.id] }),
+}));
+
+export const emailConfigurationsRelations = relations(emailConfigurations, ({ one }) => ({
+  user: one(users, { fields: [emailConfigurations.userId], references: [users.id] }),
 }));
 
 export const phoneBlacklistRelations = relations(phoneBlacklist, ({ one }) => ({
@@ -474,6 +778,16 @@ export const campaignLogsRelations = relations(campaignLogs, ({ one }) => ({
   contact: one(campaignContacts, { fields: [campaignLogs.contactId], references: [campaignContacts.id] }),
 }));
 
+export const campaignReviewsRelations = relations(campaignReviews, ({ one }) => ({
+  campaign: one(massCampaigns, { fields: [campaignReviews.campaignId], references: [massCampaigns.id] }),
+  actor: one(users, { fields: [campaignReviews.actorId], references: [users.id] }),
+}));
+
+export const campaignContactAttemptsRelations = relations(campaignContactAttempts, ({ one }) => ({
+  campaign: one(massCampaigns, { fields: [campaignContactAttempts.campaignId], references: [massCampaigns.id] }),
+  contact: one(campaignContacts, { fields: [campaignContactAttempts.contactId], references: [campaignContacts.id] }),
+}));
+
 export const phoneValidationsRelations = relations(phoneValidations, ({ one }) => ({
   validatedByUser: one(users, { fields: [phoneValidations.validatedBy], references: [users.id] }),
 }));
@@ -482,6 +796,21 @@ export const phoneValidationCacheRelations = relations(phoneValidationCache, ({
   // No direct user relation for cache table
 }));
 
+// Inbox Relations
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  owner: one(users, { fields: [conversations.ownerId], references: [users.id] }),
+  assignee: one(users, { fields: [conversations.assignedTo], references: [users.id] }),
+  campaignContact: one(campaignContacts, { fields: [conversations.campaignContactId], references: [campaignContacts.id] }),
+  lead: one(leads, { fields: [conversations.leadId], references: [leads.id] }),
+  company: one(companies, { fields: [conversations.companyId], references: [companies.id] }),
+  messages: many(conversationMessages),
+}));
+
+export const conversationMessagesRelations = relations(conversationMessages, ({ one }) => ({
+  conversation: one(conversations, { fields: [conversationMessages.conversationId], references: [conversations.id] }),
+  sender: one(users, { fields: [conversationMessages.sentBy], references: [users.id] }),
+}));
+
 // Schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -489,6 +818,13 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  isRead: true,
+  readAt: true,
+  createdAt: true,
+});
+
 export const insertCompanySchema = createInsertSchema(companies).omit({
   id: true,
   createdAt: true,
@@ -520,7 +856,9 @@ export const insertInteractionSchema = createInsertSchema(interactions).omit({
 });
 
 // Mass Messaging Module Schemas
-export const insertMassCampaignSchema = createInsertSchema(massCampaigns).omit({
+export const insertMassCampaignSchema = createInsertSchema(massCampaigns, {
+  retryAttempts: (schema) => schema.int().min(1).max(MAX_RETRY_ATTEMPTS),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -531,6 +869,16 @@ export const insertCampaignContactSchema = createInsertSchema(campaignContacts).
   createdAt: true,
 });
 
+export const insertCampaignVariantSchema = createInsertSchema(campaignVariants).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCampaignStepSchema = createInsertSchema(campaignSteps).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertPhoneBlacklistSchema = createInsertSchema(phoneBlacklist).omit({
   id: true,
   createdAt: true,
@@ -546,12 +894,53 @@ export const insertCampaignLogSchema = createInsertSchema(campaignLogs).omit({
   timestamp: true,
 });
 
+export const insertCampaignReviewSchema = createInsertSchema(campaignReviews).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertWhatsappConnectionSchema = createInsertSchema(whatsappConnections).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertSenderPoolSchema = createInsertSchema(senderPools).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWhatsappSenderSchema = createInsertSchema(whatsappSenders).omit({
+  id: true,
+  sentToday: true,
+  sentTodayDate: true,
+  totalSent: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertMediaAssetSchema = createInsertSchema(mediaAssets).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEmailConfigurationSchema = createInsertSchema(emailConfigurations).omit({
+  id: true,
+  sentThisHour: true,
+  sentHourStart: true,
+  totalSent: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSpendingBudgetSchema = createInsertSchema(spendingBudgets).omit({
+  id: true,
+  warnedMonth: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertPhoneValidationSchema = createInsertSchema(phoneValidations).omit({
   id: true,
   createdAt: true,
@@ -563,9 +952,31 @@ export const insertPhoneValidationCacheSchema = createInsertSchema(phoneValidati
   updatedAt: true,
 });
 
+export const insertCampaignContactAttemptSchema = createInsertSchema(campaignContactAttempts).omit({
+  id: true,
+  attemptedAt: true,
+});
+
+export const insertConsentRecordSchema = createInsertSchema(consentRecords).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertConversationMessageSchema = createInsertSchema(conversationMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type Team = typeof teams.$inferSelect;
 export type Company = typeof companies.$inferSelect;
 export type Lead = typeof leads.$inferSelect;
 export type Sale = typeof sales.$inferSelect;
@@ -577,6 +988,7 @@ export type Achievement = typeof achievements.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 export type InsertSale = z.infer<typeof insertSaleSchema>;
@@ -586,18 +998,55 @@ export type InsertInteraction = z.infer<typeof insertInteractionSchema>;
 // Mass Messaging Module Types
 export type MassCampaign = typeof massCampaigns.$inferSelect;
 export type CampaignContact = typeof campaignContacts.$inferSelect;
+export type CampaignVariant = typeof campaignVariants.$inferSelect;
+export type CampaignStep = typeof campaignSteps.$inferSelect;
 export type PhoneBlacklist = typeof phoneBlacklist.$inferSelect;
 export type ListValidation = typeof listValidations.$inferSelect;
 export type CampaignLog = typeof campaignLogs.$inferSelect;
+export type CampaignReview = typeof campaignReviews.$inferSelect;
+export type CampaignContactAttempt = typeof campaignContactAttempts.$inferSelect;
 export type PhoneValidation = typeof phoneValidations.$inferSelect;
 export type PhoneValidationCache = typeof phoneValidationCache.$inferSelect;
 export type WhatsappConnection = typeof whatsappConnections.$inferSelect;
+export type ConsentRecord = typeof consentRecords.$inferSelect;
+export type SystemSetting = typeof systemSettings.$inferSelect;
 
 export type InsertMassCampaign = z.infer<typeof insertMassCampaignSchema>;
 export type InsertCampaignContact = z.infer<typeof insertCampaignContactSchema>;
+export type InsertCampaignVariant = z.infer<typeof insertCampaignVariantSchema>;
+export type InsertCampaignStep = z.infer<typeof insertCampaignStepSchema>;
 export type InsertPhoneBlacklist = z.infer<typeof insertPhoneBlacklistSchema>;
 export type InsertListValidation = z.infer<typeof insertListValidationSchema>;
 export type InsertCampaignLog = z.infer<typeof insertCampaignLogSchema>;
+export type InsertCampaignReview = z.infer<typeof insertCampaignReviewSchema>;
+export type InsertCampaignContactAttempt = z.infer<typeof insertCampaignContactAttemptSchema>;
 export type InsertPhoneValidation = z.infer<typeof insertPhoneValidationSchema>;
 export type InsertPhoneValidationCache = z.infer<typeof insertPhoneValidationCacheSchema>;
 export type InsertWhatsappConnection = z.infer<typeof insertWhatsappConnectionSchema>;
+export type InsertConsentRecord = z.infer<typeof insertConsentRecordSchema>;
+
+// Sender Pool Types
+export type SenderPool = typeof senderPools.$inferSelect;
+export type WhatsappSender = typeof whatsappSenders.$inferSelect;
+
+export type InsertSenderPool = z.infer<typeof insertSenderPoolSchema>;
+export type InsertWhatsappSender = z.infer<typeof insertWhatsappSenderSchema>;
+
+// Media Types
+export type MediaAsset = typeof mediaAssets.$inferSelect;
+export type InsertMediaAsset = z.infer<typeof insertMediaAssetSchema>;
+
+// Email Types
+export type EmailConfiguration = typeof emailConfigurations.$inferSelect;
+export type InsertEmailConfiguration = z.infer<typeof insertEmailConfigurationSchema>;
+
+// Budget Types
+export type SpendingBudget = typeof spendingBudgets.$inferSelect;
+export type InsertSpendingBudget = z.infer<typeof insertSpendingBudgetSchema>;
+
+// Inbox Types
+export type Conversation = typeof conversations.$inferSelect;
+export type ConversationMessage = typeof conversationMessages.$inferSelect;
+
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type InsertConversationMessage = z.infer<typeof insertConversationMessageSchema>;
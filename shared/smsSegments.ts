@@ -0,0 +1,85 @@
+// Divisão de mensagens SMS em segmentos: GSM-7 (160 caracteres, 153 por parte
+// quando concatenada) ou UCS-2 (70 caracteres, 67 por parte) quando há qualquer
+// caractere fora do alfabeto GSM, como emojis ou "ã", "á" e "ç".
+
+export type SmsEncoding = 'GSM_7' | 'UCS_2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  characters: number; // unidades cobradas: septetos no GSM-7, unidades UTF-16 no UCS-2
+  segments: number;
+  perSegment: number; // capacidade de cada segmento da mensagem
+  remaining: number; // espaço livre no último segmento
+  parts: string[];
+}
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞ\u001bÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+// Tabela de extensão: cada caractere ocupa 2 septetos (escape + caractere)
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+const GSM_BASIC_SET = new Set(Array.from(GSM_BASIC));
+const GSM_EXTENDED_SET = new Set(Array.from(GSM_EXTENDED));
+
+const LIMITS: Record<SmsEncoding, { single: number; multipart: number }> = {
+  GSM_7: { single: 160, multipart: 153 },
+  UCS_2: { single: 70, multipart: 67 },
+};
+
+export function isGsm7(text: string): boolean {
+  return Array.from(text).every(char => GSM_BASIC_SET.has(char) || GSM_EXTENDED_SET.has(char));
+}
+
+// Tamanho de um caractere na codificação escolhida
+function charLength(char: string, encoding: SmsEncoding): number {
+  if (encoding === 'UCS_2') return char.length; // pares substitutos (emojis) ocupam 2 unidades
+  return GSM_EXTENDED_SET.has(char) ? 2 : 1;
+}
+
+/**
+ * Split a message into the SMS segments the carrier will bill. Characters are never
+ * split across parts: an extension character or a surrogate pair that does not fit
+ * goes to the next segment.
+ */
+export function splitSmsSegments(text: string): SmsSegmentInfo {
+  const encoding: SmsEncoding = isGsm7(text) ? 'GSM_7' : 'UCS_2';
+  const chars = Array.from(text);
+  const characters = chars.reduce((total, char) => total + charLength(char, encoding), 0);
+  const limits = LIMITS[encoding];
+
+  if (characters <= limits.single) {
+    return {
+      encoding,
+      characters,
+      segments: text.length > 0 ? 1 : 0,
+      perSegment: limits.single,
+      remaining: limits.single - characters,
+      parts: text.length > 0 ? [text] : [],
+    };
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  for (const char of chars) {
+    const length = charLength(char, encoding);
+    if (currentLength + length > limits.multipart) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += length;
+  }
+  parts.push(current);
+
+  return {
+    encoding,
+    characters,
+    segments: parts.length,
+    perSegment: limits.multipart,
+    remaining: limits.multipart - currentLength,
+    parts,
+  };
+}
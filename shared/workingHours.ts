@@ -0,0 +1,342 @@
+// Janela de envio das campanhas: horários por dia da semana, fuso IANA,
+// feriados brasileiros e horário local do destinatário inferido pelo DDD.
+
+export interface DayWindow {
+  start: string; // "08:00"
+  end: string;   // "18:00"
+}
+
+export interface WorkingHoursConfig {
+  enabled: boolean;
+  timezone: string; // IANA, ex.: "America/Sao_Paulo"
+  days: Record<string, DayWindow | null>; // "0"=domingo ... "6"=sábado; ausente/null = sem envio
+  skipHolidays: boolean;
+  state?: string | null; // UF para feriados estaduais
+  city?: string | null;  // município para feriados municipais
+  recipientLocalTime: boolean; // usar o fuso/UF do DDD de cada contato
+}
+
+// Feriado fixo ("MM-DD"), de um ano específico ("YYYY-MM-DD") ou móvel (dias a partir da Páscoa)
+export interface HolidayRule {
+  name: string;
+  date?: string;
+  easterOffset?: number;
+}
+
+// Extensões cadastradas pelos gestores, somadas aos feriados embutidos
+export interface HolidayCalendar {
+  state: Record<string, HolidayRule[]>;     // chave: UF
+  municipal: Record<string, HolidayRule[]>; // chave: "UF:Cidade"
+}
+
+export type SendWindowBlock = 'HOLIDAY' | 'DAY_OFF' | 'OUTSIDE_HOURS';
+
+export interface SendWindowCheck {
+  allowed: boolean;
+  reason?: SendWindowBlock;
+  holiday?: string;
+  timezone: string;
+  localTime: string; // "HH:MM" no fuso avaliado
+}
+
+export const DEFAULT_TIMEZONE = "America/Sao_Paulo";
+
+export const WEEKDAY_LABELS = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
+
+// Fusos horários brasileiros oferecidos no formulário
+export const BRAZIL_TIMEZONES = [
+  { value: "America/Sao_Paulo", label: "Brasília (UTC-3)" },
+  { value: "America/Manaus", label: "Amazonas (UTC-4)" },
+  { value: "America/Cuiaba", label: "Mato Grosso (UTC-4)" },
+  { value: "America/Campo_Grande", label: "Mato Grosso do Sul (UTC-4)" },
+  { value: "America/Porto_Velho", label: "Rondônia (UTC-4)" },
+  { value: "America/Boa_Vista", label: "Roraima (UTC-4)" },
+  { value: "America/Rio_Branco", label: "Acre (UTC-5)" },
+  { value: "America/Noronha", label: "Fernando de Noronha (UTC-2)" },
+];
+
+export const BRAZIL_STATES = [
+  "AC", "AL", "AP", "AM", "BA", "CE", "DF", "ES", "GO", "MA", "MT", "MS", "MG", "PA",
+  "PB", "PR", "PE", "PI", "RJ", "RN", "RS", "RO", "RR", "SC", "SP", "SE", "TO",
+];
+
+// Fuso de cada UF (capital). Fernando de Noronha usa o DDD 81 de Recife, então o fuso
+// do arquipélago só é aplicado quando o contato traz "timezone" nos dados personalizados.
+const STATE_TIMEZONES: Record<string, string> = {
+  AC: "America/Rio_Branco",
+  AM: "America/Manaus",
+  RR: "America/Boa_Vista",
+  RO: "America/Porto_Velho",
+  MT: "America/Cuiaba",
+  MS: "America/Campo_Grande",
+  PA: "America/Belem",
+  AP: "America/Belem",
+  TO: "America/Araguaina",
+  MA: "America/Fortaleza",
+  PI: "America/Fortaleza",
+  CE: "America/Fortaleza",
+  RN: "America/Fortaleza",
+  PB: "America/Fortaleza",
+  PE: "America/Recife",
+  AL: "America/Maceio",
+  SE: "America/Maceio",
+  BA: "America/Bahia",
+};
+
+const DDD_STATES: Record<string, string> = {
+  "11": "SP", "12": "SP", "13": "SP", "14": "SP", "15": "SP", "16": "SP", "17": "SP", "18": "SP", "19": "SP",
+  "21": "RJ", "22": "RJ", "24": "RJ", "27": "ES", "28": "ES",
+  "31": "MG", "32": "MG", "33": "MG", "34": "MG", "35": "MG", "37": "MG", "38": "MG",
+  "41": "PR", "42": "PR", "43": "PR", "44": "PR", "45": "PR", "46": "PR",
+  "47": "SC", "48": "SC", "49": "SC",
+  "51": "RS", "53": "RS", "54": "RS", "55": "RS",
+  "61": "DF", "62": "GO", "64": "GO", "63": "TO",
+  "65": "MT", "66": "MT", "67": "MS", "68": "AC", "69": "RO",
+  "71": "BA", "73": "BA", "74": "BA", "75": "BA", "77": "BA", "79": "SE",
+  "81": "PE", "87": "PE", "82": "AL", "83": "PB", "84": "RN", "85": "CE", "88": "CE", "86": "PI", "89": "PI",
+  "91": "PA", "93": "PA", "94": "PA", "92": "AM", "97": "AM", "95": "RR", "96": "AP", "98": "MA", "99": "MA",
+};
+
+export const NATIONAL_HOLIDAYS: HolidayRule[] = [
+  { date: "01-01", name: "Confraternização Universal" },
+  { easterOffset: -2, name: "Sexta-feira Santa" },
+  { date: "04-21", name: "Tiradentes" },
+  { date: "05-01", name: "Dia do Trabalho" },
+  { date: "09-07", name: "Independência do Brasil" },
+  { date: "10-12", name: "Nossa Senhora Aparecida" },
+  { date: "11-02", name: "Finados" },
+  { date: "11-15", name: "Proclamação da República" },
+  { date: "11-20", name: "Dia da Consciência Negra" },
+  { date: "12-25", name: "Natal" },
+];
+
+// Principais feriados estaduais; os demais podem ser cadastrados no calendário
+export const STATE_HOLIDAYS: Record<string, HolidayRule[]> = {
+  AC: [{ date: "06-15", name: "Aniversário do Acre" }, { date: "11-17", name: "Tratado de Petrópolis" }],
+  AL: [{ date: "09-16", name: "Emancipação Política de Alagoas" }],
+  AM: [{ date: "09-05", name: "Elevação do Amazonas a Província" }],
+  AP: [{ date: "03-19", name: "Dia de São José" }],
+  BA: [{ date: "07-02", name: "Independência da Bahia" }],
+  CE: [{ date: "03-25", name: "Data Magna do Ceará" }],
+  DF: [{ date: "11-30", name: "Dia do Evangélico" }],
+  MA: [{ date: "07-28", name: "Adesão do Maranhão à Independência" }],
+  MS: [{ date: "10-11", name: "Criação do Estado" }],
+  PA: [{ date: "08-15", name: "Adesão do Grão-Pará à Independência" }],
+  PB: [{ date: "08-05", name: "Fundação do Estado" }],
+  PE: [{ date: "03-06", name: "Revolução Pernambucana" }],
+  PI: [{ date: "10-19", name: "Dia do Piauí" }],
+  PR: [{ date: "12-19", name: "Emancipação Política do Paraná" }],
+  RJ: [{ date: "04-23", name: "Dia de São Jorge" }],
+  RN: [{ date: "10-03", name: "Mártires de Cunhaú e Uruaçu" }],
+  RO: [{ date: "01-04", name: "Criação do Estado" }],
+  RR: [{ date: "10-05", name: "Criação do Estado" }],
+  RS: [{ date: "09-20", name: "Revolução Farroupilha" }],
+  SE: [{ date: "07-08", name: "Emancipação Política de Sergipe" }],
+  SP: [{ date: "07-09", name: "Revolução Constitucionalista" }],
+  TO: [{ date: "10-05", name: "Criação do Estado" }],
+};
+
+export const MUNICIPAL_HOLIDAYS: Record<string, HolidayRule[]> = {
+  "SP:SAO PAULO": [{ date: "01-25", name: "Aniversário de São Paulo" }],
+  "RJ:RIO DE JANEIRO": [{ date: "01-20", name: "Dia de São Sebastião" }],
+};
+
+/**
+ * Key used for municipal holidays: UF plus the city name without accents, uppercased
+ */
+export function municipalityKey(state: string, city: string): string {
+  const normalizedCity = city.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toUpperCase().trim();
+  return `${state.toUpperCase()}:${normalizedCity}`;
+}
+
+function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== "string" || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize the stored workingHours JSON, including the legacy
+ * {enabled, start, end, daysOfWeek} shape. Returns null when there is no restriction.
+ */
+export function normalizeWorkingHours(raw: unknown): WorkingHoursConfig | null {
+  if (!raw || typeof raw !== "object") return null;
+  const value = raw as Record<string, any>;
+  if (value.enabled === false) return null;
+
+  let days: Record<string, DayWindow | null>;
+  if (value.days && typeof value.days === "object") {
+    days = value.days;
+  } else {
+    const window = { start: value.start || "08:00", end: value.end || "18:00" };
+    const daysOfWeek: number[] = Array.isArray(value.daysOfWeek) ? value.daysOfWeek : [0, 1, 2, 3, 4, 5, 6];
+    days = Object.fromEntries(daysOfWeek.map(day => [String(day), window]));
+  }
+
+  return {
+    enabled: true,
+    timezone: isValidTimezone(value.timezone) ? value.timezone : DEFAULT_TIMEZONE,
+    days,
+    skipHolidays: value.skipHolidays === true,
+    state: value.state || null,
+    city: value.city || null,
+    recipientLocalTime: value.recipientLocalTime === true,
+  };
+}
+
+/**
+ * State and timezone of a Brazilian number from its DDD (accepts "+55DD...", "55DD..." or "DD...")
+ */
+export function getRecipientLocation(phone: string): { ddd: string; state: string; timezone: string } | null {
+  let digits = phone.replace(/\D/g, "");
+  if (digits.startsWith("55") && digits.length >= 12) digits = digits.slice(2);
+  const ddd = digits.slice(0, 2);
+  const state = DDD_STATES[ddd];
+  if (!state) return null;
+  return { ddd, state, timezone: STATE_TIMEZONES[state] || DEFAULT_TIMEZONE };
+}
+
+// Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher), em UTC
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function matchesRule(rule: HolidayRule, year: number, monthDay: string): boolean {
+  if (rule.easterOffset !== undefined) {
+    const date = easterSunday(year);
+    date.setUTCDate(date.getUTCDate() + rule.easterOffset);
+    return date.toISOString().slice(5, 10) === monthDay;
+  }
+  if (!rule.date) return false;
+  return rule.date.length === 10 ? rule.date === `${year}-${monthDay}` : rule.date === monthDay;
+}
+
+/**
+ * Holiday observed on the given local date for the state/city, if any.
+ * Built-in national, state and municipal holidays are merged with the custom calendar.
+ */
+export function findHoliday(
+  date: { year: number; month: number; day: number },
+  location: { state?: string | null; city?: string | null },
+  calendar?: HolidayCalendar
+): HolidayRule | undefined {
+  const monthDay = `${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+  const rules = [...NATIONAL_HOLIDAYS];
+
+  const state = location.state?.toUpperCase();
+  if (state) {
+    rules.push(...(STATE_HOLIDAYS[state] || []), ...(calendar?.state[state] || []));
+    if (location.city) {
+      const key = municipalityKey(state, location.city);
+      rules.push(...(MUNICIPAL_HOLIDAYS[key] || []), ...(calendar?.municipal[key] || []));
+    }
+  }
+
+  return rules.find(rule => matchesRule(rule, date.year, monthDay));
+}
+
+/**
+ * Calendar date, weekday and minutes since midnight of an instant in the given timezone
+ */
+export function getLocalTime(at: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || "";
+
+  const hour = Number(part("hour"));
+  const minute = Number(part("minute"));
+  return {
+    year: Number(part("year")),
+    month: Number(part("month")),
+    day: Number(part("day")),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(part("weekday")),
+    minutes: hour * 60 + minute,
+    time: `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`,
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(":").map(Number);
+  return (hour || 0) * 60 + (minute || 0);
+}
+
+/**
+ * Whether a message may be sent at the given instant. With recipientLocalTime the
+ * recipient's DDD decides the timezone and the state/city used for holidays.
+ */
+export function checkSendWindow(
+  config: WorkingHoursConfig,
+  at: Date,
+  options: {
+    recipient?: { phone?: string | null; cidade?: string | null; customData?: unknown };
+    calendar?: HolidayCalendar;
+  } = {}
+): SendWindowCheck {
+  let timezone = config.timezone;
+  let state = config.state;
+  let city = config.city;
+
+  const recipient = options.recipient;
+  if (config.recipientLocalTime && recipient) {
+    const location = recipient.phone ? getRecipientLocation(recipient.phone) : null;
+    const customTimezone = (recipient.customData as Record<string, unknown> | null | undefined)?.timezone;
+    if (location) {
+      timezone = location.timezone;
+      state = location.state;
+      city = recipient.cidade || null;
+    }
+    if (isValidTimezone(customTimezone)) {
+      timezone = customTimezone;
+    }
+  }
+
+  const local = getLocalTime(at, timezone);
+  const result = { timezone, localTime: local.time };
+
+  if (config.skipHolidays) {
+    const holiday = findHoliday(local, { state, city }, options.calendar);
+    if (holiday) {
+      return { ...result, allowed: false, reason: 'HOLIDAY', holiday: holiday.name };
+    }
+  }
+
+  const window = config.days[String(local.weekday)];
+  if (!window) {
+    return { ...result, allowed: false, reason: 'DAY_OFF' };
+  }
+
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  // Janelas que cruzam a meia-noite (ex.: 22:00-02:00)
+  const inside = start <= end
+    ? local.minutes >= start && local.minutes < end
+    : local.minutes >= start || local.minutes < end;
+
+  return inside ? { ...result, allowed: true } : { ...result, allowed: false, reason: 'OUTSIDE_HOURS' };
+}